@@ -0,0 +1,74 @@
+-- Full-text search support for GET /api/schools/search
+-- Adds the pg_trgm extension, transliteration/search helper functions and the indexes they use
+-- SAFE TO RUN: Only creates extensions, functions and indexes, does not modify data
+
+-- Trigram matching for fuzzy and partial name searches
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Georgian (Mkhedruli) to Latin transliteration, lowercased
+-- Keep in sync with backend/src/utils/transliterate.ts
+CREATE OR REPLACE FUNCTION georgian_to_latin(input text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT translate(
+    replace(replace(replace(replace(replace(replace(replace(replace(replace(
+      lower(coalesce(input, '')),
+      'ჟ', 'zh'), 'ღ', 'gh'), 'შ', 'sh'), 'ჩ', 'ch'), 'ც', 'ts'),
+      'ძ', 'dz'), 'წ', 'ts'), 'ჭ', 'ch'), 'ხ', 'kh'),
+    'აბგდევზთიკლმნოპრსტუფქყჯჰ',
+    'abgdevztiklmnoprstupkqjh'
+  )
+$$;
+
+-- Weighted search document for a school's own text fields
+-- A: name, B: people and description, C: other programs
+CREATE OR REPLACE FUNCTION school_search_document(
+  name text,
+  description text,
+  director text,
+  founder text,
+  other_programs text
+)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT
+    setweight(to_tsvector('simple', georgian_to_latin(name)), 'A') ||
+    setweight(to_tsvector('simple', georgian_to_latin(concat_ws(' ', director, founder, description))), 'B') ||
+    setweight(to_tsvector('simple', georgian_to_latin(other_programs)), 'C')
+$$;
+
+-- Full-text index over the school's own fields
+CREATE INDEX IF NOT EXISTS "SchoolData_search_document_idx" ON "SchoolData"
+  USING GIN (school_search_document("name", "description", "director", "founder", "otherPrograms"));
+
+-- Trigram index on the transliterated name (typo-tolerant and partial matches)
+CREATE INDEX IF NOT EXISTS "SchoolData_name_trgm_idx" ON "SchoolData"
+  USING GIN (georgian_to_latin("name") gin_trgm_ops);
+
+-- Full-text indexes on clubs and circles of each level
+CREATE INDEX IF NOT EXISTS "Primary_clubsAndCircles_search_idx" ON "Primary"
+  USING GIN (to_tsvector('simple', georgian_to_latin("clubsAndCircles")));
+CREATE INDEX IF NOT EXISTS "Basic_clubsAndCircles_search_idx" ON "Basic"
+  USING GIN (to_tsvector('simple', georgian_to_latin("clubsAndCircles")));
+CREATE INDEX IF NOT EXISTS "Secondary_clubsAndCircles_search_idx" ON "Secondary"
+  USING GIN (to_tsvector('simple', georgian_to_latin("clubsAndCircles")));
+
+-- Verify indexes were created
+SELECT
+    tablename,
+    indexname,
+    indexdef
+FROM
+    pg_indexes
+WHERE
+    schemaname = 'public'
+    AND (indexname LIKE '%search%' OR indexname LIKE '%trgm%')
+ORDER BY
+    tablename,
+    indexname;
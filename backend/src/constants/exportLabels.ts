@@ -0,0 +1,181 @@
+// Spreadsheet export column headers, the labels the dashboard shows for each field
+// Keep in sync with frontend/src/messages/{en,ka}.json when fields or labels change
+
+import { ExportLanguage } from "../schemas/schoolQuery.schema";
+
+export const EXPORT_COLUMN_LABELS: Record<ExportLanguage, Record<string, string>> = {
+  en: {
+    id: "Id",
+    status: "Status",
+    tags: "Tags",
+    name: "School Name",
+    phoneNumber1: "Primary Phone Number",
+    phoneNumber2: "Secondary Phone Number",
+    phoneNumber3: "Tertiary Phone Number",
+    schoolsWebSite: "School Website",
+    facebookProfileURL: "Facebook Profile",
+    instagramProfileURL: "Instagram Profile",
+    founder: "Founder",
+    director: "Director",
+    publicRelationsManager: "Public Relations Manager",
+    parentRelationshipManager: "Parent Relationship Manager",
+    establishedYear: "established year",
+    accreditationStatus: "accreditation status",
+    accreditationComment: "accreditation comment",
+    graduationRate: "graduation rate",
+    averageNationalExamScore: "average national exam score",
+    description: "Description",
+    otherPrograms: "Other Programs",
+    hasTutor: "Has Tutor",
+    tutorDescription: "Tutor Description",
+    hasScholarshipsGrants: "Has Scholarships Grants",
+    scholarshipsGrants: "Scholarships Grants Description",
+    hasExchangePrograms: "Has Exchange Programs",
+    exchangePrograms: "Exchange Programs Description",
+    hasOutdoorGarden: "Has Outdoor Garden",
+    outdoorGarden: "outdoorGarden Description",
+    "address.city": "Address › City",
+    "address.street": "Address › Street",
+    "address.zipCode": "Address › ZipCode",
+    "address.district": "Address › District",
+    "address.latitude": "Address › Latitude",
+    "address.longitude": "Address › Longitude",
+    "infrastructure.buildings": "Infrastructure › Buildings",
+    "infrastructure.numberOfFloors": "Infrastructure › Number of Floors",
+    "infrastructure.squareness": "Infrastructure › Squareness (m²)",
+    "infrastructure.stadiums": "Infrastructure › Stadiums",
+    "infrastructure.pools": "Infrastructure › Pools",
+    "infrastructure.courtyard": "Infrastructure › Courtyard",
+    "infrastructure.laboratories": "Infrastructure › Laboratories",
+    "infrastructure.library": "Infrastructure › Library",
+    "infrastructure.cafe": "Infrastructure › Cafeteria",
+    "primary.price": "Primary › Price",
+    "primary.duration": "Primary › Duration",
+    "primary.discountAndPaymentTerms": "Primary › Discount and Payment Terms",
+    "primary.numberOfStudents": "Primary › Number of Students",
+    "primary.meals": "Primary › Meals",
+    "primary.mealsDescription": "Primary › Meals Description",
+    "primary.transportation": "Primary › Transportation",
+    "primary.schoolUniform": "Primary › School Uniform",
+    "primary.mandatorySportsClubs": "Primary › Mandatory Sports Clubs",
+    "primary.foreignLanguages": "Primary › Foreign Languages",
+    "primary.teachingStyleBooks": "Primary › Teaching Style / Books",
+    "primary.clubsAndCircles": "Primary › Clubs and Circles",
+    "primary.textbooksPrice": "Primary › Textbooks Price",
+    "basic.price": "Basic › Price",
+    "basic.duration": "Basic › Duration",
+    "basic.discountAndPaymentTerms": "Basic › Discount and Payment Terms",
+    "basic.numberOfStudents": "Basic › Number of Students",
+    "basic.meals": "Basic › Meals",
+    "basic.mealsDescription": "Basic › Meals Description",
+    "basic.transportation": "Basic › Transportation",
+    "basic.schoolUniform": "Basic › School Uniform",
+    "basic.mandatorySportsClubs": "Basic › Mandatory Sports Clubs",
+    "basic.foreignLanguages": "Basic › Foreign Languages",
+    "basic.teachingStyleBooks": "Basic › Teaching Style / Books",
+    "basic.clubsAndCircles": "Basic › Clubs and Circles",
+    "basic.textbooksPrice": "Basic › Textbooks Price",
+    "secondary.price": "Secondary › Price",
+    "secondary.duration": "Secondary › Duration",
+    "secondary.discountAndPaymentTerms": "Secondary › Discount and Payment Terms",
+    "secondary.numberOfStudents": "Secondary › Number of Students",
+    "secondary.meals": "Secondary › Meals",
+    "secondary.mealsDescription": "Secondary › Meals Description",
+    "secondary.transportation": "Secondary › Transportation",
+    "secondary.schoolUniform": "Secondary › School Uniform",
+    "secondary.mandatorySportsClubs": "Secondary › Mandatory Sports Clubs",
+    "secondary.foreignLanguages": "Secondary › Foreign Languages",
+    "secondary.teachingStyleBooks": "Secondary › Teaching Style / Books",
+    "secondary.clubsAndCircles": "Secondary › Clubs and Circles",
+    "secondary.textbooksPrice": "Secondary › Textbooks Price",
+    createdAt: "Created",
+    updatedAt: "Last updated",
+  },
+  ka: {
+    id: "#",
+    status: "სტატუსი",
+    tags: "თეგები",
+    name: "სკოლის სახელი",
+    phoneNumber1: "პირველი ტელეფონის ნომერი",
+    phoneNumber2: "მეორე ტელეფონის ნომერი",
+    phoneNumber3: "მესამე ტელეფონის ნომერი",
+    schoolsWebSite: "სკოლის ვებსაიტი",
+    facebookProfileURL: "Facebook-ის პროფილი",
+    instagramProfileURL: "Instagram-ის პროფილი",
+    founder: "დამფუძნებელი",
+    director: "დირექტორი",
+    publicRelationsManager: "საზოგადოებასთან ურთიერთობის მენეჯერი",
+    parentRelationshipManager: "მშობლებთან ურთიერთობის მენეჯერი",
+    establishedYear: "დაარსების წელი",
+    accreditationStatus: "აკრედიტაციის სტატუსი",
+    accreditationComment: "აკრედიტაციის კომენტარი",
+    graduationRate: "სკოლის დამთავრების%",
+    averageNationalExamScore: "ეროვნული გამოცდების საშუალო ქულა",
+    description: "კომენტარი",
+    otherPrograms: "სხვა პროგრამები",
+    hasTutor: "ყავს ტუტორი",
+    tutorDescription: "ტუტორის კომენტარი",
+    hasScholarshipsGrants: "სტიპენდიები/გრანტები",
+    scholarshipsGrants: "სტიპენდიების და გრანტების კომენტარი",
+    hasExchangePrograms: "გაცვლითი პროგრამები",
+    exchangePrograms: "გაცვლითი პროგრამების კომენტარი",
+    hasOutdoorGarden: "გარე ბაღი",
+    outdoorGarden: "გარე ბაღის კომენტარი",
+    "address.city": "მისამართი › ქალაქი",
+    "address.street": "მისამართი › ქუჩა",
+    "address.zipCode": "მისამართი › საფოსტო კოდი",
+    "address.district": "მისამართი › უბანი",
+    "address.latitude": "მისამართი › განედი",
+    "address.longitude": "მისამართი › გრძედი",
+    "infrastructure.buildings": "ინფრასტრუქტურა › შენობები",
+    "infrastructure.numberOfFloors": "ინფრასტრუქტურა › სართულების რაოდენობა",
+    "infrastructure.squareness": "ინფრასტრუქტურა › კვადრატულობა (მ²)",
+    "infrastructure.stadiums": "ინფრასტრუქტურა › სტადიონები",
+    "infrastructure.pools": "ინფრასტრუქტურა › აუზები",
+    "infrastructure.courtyard": "ინფრასტრუქტურა › ეზო",
+    "infrastructure.laboratories": "ინფრასტრუქტურა › ლაბორატორიები",
+    "infrastructure.library": "ინფრასტრუქტურა › ბიბლიოთეკა",
+    "infrastructure.cafe": "ინფრასტრუქტურა › კაფეტერია",
+    "primary.price": "დაწყებითი › ფასი",
+    "primary.duration": "დაწყებითი › ხანგრძლივობა",
+    "primary.discountAndPaymentTerms": "დაწყებითი › ფასდაკლება და გადახდის პირობები",
+    "primary.numberOfStudents": "დაწყებითი › მოსწავლეთა რაოდენობა",
+    "primary.meals": "დაწყებითი › კვება",
+    "primary.mealsDescription": "დაწყებითი › კვების კომენტარი",
+    "primary.transportation": "დაწყებითი › ტრანსპორტი",
+    "primary.schoolUniform": "დაწყებითი › სკოლის ფორმა",
+    "primary.mandatorySportsClubs": "დაწყებითი › სავალდებულო სპორტული კლუბები",
+    "primary.foreignLanguages": "დაწყებითი › უცხო ენები",
+    "primary.teachingStyleBooks": "დაწყებითი › სასწავლო მეთოდები / წიგნები",
+    "primary.clubsAndCircles": "დაწყებითი › წრეები და კლუბები",
+    "primary.textbooksPrice": "დაწყებითი › სასწავლო წიგნების ფასი",
+    "basic.price": "საბაზო › ფასი",
+    "basic.duration": "საბაზო › ხანგრძლივობა",
+    "basic.discountAndPaymentTerms": "საბაზო › ფასდაკლება და გადახდის პირობები",
+    "basic.numberOfStudents": "საბაზო › მოსწავლეთა რაოდენობა",
+    "basic.meals": "საბაზო › კვება",
+    "basic.mealsDescription": "საბაზო › კვების კომენტარი",
+    "basic.transportation": "საბაზო › ტრანსპორტი",
+    "basic.schoolUniform": "საბაზო › სკოლის ფორმა",
+    "basic.mandatorySportsClubs": "საბაზო › სავალდებულო სპორტული კლუბები",
+    "basic.foreignLanguages": "საბაზო › უცხო ენები",
+    "basic.teachingStyleBooks": "საბაზო › სასწავლო მეთოდები / წიგნები",
+    "basic.clubsAndCircles": "საბაზო › წრეები და კლუბები",
+    "basic.textbooksPrice": "საბაზო › სასწავლო წიგნების ფასი",
+    "secondary.price": "საშუალო › ფასი",
+    "secondary.duration": "საშუალო › ხანგრძლივობა",
+    "secondary.discountAndPaymentTerms": "საშუალო › ფასდაკლება და გადახდის პირობები",
+    "secondary.numberOfStudents": "საშუალო › მოსწავლეთა რაოდენობა",
+    "secondary.meals": "საშუალო › კვება",
+    "secondary.mealsDescription": "საშუალო › კვების კომენტარი",
+    "secondary.transportation": "საშუალო › ტრანსპორტი",
+    "secondary.schoolUniform": "საშუალო › სკოლის ფორმა",
+    "secondary.mandatorySportsClubs": "საშუალო › სავალდებულო სპორტული კლუბები",
+    "secondary.foreignLanguages": "საშუალო › უცხო ენები",
+    "secondary.teachingStyleBooks": "საშუალო › სასწავლო მეთოდები / წიგნები",
+    "secondary.clubsAndCircles": "საშუალო › წრეები და კლუბები",
+    "secondary.textbooksPrice": "საშუალო › სასწავლო წიგნების ფასი",
+    createdAt: "შექმნის თარიღი",
+    updatedAt: "ბოლო განახლება",
+  },
+};
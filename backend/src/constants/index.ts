@@ -0,0 +1,81 @@
+// src/constants/index.ts
+// Keep in sync with frontend/src/constants/index.ts
+
+export const SPORTS_CLUBS = [
+  "Swimming",
+  "basketball",
+  "football",
+  "chess",
+  "karate",
+  "volleyball",
+  "tennis",
+  "wrestling",
+  "judo",
+  "yoga",
+  "gymnastics",
+] as const;
+
+export const FOREIGN_LANGUAGES = [
+  "German",
+  "French",
+  "Russian",
+  "Spanish",
+  "Italian",
+  "Chinese",
+  "Turkish",
+  "Japanese",
+] as const;
+
+export const MEAL_OPTIONS = [
+  "noMeals",
+  "includedInThePrice",
+  "notIncludedInThePrice",
+] as const;
+
+export const TRANSPORTATION_OPTIONS = [
+  "noTransportationService",
+  "includedInThePrice",
+  "notIncludedInThePrice",
+] as const;
+
+export const ACCREDITATION_STATUS = [
+  "accredited",
+  "notAccredited",
+  "inProgress",
+] as const;
+
+// Only published schools are shown to the public
+export const SCHOOL_STATUSES = [
+  "draft",
+  "published",
+  "archived",
+] as const;
+
+export const INFRASTRUCTURE_FLAGS = [
+  "buildings",
+  "stadiums",
+  "pools",
+  "courtyard",
+  "laboratories",
+  "library",
+  "cafe",
+] as const;
+
+export const SCHOOL_LEVELS = ["primary", "basic", "secondary"] as const;
+
+// Fee schedule of a level
+export const FEE_TYPES = [
+  "tuition",
+  "registration",
+  "textbooks",
+  "meals",
+  "transport",
+  "uniform",
+] as const;
+
+export const FEE_PERIODS = ["annual", "monthly", "one_off"] as const;
+
+export const FEE_CURRENCIES = ["GEL", "USD", "EUR"] as const;
+
+export type SchoolLevel = (typeof SCHOOL_LEVELS)[number];
+export type InfrastructureFlag = (typeof INFRASTRUCTURE_FLAGS)[number];
@@ -92,3 +92,32 @@ export const createEmployee = async (req: Request, res: Response): Promise<void>
     });
   }
 };
+
+/**
+ * GET /api/auth/users
+ * Employees and admins, used to pick the new owner of transferred schools
+ * Requires: Admin role
+ */
+export const getUsers = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const users = await prisma.user.findMany({
+      where: { userRole: { isNot: null } },
+      orderBy: { email: 'asc' },
+      select: {
+        id: true,
+        email: true,
+        userRole: { select: { role: true } },
+      },
+    });
+
+    res.status(200).json({
+      data: users.map(({ userRole, ...user }) => ({ ...user, role: userRole!.role })),
+    });
+  } catch (error) {
+    console.error('Error listing users:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error instanceof Error ? error.message : 'Failed to list users'
+    });
+  }
+};
@@ -0,0 +1,218 @@
+import { Request, Response } from 'express';
+import { prisma } from '../lib/prisma';
+import { BulkOperation, MAX_BULK_SCHOOLS, schoolBulkSchema } from '../schemas/bulk.schema';
+import { schoolPatchSchema } from '../schemas/school.schema';
+import { schoolFiltersSchema } from '../schemas/schoolQuery.schema';
+import { formatZodError } from '../utils/validators';
+import { buildSchoolWhere, buildVisibilityWhere } from '../utils/schoolFilters';
+import { rankSchools } from '../utils/schoolSearch';
+import { IMPORT_FIELDS } from '../utils/schoolImport';
+import {
+  findStaffOwner,
+  inSchoolBatch,
+  NestedUpdateData,
+  sanitizeSchoolData,
+  saveSchoolUpdates,
+  transformNestedUpdates,
+  trashSchool,
+} from '../utils/schoolWrites';
+
+type BulkResult = 'updated' | 'deleted' | 'unchanged' | 'not_found';
+
+// Keys a filter may use, anything else is rejected so a typo cannot widen a bulk delete
+const FILTER_KEYS = new Set([...Object.keys(schoolFiltersSchema.innerType().shape), 'q']);
+
+function sendValidationError(res: Response, field: string, message: string): void {
+  res.status(400).json({
+    error: "Validation failed",
+    details: [{ field, message }]
+  });
+}
+
+/**
+ * Ids of the schools matching a GET /api/schools style filter, null after sending a 400
+ */
+async function findFilteredSchools(
+  res: Response,
+  filter: Record<string, string | string[]>,
+  userId: string | undefined
+): Promise<string[] | null> {
+  const unknown = Object.keys(filter).filter((key) => !FILTER_KEYS.has(key));
+  if (unknown.length) {
+    sendValidationError(res, 'filter', `Unknown filter: ${unknown.join(', ')}`);
+    return null;
+  }
+
+  const filters = schoolFiltersSchema.safeParse(filter);
+  if (!filters.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      details: formatZodError(filters.error).map((detail) => ({ ...detail, field: `filter.${detail.field}` }))
+    });
+    return null;
+  }
+
+  const q = typeof filter.q === 'string' ? filter.q.trim() : '';
+  const visibilityWhere = buildVisibilityWhere(userId, 'admin');
+  const baseWhere = q
+    ? {
+        AND: [
+          visibilityWhere,
+          { id: { in: (await rankSchools(q, { userId, userRole: 'admin' })).map(({ id }) => id) } },
+        ],
+      }
+    : visibilityWhere;
+
+  // One more than allowed tells whether the filter is too broad
+  const schools = await prisma.schoolData.findMany({
+    where: buildSchoolWhere(baseWhere, filters.data),
+    select: { id: true },
+    orderBy: { createdAt: 'desc' },
+    take: MAX_BULK_SCHOOLS + 1,
+  });
+  if (schools.length > MAX_BULK_SCHOOLS) {
+    sendValidationError(res, 'filter', `The filter matches more than ${MAX_BULK_SCHOOLS} schools, narrow it down`);
+    return null;
+  }
+  return schools.map((school) => school.id);
+}
+
+/**
+ * Checks the operation before anything is written
+ * Returns the update data of a setField, true for the other operations, null after sending a 400
+ */
+async function prepareOperation(res: Response, operation: BulkOperation): Promise<NestedUpdateData | true | null> {
+  if (operation.type === 'reassignOwner') {
+    if (!(await findStaffOwner(operation.ownerId))) {
+      sendValidationError(res, 'operation.ownerId', 'No employee or admin with this id');
+      return null;
+    }
+    return true;
+  }
+
+  if (operation.type !== 'setField') return true;
+
+  if (!IMPORT_FIELDS.has(operation.field)) {
+    sendValidationError(res, 'operation.field', `Unknown field "${operation.field}"`);
+    return null;
+  }
+
+  const [section, key] = operation.field.split('.');
+  const body = key ? { [section]: { [key]: operation.value } } : { [section]: operation.value };
+  const parsed = schoolPatchSchema.safeParse(body);
+  if (!parsed.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      details: formatZodError(parsed.error).map((detail) => ({ ...detail, field: 'operation.value' }))
+    });
+    return null;
+  }
+  return sanitizeSchoolData(parsed.data as NestedUpdateData);
+}
+
+/**
+ * POST /api/schools/bulk
+ * Applies one operation to many schools in a single transaction
+ * Body: { ids: string[] (max 500) } or { filter: { <GET /api/schools filters>, q? } } (max 500 matches), plus
+ *   operation: { type: "setField", field, value } | { type: "setStatus", status } | { type: "delete" }
+ *            | { type: "reassignOwner", ownerId } | { type: "addTag", tag } | { type: "removeTag", tag }
+ * Every changed school gets a revision; the report lists each school as updated, deleted, unchanged or not_found
+ * If one write fails nothing is applied
+ * Authorization: Admins only
+ */
+export const bulkUpdateSchools = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    const parsed = schoolBulkSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: formatZodError(parsed.error)
+      });
+      return;
+    }
+
+    const { ids, filter, operation } = parsed.data;
+
+    const targetIds = ids ? [...new Set(ids)] : await findFilteredSchools(res, filter!, userId);
+    if (!targetIds) return;
+
+    const update = await prepareOperation(res, operation);
+    if (!update) return;
+
+    const results = await inSchoolBatch(async (tx) => {
+      const schools = await tx.schoolData.findMany({
+        where: { id: { in: targetIds }, deletedAt: null },
+        select: { id: true, name: true, status: true, ownerId: true, tags: true },
+      });
+      const schoolsById = new Map(schools.map((school) => [school.id, school]));
+      const report: { id: string; name: string | null; result: BulkResult }[] = [];
+      const updates: { id: string; data: Record<string, unknown> }[] = [];
+
+      for (const id of targetIds) {
+        const school = schoolsById.get(id);
+        if (!school) {
+          report.push({ id, name: null, result: 'not_found' });
+          continue;
+        }
+
+        let data: Record<string, unknown> | null = null;
+        switch (operation.type) {
+          case 'delete':
+            await trashSchool(tx, id, userId);
+            report.push({ id, name: school.name, result: 'deleted' });
+            continue;
+          case 'setField':
+            // Sections are upserted, a school without the section gets one
+            data = transformNestedUpdates(update as NestedUpdateData, new Set());
+            break;
+          case 'setStatus':
+            if (school.status !== operation.status) data = { status: operation.status };
+            break;
+          case 'reassignOwner':
+            if (school.ownerId !== operation.ownerId) data = { ownerId: operation.ownerId };
+            break;
+          case 'addTag':
+            if (!school.tags.includes(operation.tag)) data = { tags: [...school.tags, operation.tag] };
+            break;
+          case 'removeTag':
+            if (school.tags.includes(operation.tag)) data = { tags: school.tags.filter((tag) => tag !== operation.tag) };
+            break;
+        }
+
+        // Schools that already match are left alone so their history stays clean
+        if (!data) {
+          report.push({ id, name: school.name, result: 'unchanged' });
+          continue;
+        }
+
+        updates.push({ id, data });
+        report.push({ id, name: school.name, result: 'updated' });
+      }
+      await saveSchoolUpdates(tx, updates, userId);
+
+      if (operation.type === 'reassignOwner') {
+        // An owner needs no collaborator access on top
+        await tx.schoolCollaborator.deleteMany({
+          where: { schoolId: { in: schools.map((school) => school.id) }, userId: operation.ownerId },
+        });
+      }
+
+      return report;
+    });
+
+    res.status(200).json({
+      operation: operation.type,
+      total: results.length,
+      changed: results.filter((item) => item.result === 'updated' || item.result === 'deleted').length,
+      results,
+    });
+  } catch (error) {
+    console.error("POST /api/schools/bulk error:", error);
+    res.status(500).json({
+      error: "Failed to apply bulk action",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
@@ -0,0 +1,310 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { changeSetApproveSchema, changeSetQuerySchema, changeSetRejectSchema } from '../schemas/changeSet.schema';
+import { SchoolFormData } from '../schemas/school.schema';
+import { formatZodError } from '../utils/validators';
+import { FieldChange } from '../utils/schoolRevisions';
+import { pickChangePaths } from '../utils/moderation';
+import {
+  findSchoolSections,
+  insertSchool,
+  NestedUpdateData,
+  saveSchoolUpdate,
+  transformNestedUpdates,
+  trashSchool,
+} from '../utils/schoolWrites';
+
+const userSelect = {
+  select: {
+    id: true,
+    email: true,
+  }
+};
+
+const changeSetInclude = {
+  school: { select: { id: true, name: true, version: true } },
+  submitter: userSelect,
+  reviewer: userSelect,
+} satisfies Prisma.SchoolChangeSetInclude;
+
+type ChangeSetWithRelations = Prisma.SchoolChangeSetGetPayload<{ include: typeof changeSetInclude }>;
+
+/**
+ * Thrown inside a transaction when another admin reviewed the change set first
+ */
+class AlreadyReviewedError extends Error {
+  constructor() {
+    super('Change set was already reviewed');
+    this.name = 'AlreadyReviewedError';
+  }
+}
+
+/**
+ * Adds the school name (taken from the submission for creations) and whether
+ * the school was changed by someone else after the submission
+ */
+function toResponse(changeSet: ChangeSetWithRelations) {
+  const submitted = changeSet.data as { name?: string };
+  return {
+    ...changeSet,
+    schoolName: changeSet.school?.name ?? submitted.name ?? null,
+    stale: changeSet.action === 'update'
+      && changeSet.status === 'pending'
+      && changeSet.school !== null
+      && changeSet.school.version !== changeSet.baseVersion,
+  };
+}
+
+function sendAlreadyReviewed(res: Response): void {
+  res.status(409).json({
+    error: 'Conflict',
+    message: 'This change set has already been reviewed'
+  });
+}
+
+/**
+ * GET /api/change-sets
+ * Submitted changes, newest first
+ * Query: status (comma-separated: pending, approved, partially_approved, rejected), limit (default 50, max 200)
+ * Admins see the whole queue (pending by default), employees see their own submissions (all by default)
+ */
+export const getChangeSets = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const query = changeSetQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      res.status(400).json({
+        error: "Invalid query parameters",
+        details: formatZodError(query.error)
+      });
+      return;
+    }
+
+    const isAdmin = req.userRole === 'admin';
+    const status = query.data.status ?? (isAdmin ? ['pending' as const] : undefined);
+    const where: Prisma.SchoolChangeSetWhereInput = {
+      ...(status && { status: { in: status } }),
+      ...(!isAdmin && { submittedBy: req.user?.id }),
+    };
+
+    const [changeSets, total] = await Promise.all([
+      prisma.schoolChangeSet.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: query.data.limit,
+        include: changeSetInclude,
+      }),
+      prisma.schoolChangeSet.count({ where }),
+    ]);
+
+    res.status(200).json({
+      data: changeSets.map(toResponse),
+      total,
+    });
+  } catch (error) {
+    console.error("GET /api/change-sets error:", error);
+    res.status(500).json({
+      error: "Failed to fetch change sets",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
+
+/**
+ * GET /api/change-sets/:id
+ * A single submission with its changes
+ * Authorization: Employees can only view their own submissions, Admins can view all
+ */
+export const getChangeSetById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const changeSet = await prisma.schoolChangeSet.findUnique({
+      where: { id: req.params.id },
+      include: changeSetInclude,
+    });
+
+    if (!changeSet) {
+      res.status(404).json({ error: 'Change set not found' });
+      return;
+    }
+
+    if (req.userRole === 'employee' && changeSet.submittedBy !== req.user?.id) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You can only view your own submissions'
+      });
+      return;
+    }
+
+    res.status(200).json(toResponse(changeSet));
+  } catch (error) {
+    console.error("GET /api/change-sets/:id error:", error);
+    res.status(500).json({
+      error: "Failed to fetch change set",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
+
+/**
+ * POST /api/change-sets/:id/approve
+ * Applies a pending submission to the school, recorded as a revision by the submitter
+ * Body: { paths?: string[] } - apply only these changes (partial approval), all when omitted
+ * A new school can only be approved as a whole, an approved delete moves the school to the trash
+ * Authorization: Admins only
+ */
+export const approveChangeSet = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const parsed = changeSetApproveSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: formatZodError(parsed.error)
+      });
+      return;
+    }
+
+    const changeSet = await prisma.schoolChangeSet.findUnique({ where: { id } });
+
+    if (!changeSet) {
+      res.status(404).json({ error: 'Change set not found' });
+      return;
+    }
+
+    if (changeSet.status !== 'pending') {
+      sendAlreadyReviewed(res);
+      return;
+    }
+
+    const allPaths = (changeSet.changes as unknown as FieldChange[]).map(change => change.path);
+    const paths = parsed.data.paths ?? allPaths;
+    const unknownPaths = paths.filter(path => !allPaths.includes(path));
+    const partial = paths.length < allPaths.length;
+
+    if (unknownPaths.length) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: [{ field: "paths", message: `Not part of this change set: ${unknownPaths.join(", ")}` }]
+      });
+      return;
+    }
+
+    if (partial && changeSet.action === 'create') {
+      res.status(400).json({
+        error: "Validation failed",
+        details: [{ field: "paths", message: "A new school can only be approved as a whole" }]
+      });
+      return;
+    }
+
+    const existing = changeSet.schoolId ? await findSchoolSections(prisma, changeSet.schoolId) : null;
+    if (changeSet.action !== 'create' && !existing) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'The school no longer exists or is in the trash'
+      });
+      return;
+    }
+
+    const data = changeSet.data as NestedUpdateData;
+    const reviewed = await prisma.$transaction(async (tx) => {
+      // Claim the change set first so two admins cannot both apply it
+      const { count } = await tx.schoolChangeSet.updateMany({
+        where: { id, status: 'pending' },
+        data: {
+          status: partial ? 'partially_approved' : 'approved',
+          ...(partial && { appliedPaths: paths }),
+          reviewedBy: req.user?.id,
+          reviewedAt: new Date(),
+        },
+      });
+      if (count === 0) {
+        throw new AlreadyReviewedError();
+      }
+
+      const schoolId = changeSet.action === 'create'
+        ? (await insertSchool(tx, changeSet.data as SchoolFormData, changeSet.submittedBy)).id
+        : changeSet.action === 'delete'
+        ? (await trashSchool(tx, changeSet.schoolId!, changeSet.submittedBy)).id
+        : (await saveSchoolUpdate(tx, {
+            id: changeSet.schoolId!,
+            data: transformNestedUpdates(partial ? pickChangePaths(data, paths) : data, existing!.sections),
+            ifMatch: '*',
+            userId: changeSet.submittedBy,
+          })).id;
+
+      return tx.schoolChangeSet.update({
+        where: { id },
+        data: { schoolId },
+        include: changeSetInclude,
+      });
+    });
+
+    res.status(200).json(toResponse(reviewed));
+  } catch (error) {
+    if (error instanceof AlreadyReviewedError) {
+      sendAlreadyReviewed(res);
+      return;
+    }
+    console.error("POST /api/change-sets/:id/approve error:", error);
+    res.status(500).json({
+      error: "Failed to approve change set",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
+
+/**
+ * POST /api/change-sets/:id/reject
+ * Rejects a pending submission, nothing is written to the school
+ * Body: { comment: string } - shown to the employee
+ * Authorization: Admins only
+ */
+export const rejectChangeSet = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const parsed = changeSetRejectSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: formatZodError(parsed.error)
+      });
+      return;
+    }
+
+    const { count } = await prisma.schoolChangeSet.updateMany({
+      where: { id, status: 'pending' },
+      data: {
+        status: 'rejected',
+        reviewComment: parsed.data.comment,
+        reviewedBy: req.user?.id,
+        reviewedAt: new Date(),
+      },
+    });
+
+    const changeSet = await prisma.schoolChangeSet.findUnique({
+      where: { id },
+      include: changeSetInclude,
+    });
+
+    if (!changeSet) {
+      res.status(404).json({ error: 'Change set not found' });
+      return;
+    }
+
+    if (count === 0) {
+      sendAlreadyReviewed(res);
+      return;
+    }
+
+    res.status(200).json(toResponse(changeSet));
+  } catch (error) {
+    console.error("POST /api/change-sets/:id/reject error:", error);
+    res.status(500).json({
+      error: "Failed to reject change set",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
@@ -0,0 +1,168 @@
+import { Request, Response } from 'express';
+import { prisma } from '../lib/prisma';
+import { collaboratorSchema } from '../schemas/collaborator.schema';
+import { formatZodError } from '../utils/validators';
+import { findSchoolAccess } from '../utils/schoolAccess';
+
+const userSelect = {
+  select: {
+    id: true,
+    email: true,
+  }
+};
+
+const collaboratorInclude = {
+  user: userSelect,
+  adder: userSelect,
+};
+
+/**
+ * Loads a school that is not in the trash with its owner
+ * Sends 404/403 and returns null unless the user is an admin, or the owner when
+ * managing, or any collaborator when only reading
+ */
+async function findSchoolForCollaborators(req: Request, res: Response, manage: boolean) {
+  const { id } = req.params;
+
+  const school = await prisma.schoolData.findFirst({
+    where: { id, deletedAt: null },
+    select: { id: true, owner: userSelect },
+  });
+
+  if (!school) {
+    res.status(404).json({ error: 'School not found' });
+    return null;
+  }
+
+  if (req.userRole !== 'admin') {
+    const access = await findSchoolAccess(prisma, id, req.user?.id);
+    if (manage ? access !== 'owner' : !access) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: manage
+          ? 'Only the owner and admins can manage collaborators'
+          : 'You can only view collaborators of schools you own or collaborate on'
+      });
+      return null;
+    }
+  }
+
+  return school;
+}
+
+/**
+ * GET /api/schools/:id/collaborators
+ * The owner and everyone else with access to the school
+ * Authorization: Admins, the owner and collaborators
+ */
+export const getCollaborators = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const school = await findSchoolForCollaborators(req, res, false);
+    if (!school) return;
+
+    const collaborators = await prisma.schoolCollaborator.findMany({
+      where: { schoolId: school.id },
+      orderBy: { createdAt: 'asc' },
+      include: collaboratorInclude,
+    });
+
+    res.status(200).json({
+      owner: school.owner,
+      data: collaborators,
+    });
+  } catch (error) {
+    console.error("GET /api/schools/:id/collaborators error:", error);
+    res.status(500).json({
+      error: "Failed to fetch collaborators",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
+
+/**
+ * POST /api/schools/:id/collaborators
+ * Gives an employee or admin view or edit access, or changes the access they have
+ * Body: { email: string, access: "view" | "edit" }
+ * Authorization: Admins and the owner
+ */
+export const addCollaborator = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parsed = collaboratorSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: formatZodError(parsed.error)
+      });
+      return;
+    }
+
+    const school = await findSchoolForCollaborators(req, res, true);
+    if (!school) return;
+
+    const { email, access } = parsed.data;
+    const user = await prisma.user.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' }, userRole: { isNot: null } },
+      select: { id: true },
+    });
+
+    if (!user) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: [{ field: "email", message: "No employee or admin with this email" }]
+      });
+      return;
+    }
+
+    if (user.id === school.owner?.id) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: [{ field: "email", message: "The owner already has full access" }]
+      });
+      return;
+    }
+
+    const collaborator = await prisma.schoolCollaborator.upsert({
+      where: { schoolId_userId: { schoolId: school.id, userId: user.id } },
+      create: { schoolId: school.id, userId: user.id, access, addedBy: req.user?.id },
+      update: { access },
+      include: collaboratorInclude,
+    });
+
+    res.status(200).json(collaborator);
+  } catch (error) {
+    console.error("POST /api/schools/:id/collaborators error:", error);
+    res.status(500).json({
+      error: "Failed to add collaborator",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
+
+/**
+ * DELETE /api/schools/:id/collaborators/:userId
+ * Takes away a collaborator's access
+ * Authorization: Admins and the owner
+ */
+export const removeCollaborator = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const school = await findSchoolForCollaborators(req, res, true);
+    if (!school) return;
+
+    const { count } = await prisma.schoolCollaborator.deleteMany({
+      where: { schoolId: school.id, userId: req.params.userId },
+    });
+
+    if (count === 0) {
+      res.status(404).json({ error: 'Collaborator not found' });
+      return;
+    }
+
+    res.status(200).json({ message: 'Collaborator removed' });
+  } catch (error) {
+    console.error("DELETE /api/schools/:id/collaborators/:userId error:", error);
+    res.status(500).json({
+      error: "Failed to remove collaborator",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
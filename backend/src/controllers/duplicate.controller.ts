@@ -0,0 +1,22 @@
+import { Request, Response } from 'express';
+import { findDuplicateClusters } from '../utils/schoolDuplicates';
+
+/**
+ * GET /api/schools/duplicates
+ * Groups of schools that look like the same school, largest groups first
+ * Each cluster lists its schools and every matching pair with the reasons (name, phone, website, address)
+ * Schools in the trash are left out
+ * Authorization: Admins only
+ */
+export const getDuplicateClusters = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const clusters = await findDuplicateClusters();
+    res.status(200).json({ data: clusters, total: clusters.length });
+  } catch (error) {
+    console.error("GET /api/schools/duplicates error:", error);
+    res.status(500).json({
+      error: "Failed to find duplicate schools",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
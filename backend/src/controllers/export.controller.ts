@@ -0,0 +1,88 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { ExportFormat, schoolExportSchema, schoolFiltersSchema } from '../schemas/schoolQuery.schema';
+import { formatZodError } from '../utils/validators';
+import { buildVisibilityWhere, buildSchoolWhere } from '../utils/schoolFilters';
+import { rankSchools } from '../utils/schoolSearch';
+import { buildOrderBy } from '../utils/pagination';
+import { buildSchoolSelect } from '../utils/fieldSelection';
+import { flattenLevelLists } from '../utils/levelLists';
+import { columnLabel, EXPORT_COLUMNS, flattenSchools, writeCsv, writeXlsx } from '../utils/schoolExport';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8',
+};
+
+/**
+ * GET /api/schools/export?format=csv|xlsx|json
+ * Downloads every school matching the filters of GET /api/schools (no pagination)
+ * q= narrows the export to the search results, in ranked order; otherwise sort= applies
+ * CSV and XLSX have one column per field with headers in lang= (en or ka, default ka),
+ * JSON keeps the nested school objects
+ * Authorization: Admins export all schools, Employees the schools they own or collaborate on
+ */
+export const exportSchools = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const userRole = req.userRole;
+
+    const filters = schoolFiltersSchema.safeParse(req.query);
+    const options = schoolExportSchema.safeParse(req.query);
+    if (!filters.success || !options.success) {
+      res.status(400).json({
+        error: "Invalid query parameters",
+        details: [
+          ...(filters.success ? [] : formatZodError(filters.error)),
+          ...(options.success ? [] : formatZodError(options.error)),
+        ]
+      });
+      return;
+    }
+
+    const { format, lang, q, sort } = options.data;
+    const visibilityWhere = buildVisibilityWhere(userId, userRole);
+
+    let rankById: Map<string, number> | undefined;
+    if (q) {
+      const ranked = await rankSchools(q, { userId, userRole });
+      rankById = new Map(ranked.map(({ id, rank }) => [id, rank]));
+    }
+
+    const baseWhere: Prisma.SchoolDataWhereInput = rankById
+      ? { AND: [visibilityWhere, { id: { in: Array.from(rankById.keys()) } }] }
+      : visibilityWhere;
+
+    const rows = await prisma.schoolData.findMany({
+      where: buildSchoolWhere(baseWhere, filters.data),
+      select: buildSchoolSelect({ fields: EXPORT_COLUMNS.join(',') }),
+      orderBy: buildOrderBy(sort),
+    });
+
+    const schools = (rankById
+      ? rows.sort((a, b) => (rankById.get(b.id) ?? 0) - (rankById.get(a.id) ?? 0))
+      : rows
+    ).map(flattenLevelLists);
+
+    const fileName = `schools-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.setHeader('Content-Type', CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+    if (format === 'json') {
+      res.status(200).json({ data: schools, total: schools.length });
+      return;
+    }
+
+    const headers = EXPORT_COLUMNS.map((column) => columnLabel(column, lang));
+    const cells = flattenSchools(schools);
+    res.status(200).send(format === 'csv' ? writeCsv(headers, cells) : await writeXlsx(headers, cells));
+  } catch (error) {
+    console.error("GET /api/schools/export error:", error);
+    res.status(500).json({
+      error: "Failed to export schools",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
@@ -0,0 +1,153 @@
+import { Request, Response } from 'express';
+import { prisma } from '../lib/prisma';
+import { gazetteerLookupSchema, MAX_GAZETTEER_ROWS } from '../schemas/geo.schema';
+import { formatZodError } from '../utils/validators';
+import { readSpreadsheet, SpreadsheetError } from '../utils/schoolImport';
+import { lookupAddress, parseGazetteer } from '../utils/gazetteer';
+
+// Rows per insert, Postgres takes at most 65535 bind parameters per statement
+const GAZETTEER_CHUNK_SIZE = 5000;
+
+/**
+ * Entry count, the cities covered and when the gazetteer was imported
+ */
+async function gazetteerSummary() {
+  const [total, cities, latest] = await Promise.all([
+    prisma.gazetteerEntry.count(),
+    prisma.gazetteerEntry.groupBy({
+      by: ['city'],
+      _count: { _all: true },
+      orderBy: { city: 'asc' },
+    }),
+    prisma.gazetteerEntry.findFirst({
+      select: { importedAt: true },
+      orderBy: { importedAt: 'desc' },
+    }),
+  ]);
+
+  return {
+    total,
+    cities: cities.map(({ city, _count }) => ({ city, count: _count._all })),
+    importedAt: latest?.importedAt ?? null,
+  };
+}
+
+/**
+ * POST /api/geo/gazetteer
+ * Replaces the gazetteer with a CSV or XLSX file (multipart/form-data, field "file")
+ * Columns: city, street, lat, lng and optionally district and house (number),
+ * Georgian headers (ქალაქი, ქუჩა, ...) are accepted too
+ * Rows without a street or valid coordinates are skipped and reported
+ * Authorization: Admins only
+ */
+export const importGazetteer = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.file) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: [{ field: "file", message: "A CSV or XLSX file is required" }]
+      });
+      return;
+    }
+
+    const sheet = await readSpreadsheet(req.file, MAX_GAZETTEER_ROWS);
+    const { entries, errors } = parseGazetteer(sheet);
+    if (entries.length === 0) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: [{ field: "file", message: "No row has a street with valid coordinates" }],
+        errors,
+      });
+      return;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.gazetteerEntry.deleteMany();
+      for (let start = 0; start < entries.length; start += GAZETTEER_CHUNK_SIZE) {
+        await tx.gazetteerEntry.createMany({ data: entries.slice(start, start + GAZETTEER_CHUNK_SIZE) });
+      }
+    }, { timeout: 120_000 });
+
+    res.status(201).json({
+      fileName: req.file.originalname,
+      imported: entries.length,
+      skipped: errors.length,
+      errors,
+      gazetteer: await gazetteerSummary(),
+    });
+  } catch (error) {
+    if (error instanceof SpreadsheetError) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: [{ field: "file", message: error.message }]
+      });
+      return;
+    }
+    console.error("POST /api/geo/gazetteer error:", error);
+    res.status(500).json({
+      error: "Failed to import gazetteer",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
+
+/**
+ * GET /api/geo/gazetteer
+ * Size of the imported gazetteer: total entries, entries per city and when it was imported
+ * Authorization: Admins only
+ */
+export const getGazetteer = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    res.status(200).json(await gazetteerSummary());
+  } catch (error) {
+    console.error("GET /api/geo/gazetteer error:", error);
+    res.status(500).json({
+      error: "Failed to fetch gazetteer",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
+
+/**
+ * GET /api/geo/lookup?city=&district=&street=  or  ?schoolId=
+ * Gazetteer entries matching an address, best first (at most 10), each with
+ * match: "house" when the house number matches too, "street" otherwise
+ * With schoolId the school's own address is looked up
+ * Authorization: Admins only
+ */
+export const lookupLocation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const query = gazetteerLookupSchema.safeParse(req.query);
+    if (!query.success) {
+      res.status(400).json({
+        error: "Invalid query parameters",
+        details: formatZodError(query.error)
+      });
+      return;
+    }
+
+    let address: { city?: string | null; district?: string | null; street?: string | null } = query.data;
+    if (query.data.schoolId) {
+      const school = await prisma.schoolData.findFirst({
+        where: { id: query.data.schoolId, deletedAt: null },
+        select: { address: { select: { city: true, district: true, street: true } } },
+      });
+      if (!school) {
+        res.status(404).json({ error: 'School not found' });
+        return;
+      }
+      address = school.address ?? {};
+    }
+
+    res.status(200).json({
+      address,
+      data: await lookupAddress(address),
+    });
+  } catch (error) {
+    console.error("GET /api/geo/lookup error:", error);
+    res.status(500).json({
+      error: "Failed to look up location",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
@@ -0,0 +1,296 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { importOptionsSchema, importQuerySchema } from '../schemas/import.schema';
+import { formatZodError } from '../utils/validators';
+import { inSchoolBatch, insertSchool, trashSchool } from '../utils/schoolWrites';
+import {
+  analyzeSpreadsheet,
+  IMPORT_FIELDS,
+  readSpreadsheet,
+  SpreadsheetError,
+  suggestMapping,
+  validateMapping,
+} from '../utils/schoolImport';
+
+const userSelect = {
+  select: {
+    id: true,
+    email: true,
+  }
+};
+
+const importInclude = {
+  creator: userSelect,
+  rollbacker: userSelect,
+} satisfies Prisma.SchoolImportInclude;
+
+/**
+ * Thrown inside a transaction when the import was rolled back by someone else first
+ */
+class AlreadyRolledBackError extends Error {
+  constructor() {
+    super('Import was already rolled back');
+    this.name = 'AlreadyRolledBackError';
+  }
+}
+
+function sendAlreadyRolledBack(res: Response): void {
+  res.status(409).json({
+    error: 'Conflict',
+    message: 'This import has already been rolled back'
+  });
+}
+
+/**
+ * POST /api/schools/import
+ * Imports schools from a CSV or XLSX file (multipart/form-data)
+ * Fields: file, mapping (JSON { "<column>": "<field path>" }, suggested from the headers when omitted),
+ *         commit ("true" to write, a dry run otherwise), skipDuplicates (default "true")
+ * The dry run (200) reports per row: cell errors and likely duplicates of existing schools or earlier rows
+ * A commit (201) creates the valid rows in one transaction and records an import that can be rolled back
+ * Authorization: Admins only
+ */
+export const importSchools = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const options = importOptionsSchema.safeParse(req.body ?? {});
+    if (!options.success) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: formatZodError(options.error)
+      });
+      return;
+    }
+
+    if (!req.file) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: [{ field: "file", message: "A CSV or XLSX file is required" }]
+      });
+      return;
+    }
+
+    const sheet = await readSpreadsheet(req.file);
+    const mapping = options.data.mapping ?? suggestMapping(sheet.columns);
+    const mappingProblems = validateMapping(sheet.columns, mapping);
+    if (mappingProblems.length) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: mappingProblems.map(message => ({ field: "mapping", message }))
+      });
+      return;
+    }
+
+    const analyzed = await analyzeSpreadsheet(sheet, mapping);
+    const importable = (row: (typeof analyzed)[number]) =>
+      row.valid && !(options.data.skipDuplicates && row.duplicates.length);
+    const rows = analyzed.map(({ school: _school, ...report }) => report);
+    const report = {
+      fileName: req.file.originalname,
+      columns: sheet.columns,
+      mapping,
+      fields: [...IMPORT_FIELDS.keys()],
+      summary: {
+        total: analyzed.length,
+        valid: analyzed.filter(row => row.valid).length,
+        invalid: analyzed.filter(row => !row.valid).length,
+        duplicates: analyzed.filter(row => row.duplicates.length).length,
+        importable: analyzed.filter(importable).length,
+      },
+    };
+
+    if (!options.data.commit) {
+      res.status(200).json({ ...report, rows });
+      return;
+    }
+
+    if (report.summary.importable === 0) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: [{ field: "file", message: "No row can be imported, see the dry-run report" }]
+      });
+      return;
+    }
+
+    const record = await inSchoolBatch(async (tx) => {
+      const created = await tx.schoolImport.create({
+        data: {
+          fileName: req.file!.originalname,
+          mapping,
+          results: [],
+          createdCount: 0,
+          skippedCount: 0,
+          createdBy: userId,
+        },
+      });
+
+      const results = [];
+      for (const row of analyzed) {
+        if (!row.school || !importable(row)) {
+          results.push({ row: row.row, status: row.valid ? 'duplicate' : 'invalid' });
+          continue;
+        }
+        const school = await insertSchool(tx, row.school, userId, created.id);
+        results.push({ row: row.row, status: 'created', schoolId: school.id });
+      }
+
+      return tx.schoolImport.update({
+        where: { id: created.id },
+        data: {
+          results,
+          createdCount: results.filter(result => result.status === 'created').length,
+          skippedCount: results.filter(result => result.status !== 'created').length,
+        },
+        include: importInclude,
+      });
+    });
+
+    res.status(201).json({ ...report, rows, import: record });
+  } catch (error) {
+    if (error instanceof SpreadsheetError) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: [{ field: "file", message: error.message }]
+      });
+      return;
+    }
+    console.error("POST /api/schools/import error:", error);
+    res.status(500).json({
+      error: "Failed to import schools",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
+
+/**
+ * GET /api/schools/imports
+ * Committed imports, newest first, without their per-row results
+ * Query: limit (default 50, max 200)
+ * Authorization: Admins only
+ */
+export const getImports = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const query = importQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      res.status(400).json({
+        error: "Invalid query parameters",
+        details: formatZodError(query.error)
+      });
+      return;
+    }
+
+    const [imports, total] = await Promise.all([
+      prisma.schoolImport.findMany({
+        orderBy: { createdAt: 'desc' },
+        take: query.data.limit,
+        omit: { results: true },
+        include: importInclude,
+      }),
+      prisma.schoolImport.count(),
+    ]);
+
+    res.status(200).json({
+      data: imports,
+      total,
+    });
+  } catch (error) {
+    console.error("GET /api/schools/imports error:", error);
+    res.status(500).json({
+      error: "Failed to fetch imports",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
+
+/**
+ * GET /api/schools/imports/:id
+ * A single import with the result of every row
+ * Authorization: Admins only
+ */
+export const getImportById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const record = await prisma.schoolImport.findUnique({
+      where: { id: req.params.id },
+      include: importInclude,
+    });
+
+    if (!record) {
+      res.status(404).json({ error: 'Import not found' });
+      return;
+    }
+
+    res.status(200).json(record);
+  } catch (error) {
+    console.error("GET /api/schools/imports/:id error:", error);
+    res.status(500).json({
+      error: "Failed to fetch import",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
+
+/**
+ * POST /api/schools/imports/:id/rollback
+ * Moves every school the import created to the trash (each gets a delete revision)
+ * Schools that were already deleted are left alone, an import can only be rolled back once
+ * Authorization: Admins only
+ */
+export const rollbackImport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    const existing = await prisma.schoolImport.findUnique({ where: { id }, select: { status: true } });
+
+    if (!existing) {
+      res.status(404).json({ error: 'Import not found' });
+      return;
+    }
+
+    if (existing.status !== 'committed') {
+      sendAlreadyRolledBack(res);
+      return;
+    }
+
+    const { record, trashed } = await inSchoolBatch(async (tx) => {
+      // Claim the import first so two admins cannot both roll it back
+      const { count } = await tx.schoolImport.updateMany({
+        where: { id, status: 'committed' },
+        data: { status: 'rolled_back', rolledBackAt: new Date(), rolledBackBy: userId },
+      });
+      if (count === 0) {
+        throw new AlreadyRolledBackError();
+      }
+
+      const schools = await tx.schoolData.findMany({
+        where: { importId: id, deletedAt: null },
+        select: { id: true },
+      });
+      for (const school of schools) {
+        await trashSchool(tx, school.id, userId);
+      }
+
+      const record = await tx.schoolImport.findUniqueOrThrow({ where: { id }, include: importInclude });
+      return { record, trashed: schools.length };
+    });
+
+    res.status(200).json({ import: record, trashed });
+  } catch (error) {
+    if (error instanceof AlreadyRolledBackError) {
+      sendAlreadyRolledBack(res);
+      return;
+    }
+    console.error("POST /api/schools/imports/:id/rollback error:", error);
+    res.status(500).json({
+      error: "Failed to roll back import",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
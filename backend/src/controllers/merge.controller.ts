@@ -0,0 +1,212 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { MergeSide, schoolMergeSchema } from '../schemas/merge.schema';
+import { formatZodError } from '../utils/validators';
+import { VersionConflictError } from '../utils/etag';
+import { IMPORT_FIELDS } from '../utils/schoolImport';
+import { LEVEL_KEYS, LEVEL_LIST_FIELDS, parseLevelList } from '../utils/levelLists';
+import { loadSchoolSnapshot, SchoolSnapshot } from '../utils/schoolRevisions';
+import { NestedUpdateData, saveSchoolUpdate, transformNestedUpdates, trashSchool } from '../utils/schoolWrites';
+
+const LEVELS = ['primary', 'basic', 'secondary'] as const;
+
+type Level = (typeof LEVELS)[number];
+
+// Fields that can be picked: the importable ones plus the levels' fee schedules
+const MERGE_FIELDS: ReadonlySet<string> = new Set([...IMPORT_FIELDS.keys(), ...LEVELS.map((level) => `${level}.fees`)]);
+
+class SchoolNotFoundError extends Error {
+  constructor(public readonly field: 'targetId' | 'sourceId') {
+    super('School not found');
+    this.name = 'SchoolNotFoundError';
+  }
+}
+
+function fieldValue(school: SchoolSnapshot, path: string): unknown {
+  const [section, field] = path.split('.');
+  const value = (school as Record<string, unknown>)[section];
+  if (!field) return value ?? null;
+  return value && typeof value === 'object' ? ((value as Record<string, unknown>)[field] ?? null) : null;
+}
+
+/**
+ * Update data that gives the target the source's value for every field picked from the source
+ */
+function pickedFields(source: SchoolSnapshot, fields: Record<string, MergeSide>): NestedUpdateData {
+  const data: NestedUpdateData = {};
+  Object.entries(fields).forEach(([path, side]) => {
+    if (side !== 'source') return;
+    const [section, field] = path.split('.');
+    const value = fieldValue(source, path);
+    if (field) {
+      data[section] = { ...(data[section] as Record<string, unknown> | undefined), [field]: value };
+    } else {
+      data[section] = value;
+    }
+  });
+  return data;
+}
+
+/**
+ * Adds to data the sports clubs and languages of both schools for every level list not picked from one side,
+ * so merging never drops the source's values; the source's rows are deleted afterwards, see removeSourceLevelLists
+ */
+function unitedLevelLists(target: SchoolSnapshot, source: SchoolSnapshot, fields: Record<string, MergeSide>, data: NestedUpdateData) {
+  LEVELS.forEach((level) => {
+    LEVEL_LIST_FIELDS.forEach((list) => {
+      const path = `${level}.${list}`;
+      if (fields[path]) return;
+
+      const targetValues = parseLevelList(fieldValue(target, path));
+      const sourceValues = parseLevelList(fieldValue(source, path));
+      if (sourceValues.every((value) => targetValues.includes(value))) return;
+
+      data[level] = {
+        ...(data[level] as Record<string, unknown> | undefined),
+        [list]: [...new Set([...targetValues, ...sourceValues])],
+      };
+    });
+  });
+}
+
+/**
+ * Claims the source's version like saveSchoolUpdate does for the target,
+ * so a concurrent edit of the source is not lost in the merge
+ */
+async function claimSource(tx: Prisma.TransactionClient, id: string, version?: number): Promise<void> {
+  const { count } = await tx.schoolData.updateMany({
+    where: { id, deletedAt: null, ...(version !== undefined && { version }) },
+    data: { version: { increment: 1 } },
+  });
+  if (count === 0) throw new VersionConflictError();
+}
+
+/**
+ * Moves the source's media to the target, call after the target update
+ * Level media go to the target's record of the same level, created when the target has none
+ */
+async function moveMedia(tx: Prisma.TransactionClient, source: SchoolSnapshot, targetId: string) {
+  let media = (await tx.media.updateMany({ where: { schoolId: source.id }, data: { schoolId: targetId } })).count;
+
+  for (const level of LEVELS) {
+    const sourceLevel = source[level];
+    if (!sourceLevel) continue;
+
+    const key = LEVEL_KEYS[level];
+    const where = { [key]: sourceLevel.id };
+    if (!(await tx.media.count({ where }))) continue;
+
+    const targetLevel = await upsertLevel(tx, level, targetId);
+    media += (await tx.media.updateMany({ where, data: { [key]: targetLevel } })).count;
+  }
+
+  return { media };
+}
+
+/**
+ * Deletes the source's sports club and language rows, call after the target update
+ * The values kept are on the target by then, united or picked, so nothing stays attached to the trashed source
+ */
+async function removeSourceLevelLists(tx: Prisma.TransactionClient, sourceId: string): Promise<void> {
+  await tx.levelMandatorySport.deleteMany({ where: { school_id: sourceId } });
+  await tx.levelForeignLanguage.deleteMany({ where: { schoolId: sourceId } });
+}
+
+// Id of the target's record for a level, an empty one is created when there is none
+async function upsertLevel(tx: Prisma.TransactionClient, level: Level, schoolId: string): Promise<string> {
+  const args = { where: { schoolId }, create: { schoolId }, update: {}, select: { id: true } };
+  const record =
+    level === 'primary' ? await tx.primary.upsert(args)
+    : level === 'basic' ? await tx.basic.upsert(args)
+    : await tx.secondary.upsert(args);
+  return record.id;
+}
+
+/**
+ * POST /api/schools/merge
+ * Merges a duplicate (source) into the school that stays (target)
+ * Body: { targetId, sourceId, fields?: { "<field path>": "target" | "source" }, targetVersion?, sourceVersion? }
+ *   Fields not listed keep the target's value; tags, sports clubs and languages of both schools are kept
+ * Media of the source move to the target, its sports clubs and languages are deleted once united
+ * onto the target. The source goes to the trash
+ * with a pointer to the target: GET /api/schools/<source id> redirects to the target from then on
+ * Both schools get a revision, 412 when either changed since the given version
+ * Authorization: Admins only
+ */
+export const mergeSchools = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    const parsed = schoolMergeSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: formatZodError(parsed.error)
+      });
+      return;
+    }
+
+    const { targetId, sourceId, fields, targetVersion, sourceVersion } = parsed.data;
+
+    const unknown = Object.keys(fields).filter((path) => !MERGE_FIELDS.has(path));
+    if (unknown.length) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: unknown.map((path) => ({ field: `fields.${path}`, message: `Unknown field "${path}"` }))
+      });
+      return;
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const [target, source] = await Promise.all([loadSchoolSnapshot(tx, targetId), loadSchoolSnapshot(tx, sourceId)]);
+      if (!target || target.deletedAt) throw new SchoolNotFoundError('targetId');
+      if (!source || source.deletedAt) throw new SchoolNotFoundError('sourceId');
+
+      await claimSource(tx, sourceId, sourceVersion);
+
+      const data = pickedFields(source, fields);
+      unitedLevelLists(target, source, fields, data);
+      const tags = [...new Set([...target.tags, ...source.tags])];
+      const merged = await saveSchoolUpdate(tx, {
+        id: targetId,
+        data: { ...transformNestedUpdates(data, new Set()), tags },
+        ifMatch: targetVersion === undefined ? '*' : [targetVersion],
+        userId,
+      });
+
+      const moved = await moveMedia(tx, source, targetId);
+      await removeSourceLevelLists(tx, sourceId);
+
+      await trashSchool(tx, sourceId, userId);
+      await tx.schoolData.update({ where: { id: sourceId }, data: { mergedIntoId: targetId } });
+      // Schools merged into the source earlier now point at the target
+      await tx.schoolData.updateMany({ where: { mergedIntoId: sourceId }, data: { mergedIntoId: targetId } });
+
+      return { school: merged, moved };
+    });
+
+    res.status(200).json({
+      school: result.school,
+      mergedId: sourceId,
+      moved: result.moved,
+    });
+  } catch (error) {
+    if (error instanceof SchoolNotFoundError) {
+      res.status(404).json({ error: 'School not found', field: error.field });
+      return;
+    }
+    if (error instanceof VersionConflictError) {
+      res.status(412).json({
+        error: 'Precondition Failed',
+        message: 'One of the schools was changed by someone else since you compared them'
+      });
+      return;
+    }
+    console.error("POST /api/schools/merge error:", error);
+    res.status(500).json({
+      error: "Failed to merge schools",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
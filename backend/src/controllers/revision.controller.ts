@@ -0,0 +1,179 @@
+import { Request, Response } from 'express';
+import { prisma } from '../lib/prisma';
+import { diffSnapshots } from '../utils/schoolRevisions';
+import { findSchoolAccess } from '../utils/schoolAccess';
+import { formatZodError } from '../utils/validators';
+import { revisionQuerySchema } from '../schemas/revision.schema';
+
+const authorSelect = {
+  select: {
+    id: true,
+    email: true,
+  }
+};
+
+// State of the school after a revision, a delete leaves nothing behind
+function stateAfter(revision: { action: string; snapshot: unknown }): unknown {
+  return revision.action === 'delete' ? null : revision.snapshot;
+}
+
+/**
+ * Who owns the school, read from the school row or, once it is deleted,
+ * from its latest revision. Returns undefined when the school never existed
+ */
+async function findSchoolOwner(schoolId: string): Promise<string | null | undefined> {
+  const school = await prisma.schoolData.findUnique({
+    where: { id: schoolId },
+    select: { ownerId: true }
+  });
+  if (school) return school.ownerId;
+
+  const latest = await prisma.schoolRevision.findFirst({
+    where: { schoolId },
+    orderBy: { createdAt: 'desc' },
+    select: { snapshot: true }
+  });
+  if (!latest) return undefined;
+
+  // Snapshots taken before ownership existed only know the creator
+  const snapshot = latest.snapshot as { ownerId?: string | null; createdBy?: string | null };
+  return snapshot.ownerId ?? snapshot.createdBy ?? null;
+}
+
+/**
+ * Sends 404/403 and returns false when the user may not see the school's history
+ * Employees can only see the history of schools they own or collaborate on
+ */
+async function ensureHistoryAccess(req: Request, res: Response, schoolId: string): Promise<boolean> {
+  const owner = await findSchoolOwner(schoolId);
+
+  if (owner === undefined) {
+    res.status(404).json({ error: 'School not found' });
+    return false;
+  }
+
+  if (
+    req.userRole === 'employee'
+    && owner !== req.user?.id
+    && !(await findSchoolAccess(prisma, schoolId, req.user?.id))
+  ) {
+    res.status(403).json({
+      error: 'Forbidden',
+      message: 'You can only view the history of schools you own or collaborate on'
+    });
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * GET /api/schools/:id/revisions
+ * Revision history of a school, newest first, with the fields each revision changed
+ * Snapshots are left out, fetch them through the diff endpoint
+ * Query: limit (default 50, max 200)
+ * Authorization: Employees can only view their own schools, Admins can view all
+ */
+export const getSchoolRevisions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const query = revisionQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      res.status(400).json({
+        error: "Invalid query parameters",
+        details: formatZodError(query.error)
+      });
+      return;
+    }
+
+    const take = query.data.limit;
+
+    if (!(await ensureHistoryAccess(req, res, id))) return;
+
+    const [revisions, total] = await Promise.all([
+      prisma.schoolRevision.findMany({
+        where: { schoolId: id },
+        orderBy: { createdAt: 'desc' },
+        take,
+        select: {
+          id: true,
+          schoolId: true,
+          version: true,
+          action: true,
+          diff: true,
+          restoredFromId: true,
+          createdAt: true,
+          author: authorSelect,
+        }
+      }),
+      prisma.schoolRevision.count({ where: { schoolId: id } }),
+    ]);
+
+    res.status(200).json({
+      data: revisions.map(({ diff, ...revision }) => ({ ...revision, changes: diff })),
+      total,
+    });
+  } catch (error) {
+    console.error("GET /api/schools/:id/revisions error:", error);
+    res.status(500).json({
+      error: "Failed to fetch revisions",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
+
+/**
+ * GET /api/schools/:id/revisions/:revId/diff
+ * Field-level diff of one revision against the revision before it
+ * Pass against=<revisionId> to compare with any other revision of the same school
+ * Authorization: Employees can only view their own schools, Admins can view all
+ */
+export const getRevisionDiff = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, revId } = req.params;
+    const { against } = req.query;
+
+    if (!(await ensureHistoryAccess(req, res, id))) return;
+
+    const revision = await prisma.schoolRevision.findFirst({
+      where: { id: revId, schoolId: id },
+      include: { author: authorSelect }
+    });
+
+    if (!revision) {
+      res.status(404).json({ error: 'Revision not found' });
+      return;
+    }
+
+    const base = typeof against === 'string'
+      ? await prisma.schoolRevision.findFirst({ where: { id: against, schoolId: id } })
+      : await prisma.schoolRevision.findFirst({
+          where: { schoolId: id, createdAt: { lt: revision.createdAt } },
+          orderBy: { createdAt: 'desc' }
+        });
+
+    if (typeof against === 'string' && !base) {
+      res.status(404).json({ error: 'Revision to compare against not found' });
+      return;
+    }
+
+    // Without "against" the stored diff is already relative to the previous revision
+    const changes = typeof against === 'string'
+      ? diffSnapshots(base && stateAfter(base), stateAfter(revision))
+      : revision.diff;
+
+    const { diff: _diff, ...rest } = revision;
+
+    res.status(200).json({
+      revision: rest,
+      baseRevisionId: base?.id ?? null,
+      changes,
+    });
+  } catch (error) {
+    console.error("GET /api/schools/:id/revisions/:revId/diff error:", error);
+    res.status(500).json({
+      error: "Failed to fetch revision diff",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
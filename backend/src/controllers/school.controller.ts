@@ -1,157 +1,157 @@
 import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../lib/prisma';
-import { schoolSchema } from '../schemas/school.schema';
+import {
+  schoolSchema,
+  schoolUpdateSchema,
+  schoolPatchSchema,
+  schoolStatusSchema,
+  schoolTransferSchema,
+  schoolLevelParamSchema,
+  levelFeesSchema,
+  levelPriceSchema,
+  schoolLocationSchema,
+} from '../schemas/school.schema';
 import { ZodError } from 'zod';
-import { sanitizeString, sanitizeUrl, sanitizePhone } from '../utils/sanitize';
-
-interface NestedUpdateData {
-  address?: Record<string, unknown>;
-  infrastructure?: Record<string, unknown>;
-  primary?: Record<string, unknown>;
-  basic?: Record<string, unknown>;
-  secondary?: Record<string, unknown>;
-  [key: string]: unknown;
-}
+import { formatZodError } from '../utils/validators';
+import {
+  nearbyQuerySchema,
+  schoolCreateQuerySchema,
+  schoolFiltersSchema,
+  schoolPageSchema,
+  searchQuerySchema,
+} from '../schemas/schoolQuery.schema';
+import { buildVisibilityWhere, buildSchoolWhere, computeDistrictStats, computeSchoolFacets } from '../utils/schoolFilters';
+import { rankSchools } from '../utils/schoolSearch';
+import { buildOrderBy, decodeCursor, encodeCursor, serializeSort } from '../utils/pagination';
+import { buildSchoolSelect, FieldSelectionError } from '../utils/fieldSelection';
+import { parseIfMatch, schoolETag, VersionConflictError } from '../utils/etag';
+import { diffSnapshots, loadSchoolSnapshot, snapshotToUpdateData } from '../utils/schoolRevisions';
+import { changesForUpdate, requiresModeration, submitChangeSet } from '../utils/moderation';
+import { canEditSchool, findSchoolAccess } from '../utils/schoolAccess';
+import { findDuplicateSchools, visibleDuplicates } from '../utils/schoolDuplicates';
+import { flattenLevelLists } from '../utils/levelLists';
+import { boundingBox, distanceKm } from '../utils/geo';
+import { annualTotals, levelFeesArgs } from '../utils/levelFees';
+import { academicYearOf, loadPriceHistory, recordLevelPrice } from '../utils/levelPrices';
+import {
+  findSchoolSections,
+  findStaffOwner,
+  inSchoolBatch,
+  insertSchool,
+  NestedUpdateData,
+  sanitizeSchoolData,
+  saveSchoolUpdate,
+  saveSchoolUpdates,
+  schoolDetailInclude,
+  SchoolSection,
+  transformNestedUpdates,
+  trashSchool,
+} from '../utils/schoolWrites';
 
-function sanitizeSchoolData(data: NestedUpdateData): NestedUpdateData {
-  const sanitized: NestedUpdateData = {};
-
-  // Sanitize top-level string fields
-  if (data.name !== undefined) sanitized.name = sanitizeString(String(data.name));
-  if (data.phoneNumber1 !== undefined) sanitized.phoneNumber1 = sanitizePhone(String(data.phoneNumber1));
-  if (data.phoneNumber2 !== undefined) sanitized.phoneNumber2 = sanitizePhone(String(data.phoneNumber2));
-  if (data.phoneNumber3 !== undefined) sanitized.phoneNumber3 = sanitizePhone(String(data.phoneNumber3));
-  if (data.schoolsWebSite !== undefined) sanitized.schoolsWebSite = sanitizeUrl(String(data.schoolsWebSite));
-  if (data.facebookProfileURL !== undefined) sanitized.facebookProfileURL = sanitizeUrl(String(data.facebookProfileURL));
-  if (data.instagramProfileURL !== undefined) sanitized.instagramProfileURL = sanitizeUrl(String(data.instagramProfileURL));
-  if (data.description !== undefined) sanitized.description = sanitizeString(String(data.description));
-
-  // Copy other fields as-is (numbers, booleans, etc.)
-  const fieldsToSkip = ['name', 'phoneNumber1', 'phoneNumber2', 'phoneNumber3', 'schoolsWebSite', 'facebookProfileURL', 'instagramProfileURL', 'description', 'address', 'infrastructure', 'primary', 'basic', 'secondary'];
-  Object.keys(data).forEach(key => {
-    if (!fieldsToSkip.includes(key)) {
-      sanitized[key] = data[key];
+/**
+ * Parses fields= and include= into a Prisma select
+ * Sends a 400 and returns null when a path is outside the allow-list
+ */
+function parseSchoolSelect(req: Request, res: Response): Prisma.SchoolDataSelect | null {
+  try {
+    return buildSchoolSelect(req.query);
+  } catch (error) {
+    if (error instanceof FieldSelectionError) {
+      res.status(400).json({
+        error: "Invalid query parameters",
+        details: [{ field: error.param, message: error.message }]
+      });
+      return null;
     }
-  });
-
-  // Copy nested objects
-  if (data.address) sanitized.address = data.address;
-  if (data.infrastructure) sanitized.infrastructure = data.infrastructure;
-  if (data.primary) sanitized.primary = data.primary;
-  if (data.basic) sanitized.basic = data.basic;
-  if (data.secondary) sanitized.secondary = data.secondary;
-
-  return sanitized;
-}
-
-function transformNestedUpdates(data: NestedUpdateData) {
-  const { address, infrastructure, primary, basic, secondary, ...rest } = data;
-
-  return {
-    ...rest,
-    ...(address && { address: { update: address } }),
-    ...(infrastructure && { infrastructure: { update: infrastructure } }),
-    ...(primary && { primary: { update: primary } }),
-    ...(basic && { basic: { update: basic } }),
-    ...(secondary && { secondary: { update: secondary } }),
-  };
+    throw error;
+  }
 }
 
 /**
  * GET /api/schools
- * Fetch all schools with optional pagination
- * Public access: Returns all schools
- * Authenticated access: Admins see all, Employees see only their own
+ * Fetch one page of schools with filtering, sorting and optional facet counts
+ * Pagination: pageSize (max 100) and the opaque cursor from pagination.nextCursor
+ * Sorting: sort=name,-primary.price (prefix "-" for descending), defaults to -createdAt
+ * Filters: city, district, accreditationStatus, level, minPrice, maxPrice,
+ * infrastructure, foreignLanguages, sportsClubs, meals, transportation, tags
+ * (list filters accept comma-separated values)
+ * Pass facets=true to also receive per-value counts for each filter
+ * Field selection: fields=name,address.city,primary.price and include=media,primary.media
+ * (without either, all columns plus address, infrastructure, levels with media and creator)
+ * Public access: Returns published schools only
+ * Authenticated access: Admins see all, Employees see the schools they own or collaborate on
  */
 export const getAllSchools = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { page, pageSize, lightweight } = req.query;
+    const { facets } = req.query;
     const userId = req.user?.id;
     const userRole = req.userRole;
 
-    // Build where clause based on authentication and role
-    let whereClause = {};
-
-    // If user is authenticated, apply role-based filtering
-    if (userId && userRole) {
-      whereClause = userRole === 'admin'
-        ? {} // Admins see all schools
-        : { createdBy: userId }; // Employees see only their schools
-    }
-    // If not authenticated, show all schools (public access)
-
-    // Determine include based on lightweight mode
-    const includeClause = lightweight === 'true'
-      ? {
-          // Lightweight mode: only fields needed for grid display
-          address: {
-            select: {
-              city: true,
-              district: true,
-              street: true,
-              zipCode: true,
-            }
-          },
-          creator: {
-            select: {
-              id: true,
-              email: true,
-            }
-          }
-        }
-      : {
-          // Full mode: include all relations
-          address: true,
-          infrastructure: true,
-          primary: { include: { media: true } },
-          basic: { include: { media: true } },
-          secondary: { include: { media: true } },
-          creator: {
-            select: {
-              id: true,
-              email: true,
-            }
-          }
-        };
-
-    // If no pagination params, return all schools (for grid client-side pagination)
-    if (!page && !pageSize) {
-      const schools = await prisma.schoolData.findMany({
-        where: whereClause,
-        include: includeClause,
-        orderBy: {
-          createdAt: 'desc',
-        },
+    const filters = schoolFiltersSchema.safeParse(req.query);
+    const paging = schoolPageSchema.safeParse(req.query);
+    if (!filters.success || !paging.success) {
+      res.status(400).json({
+        error: "Invalid query parameters",
+        details: [
+          ...(filters.success ? [] : formatZodError(filters.error)),
+          ...(paging.success ? [] : formatZodError(paging.error)),
+        ]
       });
-
-      res.status(200).json(schools);
       return;
     }
 
-    // Server-side pagination (for future use)
-    const pageNum = parseInt(page as string) || 1;
-    const pageSizeNum = parseInt(pageSize as string) || 50;
-    const skip = (pageNum - 1) * pageSizeNum;
-    const totalCount = await prisma.schoolData.count({ where: whereClause });
+    const select = parseSchoolSelect(req, res);
+    if (!select) return;
 
-    const schools = await prisma.schoolData.findMany({
-      skip,
-      take: pageSizeNum,
-      where: whereClause,
-      include: includeClause,
-      orderBy: {
-        createdAt: 'desc',
-      },
-    });
+    // Role-based filtering: employees see only their schools, everyone else sees all
+    const visibilityWhere = buildVisibilityWhere(userId, userRole);
+    const whereClause = buildSchoolWhere(visibilityWhere, filters.data);
+    const facetCounts = facets === 'true'
+      ? await computeSchoolFacets(visibilityWhere, filters.data)
+      : undefined;
+
+    let cursorId: string | undefined;
+    if (paging.data.cursor) {
+      const decoded = decodeCursor(paging.data.cursor, paging.data.sort);
+      if (!decoded) {
+        res.status(400).json({
+          error: "Invalid query parameters",
+          details: [{ field: "cursor", message: "Cursor is invalid or does not match the sort order" }]
+        });
+        return;
+      }
+      cursorId = decoded;
+    }
+
+    const { pageSize, sort } = paging.data;
+
+    // Fetch one extra row to know whether another page exists
+    const [rows, totalCount] = await Promise.all([
+      prisma.schoolData.findMany({
+        where: whereClause,
+        select,
+        orderBy: buildOrderBy(sort),
+        take: pageSize + 1,
+        ...(cursorId && { cursor: { id: cursorId }, skip: 1 }),
+      }),
+      prisma.schoolData.count({ where: whereClause }),
+    ]);
+
+    const hasMore = rows.length > pageSize;
+    const schools = hasMore ? rows.slice(0, pageSize) : rows;
+    const lastSchool = schools[schools.length - 1];
 
     res.status(200).json({
-      data: schools,
+      data: schools.map(flattenLevelLists),
       pagination: {
-        page: pageNum,
-        pageSize: pageSizeNum,
+        pageSize,
+        sort: serializeSort(sort),
+        nextCursor: hasMore && lastSchool ? encodeCursor(lastSchool.id, sort) : null,
+        hasMore,
         totalCount,
-        totalPages: Math.ceil(totalCount / pageSizeNum),
       },
+      ...(facetCounts && { facets: facetCounts }),
     });
   } catch (error) {
     console.error("GET /api/schools error:", error);
@@ -162,11 +162,210 @@ export const getAllSchools = async (req: Request, res: Response): Promise<void>
   }
 };
 
+/**
+ * GET /api/schools/search?q=
+ * Ranked full-text search across name, description, director, founder,
+ * otherPrograms, clubsAndCircles, city/district and phone numbers
+ * Georgian and Latin spellings match each other ("sabavshvo" finds "საბავშვო")
+ * Accepts the same filters, fields, include and facets parameters as GET /api/schools
+ * Public access: Searches published schools
+ * Authenticated access: Admins search all, Employees search the schools they own or collaborate on
+ */
+export const searchSchools = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { q, facets } = req.query;
+    const userId = req.user?.id;
+    const userRole = req.userRole;
+    const query = typeof q === 'string' ? q.trim() : '';
+
+    if (!query) {
+      res.status(400).json({
+        error: "Invalid query parameters",
+        details: [{ field: "q", message: "Search query is required" }]
+      });
+      return;
+    }
+
+    const filters = schoolFiltersSchema.safeParse(req.query);
+    if (!filters.success) {
+      res.status(400).json({
+        error: "Invalid query parameters",
+        details: formatZodError(filters.error)
+      });
+      return;
+    }
+
+    const search = searchQuerySchema.safeParse(req.query);
+    if (!search.success) {
+      res.status(400).json({
+        error: "Invalid query parameters",
+        details: formatZodError(search.error)
+      });
+      return;
+    }
+
+    const select = parseSchoolSelect(req, res);
+    if (!select) return;
+
+    const take = search.data.limit;
+    const ranked = await rankSchools(query, { userId, userRole });
+    const rankById = new Map(ranked.map(({ id, rank }) => [id, rank]));
+
+    const matchWhere = {
+      AND: [
+        buildVisibilityWhere(userId, userRole),
+        { id: { in: Array.from(rankById.keys()) } },
+      ],
+    };
+    const whereClause = buildSchoolWhere(matchWhere, filters.data);
+
+    const [schools, facetCounts] = await Promise.all([
+      prisma.schoolData.findMany({
+        where: whereClause,
+        select,
+      }),
+      facets === 'true' ? computeSchoolFacets(matchWhere, filters.data) : undefined,
+    ]);
+
+    const results = schools
+      .map(school => ({ ...flattenLevelLists(school), rank: rankById.get(school.id) ?? 0 }))
+      .sort((a, b) => b.rank - a.rank)
+      .slice(0, take);
+
+    res.status(200).json({
+      data: results,
+      total: schools.length,
+      ...(facetCounts && { facets: facetCounts }),
+    });
+  } catch (error) {
+    console.error("GET /api/schools/search error:", error);
+    res.status(500).json({
+      error: "Failed to search schools",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
+
+/**
+ * GET /api/schools/nearby?lat=&lng=&radiusKm=
+ * Schools within radiusKm (default 5, max 50) of a point, nearest first, each with its distanceKm
+ * Only schools whose address has coordinates are found, limit caps the results (default 20, max 100)
+ * Accepts the same filters, fields and include parameters as GET /api/schools
+ * Public access: Searches published schools
+ * Authenticated access: Admins search all, Employees search the schools they own or collaborate on
+ */
+export const getNearbySchools = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const userRole = req.userRole;
+
+    const nearby = nearbyQuerySchema.safeParse(req.query);
+    const filters = schoolFiltersSchema.safeParse(req.query);
+    if (!nearby.success || !filters.success) {
+      res.status(400).json({
+        error: "Invalid query parameters",
+        details: [
+          ...(nearby.success ? [] : formatZodError(nearby.error)),
+          ...(filters.success ? [] : formatZodError(filters.error)),
+        ]
+      });
+      return;
+    }
+
+    const select = parseSchoolSelect(req, res);
+    if (!select) return;
+
+    const { lat, lng, radiusKm, limit } = nearby.data;
+    const center = { latitude: lat, longitude: lng };
+
+    // The bounding box narrows the candidates on the address index, the exact distance decides
+    const candidates = await prisma.schoolData.findMany({
+      where: buildSchoolWhere({
+        AND: [
+          buildVisibilityWhere(userId, userRole),
+          { address: boundingBox(center, radiusKm) },
+        ],
+      }, filters.data),
+      select: { id: true, address: { select: { latitude: true, longitude: true } } },
+    });
+
+    const inRadius = candidates
+      .flatMap(({ id, address }) =>
+        address?.latitude != null && address.longitude != null
+          ? [{ id, distance: distanceKm(center, { latitude: address.latitude, longitude: address.longitude }) }]
+          : []
+      )
+      .filter(({ distance }) => distance <= radiusKm)
+      .sort((a, b) => a.distance - b.distance);
+    const nearest = inRadius.slice(0, limit);
+
+    const schools = await prisma.schoolData.findMany({
+      where: { id: { in: nearest.map(({ id }) => id) } },
+      select,
+    });
+    const schoolById = new Map(schools.map(school => [school.id, school]));
+
+    const results = nearest.flatMap(({ id, distance }) => {
+      const school = schoolById.get(id);
+      return school ? [{ ...flattenLevelLists(school), distanceKm: Math.round(distance * 100) / 100 }] : [];
+    });
+
+    res.status(200).json({
+      data: results,
+      total: inRadius.length,
+      center: { lat, lng },
+      radiusKm,
+    });
+  } catch (error) {
+    console.error("GET /api/schools/nearby error:", error);
+    res.status(500).json({
+      error: "Failed to find nearby schools",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
+
+/**
+ * GET /api/schools/districts
+ * Number of schools, schools with coordinates and median price per district, for the district map
+ * Accepts the same filters as GET /api/schools; the district filter itself is ignored so every district keeps its figures
+ * The price of a school is that of the level filter, or its lowest level price without one
+ * Public access: Published schools
+ * Authenticated access: Admins count all, Employees the schools they own or collaborate on
+ */
+export const getDistrictStats = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const filters = schoolFiltersSchema.safeParse(req.query);
+    if (!filters.success) {
+      res.status(400).json({
+        error: "Invalid query parameters",
+        details: formatZodError(filters.error)
+      });
+      return;
+    }
+
+    const stats = await computeDistrictStats(buildVisibilityWhere(req.user?.id, req.userRole), filters.data);
+
+    res.status(200).json({
+      data: stats,
+      priceLevel: filters.data.level ?? null,
+    });
+  } catch (error) {
+    console.error("GET /api/schools/districts error:", error);
+    res.status(500).json({
+      error: "Failed to fetch district statistics",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
+
 /**
  * GET /api/schools/:id
  * Fetch a single school by ID
- * Public access: Anyone can view
- * Authenticated access (for dashboard): Employees can only view their own schools, Admins can view all
+ * The response carries an ETag ("v<version>") to send back in If-Match on PUT/PATCH
+ * A school merged into another answers 308 with the merged school's URL
+ * Public access: Anyone can view published schools
+ * Authenticated access (for dashboard): Employees can only view schools they own or collaborate on, Admins can view all
  */
 export const getSchoolById = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -174,40 +373,43 @@ export const getSchoolById = async (req: Request, res: Response): Promise<void>
     const userId = req.user?.id;
     const userRole = req.userRole;
 
-    const school = await prisma.schoolData.findUnique({
-      where: { id },
-      include: {
-        address: true,
-        infrastructure: true,
-        primary: true,
-        basic: true,
-        secondary: true,
-        creator: {
-          select: {
-            id: true,
-            email: true,
-          }
-        }
-      },
+    // Schools in the trash are only reachable through the trash endpoints,
+    // drafts and archived schools only by signed-in staff
+    const school = await prisma.schoolData.findFirst({
+      where: { id, deletedAt: null, ...(!userRole && { status: 'published' as const }) },
+      include: schoolDetailInclude,
     });
 
     if (!school) {
+      // A school merged into another redirects there, so old links keep working
+      const merged = await prisma.schoolData.findFirst({
+        where: { id, mergedIntoId: { not: null } },
+        select: { mergedIntoId: true },
+      });
+      if (merged?.mergedIntoId) {
+        const query = req.originalUrl.includes('?') ? req.originalUrl.slice(req.originalUrl.indexOf('?')) : '';
+        res.redirect(308, `${req.baseUrl}/${merged.mergedIntoId}${query}`);
+        return;
+      }
+
       res.status(404).json({ error: 'School not found' });
       return;
     }
 
     // Check authorization only if user is authenticated
-    // If user is authenticated as employee, they can only view their own schools
-    if (userId && userRole === 'employee' && school.createdBy !== userId) {
+    // If user is authenticated as employee, they can only view the schools they own or collaborate on
+    if (userId && userRole === 'employee' && !(await findSchoolAccess(prisma, id, userId))) {
       res.status(403).json({
         error: 'Forbidden',
-        message: 'You can only view schools you created'
+        message: 'You can only view schools you own or collaborate on'
       });
       return;
     }
     // If not authenticated or admin, allow access (public view or admin view)
 
-    res.status(200).json(school);
+    // Clients send the ETag back in If-Match when updating
+    res.set('ETag', schoolETag(school.version));
+    res.status(200).json(flattenLevelLists(school));
   } catch (error) {
     console.error("GET /api/schools/:id error:", error);
     res.status(500).json({
@@ -221,6 +423,10 @@ export const getSchoolById = async (req: Request, res: Response): Promise<void>
  * POST /api/schools
  * Create a new school
  * Automatically tracks the creator (current user)
+ * A school that looks like an existing one (name, phone, website, address) gets a 409 listing
+ * the probable duplicates, resend with ?allowDuplicates=true to create it anyway
+ * Only duplicates the user can see are listed, the rest are counted in otherDuplicates
+ * With moderation on, employees get 202 with the pending change set instead
  */
 export const createSchool = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -233,143 +439,34 @@ export const createSchool = async (req: Request, res: Response): Promise<void> =
     }
 
     // Validate request body with Zod
-    const validatedData = schoolSchema.parse(body);
-
-    const newSchool = await prisma.schoolData.create({
-      data: {
-        name: sanitizeString(validatedData.name),
-        createdBy: userId, // Track creator
-        phoneNumber1: sanitizePhone(body.phoneNumber1?.toString()),
-        phoneNumber2: sanitizePhone(body.phoneNumber2?.toString()),
-        phoneNumber3: sanitizePhone(body.phoneNumber3?.toString()),
-        schoolsWebSite: sanitizeUrl(body.schoolsWebSite),
-        facebookProfileURL: sanitizeUrl(body.facebookProfileURL),
-        instagramProfileURL: sanitizeUrl(body.instagramProfileURL),
-        founder: body.founder,
-        director: body.director,
-        publicRelationsManager: body.publicRelationsManager,
-        parentRelationshipManager: body.parentRelationshipManager,
-        establishedYear: body.establishedYear,
-        accreditationStatus: body.accreditationStatus,
-        accreditationComment: body.accreditationComment,
-        graduationRate: body.graduationRate,
-        averageNationalExamScore: body.averageNationalExamScore,
-        description: body.description,
-        hasTutor: body.hasTutor,
-        tutorDescription: body.tutorDescription,
-        hasScholarshipsGrants: body.hasScholarshipsGrants,
-        scholarshipsGrants: body.scholarshipsGrants,
-        hasExchangePrograms: body.hasExchangePrograms,
-        exchangePrograms: body.exchangePrograms,
-        hasOutdoorGarden: body.hasOutdoorGarden,
-        outdoorGarden: body.outdoorGarden,
-        otherPrograms: body.otherPrograms || "",
-        address: {
-          create: {
-            city: body.address.city,
-            street: body.address.street,
-            zipCode: body.address.zipCode?.toString() || "",
-            district: body.address.district,
-          },
-        },
-        infrastructure: {
-          create: {
-            buildings: body.infrastructure.buildings,
-            numberOfFloors: body.infrastructure.numberOfFloors,
-            squareness: body.infrastructure.squareness,
-            stadiums: body.infrastructure.stadiums,
-            pools: body.infrastructure.pools,
-            courtyard: body.infrastructure.courtyard,
-            laboratories: body.infrastructure.laboratories,
-            library: body.infrastructure.library,
-            cafe: body.infrastructure.cafe,
-          },
-        },
-        primary: {
-          create: {
-            price: body.primary.price,
-            duration: body.primary.duration,
-            discountAndPaymentTerms: body.primary.discountAndPaymentTerms,
-            numberOfStudents: body.primary.numberOfStudents,
-            meals: body.primary.meals,
-            mealsDescription: body.primary.mealsDescription,
-            transportation: body.primary.transportation,
-            schoolUniform: body.primary.schoolUniform,
-            mandatorySportsClubs: Array.isArray(body.primary.mandatorySportsClubs)
-              ? body.primary.mandatorySportsClubs.join(",")
-              : body.primary.mandatorySportsClubs,
-            teachingStyleBooks: body.primary.teachingStyleBooks,
-            textbooksPrice: body.primary.textbooksPrice || "",
-            clubsAndCircles: body.primary.clubsAndCircles,
-            foreignLanguages: Array.isArray(body.primary.foreignLanguages)
-              ? body.primary.foreignLanguages.join(",")
-              : body.primary.foreignLanguages,
-            media: body.primary.schoolUniformPhotoUrls?.length
-              ? {
-                  create: body.primary.schoolUniformPhotoUrls.map((url: string) => ({
-                    url,
-                    type: "photo",
-                  })),
-                }
-              : undefined,
-          },
-        },
-        basic: {
-          create: {
-            price: body.basic.price,
-            schoolUniform: body.basic.schoolUniform,
-            discountAndPaymentTerms: body.basic.discountAndPaymentTerms,
-            numberOfStudents: body.basic.numberOfStudents,
-            meals: body.basic.meals,
-            mealsDescription: body.basic.mealsDescription,
-            transportation: body.basic.transportation,
-            mandatorySportsClubs: Array.isArray(body.basic.mandatorySportsClubs)
-              ? body.basic.mandatorySportsClubs.join(",")
-              : body.basic.mandatorySportsClubs,
-            teachingStyleBooks: body.basic.teachingStyleBooks,
-            textbooksPrice: body.basic.textbooksPrice || "",
-            clubsAndCircles: body.basic.clubsAndCircles,
-            duration: body.basic.duration,
-            foreignLanguages: body.basic.foreignLanguages,
-            media: body.basic.schoolUniformPhotoUrls?.length
-              ? {
-                  create: body.basic.schoolUniformPhotoUrls.map((url: string) => ({
-                    url,
-                    type: "photo",
-                  })),
-                }
-              : undefined,
-          },
-        },
-        secondary: {
-          create: {
-            price: body.secondary.price,
-            schoolUniform: body.secondary.schoolUniform,
-            discountAndPaymentTerms: body.secondary.discountAndPaymentTerms,
-            numberOfStudents: body.secondary.numberOfStudents,
-            meals: body.secondary.meals,
-            mealsDescription: body.secondary.mealsDescription,
-            foreignLanguages: body.secondary.foreignLanguages,
-            transportation: body.secondary.transportation,
-            mandatorySportsClubs: Array.isArray(body.secondary.mandatorySportsClubs)
-              ? body.secondary.mandatorySportsClubs.join(",")
-              : body.secondary.mandatorySportsClubs,
-            teachingStyleBooks: body.secondary.teachingStyleBooks,
-            textbooksPrice: body.secondary.textbooksPrice || "",
-            clubsAndCircles: body.secondary.clubsAndCircles,
-            duration: body.secondary.duration,
-            media: body.secondary.schoolUniformPhotoUrls?.length
-              ? {
-                  create: body.secondary.schoolUniformPhotoUrls.map((url: string) => ({
-                    url,
-                    type: "photo",
-                  })),
-                }
-              : undefined,
-          },
-        },
-      },
-    });
+    schoolSchema.parse(body);
+    const { allowDuplicates } = schoolCreateQuerySchema.parse(req.query);
+
+    if (!allowDuplicates) {
+      const duplicates = await findDuplicateSchools(body);
+      if (duplicates.length) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: 'This school looks like a school that already exists',
+          ...(await visibleDuplicates(duplicates, buildVisibilityWhere(userId, req.userRole))),
+        });
+        return;
+      }
+    }
+
+    // With moderation on, an employee's school waits in the review queue
+    if (requiresModeration(req)) {
+      const changeSet = await submitChangeSet({
+        action: 'create',
+        data: body,
+        changes: diffSnapshots(null, body),
+        userId,
+      });
+      res.status(202).json({ pendingReview: true, changeSet });
+      return;
+    }
+
+    const newSchool = await prisma.$transaction((tx) => insertSchool(tx, body, userId));
 
     res.status(201).json(newSchool);
   } catch (error) {
@@ -379,10 +476,7 @@ export const createSchool = async (req: Request, res: Response): Promise<void> =
     if (error instanceof ZodError) {
       res.status(400).json({
         error: "Validation failed",
-        details: error.errors.map(err => ({
-          field: err.path.join("."),
-          message: err.message
-        }))
+        details: formatZodError(error)
       });
       return;
     }
@@ -395,67 +489,622 @@ export const createSchool = async (req: Request, res: Response): Promise<void> =
   }
 };
 
+/**
+ * Loads a school for editing, sends 404/403 and returns null when it cannot be edited
+ * Returns the nested sections the school already has
+ */
+async function findEditableSchool(req: Request, res: Response, id: string): Promise<Set<SchoolSection> | null> {
+  const userId = req.user?.id;
+  const userRole = req.userRole;
+
+  // Check if school exists and user has permission, trashed schools cannot be edited
+  const existingSchool = await findSchoolSections(prisma, id);
+
+  if (!existingSchool) {
+    res.status(404).json({ error: 'School not found' });
+    return null;
+  }
+
+  // Authorization check: employees can only update schools they own or were given edit access to
+  if (
+    userRole === 'employee'
+    && existingSchool.ownerId !== userId
+    && !canEditSchool(await findSchoolAccess(prisma, id, userId))
+  ) {
+    res.status(403).json({
+      error: 'Forbidden',
+      message: 'You can only update schools you own or have edit access to'
+    });
+    return null;
+  }
+
+  return existingSchool.sections;
+}
+
+/**
+ * Sends 412 with the latest copy so the client can compare it with its edits
+ */
+async function sendVersionConflict(res: Response, id: string): Promise<void> {
+  const current = await prisma.schoolData.findUnique({
+    where: { id },
+    include: schoolDetailInclude,
+  });
+  if (current) res.set('ETag', schoolETag(current.version));
+  res.status(412).json({
+    error: 'Precondition Failed',
+    message: 'The school was changed by someone else since you loaded it',
+    current: current && flattenLevelLists(current),
+  });
+}
+
+/**
+ * Stores an employee's update for review instead of writing it (moderation mode)
+ * Sends 202 with the change set, or 412 when If-Match is already stale
+ */
+async function submitSchoolChanges(
+  res: Response,
+  params: { id: string; data: NestedUpdateData; ifMatch: '*' | number[]; userId: string }
+): Promise<void> {
+  const { id, data, ifMatch, userId } = params;
+
+  const before = await loadSchoolSnapshot(prisma, id);
+  if (!before) {
+    res.status(404).json({ error: 'School not found' });
+    return;
+  }
+
+  if (ifMatch !== '*' && !ifMatch.includes(before.version)) {
+    await sendVersionConflict(res, id);
+    return;
+  }
+
+  const changeSet = await submitChangeSet({
+    action: 'update',
+    schoolId: id,
+    data,
+    changes: changesForUpdate(before, data),
+    baseVersion: before.version,
+    userId,
+  });
+  res.status(202).json({ pendingReview: true, changeSet });
+}
+
+/**
+ * Writes an update and its revision in one transaction, then sends the school
+ * Sends 412 with the current school when the version no longer matches If-Match
+ */
+async function writeSchoolUpdate(
+  res: Response,
+  params: Parameters<typeof saveSchoolUpdate>[1]
+): Promise<void> {
+  try {
+    const updated = await prisma.$transaction((tx) => saveSchoolUpdate(tx, params));
+
+    res.set('ETag', schoolETag(updated.version));
+    res.status(200).json(updated);
+  } catch (error) {
+    if (!(error instanceof VersionConflictError)) throw error;
+    await sendVersionConflict(res, params.id);
+  }
+}
+
+/**
+ * Validates and applies an update, shared by PUT and PATCH
+ * The two differ only in the schema: PUT takes a partial school, PATCH a merge patch
+ * Both require If-Match: 428 without it, 412 with the current school when it is stale
+ * With moderation on, employee updates are queued for review (202)
+ */
+async function applySchoolUpdate(
+  req: Request,
+  res: Response,
+  schema: typeof schoolUpdateSchema | typeof schoolPatchSchema
+): Promise<void> {
+  const { id } = req.params;
+
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    res.status(400).json({
+      error: "Validation failed",
+      details: formatZodError(parsed.error)
+    });
+    return;
+  }
+
+  const ifMatch = parseIfMatch(req.header('If-Match'));
+  if (!ifMatch) {
+    res.status(428).json({
+      error: 'Precondition Required',
+      message: 'Send the ETag from GET /api/schools/:id in the If-Match header'
+    });
+    return;
+  }
+
+  const existingSections = await findEditableSchool(req, res, id);
+  if (!existingSections) return;
+
+  // The body may echo the school's id, it never changes
+  const sanitizedData = sanitizeSchoolData(parsed.data as NestedUpdateData);
+
+  const userId = req.user?.id;
+  if (userId && requiresModeration(req)) {
+    await submitSchoolChanges(res, { id, data: sanitizedData, ifMatch, userId });
+    return;
+  }
+
+  const data = transformNestedUpdates(sanitizedData, existingSections);
+  await writeSchoolUpdate(res, { id, data, ifMatch, userId });
+}
+
 /**
  * PUT /api/schools/:id
  * Update a school
- * Authorization: Employees can only update their own schools, Admins can update all
+ * Accepts any subset of the school fields, unknown keys are rejected
+ * Requires If-Match with the school's ETag
+ * Authorization: Employees can update schools they own or have edit access to, Admins can update all
  */
 export const updateSchool = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await applySchoolUpdate(req, res, schoolUpdateSchema);
+  } catch (error) {
+    console.error("PUT /api/schools/:id error:", error);
+    res.status(500).json({
+      error: "Failed to update school",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
+
+/**
+ * PATCH /api/schools/:id
+ * Partially update a school with JSON Merge Patch semantics
+ * (Content-Type application/merge-patch+json or application/json)
+ * Omitted fields are unchanged, null clears a field or removes a nested section
+ * (address, infrastructure, primary, basic, secondary); missing sections are created
+ * Requires If-Match with the school's ETag
+ * Authorization: Employees can update schools they own or have edit access to, Admins can update all
+ */
+export const patchSchool = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await applySchoolUpdate(req, res, schoolPatchSchema);
+  } catch (error) {
+    console.error("PATCH /api/schools/:id error:", error);
+    res.status(500).json({
+      error: "Failed to update school",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
+
+/**
+ * POST /api/schools/:id/snapshots/:snapshotId/restore
+ * Re-applies a saved snapshot (any revision of the school): top-level fields, address,
+ * infrastructure and all three levels. Sections the school did not have then are removed
+ * The restore is recorded as a new revision, earlier history is kept
+ * If-Match is optional here, when sent a stale version gets 412
+ * Authorization: Employees can restore schools they own or have edit access to, Admins can restore all
+ */
+export const restoreSchoolSnapshot = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, snapshotId } = req.params;
+
+    const existingSections = await findEditableSchool(req, res, id);
+    if (!existingSections) return;
+
+    const revision = await prisma.schoolRevision.findFirst({
+      where: { id: snapshotId, schoolId: id },
+      select: { id: true, snapshot: true }
+    });
+
+    if (!revision) {
+      res.status(404).json({ error: 'Snapshot not found' });
+      return;
+    }
+
+    const restored = snapshotToUpdateData(revision.snapshot) as NestedUpdateData;
+    const ifMatch = parseIfMatch(req.header('If-Match')) ?? '*';
+
+    // With moderation on, an employee's restore is reviewed like any other edit
+    const userId = req.user?.id;
+    if (userId && requiresModeration(req)) {
+      await submitSchoolChanges(res, { id, data: restored, ifMatch, userId });
+      return;
+    }
+
+    await writeSchoolUpdate(res, {
+      id,
+      data: transformNestedUpdates(restored, existingSections),
+      ifMatch,
+      userId,
+      restoredFromId: revision.id,
+    });
+  } catch (error) {
+    console.error("POST /api/schools/:id/snapshots/:snapshotId/restore error:", error);
+    res.status(500).json({
+      error: "Failed to restore school",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
+
+/**
+ * PUT /api/schools/:id/status
+ * Publish, unpublish (back to draft) or archive a school
+ * Body: { status: "draft" | "published" | "archived" }
+ * Recorded as an update revision, If-Match is optional
+ * With moderation on, employee status changes are queued for review (202)
+ * Authorization: Employees can change schools they own or have edit access to, Admins can change all
+ */
+export const setSchoolStatus = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const parsed = schoolStatusSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: formatZodError(parsed.error)
+      });
+      return;
+    }
+
+    const existingSections = await findEditableSchool(req, res, id);
+    if (!existingSections) return;
+
+    const ifMatch = parseIfMatch(req.header('If-Match')) ?? '*';
+    const userId = req.user?.id;
+    if (userId && requiresModeration(req)) {
+      await submitSchoolChanges(res, { id, data: { status: parsed.data.status }, ifMatch, userId });
+      return;
+    }
+
+    await writeSchoolUpdate(res, {
+      id,
+      data: { status: parsed.data.status },
+      ifMatch,
+      userId,
+    });
+  } catch (error) {
+    console.error("PUT /api/schools/:id/status error:", error);
+    res.status(500).json({
+      error: "Failed to update school status",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
+
+/**
+ * PUT /api/schools/:id/location
+ * Set the coordinates of a school's address, placed by hand or picked from GET /api/geo/lookup
+ * Body: { latitude: number, longitude: number }, both null clear them
+ * Recorded as an update revision, If-Match is optional
+ * Authorization: Admins only
+ */
+export const setSchoolLocation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const parsed = schoolLocationSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: formatZodError(parsed.error)
+      });
+      return;
+    }
+
+    const existingSections = await findEditableSchool(req, res, id);
+    if (!existingSections) return;
+
+    await writeSchoolUpdate(res, {
+      id,
+      data: transformNestedUpdates({ address: parsed.data }, existingSections),
+      ifMatch: parseIfMatch(req.header('If-Match')) ?? '*',
+      userId: req.user?.id,
+    });
+  } catch (error) {
+    console.error("PUT /api/schools/:id/location error:", error);
+    res.status(500).json({
+      error: "Failed to update school location",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
+
+/**
+ * GET /api/schools/:id/fees
+ * Fee schedule of every level, with the derived price and the yearly cost per currency
+ * The response carries the school's ETag, send it in If-Match on PUT /api/schools/:id/fees/:level
+ * Public access: Anyone can view the fees of published schools
+ * Authenticated access: Employees can only view schools they own or collaborate on, Admins can view all
+ */
+export const getSchoolFees = async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const data = req.body;
     const userId = req.user?.id;
     const userRole = req.userRole;
 
-    // Check if school exists and user has permission
-    const existingSchool = await prisma.schoolData.findUnique({
-      where: { id },
-      select: { createdBy: true }
+    const level = { select: { price: true, fees: levelFeesArgs } };
+    const school = await prisma.schoolData.findFirst({
+      where: { id, deletedAt: null, ...(!userRole && { status: 'published' as const }) },
+      select: { id: true, version: true, primary: level, basic: level, secondary: level },
     });
 
-    if (!existingSchool) {
+    if (!school) {
       res.status(404).json({ error: 'School not found' });
       return;
     }
 
-    // Authorization check: employees can only update their own schools
-    if (userRole === 'employee' && existingSchool.createdBy !== userId) {
+    if (userId && userRole === 'employee' && !(await findSchoolAccess(prisma, id, userId))) {
       res.status(403).json({
         error: 'Forbidden',
-        message: 'You can only update schools you created'
+        message: 'You can only view schools you own or collaborate on'
       });
       return;
     }
 
-    const sanitizedData = sanitizeSchoolData(data);
-    const transformedData = transformNestedUpdates(sanitizedData);
+    const schedule = (section: typeof school.primary) =>
+      section && { price: section.price, fees: section.fees, annualTotals: annualTotals(section.fees) };
 
-    const updated = await prisma.schoolData.update({
-      where: { id },
-      data: {
-        ...transformedData,
-        updatedBy: userId, // Track who updated
-      },
-      include: {
-        address: true,
-        infrastructure: true,
-        primary: true,
-        basic: true,
-        secondary: true,
-        creator: {
-          select: {
-            id: true,
-            email: true,
-          }
+    res.set('ETag', schoolETag(school.version));
+    res.status(200).json({
+      schoolId: school.id,
+      primary: schedule(school.primary),
+      basic: schedule(school.basic),
+      secondary: schedule(school.secondary),
+    });
+  } catch (error) {
+    console.error("GET /api/schools/:id/fees error:", error);
+    res.status(500).json({
+      error: "Failed to fetch fees",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
+
+/**
+ * PUT /api/schools/:id/fees/:level
+ * Replace the fee schedule of one level (primary, basic or secondary)
+ * Body: { fees: [{ type, amount, currency?, period, installments?, siblingDiscountPercent?,
+ *   siblingDiscountFrom?, earlyPaymentDiscountPercent?, earlyPaymentDeadline?, description? }] }
+ * The level's price becomes the annual tuition in GEL; a missing level is created
+ * Recorded as an update revision, If-Match is optional; with moderation on, employee changes are queued (202)
+ * Authorization: Employees can change schools they own or have edit access to, Admins can change all
+ */
+export const updateLevelFees = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const level = schoolLevelParamSchema.safeParse(req.params.level);
+    const parsed = levelFeesSchema.safeParse(req.body ?? {});
+    if (!level.success || !parsed.success) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: [
+          ...(level.success ? [] : [{ field: "level", message: "Expected primary, basic or secondary" }]),
+          ...(parsed.success ? [] : formatZodError(parsed.error)),
+        ]
+      });
+      return;
+    }
+
+    const existingSections = await findEditableSchool(req, res, id);
+    if (!existingSections) return;
+
+    const data: NestedUpdateData = { [level.data]: { fees: parsed.data.fees } };
+    const ifMatch = parseIfMatch(req.header('If-Match')) ?? '*';
+
+    const userId = req.user?.id;
+    if (userId && requiresModeration(req)) {
+      await submitSchoolChanges(res, { id, data, ifMatch, userId });
+      return;
+    }
+
+    await writeSchoolUpdate(res, {
+      id,
+      data: transformNestedUpdates(data, existingSections),
+      ifMatch,
+      userId,
+    });
+  } catch (error) {
+    console.error("PUT /api/schools/:id/fees/:level error:", error);
+    res.status(500).json({
+      error: "Failed to update fees",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
+
+/**
+ * GET /api/schools/:id/prices
+ * Price of every level per academic year ("2025/26", September to June), oldest first
+ * Each level also has its current price, the academic year it was set or confirmed for and
+ * outdated when that is not the current academic year
+ * Public access: Anyone can view the prices of published schools
+ * Authenticated access: Employees can only view schools they own or collaborate on, Admins can view all
+ */
+export const getSchoolPriceHistory = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+    const userRole = req.userRole;
+
+    const school = await prisma.schoolData.findFirst({
+      where: { id, deletedAt: null, ...(!userRole && { status: 'published' as const }) },
+      select: { id: true },
+    });
+
+    if (!school) {
+      res.status(404).json({ error: 'School not found' });
+      return;
+    }
+
+    if (userId && userRole === 'employee' && !(await findSchoolAccess(prisma, id, userId))) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You can only view schools you own or collaborate on'
+      });
+      return;
+    }
+
+    res.status(200).json({ schoolId: school.id, ...(await loadPriceHistory(prisma, school.id)) });
+  } catch (error) {
+    console.error("GET /api/schools/:id/prices error:", error);
+    res.status(500).json({
+      error: "Failed to fetch price history",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
+
+/**
+ * PUT /api/schools/:id/prices/:level
+ * Record the price of one level for an academic year
+ * Body: { academicYear: "2025/26", price: number }
+ * For the current academic year a different price is saved like PUT /api/schools/:id and answered with the
+ * school (revision, If-Match optional, 202 when queued for moderation); the same price confirms it for the year
+ * Earlier years correct the history; confirmations and corrections are answered with the price history
+ * Years that have not started yet are rejected, with moderation on employees can only set the current year
+ * Authorization: Employees can change schools they own or have edit access to, Admins can change all
+ */
+export const updateLevelPrice = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const level = schoolLevelParamSchema.safeParse(req.params.level);
+    const parsed = levelPriceSchema.safeParse(req.body ?? {});
+    if (!level.success || !parsed.success) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: [
+          ...(level.success ? [] : [{ field: "level", message: "Expected primary, basic or secondary" }]),
+          ...(parsed.success ? [] : formatZodError(parsed.error)),
+        ]
+      });
+      return;
+    }
+
+    const { academicYear, price } = parsed.data;
+    const currentAcademicYear = academicYearOf();
+    if (academicYear > currentAcademicYear) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: [{ field: "academicYear", message: `Prices can be recorded up to the current academic year (${currentAcademicYear})` }]
+      });
+      return;
+    }
+
+    const existingSections = await findEditableSchool(req, res, id);
+    if (!existingSections) return;
+
+    if (!existingSections.has(level.data)) {
+      res.status(404).json({ error: 'Level not found' });
+      return;
+    }
+
+    const userId = req.user?.id;
+    const moderated = Boolean(userId && requiresModeration(req));
+
+    if (academicYear === currentAcademicYear) {
+      const levelPrice = { select: { price: true } };
+      const current = await prisma.schoolData.findUniqueOrThrow({
+        where: { id },
+        select: { primary: levelPrice, basic: levelPrice, secondary: levelPrice },
+      });
+
+      // A new price goes through the usual update, which records it for the year
+      if (current[level.data]?.price !== price) {
+        const data: NestedUpdateData = { [level.data]: { price } };
+        const ifMatch = parseIfMatch(req.header('If-Match')) ?? '*';
+
+        if (userId && moderated) {
+          await submitSchoolChanges(res, { id, data, ifMatch, userId });
+          return;
         }
-      },
+
+        await writeSchoolUpdate(res, {
+          id,
+          data: transformNestedUpdates(data, existingSections),
+          ifMatch,
+          userId,
+        });
+        return;
+      }
+    } else if (moderated) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'Only admins can correct earlier academic years while changes are moderated'
+      });
+      return;
+    }
+
+    const history = await prisma.$transaction(async (tx) => {
+      await recordLevelPrice(tx, { schoolId: id, level: level.data, academicYear, price, userId });
+      return loadPriceHistory(tx, id);
     });
 
-    res.status(200).json(updated);
+    res.status(200).json({ schoolId: id, ...history });
   } catch (error) {
-    console.error("PUT /api/schools/:id error:", error);
-    res.status(400).json({
-      error: "Failed to update school",
+    console.error("PUT /api/schools/:id/prices/:level error:", error);
+    res.status(500).json({
+      error: "Failed to record price",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
+
+/**
+ * POST /api/schools/transfer
+ * Hands one or many schools to another user, who can then see and edit them
+ * Body: { schoolIds: string[] (max 500), ownerId: string }
+ * Every transferred school gets an update revision; ids that are unknown or in the trash are returned in notFound
+ * Authorization: Admins only
+ */
+export const transferSchools = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parsed = schoolTransferSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: formatZodError(parsed.error)
+      });
+      return;
+    }
+
+    const schoolIds = [...new Set(parsed.data.schoolIds)];
+    const { ownerId } = parsed.data;
+
+    const owner = await findStaffOwner(ownerId);
+    if (!owner) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: [{ field: "ownerId", message: "No employee or admin with this id" }]
+      });
+      return;
+    }
+
+    const schools = await prisma.schoolData.findMany({
+      where: { id: { in: schoolIds }, deletedAt: null },
+      select: { id: true, ownerId: true },
+    });
+    const found = new Set(schools.map(school => school.id));
+    // Schools the user already owns are left alone so their history stays clean
+    const toTransfer = schools.filter(school => school.ownerId !== ownerId).map(school => school.id);
+
+    await inSchoolBatch(async (tx) => {
+      await saveSchoolUpdates(tx, toTransfer.map((id) => ({ id, data: { ownerId } })), req.user?.id);
+      // An owner needs no collaborator access on top
+      await tx.schoolCollaborator.deleteMany({ where: { schoolId: { in: toTransfer }, userId: ownerId } });
+    });
+
+    res.status(200).json({
+      owner,
+      transferred: toTransfer,
+      notFound: schoolIds.filter(id => !found.has(id)),
+    });
+  } catch (error) {
+    console.error("POST /api/schools/transfer error:", error);
+    res.status(500).json({
+      error: "Failed to transfer schools",
       details: error instanceof Error ? error.message : "Unknown error"
     });
   }
@@ -463,8 +1112,10 @@ export const updateSchool = async (req: Request, res: Response): Promise<void> =
 
 /**
  * DELETE /api/schools/:id
- * Delete a school
- * Authorization: Employees can only delete their own schools, Admins can delete all
+ * Move a school to the trash
+ * The school disappears from all listings but can be restored by an admin until it is purged
+ * With moderation on, an employee's delete is queued for review (202)
+ * Authorization: Employees can delete schools they own or have edit access to, Admins can delete all
  */
 export const deleteSchool = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -472,12 +1123,10 @@ export const deleteSchool = async (req: Request, res: Response): Promise<void> =
     const userId = req.user?.id;
     const userRole = req.userRole;
 
-    console.log("Deleting school with ID:", id);
-
     // Check if school exists and user has permission
-    const existingSchool = await prisma.schoolData.findUnique({
-      where: { id },
-      select: { createdBy: true }
+    const existingSchool = await prisma.schoolData.findFirst({
+      where: { id, deletedAt: null },
+      select: { id: true, version: true }
     });
 
     if (!existingSchool) {
@@ -485,18 +1134,29 @@ export const deleteSchool = async (req: Request, res: Response): Promise<void> =
       return;
     }
 
-    // Authorization check: employees can only delete their own schools
-    if (userRole === 'employee' && existingSchool.createdBy !== userId) {
+    // Authorization check: employees can only delete schools they own or have edit access to
+    if (userRole === 'employee' && !canEditSchool(await findSchoolAccess(prisma, id, userId))) {
       res.status(403).json({
         error: 'Forbidden',
-        message: 'You can only delete schools you created'
+        message: 'You can only delete schools you own or have edit access to'
       });
       return;
     }
 
-    const deleted = await prisma.schoolData.delete({
-      where: { id },
-    });
+    if (userId && requiresModeration(req)) {
+      const changeSet = await submitChangeSet({
+        action: 'delete',
+        schoolId: id,
+        data: {},
+        changes: [],
+        baseVersion: existingSchool.version,
+        userId,
+      });
+      res.status(202).json({ pendingReview: true, changeSet });
+      return;
+    }
+
+    const deleted = await prisma.$transaction((tx) => trashSchool(tx, id, userId));
 
     res.status(200).json(deleted);
   } catch (error) {
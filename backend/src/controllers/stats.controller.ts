@@ -0,0 +1,137 @@
+import { Request, Response } from 'express';
+import { activityQuerySchema, statsQuerySchema } from '../schemas/stats.schema';
+import { formatZodError } from '../utils/validators';
+import {
+  StatsScope,
+  scopeFor,
+  computeCounts,
+  computePrices,
+  computeStudents,
+  computeInfrastructure,
+  computePrograms,
+  computeActivity,
+} from '../utils/schoolStats';
+
+/**
+ * Schools the statistics of a request cover, null after answering 400
+ */
+function parseScope(req: Request, res: Response): StatsScope | null {
+  const parsed = statsQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({
+      error: "Invalid query parameters",
+      details: formatZodError(parsed.error)
+    });
+    return null;
+  }
+  return scopeFor(parsed.data, req.userRole);
+}
+
+/**
+ * Answers with one computed section, or 500 naming the endpoint
+ */
+async function sendStats(req: Request, res: Response, path: string, compute: (scope: StatsScope) => Promise<object>): Promise<void> {
+  try {
+    const scope = parseScope(req, res);
+    if (!scope) return;
+
+    res.status(200).json({
+      ...(await compute(scope)),
+      generatedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error(`GET ${path} error:`, error);
+    res.status(500).json({
+      error: "Failed to compute statistics",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+}
+
+/**
+ * GET /api/stats
+ * Every statistics section at once, see the endpoints below
+ * Query: city, district, status (admins only)
+ * Public access: Published schools; Admins: every school outside the trash
+ */
+export const getStats = (req: Request, res: Response): Promise<void> =>
+  sendStats(req, res, '/api/stats', async (scope) => {
+    const [counts, prices, students, infrastructure, programs] = await Promise.all([
+      computeCounts(scope),
+      computePrices(scope),
+      computeStudents(scope),
+      computeInfrastructure(scope),
+      computePrograms(scope),
+    ]);
+    return { counts, prices, students, infrastructure, programs };
+  });
+
+/**
+ * GET /api/stats/counts
+ * Schools in total and per district, city, accreditation status and status
+ * Public access: Published schools; Admins: every school outside the trash
+ */
+export const getCountStats = (req: Request, res: Response): Promise<void> =>
+  sendStats(req, res, '/api/stats/counts', computeCounts);
+
+/**
+ * GET /api/stats/prices
+ * Min, median, max and average price of each level, overall and per district
+ * Public access: Published schools; Admins: every school outside the trash
+ */
+export const getPriceStats = (req: Request, res: Response): Promise<void> =>
+  sendStats(req, res, '/api/stats/prices', computePrices);
+
+/**
+ * GET /api/stats/students
+ * Average and total students of each level
+ * Public access: Published schools; Admins: every school outside the trash
+ */
+export const getStudentStats = (req: Request, res: Response): Promise<void> =>
+  sendStats(req, res, '/api/stats/students', computeStudents);
+
+/**
+ * GET /api/stats/infrastructure
+ * Share of schools with each facility (pools, library, laboratories...)
+ * Public access: Published schools; Admins: every school outside the trash
+ */
+export const getInfrastructureStats = (req: Request, res: Response): Promise<void> =>
+  sendStats(req, res, '/api/stats/infrastructure', computeInfrastructure);
+
+/**
+ * GET /api/stats/programs
+ * Schools teaching each foreign language and offering each sports club
+ * Public access: Published schools; Admins: every school outside the trash
+ */
+export const getProgramStats = (req: Request, res: Response): Promise<void> =>
+  sendStats(req, res, '/api/stats/programs', computePrograms);
+
+/**
+ * GET /api/stats/activity
+ * Schools added and updated per week and the revisions of each staff member
+ * Query: from, to (YYYY-MM-DD, both included; the last 12 weeks by default)
+ * Authorization: Admins only
+ */
+export const getActivityStats = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const range = activityQuerySchema.safeParse(req.query);
+    if (!range.success) {
+      res.status(400).json({
+        error: "Invalid query parameters",
+        details: formatZodError(range.error)
+      });
+      return;
+    }
+
+    res.status(200).json({
+      ...(await computeActivity(range.data)),
+      generatedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("GET /api/stats/activity error:", error);
+    res.status(500).json({
+      error: "Failed to compute statistics",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
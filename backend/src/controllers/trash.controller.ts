@@ -0,0 +1,140 @@
+import { Request, Response } from 'express';
+import { prisma } from '../lib/prisma';
+import { loadSchoolSnapshot, recordSchoolRevision } from '../utils/schoolRevisions';
+import { trashPurgeDate } from '../jobs/purgeTrash';
+import { trashQuerySchema } from '../schemas/trash.schema';
+import { formatZodError } from '../utils/validators';
+
+const userSelect = {
+  select: {
+    id: true,
+    email: true,
+  }
+};
+
+/**
+ * GET /api/schools/trash
+ * Schools in the trash, most recently deleted first
+ * Each entry carries purgeAt, when the school will be removed for good (null if never)
+ * Query: limit (default 50, max 200)
+ * Schools merged into another are not listed, they stay to redirect to the school they were merged into
+ * Authorization: Admins only
+ */
+export const getTrashedSchools = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const query = trashQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      res.status(400).json({
+        error: "Invalid query parameters",
+        details: formatZodError(query.error)
+      });
+      return;
+    }
+
+    const take = query.data.limit;
+    const where = { deletedAt: { not: null }, mergedIntoId: null };
+
+    const [schools, total] = await Promise.all([
+      prisma.schoolData.findMany({
+        where,
+        orderBy: { deletedAt: 'desc' },
+        take,
+        select: {
+          id: true,
+          name: true,
+          deletedAt: true,
+          address: { select: { city: true, district: true } },
+          creator: userSelect,
+          deleter: userSelect,
+        }
+      }),
+      prisma.schoolData.count({ where }),
+    ]);
+
+    res.status(200).json({
+      data: schools.map(school => ({
+        ...school,
+        purgeAt: school.deletedAt && trashPurgeDate(school.deletedAt),
+      })),
+      total,
+    });
+  } catch (error) {
+    console.error("GET /api/schools/trash error:", error);
+    res.status(500).json({
+      error: "Failed to fetch trash",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
+
+/**
+ * POST /api/schools/:id/restore
+ * Take a school out of the trash, it becomes visible again as it was when deleted
+ * Recorded as a restore revision, the school gets a new version (and ETag)
+ * Authorization: Admins only
+ */
+export const restoreTrashedSchool = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    const trashed = await prisma.schoolData.findFirst({
+      where: { id, deletedAt: { not: null }, mergedIntoId: null },
+      select: { id: true }
+    });
+
+    if (!trashed) {
+      res.status(404).json({ error: 'School not found in trash' });
+      return;
+    }
+
+    const restored = await prisma.$transaction(async (tx) => {
+      const result = await tx.schoolData.update({
+        where: { id },
+        data: { deletedAt: null, deletedBy: null, updatedBy: userId, version: { increment: 1 } },
+      });
+
+      // The delete revision left the school empty, so the restore brings every field back
+      const after = await loadSchoolSnapshot(tx, id);
+      await recordSchoolRevision(tx, { action: 'restore', before: null, after, userId });
+      return result;
+    });
+
+    res.status(200).json(restored);
+  } catch (error) {
+    console.error("POST /api/schools/:id/restore error:", error);
+    res.status(500).json({
+      error: "Failed to restore school",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
+
+/**
+ * DELETE /api/schools/:id/purge
+ * Permanently delete a school that is already in the trash
+ * Its revisions are kept, so the history stays readable
+ * Authorization: Admins only
+ */
+export const purgeSchool = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const { count } = await prisma.schoolData.deleteMany({
+      where: { id, deletedAt: { not: null }, mergedIntoId: null },
+    });
+
+    if (count === 0) {
+      res.status(404).json({ error: 'School not found in trash' });
+      return;
+    }
+
+    res.status(200).json({ message: 'School permanently deleted' });
+  } catch (error) {
+    console.error("DELETE /api/schools/:id/purge error:", error);
+    res.status(500).json({
+      error: "Failed to purge school",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+};
@@ -0,0 +1,58 @@
+import { prisma } from '../lib/prisma';
+
+/**
+ * Permanently removes schools that have been in the trash longer than the retention period
+ * SCHOOL_TRASH_RETENTION_DAYS sets the period (default 30), 0 keeps trashed schools forever
+ * Revisions are not removed, the history of a purged school stays readable
+ * Schools merged into another are kept, their redirect would be lost
+ */
+
+const DEFAULT_RETENTION_DAYS = 30;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000; // Hourly
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function trashRetentionDays(): number {
+  const days = parseInt(process.env.SCHOOL_TRASH_RETENTION_DAYS ?? '', 10);
+  return Number.isNaN(days) || days < 0 ? DEFAULT_RETENTION_DAYS : days;
+}
+
+/**
+ * When a trashed school will be purged, null when automatic purging is off
+ */
+export function trashPurgeDate(deletedAt: Date): Date | null {
+  const days = trashRetentionDays();
+  return days > 0 ? new Date(deletedAt.getTime() + days * DAY_MS) : null;
+}
+
+export async function purgeExpiredSchools(): Promise<number> {
+  const days = trashRetentionDays();
+  if (days === 0) return 0;
+
+  const { count } = await prisma.schoolData.deleteMany({
+    where: { deletedAt: { lt: new Date(Date.now() - days * DAY_MS) }, mergedIntoId: null },
+  });
+  return count;
+}
+
+/**
+ * Runs the purge once at startup and then every hour
+ * The timer does not keep the process alive on shutdown
+ */
+export function startTrashPurgeJob(): void {
+  if (trashRetentionDays() === 0) {
+    console.log('🗑️  Trash retention disabled, trashed schools are kept until purged by an admin');
+    return;
+  }
+
+  const run = async () => {
+    try {
+      const count = await purgeExpiredSchools();
+      if (count > 0) console.log(`🗑️  Purged ${count} school(s) from the trash`);
+    } catch (error) {
+      console.error('Trash purge error:', error);
+    }
+  };
+
+  void run();
+  setInterval(run, PURGE_INTERVAL_MS).unref();
+}
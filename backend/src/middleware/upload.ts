@@ -0,0 +1,29 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+
+// Spreadsheets are read in memory, nothing is written to disk
+const MAX_SPREADSHEET_BYTES = 5 * 1024 * 1024;
+
+const spreadsheet = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_SPREADSHEET_BYTES, files: 1 },
+}).single('file');
+
+/**
+ * Parses a multipart body with one spreadsheet in the "file" field
+ * The file ends up in req.file, the other form fields in req.body
+ */
+export const uploadSpreadsheet = (req: Request, res: Response, next: NextFunction): void => {
+  spreadsheet(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      res.status(error.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({
+        error: 'Invalid upload',
+        message: error.code === 'LIMIT_FILE_SIZE'
+          ? `The file is larger than ${MAX_SPREADSHEET_BYTES / 1024 / 1024} MB`
+          : error.message
+      });
+      return;
+    }
+    next(error);
+  });
+};
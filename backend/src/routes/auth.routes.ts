@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { createEmployee } from '../controllers/auth.controller';
+import { createEmployee, getUsers } from '../controllers/auth.controller';
 import { authenticate, requireAdmin } from '../middleware/auth';
 
 const router = Router();
@@ -7,4 +7,7 @@ const router = Router();
 // POST /api/auth/create-employee - Create a new employee (admin only)
 router.post('/create-employee', authenticate, requireAdmin, createEmployee);
 
+// GET /api/auth/users - Employees and admins (admin only)
+router.get('/users', authenticate, requireAdmin, getUsers);
+
 export default router;
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import {
+  getChangeSets,
+  getChangeSetById,
+  approveChangeSet,
+  rejectChangeSet,
+} from '../controllers/changeSet.controller';
+import { authenticate, requireAuth, requireAdmin } from '../middleware/auth';
+
+const router = Router();
+
+// GET /api/change-sets - Moderation queue
+// Admins see all submissions, employees only their own
+router.get('/', authenticate, requireAuth, getChangeSets);
+
+// GET /api/change-sets/:id - A single submission with its changes
+router.get('/:id', authenticate, requireAuth, getChangeSetById);
+
+// POST /api/change-sets/:id/approve - Apply all or some of the changes (admin only)
+router.post('/:id/approve', authenticate, requireAdmin, approveChangeSet);
+
+// POST /api/change-sets/:id/reject - Reject with a comment (admin only)
+router.post('/:id/reject', authenticate, requireAdmin, rejectChangeSet);
+
+export default router;
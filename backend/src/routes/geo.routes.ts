@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { importGazetteer, getGazetteer, lookupLocation } from '../controllers/geo.controller';
+import { authenticate, requireAdmin } from '../middleware/auth';
+import { uploadSpreadsheet } from '../middleware/upload';
+
+const router = Router();
+
+// GET /api/geo/gazetteer - Size of the imported street/house gazetteer (admin only)
+// POST /api/geo/gazetteer - Replace it with a CSV or XLSX file (admin only)
+router.get('/gazetteer', authenticate, requireAdmin, getGazetteer);
+router.post('/gazetteer', authenticate, requireAdmin, uploadSpreadsheet, importGazetteer);
+
+// GET /api/geo/lookup - Gazetteer entries matching an address or a school's address (admin only)
+router.get('/lookup', authenticate, requireAdmin, lookupLocation);
+
+export default router;
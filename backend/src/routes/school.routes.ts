@@ -1,35 +1,154 @@
 import { Router } from 'express';
 import {
   getAllSchools,
+  searchSchools,
+  getNearbySchools,
+  getDistrictStats,
   getSchoolById,
   createSchool,
   updateSchool,
+  patchSchool,
+  restoreSchoolSnapshot,
+  setSchoolStatus,
+  setSchoolLocation,
+  getSchoolFees,
+  updateLevelFees,
+  getSchoolPriceHistory,
+  updateLevelPrice,
+  transferSchools,
   deleteSchool,
 } from '../controllers/school.controller';
-import { authenticate, requireAuth, optionalAuthenticate } from '../middleware/auth';
+import { getSchoolRevisions, getRevisionDiff } from '../controllers/revision.controller';
+import { getTrashedSchools, restoreTrashedSchool, purgeSchool } from '../controllers/trash.controller';
+import { getCollaborators, addCollaborator, removeCollaborator } from '../controllers/collaborator.controller';
+import { exportSchools } from '../controllers/export.controller';
+import { bulkUpdateSchools } from '../controllers/bulk.controller';
+import { mergeSchools } from '../controllers/merge.controller';
+import { getDuplicateClusters } from '../controllers/duplicate.controller';
+import { importSchools, getImports, getImportById, rollbackImport } from '../controllers/import.controller';
+import { authenticate, requireAuth, requireAdmin, optionalAuthenticate } from '../middleware/auth';
+import { uploadSpreadsheet } from '../middleware/upload';
 
 const router = Router();
 
 // Public routes with optional authentication
 // GET /api/schools - Get all schools with optional pagination
 // If authenticated: employees see only their schools, admins see all
-// If not authenticated: public users see all schools
+// If not authenticated: public users see published schools only
 router.get('/', optionalAuthenticate, getAllSchools);
 
+// GET /api/schools/search?q= - Ranked full-text search (Georgian/Latin transliteration aware)
+// Registered before /:id so "search" is not treated as an ID
+router.get('/search', optionalAuthenticate, searchSchools);
+
+// GET /api/schools/nearby?lat=&lng=&radiusKm= - Schools around a point, nearest first
+// Registered before /:id so "nearby" is not treated as an ID
+router.get('/nearby', optionalAuthenticate, getNearbySchools);
+
+// GET /api/schools/districts - School count and median price per district, for the district map
+// Registered before /:id so "districts" is not treated as an ID
+router.get('/districts', optionalAuthenticate, getDistrictStats);
+
+// GET /api/schools/export?format=csv|xlsx|json - Download the filtered schools
+// Employees export the schools they own or collaborate on, admins all of them
+// Registered before /:id so "export" is not treated as an ID
+router.get('/export', authenticate, requireAuth, exportSchools);
+
+// POST /api/schools/bulk - Apply one operation to many schools by id or filter (admin only)
+// Registered before /:id so "bulk" is not treated as an ID
+router.post('/bulk', authenticate, requireAdmin, bulkUpdateSchools);
+
+// POST /api/schools/merge - Merge a duplicate school into another, field by field (admin only)
+// Registered before /:id so "merge" is not treated as an ID
+router.post('/merge', authenticate, requireAdmin, mergeSchools);
+
+// GET /api/schools/duplicates - Groups of schools that look like the same school (admin only)
+// Registered before /:id so "duplicates" is not treated as an ID
+router.get('/duplicates', authenticate, requireAdmin, getDuplicateClusters);
+
+// GET /api/schools/trash - Schools in the trash (admin only)
+// Registered before /:id so "trash" is not treated as an ID
+router.get('/trash', authenticate, requireAdmin, getTrashedSchools);
+
+// POST /api/schools/import - Import schools from a CSV or XLSX file, dry run unless commit=true (admin only)
+// GET /api/schools/imports - Committed imports, GET /api/schools/imports/:id - one with its per-row results
+// POST /api/schools/imports/:id/rollback - Move the schools of an import to the trash
+// Registered before /:id so "import" and "imports" are not treated as IDs
+router.post('/import', authenticate, requireAdmin, uploadSpreadsheet, importSchools);
+router.get('/imports', authenticate, requireAdmin, getImports);
+router.get('/imports/:id', authenticate, requireAdmin, getImportById);
+router.post('/imports/:id/rollback', authenticate, requireAdmin, rollbackImport);
+
 // GET /api/schools/:id - Get a single school by ID
 router.get('/:id', optionalAuthenticate, getSchoolById);
 
+// GET /api/schools/:id/fees - Fee schedule of every level with yearly totals
+router.get('/:id/fees', optionalAuthenticate, getSchoolFees);
+
+// GET /api/schools/:id/prices - Price of every level per academic year
+router.get('/:id/prices', optionalAuthenticate, getSchoolPriceHistory);
+
 // Protected routes (authentication required)
+// GET /api/schools/:id/revisions - Revision history of a school
+// Admins can view all, employees only schools they own or collaborate on
+router.get('/:id/revisions', authenticate, requireAuth, getSchoolRevisions);
+
+// GET /api/schools/:id/revisions/:revId/diff - Field-level diff of a revision
+router.get('/:id/revisions/:revId/diff', authenticate, requireAuth, getRevisionDiff);
+
 // POST /api/schools - Create a new school
 // Both admins and employees can create schools
 router.post('/', authenticate, requireAuth, createSchool);
 
+// POST /api/schools/transfer - Hand schools to another owner (admin only)
+// Registered before /:id routes so "transfer" is not treated as an ID
+router.post('/transfer', authenticate, requireAdmin, transferSchools);
+
 // PUT /api/schools/:id - Update a school
-// Admins can update all, employees can only update their own
+// Admins can update all, employees only schools they own or can edit
 router.put('/:id', authenticate, requireAuth, updateSchool);
 
-// DELETE /api/schools/:id - Delete a school
-// Admins can delete all, employees can only delete their own
+// PATCH /api/schools/:id - Partially update a school (JSON Merge Patch)
+// Admins can update all, employees only schools they own or can edit
+router.patch('/:id', authenticate, requireAuth, patchSchool);
+
+// POST /api/schools/:id/snapshots/:snapshotId/restore - Restore a previous revision
+// Admins can restore all, employees only schools they own or can edit
+router.post('/:id/snapshots/:snapshotId/restore', authenticate, requireAuth, restoreSchoolSnapshot);
+
+// PUT /api/schools/:id/status - Publish, unpublish or archive a school
+// Admins can change all, employees only schools they own or can edit
+router.put('/:id/status', authenticate, requireAuth, setSchoolStatus);
+
+// PUT /api/schools/:id/location - Set the coordinates of a school's address (admin only)
+router.put('/:id/location', authenticate, requireAdmin, setSchoolLocation);
+
+// PUT /api/schools/:id/fees/:level - Replace the fee schedule of one level
+// Admins can change all, employees only schools they own or can edit
+router.put('/:id/fees/:level', authenticate, requireAuth, updateLevelFees);
+
+// PUT /api/schools/:id/prices/:level - Set or confirm a level's price for an academic year
+// Admins can change all, employees only schools they own or can edit
+router.put('/:id/prices/:level', authenticate, requireAuth, updateLevelPrice);
+
+// DELETE /api/schools/:id - Move a school to the trash
+// Admins can delete all, employees only schools they own or can edit
 router.delete('/:id', authenticate, requireAuth, deleteSchool);
 
+// GET /api/schools/:id/collaborators - Owner and collaborators of a school
+// Admins, the owner and collaborators can view them
+router.get('/:id/collaborators', authenticate, requireAuth, getCollaborators);
+
+// POST /api/schools/:id/collaborators - Give a user view or edit access
+// DELETE /api/schools/:id/collaborators/:userId - Take it away again
+// Only admins and the owner can manage collaborators
+router.post('/:id/collaborators', authenticate, requireAuth, addCollaborator);
+router.delete('/:id/collaborators/:userId', authenticate, requireAuth, removeCollaborator);
+
+// POST /api/schools/:id/restore - Take a school out of the trash (admin only)
+router.post('/:id/restore', authenticate, requireAdmin, restoreTrashedSchool);
+
+// DELETE /api/schools/:id/purge - Permanently delete a trashed school (admin only)
+router.delete('/:id/purge', authenticate, requireAdmin, purgeSchool);
+
 export default router;
@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import {
+  getStats,
+  getCountStats,
+  getPriceStats,
+  getStudentStats,
+  getInfrastructureStats,
+  getProgramStats,
+  getActivityStats,
+} from '../controllers/stats.controller';
+import { authenticate, requireAdmin, optionalAuthenticate } from '../middleware/auth';
+
+const router = Router();
+
+// GET /api/stats - All statistics sections at once (public, admins see every status)
+router.get('/', optionalAuthenticate, getStats);
+
+// GET /api/stats/<section> - One section: counts, prices, students, infrastructure or programs
+router.get('/counts', optionalAuthenticate, getCountStats);
+router.get('/prices', optionalAuthenticate, getPriceStats);
+router.get('/students', optionalAuthenticate, getStudentStats);
+router.get('/infrastructure', optionalAuthenticate, getInfrastructureStats);
+router.get('/programs', optionalAuthenticate, getProgramStats);
+
+// GET /api/stats/activity - Schools added/updated per week and contributions per staff member (admin only)
+router.get('/activity', authenticate, requireAdmin, getActivityStats);
+
+export default router;
@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { SCHOOL_STATUSES } from "../constants";
+
+// Most schools one bulk action may touch, keeps the transaction short
+export const MAX_BULK_SCHOOLS = 500;
+
+const tag = z.string().trim().min(1, "Tag must not be empty").max(50);
+
+// One operation, applied to every targeted school
+export const bulkOperationSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("setField"),
+    // Any field a school can be created with, e.g. "accreditationStatus" or "address.city"
+    field: z.string().min(1),
+    // Validated like a PATCH body, null clears the field
+    value: z.union([z.string(), z.number(), z.boolean(), z.array(z.string()), z.null()]),
+  }).strict(),
+  z.object({
+    type: z.literal("setStatus"),
+    status: z.enum(SCHOOL_STATUSES),
+  }).strict(),
+  z.object({
+    type: z.literal("delete"),
+  }).strict(),
+  z.object({
+    type: z.literal("reassignOwner"),
+    ownerId: z.string().min(1),
+  }).strict(),
+  z.object({
+    type: z.literal("addTag"),
+    tag,
+  }).strict(),
+  z.object({
+    type: z.literal("removeTag"),
+    tag,
+  }).strict(),
+]);
+
+export type BulkOperation = z.infer<typeof bulkOperationSchema>;
+
+// Body of POST /api/schools/bulk, the schools are given by id or by a filter
+export const schoolBulkSchema = z
+  .object({
+    ids: z.array(z.string().min(1)).min(1).max(MAX_BULK_SCHOOLS).optional(),
+    // The query parameters of GET /api/schools (city, status, tags, ...) plus q for a search
+    filter: z.record(z.union([z.string(), z.array(z.string())])).optional(),
+    operation: bulkOperationSchema,
+  })
+  .strict()
+  .refine((body) => (body.ids === undefined) !== (body.filter === undefined), {
+    message: "Send either ids or filter",
+    path: ["ids"],
+  });
@@ -0,0 +1,26 @@
+import { z } from "zod";
+
+const CHANGE_SET_STATUSES = ["pending", "approved", "partially_approved", "rejected"] as const;
+
+// GET /api/change-sets
+export const changeSetQuerySchema = z.object({
+  status: z.preprocess(
+    (value) => (typeof value === "string" && value ? value.split(",") : undefined),
+    z.array(z.enum(CHANGE_SET_STATUSES)).optional()
+  ),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// POST /api/change-sets/:id/approve - without paths every change is applied
+export const changeSetApproveSchema = z
+  .object({
+    paths: z.array(z.string()).min(1).optional(),
+  })
+  .strict();
+
+// POST /api/change-sets/:id/reject
+export const changeSetRejectSchema = z
+  .object({
+    comment: z.string().trim().min(1, "A comment is required when rejecting").max(2000),
+  })
+  .strict();
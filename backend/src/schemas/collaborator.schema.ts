@@ -0,0 +1,11 @@
+import { z } from "zod";
+
+const COLLABORATOR_ACCESS = ["view", "edit"] as const;
+
+// POST /api/schools/:id/collaborators - adds the user or changes their access
+export const collaboratorSchema = z
+  .object({
+    email: z.string().trim().email(),
+    access: z.enum(COLLABORATOR_ACCESS),
+  })
+  .strict();
@@ -0,0 +1,19 @@
+import { z } from "zod";
+
+// A gazetteer is a whole city or country, far more rows than a school import
+export const MAX_GAZETTEER_ROWS = 50000;
+
+const optionalText = z.string().trim().min(1).max(200).optional();
+
+// GET /api/geo/lookup, either a school's address or one typed in
+export const gazetteerLookupSchema = z
+  .object({
+    schoolId: z.string().trim().min(1).optional(),
+    city: optionalText,
+    district: optionalText,
+    street: optionalText,
+  })
+  .refine((query) => query.schoolId || query.street, {
+    message: "schoolId or street is required",
+    path: ["street"],
+  });
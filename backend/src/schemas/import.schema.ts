@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { schoolSchema } from "./school.schema";
+
+// Larger files have to be split, a commit runs in a single transaction
+export const MAX_IMPORT_ROWS = 500;
+
+// A spreadsheet row, validated like POST /api/schools but a name is required
+export const importedSchoolSchema = schoolSchema.extend({
+  name: z.string({ required_error: "Name is required" }).trim().min(1, "Name is required"),
+});
+
+const flag = (fallback: boolean) =>
+  z.enum(["true", "false"]).optional().transform((value) => (value === undefined ? fallback : value === "true"));
+
+// Form fields of POST /api/schools/import (multipart, next to the file)
+export const importOptionsSchema = z.object({
+  // JSON object { "<column header>": "<field path>" }, suggested from the headers when omitted
+  mapping: z
+    .string()
+    .optional()
+    .transform((value, ctx) => {
+      if (!value) return undefined;
+      try {
+        return z.record(z.string()).parse(JSON.parse(value));
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "mapping must be a JSON object of column names to field paths" });
+        return z.NEVER;
+      }
+    }),
+  // Without commit=true only the dry-run report is returned
+  commit: flag(false),
+  // Rows that look like an existing school or an earlier row are left out of a commit
+  skipDuplicates: flag(true),
+});
+
+// GET /api/schools/imports
+export const importQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+export const MERGE_SIDES = ["target", "source"] as const;
+
+export type MergeSide = (typeof MERGE_SIDES)[number];
+
+// Body of POST /api/schools/merge
+export const schoolMergeSchema = z
+  .object({
+    // The school that stays
+    targetId: z.string().min(1),
+    // The school merged into it, moved to the trash with a pointer to the target
+    sourceId: z.string().min(1),
+    // Field path ("name", "address.city", "primary.price") -> the school whose value is kept, the target's by default
+    fields: z.record(z.enum(MERGE_SIDES)).default({}),
+    // Versions the admin compared, a school changed since then fails with 412
+    targetVersion: z.number().int().optional(),
+    sourceVersion: z.number().int().optional(),
+  })
+  .strict()
+  .refine((body) => body.targetId !== body.sourceId, {
+    message: "A school cannot be merged into itself",
+    path: ["sourceId"],
+  });
@@ -0,0 +1,9 @@
+import { z } from "zod";
+
+export const DEFAULT_REVISION_LIMIT = 50;
+export const MAX_REVISION_LIMIT = 200;
+
+// GET /api/schools/:id/revisions
+export const revisionQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_REVISION_LIMIT).default(DEFAULT_REVISION_LIMIT),
+});
@@ -1,5 +1,38 @@
 import { z } from "zod";
 import { georgianPhoneSchema } from "../utils/validators";
+import { FEE_CURRENCIES, FEE_PERIODS, FEE_TYPES, SCHOOL_LEVELS, SCHOOL_STATUSES } from "../constants";
+
+// Values of a level list (sports clubs, languages), stored one row per value
+const levelListSchema = z.array(z.string().trim().min(1).max(100)).max(50);
+
+const percentSchema = z.number().int().min(1).max(100);
+
+// One item of a level's fee schedule, amounts in whole units of the currency
+export const feeItemSchema = z
+  .object({
+    type: z.enum(FEE_TYPES),
+    amount: z.number().int().min(0),
+    currency: z.enum(FEE_CURRENCIES).default("GEL"),
+    period: z.enum(FEE_PERIODS),
+    installments: z.number().int().min(1).max(12).nullable().optional(),
+    siblingDiscountPercent: percentSchema.nullable().optional(),
+    // The discount applies from this child on, 2 = the second child
+    siblingDiscountFrom: z.number().int().min(2).max(10).nullable().optional(),
+    earlyPaymentDiscountPercent: percentSchema.nullable().optional(),
+    // Paid in full before this day of the school year
+    earlyPaymentDeadline: z
+      .string()
+      .regex(/^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/, "Expected a MM-DD date")
+      .nullable()
+      .optional(),
+    description: z.string().max(500).nullable().optional(),
+  })
+  .strict();
+
+export type FeeItemInput = z.infer<typeof feeItemSchema>;
+
+// Most fees one level may list
+const MAX_LEVEL_FEES = 30;
 
 // Define school level section schema
 const schoolLevelSchema = z.object({
@@ -11,11 +44,37 @@ const schoolLevelSchema = z.object({
   mealsDescription: z.string().optional(),
   transportation: z.string().optional(),
   schoolUniform: z.boolean(),
-  mandatorySportsClubs: z.string().optional(),
-  foreignLanguages: z.string().optional(),
+  mandatorySportsClubs: levelListSchema.optional(),
+  foreignLanguages: levelListSchema.optional(),
   teachingStyleBooks: z.string().optional(),
   clubsAndCircles: z.string().optional(),
   textbooksPrice: z.string().optional(),
+  // Replaces the level's fee schedule, price then follows its annual tuition
+  fees: z.array(feeItemSchema).max(MAX_LEVEL_FEES).optional(),
+});
+
+const latitudeSchema = z.number().min(-90).max(90);
+const longitudeSchema = z.number().min(-180).max(180);
+
+const addressSchema = z.object({
+  city: z.string().optional(),
+  street: z.string().optional(),
+  zipCode: z.string().optional(),
+  district: z.string().optional(),
+  latitude: latitudeSchema.nullable().optional(),
+  longitude: longitudeSchema.nullable().optional(),
+});
+
+const infrastructureSchema = z.object({
+  buildings: z.boolean(),
+  numberOfFloors: z.number().optional(),
+  squareness: z.number().optional(),
+  stadiums: z.boolean(),
+  pools: z.boolean(),
+  courtyard: z.boolean(),
+  laboratories: z.boolean(),
+  library: z.boolean(),
+  cafe: z.boolean(),
 });
 
 // Main schema
@@ -62,24 +121,8 @@ export const schoolSchema = z.object({
   hasOutdoorGarden: z.boolean(),
   outdoorGarden: z.string().optional(),
 
-  address: z.object({
-    city: z.string().optional(),
-    street: z.string().optional(),
-    zipCode: z.string().optional(),
-    district: z.string().optional(),
-  }),
-
-  infrastructure: z.object({
-    buildings: z.boolean(),
-    numberOfFloors: z.number().optional(),
-    squareness: z.number().optional(),
-    stadiums: z.boolean(),
-    pools: z.boolean(),
-    courtyard: z.boolean(),
-    laboratories: z.boolean(),
-    library: z.boolean(),
-    cafe: z.boolean(),
-  }),
+  address: addressSchema,
+  infrastructure: infrastructureSchema,
 
   primary: schoolLevelSchema,
   basic: schoolLevelSchema,
@@ -87,3 +130,105 @@ export const schoolSchema = z.object({
 });
 
 export type SchoolFormData = z.infer<typeof schoolSchema>;
+
+// PUT /api/schools/:id - any subset of fields, unknown keys are rejected at every level
+export const schoolUpdateSchema = schoolSchema
+  .extend({
+    address: addressSchema.partial().strict(),
+    infrastructure: infrastructureSchema.partial().strict(),
+    primary: schoolLevelSchema.partial().strict(),
+    basic: schoolLevelSchema.partial().strict(),
+    secondary: schoolLevelSchema.partial().strict(),
+  })
+  .partial()
+  .strict();
+
+/**
+ * JSON Merge Patch (RFC 7396) version of an object schema
+ * Absent keys are left unchanged, null clears the value
+ * Keys listed in notNullable map to NOT NULL columns and only accept values
+ */
+function mergePatch<T extends z.ZodRawShape>(schema: z.ZodObject<T>, notNullable: (keyof T)[] = []) {
+  const shape = Object.fromEntries(
+    Object.entries(schema.shape).map(([key, field]) => [
+      key,
+      notNullable.includes(key) ? field.optional() : field.nullable().optional(),
+    ])
+  );
+  return z.object(shape).strict();
+}
+
+const levelPatchSchema = mergePatch(schoolLevelSchema, ["schoolUniform"]);
+
+// PATCH /api/schools/:id - null on a nested section removes it, a section that
+// does not exist yet is created from the given fields
+export const schoolPatchSchema = mergePatch(
+  schoolSchema.omit({
+    address: true,
+    infrastructure: true,
+    primary: true,
+    basic: true,
+    secondary: true,
+  }),
+  ["id", "name", "hasTutor", "hasScholarshipsGrants", "hasExchangePrograms", "hasOutdoorGarden"]
+).extend({
+  address: mergePatch(addressSchema).nullable().optional(),
+  infrastructure: mergePatch(infrastructureSchema).nullable().optional(),
+  primary: levelPatchSchema.nullable().optional(),
+  basic: levelPatchSchema.nullable().optional(),
+  secondary: levelPatchSchema.nullable().optional(),
+});
+
+// Level of PUT /api/schools/:id/fees/:level
+export const schoolLevelParamSchema = z.enum(SCHOOL_LEVELS);
+
+// Body of PUT /api/schools/:id/fees/:level
+export const levelFeesSchema = z
+  .object({
+    fees: z.array(feeItemSchema).max(MAX_LEVEL_FEES),
+  })
+  .strict();
+
+// Body of PUT /api/schools/:id/prices/:level
+export const levelPriceSchema = z
+  .object({
+    academicYear: z
+      .string()
+      .regex(/^\d{4}\/\d{2}$/, "Expected an academic year like 2025/26")
+      .refine(
+        (value) => Number(value.slice(5)) === (Number(value.slice(0, 4)) + 1) % 100,
+        "The academic year must span two consecutive years"
+      ),
+    price: z.number().int().min(1),
+  })
+  .strict();
+
+// Body of PUT /api/schools/:id/location, null for both clears the location
+export const schoolLocationSchema = z
+  .object({
+    latitude: latitudeSchema.nullable(),
+    longitude: longitudeSchema.nullable(),
+  })
+  .strict()
+  .refine((location) => (location.latitude === null) === (location.longitude === null), {
+    message: "Set both latitude and longitude, or clear both",
+    path: ["longitude"],
+  });
+
+// Body of PUT /api/schools/:id/status
+export const schoolStatusSchema = z
+  .object({
+    status: z.enum(SCHOOL_STATUSES),
+  })
+  .strict();
+
+// Most schools one transfer may move, keeps the transaction short
+export const MAX_TRANSFER_SCHOOLS = 500;
+
+// Body of POST /api/schools/transfer
+export const schoolTransferSchema = z
+  .object({
+    schoolIds: z.array(z.string().min(1)).min(1).max(MAX_TRANSFER_SCHOOLS),
+    ownerId: z.string().min(1),
+  })
+  .strict();
@@ -0,0 +1,155 @@
+import { z } from "zod";
+import {
+  ACCREDITATION_STATUS,
+  FOREIGN_LANGUAGES,
+  INFRASTRUCTURE_FLAGS,
+  MEAL_OPTIONS,
+  SCHOOL_LEVELS,
+  SCHOOL_STATUSES,
+  SPORTS_CLUBS,
+  TRANSPORTATION_OPTIONS,
+} from "../constants";
+
+/**
+ * Accepts both `?city=a,b` and `?city=a&city=b`
+ */
+function commaList<T extends z.ZodTypeAny>(item: T) {
+  return z.preprocess((value) => {
+    if (value === undefined || value === "") return undefined;
+    const parts = Array.isArray(value) ? value : [value];
+    return parts
+      .flatMap((part) => String(part).split(","))
+      .map((part) => part.trim())
+      .filter(Boolean);
+  }, z.array(item).optional());
+}
+
+const price = z.coerce.number().int().min(0).optional();
+
+// Filters accepted by GET /api/schools
+export const schoolFiltersSchema = z
+  .object({
+    city: commaList(z.string()),
+    district: commaList(z.string()),
+    accreditationStatus: commaList(z.enum(ACCREDITATION_STATUS)),
+    // Public listings only ever contain published schools
+    status: commaList(z.enum(SCHOOL_STATUSES)),
+
+    // Scopes price, language, sports, meals and transportation filters to one level
+    level: z.enum(SCHOOL_LEVELS).optional(),
+    minPrice: price,
+    maxPrice: price,
+
+    infrastructure: commaList(z.enum(INFRASTRUCTURE_FLAGS)),
+    foreignLanguages: commaList(z.enum(FOREIGN_LANGUAGES)),
+    sportsClubs: commaList(z.enum(SPORTS_CLUBS)),
+    meals: commaList(z.enum(MEAL_OPTIONS)),
+    transportation: commaList(z.enum(TRANSPORTATION_OPTIONS)),
+    // Schools carrying every listed tag
+    tags: commaList(z.string()),
+    // true: schools with coordinates on their address, false: schools still missing them
+    hasLocation: z.enum(["true", "false"]).optional().transform((value) => (value === undefined ? undefined : value === "true")),
+  })
+  .refine(
+    (filters) =>
+      filters.minPrice === undefined ||
+      filters.maxPrice === undefined ||
+      filters.minPrice <= filters.maxPrice,
+    { message: "minPrice must not be greater than maxPrice", path: ["minPrice"] }
+  );
+
+export type SchoolFilters = z.infer<typeof schoolFiltersSchema>;
+
+// Hard upper bound for a single page of schools
+export const MAX_PAGE_SIZE = 100;
+export const DEFAULT_PAGE_SIZE = 50;
+
+export const SCHOOL_SORT_FIELDS = [
+  "name",
+  "establishedYear",
+  "createdAt",
+  "updatedAt",
+  "primary.price",
+  "basic.price",
+  "secondary.price",
+  "primary.numberOfStudents",
+  "basic.numberOfStudents",
+  "secondary.numberOfStudents",
+] as const;
+
+export type SchoolSortField = (typeof SCHOOL_SORT_FIELDS)[number];
+
+export interface SchoolSortKey {
+  field: SchoolSortField;
+  direction: "asc" | "desc";
+}
+
+// "-name" sorts descending, "name" ascending
+const sortKey = z
+  .string()
+  .transform((value, ctx): SchoolSortKey => {
+    const direction = value.startsWith("-") ? "desc" : "asc";
+    const field = value.replace(/^[-+]/, "");
+    if (!(SCHOOL_SORT_FIELDS as readonly string[]).includes(field)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Unsupported sort field "${field}". Allowed: ${SCHOOL_SORT_FIELDS.join(", ")}`,
+      });
+      return z.NEVER;
+    }
+    return { field: field as SchoolSortField, direction };
+  });
+
+// Cursor pagination accepted by GET /api/schools
+export const schoolPageSchema = z.object({
+  pageSize: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  cursor: z.string().min(1).optional(),
+  sort: commaList(sortKey).transform((keys) =>
+    keys?.length ? keys : [{ field: "createdAt", direction: "desc" } as SchoolSortKey]
+  ),
+});
+
+export type SchoolPageParams = z.infer<typeof schoolPageSchema>;
+
+export const DEFAULT_SEARCH_LIMIT = 50;
+export const MAX_SEARCH_LIMIT = 200;
+
+// GET /api/schools/search, next to q= and the filters of GET /api/schools
+export const searchQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_SEARCH_LIMIT).default(DEFAULT_SEARCH_LIMIT),
+});
+
+export const DEFAULT_NEARBY_RADIUS_KM = 5;
+export const MAX_NEARBY_RADIUS_KM = 50;
+export const DEFAULT_NEARBY_LIMIT = 20;
+export const MAX_NEARBY_LIMIT = 100;
+
+// GET /api/schools/nearby, next to the filters of GET /api/schools
+export const nearbyQuerySchema = z.object({
+  lat: z.coerce.number().min(-90).max(90),
+  lng: z.coerce.number().min(-180).max(180),
+  radiusKm: z.coerce.number().positive().max(MAX_NEARBY_RADIUS_KM).default(DEFAULT_NEARBY_RADIUS_KM),
+  limit: z.coerce.number().int().min(1).max(MAX_NEARBY_LIMIT).default(DEFAULT_NEARBY_LIMIT),
+});
+
+export const EXPORT_FORMATS = ["csv", "xlsx", "json"] as const;
+export const EXPORT_LANGUAGES = ["en", "ka"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+export type ExportLanguage = (typeof EXPORT_LANGUAGES)[number];
+
+// GET /api/schools/export, next to the filters of GET /api/schools
+export const schoolExportSchema = z.object({
+  format: z.enum(EXPORT_FORMATS).default("csv"),
+  // Language of the column headers in CSV and XLSX files
+  lang: z.enum(EXPORT_LANGUAGES).default("ka"),
+  // Narrows the export to the results of GET /api/schools/search?q=, in ranked order
+  q: z.string().trim().optional(),
+  sort: schoolPageSchema.shape.sort,
+});
+
+// POST /api/schools
+export const schoolCreateQuerySchema = z.object({
+  // Creates the school even though it looks like an existing one
+  allowDuplicates: z.enum(["true", "false"]).optional().transform((value) => value === "true"),
+});
@@ -0,0 +1,47 @@
+import { z } from "zod";
+import { SCHOOL_STATUSES } from "../constants";
+
+// Query of the GET /api/stats endpoints, narrows the schools that are counted
+export const statsQuerySchema = z.object({
+  city: z.string().trim().min(1).max(100).optional(),
+  district: z.string().trim().min(1).max(100).optional(),
+  // Admins only, everyone else counts published schools
+  status: z.enum(SCHOOL_STATUSES).optional(),
+});
+
+export type StatsQuery = z.infer<typeof statsQuerySchema>;
+
+// Weeks shown when no range is asked for, and the longest range
+export const DEFAULT_ACTIVITY_DAYS = 12 * 7;
+export const MAX_ACTIVITY_DAYS = 2 * 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date as YYYY-MM-DD")
+  .refine((value) => !Number.isNaN(Date.parse(value)), "Invalid date");
+
+const shiftDate = (date: string, days: number) =>
+  new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+
+// GET /api/stats/activity - both days are included, the range ends today by default
+export const activityQuerySchema = z
+  .object({
+    from: isoDate.optional(),
+    to: isoDate.optional(),
+  })
+  .transform(({ from, to }) => {
+    const end = to ?? new Date().toISOString().slice(0, 10);
+    return { from: from ?? shiftDate(end, 1 - DEFAULT_ACTIVITY_DAYS), to: end };
+  })
+  .refine((range) => range.from <= range.to, {
+    message: "from must not be after to",
+    path: ["from"],
+  })
+  .refine((range) => Date.parse(range.to) - Date.parse(range.from) < MAX_ACTIVITY_DAYS * DAY_MS, {
+    message: `The range can span at most ${MAX_ACTIVITY_DAYS} days`,
+    path: ["to"],
+  });
+
+export type ActivityRange = z.infer<typeof activityQuerySchema>;
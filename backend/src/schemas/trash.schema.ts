@@ -0,0 +1,9 @@
+import { z } from "zod";
+
+export const DEFAULT_TRASH_LIMIT = 50;
+export const MAX_TRASH_LIMIT = 200;
+
+// GET /api/schools/trash
+export const trashQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_TRASH_LIMIT).default(DEFAULT_TRASH_LIMIT),
+});
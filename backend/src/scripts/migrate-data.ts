@@ -7,6 +7,7 @@
 
 import { PrismaClient } from '@prisma/client';
 import * as dotenv from 'dotenv';
+import { LevelListUpdates, parseLevelList, writeLevelLists } from '../utils/levelLists';
 
 dotenv.config();
 
@@ -132,6 +133,8 @@ async function migrateData() {
           data: {
             id: school.id,
             name: school.name,
+            // Schools of the old database were public, keep them listed (see publish-existing-schools.sql)
+            status: 'published',
             phoneNumber1: school.phoneNumber1,
             phoneNumber2: school.phoneNumber2,
             phoneNumber3: school.phoneNumber3,
@@ -159,6 +162,7 @@ async function migrateData() {
             averageNationalExamScore: school.averageNationalExamScore,
             createdAt: school.createdAt,
             createdBy: ADMIN_USER_ID, // Set admin as creator
+            ownerId: ADMIN_USER_ID, // Admins hand schools to employees with POST /api/schools/transfer
             updatedAt: school.updatedAt,
 
             // Address
@@ -200,8 +204,6 @@ async function migrateData() {
                 mealsDescription: school.primary.mealsDescription,
                 transportation: school.primary.transportation,
                 schoolUniform: school.primary.schoolUniform,
-                mandatorySportsClubs: school.primary.mandatorySportsClubs,
-                foreignLanguages: school.primary.foreignLanguages,
                 teachingStyleBooks: school.primary.teachingStyleBooks,
                 clubsAndCircles: school.primary.clubsAndCircles,
                 textbooksPrice: school.primary.textbooksPrice,
@@ -220,8 +222,6 @@ async function migrateData() {
                 mealsDescription: school.basic.mealsDescription,
                 transportation: school.basic.transportation,
                 schoolUniform: school.basic.schoolUniform,
-                mandatorySportsClubs: school.basic.mandatorySportsClubs,
-                foreignLanguages: school.basic.foreignLanguages,
                 teachingStyleBooks: school.basic.teachingStyleBooks,
                 clubsAndCircles: school.basic.clubsAndCircles,
                 textbooksPrice: school.basic.textbooksPrice,
@@ -240,8 +240,6 @@ async function migrateData() {
                 mealsDescription: school.secondary.mealsDescription,
                 transportation: school.secondary.transportation,
                 schoolUniform: school.secondary.schoolUniform,
-                mandatorySportsClubs: school.secondary.mandatorySportsClubs,
-                foreignLanguages: school.secondary.foreignLanguages,
                 teachingStyleBooks: school.secondary.teachingStyleBooks,
                 clubsAndCircles: school.secondary.clubsAndCircles,
                 textbooksPrice: school.secondary.textbooksPrice,
@@ -277,6 +275,18 @@ async function migrateData() {
           }
         });
 
+        // The old database keeps sports clubs and languages as comma-joined strings
+        const levelLists: LevelListUpdates = {};
+        for (const level of ['primary', 'basic', 'secondary'] as const) {
+          const sports = parseLevelList(school[level]?.mandatorySportsClubs);
+          const languages = parseLevelList(school[level]?.foreignLanguages);
+          levelLists[level] = {
+            ...(sports.length > 0 && { mandatorySportsClubs: sports }),
+            ...(languages.length > 0 && { foreignLanguages: languages }),
+          };
+        }
+        await writeLevelLists(newPrisma, { id: school.id, name: school.name }, levelLists);
+
         successCount++;
         console.log(`  ✅ Migrated successfully`);
       } catch (error) {
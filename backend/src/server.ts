@@ -6,6 +6,10 @@ import dotenv from 'dotenv';
 import schoolRoutes from './routes/school.routes';
 import mediaRoutes from './routes/media.routes';
 import authRoutes from './routes/auth.routes';
+import changeSetRoutes from './routes/changeSet.routes';
+import geoRoutes from './routes/geo.routes';
+import statsRoutes from './routes/stats.routes';
+import { startTrashPurgeJob } from './jobs/purgeTrash';
 
 // Load environment variables
 dotenv.config();
@@ -36,15 +40,20 @@ app.use(cors({
     }
   },
   credentials: true,
+  // ETag is sent back in If-Match on updates, Content-Disposition names exported files
+  exposedHeaders: ['ETag', 'Content-Disposition'],
 }));
 app.use(morgan('dev')); // Logging
-app.use(express.json()); // Parse JSON bodies
+app.use(express.json({ type: ['application/json', 'application/merge-patch+json'] })); // Parse JSON and merge patch bodies
 app.use(express.urlencoded({ extended: true })); // Parse URL-encoded bodies
 
 // Routes
 app.use('/api/schools', schoolRoutes);
 app.use('/api/media', mediaRoutes);
 app.use('/api/auth', authRoutes);
+app.use('/api/change-sets', changeSetRoutes);
+app.use('/api/geo', geoRoutes);
+app.use('/api/stats', statsRoutes);
 
 // Health check endpoint (for monitoring and deployment platforms)
 app.get('/health', async (_req: Request, res: Response) => {
@@ -91,6 +100,7 @@ app.listen(PORT, () => {
   console.log(`🚀 Server is running on http://localhost:${PORT}`);
   console.log(`📊 Health check: http://localhost:${PORT}/health`);
   console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
+  startTrashPurgeJob();
 });
 
 // Graceful shutdown
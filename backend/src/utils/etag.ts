@@ -0,0 +1,34 @@
+/**
+ * ETags for optimistic concurrency on school edits
+ * The tag is derived from SchoolData.version, which every update increments
+ */
+
+export function schoolETag(version: number): string {
+  return `"v${version}"`;
+}
+
+/**
+ * Parses an If-Match header
+ * Returns '*' for a wildcard, the list of versions it names, or null when the header is missing
+ * Weak tags (W/"v3") are accepted the same as strong ones
+ */
+export function parseIfMatch(header: string | undefined): '*' | number[] | null {
+  if (!header || !header.trim()) return null;
+  if (header.trim() === '*') return '*';
+
+  return header
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, '').match(/^"v(\d+)"$/))
+    .filter((match): match is RegExpMatchArray => Boolean(match))
+    .map((match) => Number(match[1]));
+}
+
+/**
+ * Thrown inside a transaction when the stored version no longer matches If-Match
+ */
+export class VersionConflictError extends Error {
+  constructor() {
+    super('School was modified by another request');
+    this.name = 'VersionConflictError';
+  }
+}
@@ -0,0 +1,199 @@
+import { Prisma } from '@prisma/client';
+import { levelWithListsInclude } from './levelLists';
+
+/**
+ * Sparse fieldsets for school responses
+ *
+ *   fields=name,address.city,primary.price   only these columns (id is always returned)
+ *   include=media,primary.media              whole relations on top of the selected fields
+ *
+ * The allow-list is read from the Prisma data model, so new columns become
+ * selectable without touching this file. Relations must be exposed explicitly below.
+ * Lists stored as rows (primary.foreignLanguages, primary.fees) are selected like columns,
+ * pass the result through flattenLevelLists.
+ */
+
+type SelectTree = { [field: string]: true | { select: SelectTree; orderBy?: unknown } };
+
+interface ExposedRelation {
+  // Columns of the related model that may be returned, all scalars when omitted
+  fields?: string[];
+  relations?: Record<string, ExposedRelation>;
+  // Relations selected like a column, always with the same arguments, relation -> Prisma args
+  lists?: Record<string, { select: Record<string, true>; orderBy?: unknown }>;
+}
+
+const levelRelations: Record<string, ExposedRelation> = { media: {} };
+
+const levelSection: ExposedRelation = { relations: levelRelations, lists: levelWithListsInclude.include };
+
+// Relations reachable from SchoolData through fields= and include=
+const EXPOSED_RELATIONS: Record<string, ExposedRelation> = {
+  address: {},
+  infrastructure: {},
+  primary: levelSection,
+  basic: levelSection,
+  secondary: levelSection,
+  media: {},
+  creator: { fields: ['id', 'email'] },
+  owner: { fields: ['id', 'email'] },
+};
+
+// Relations returned when neither fields nor include is given
+export const DEFAULT_SCHOOL_INCLUDE = [
+  'address',
+  'infrastructure',
+  'primary.media',
+  'basic.media',
+  'secondary.media',
+  'creator',
+  'owner',
+];
+
+export class FieldSelectionError extends Error {
+  constructor(public readonly param: 'fields' | 'include', message: string) {
+    super(message);
+    this.name = 'FieldSelectionError';
+  }
+}
+
+const models = new Map(Prisma.dmmf.datamodel.models.map((model) => [model.name, model]));
+
+function modelFields(modelName: string) {
+  const model = models.get(modelName);
+  if (!model) {
+    throw new Error(`Unknown Prisma model ${modelName}`);
+  }
+  return model.fields;
+}
+
+function scalarFieldsOf(modelName: string, exposed?: ExposedRelation): string[] {
+  const scalars = modelFields(modelName)
+    .filter((field) => field.kind === 'scalar' || field.kind === 'enum')
+    .map((field) => field.name);
+  return exposed?.fields ? scalars.filter((name) => exposed.fields!.includes(name)) : scalars;
+}
+
+function relationModel(modelName: string, relation: string): string | undefined {
+  const field = modelFields(modelName).find((candidate) => candidate.name === relation);
+  return field?.kind === 'object' ? field.type : undefined;
+}
+
+interface Level {
+  model: string;
+  exposed: ExposedRelation;
+  node: SelectTree;
+}
+
+function selectList(level: Level, relation: string) {
+  const { select, orderBy } = level.exposed.lists![relation];
+  level.node[relation] = { select: { ...select }, ...(orderBy !== undefined && { orderBy }) };
+}
+
+function selectAllScalars(level: Level) {
+  scalarFieldsOf(level.model, level.exposed).forEach((name) => {
+    level.node[name] = true;
+  });
+  Object.keys(level.exposed.lists ?? {}).forEach((relation) => selectList(level, relation));
+}
+
+/**
+ * Returns the nested select for a relation, creating it on first use
+ * New relation nodes get every scalar column unless a fields= list is driving the selection
+ */
+function enterRelation(level: Level, relation: string, fillScalars: boolean): Level | null {
+  const exposed = level.exposed.relations?.[relation];
+  const model = exposed && relationModel(level.model, relation);
+  if (!exposed || !model) return null;
+
+  const existing = level.node[relation];
+  if (existing && existing !== true) {
+    return { model, exposed, node: existing.select };
+  }
+
+  const next: Level = { model, exposed, node: { id: true } };
+  if (fillScalars) selectAllScalars(next);
+  level.node[relation] = { select: next.node };
+  return next;
+}
+
+function rootLevel(node: SelectTree): Level {
+  return { model: 'SchoolData', exposed: { relations: EXPOSED_RELATIONS }, node };
+}
+
+function applyFieldPath(root: SelectTree, path: string) {
+  const segments = path.split('.');
+  let level = rootLevel(root);
+
+  for (let index = 0; index < segments.length; index++) {
+    const segment = segments[index];
+    const isLast = index === segments.length - 1;
+
+    if (scalarFieldsOf(level.model, level.exposed).includes(segment)) {
+      if (!isLast) {
+        throw new FieldSelectionError('fields', `"${path}": ${segment} is not a relation`);
+      }
+      level.node[segment] = true;
+      return;
+    }
+
+    if (level.exposed.lists?.[segment]) {
+      if (!isLast) {
+        throw new FieldSelectionError('fields', `"${path}": ${segment} is not a relation`);
+      }
+      selectList(level, segment);
+      return;
+    }
+
+    // A bare relation name ("address") selects all of its columns
+    const next = enterRelation(level, segment, isLast);
+    if (!next) {
+      throw new FieldSelectionError('fields', `Unknown field "${path}"`);
+    }
+    level = next;
+  }
+}
+
+function applyIncludePath(root: SelectTree, path: string, fillScalars: boolean) {
+  const segments = path.split('.');
+  let level = rootLevel(root);
+
+  segments.forEach((segment, index) => {
+    const isLast = index === segments.length - 1;
+    const next = enterRelation(level, segment, fillScalars || isLast);
+    if (!next) {
+      throw new FieldSelectionError('include', `Unknown relation "${path}"`);
+    }
+    if (isLast) selectAllScalars(next);
+    level = next;
+  });
+}
+
+function toList(value: unknown): string[] | undefined {
+  if (value === undefined) return undefined;
+  const parts = Array.isArray(value) ? value : [value];
+  return parts
+    .flatMap((part) => String(part).split(','))
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Builds a Prisma select for SchoolData from the fields and include query parameters
+ * Throws FieldSelectionError for anything outside the allow-list
+ */
+export function buildSchoolSelect(query: { fields?: unknown; include?: unknown }): Prisma.SchoolDataSelect {
+  const fields = toList(query.fields);
+  const include = toList(query.include) ?? (fields ? [] : DEFAULT_SCHOOL_INCLUDE);
+  const root: SelectTree = { id: true };
+
+  if (fields) {
+    fields.forEach((path) => applyFieldPath(root, path));
+  } else {
+    selectAllScalars(rootLevel(root));
+  }
+
+  include.forEach((path) => applyIncludePath(root, path, !fields));
+
+  return root as Prisma.SchoolDataSelect;
+}
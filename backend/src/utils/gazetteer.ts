@@ -0,0 +1,181 @@
+import { prisma } from '../lib/prisma';
+import { Spreadsheet, SpreadsheetError } from './schoolImport';
+import { streetWords } from './schoolDuplicates';
+import { georgianToLatin } from './transliterate';
+
+/**
+ * Gazetteer of streets and houses with their coordinates
+ *
+ * Admins import it from a spreadsheet (one row per house, or per street without a house
+ * number) and look school addresses up in it to place them on the map. Lookups stay on
+ * this server, there is no geocoding service behind them.
+ */
+
+const MAX_LOOKUP_RESULTS = 10;
+
+// Entries read per lookup before ranking, a long street has a few hundred houses
+const LOOKUP_CANDIDATE_LIMIT = 500;
+
+// Accepted headers of each column, compared lowercase without spaces and punctuation
+const GAZETTEER_COLUMNS = {
+  city: ['city', 'town', 'ქალაქი'],
+  district: ['district', 'raioni', 'რაიონი', 'უბანი'],
+  street: ['street', 'address', 'ქუჩა', 'მისამართი'],
+  houseNumber: ['house', 'housenumber', 'number', 'no', 'ნომერი'],
+  latitude: ['lat', 'latitude', 'განედი'],
+  longitude: ['lng', 'lon', 'long', 'longitude', 'გრძედი'],
+} as const;
+
+type GazetteerColumn = keyof typeof GAZETTEER_COLUMNS;
+
+const REQUIRED_COLUMNS: GazetteerColumn[] = ['city', 'street', 'latitude', 'longitude'];
+
+export interface GazetteerRow {
+  city: string;
+  district: string | null;
+  street: string;
+  houseNumber: string | null;
+  latitude: number;
+  longitude: number;
+  streetKey: string;
+}
+
+export interface GazetteerRowError {
+  row: number;
+  message: string;
+}
+
+/**
+ * Street name as it is compared: transliterated, without "street"/"avenue" words and house numbers
+ * "ჭავჭავაძის გამზ. 37" and "Chavchavadzis 37a" both become "chavchavadzis"
+ */
+export function streetKey(street: string): string {
+  return streetWords(street).filter((word) => !/\d/.test(word)).join(' ');
+}
+
+/**
+ * House number in a street address, transliterated ("37ა" is "37a"), null when there is none
+ */
+export function houseNumberOf(street: string): string | null {
+  const match = georgianToLatin(street).match(/\d+\p{L}?/u);
+  return match ? match[0] : null;
+}
+
+// "ქ. თბილისი" and "Tbilisi" are the same city
+function placeKey(place: string): string {
+  return georgianToLatin(place)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 1)
+    .join(' ');
+}
+
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+function parseCoordinate(value: string): number | null {
+  // Decimal commas from spreadsheets in a Georgian locale
+  const number = Number(value.replace(',', '.'));
+  return value !== '' && Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Turns a gazetteer spreadsheet into entries, rows without a street or valid coordinates are reported
+ * Throws SpreadsheetError when a required column is missing
+ */
+export function parseGazetteer(sheet: Spreadsheet): { entries: GazetteerRow[]; errors: GazetteerRowError[] } {
+  const headers = sheet.columns.map(normalizeHeader);
+  const columnIndex = Object.fromEntries(
+    (Object.keys(GAZETTEER_COLUMNS) as GazetteerColumn[]).map((column) => [
+      column,
+      headers.findIndex((header) => (GAZETTEER_COLUMNS[column] as readonly string[]).includes(header)),
+    ])
+  ) as Record<GazetteerColumn, number>;
+
+  const missing = REQUIRED_COLUMNS.filter((column) => columnIndex[column] === -1);
+  if (missing.length) {
+    throw new SpreadsheetError(`The file has no ${missing.join(', ')} column`);
+  }
+
+  const entries: GazetteerRow[] = [];
+  const errors: GazetteerRowError[] = [];
+  sheet.rows.forEach(({ number, cells }) => {
+    const cell = (column: GazetteerColumn) => (columnIndex[column] === -1 ? '' : cells[columnIndex[column]]);
+    const latitude = parseCoordinate(cell('latitude'));
+    const longitude = parseCoordinate(cell('longitude'));
+
+    if (!cell('city') || !cell('street')) {
+      errors.push({ row: number, message: 'City and street are required' });
+    } else if (latitude === null || latitude < -90 || latitude > 90) {
+      errors.push({ row: number, message: 'Latitude must be a number between -90 and 90' });
+    } else if (longitude === null || longitude < -180 || longitude > 180) {
+      errors.push({ row: number, message: 'Longitude must be a number between -180 and 180' });
+    } else if (!streetKey(cell('street'))) {
+      errors.push({ row: number, message: 'The street has no name' });
+    } else {
+      entries.push({
+        city: cell('city'),
+        district: cell('district') || null,
+        street: cell('street'),
+        houseNumber: houseNumberOf(cell('houseNumber')) ?? houseNumberOf(cell('street')),
+        latitude,
+        longitude,
+        streetKey: streetKey(cell('street')),
+      });
+    }
+  });
+
+  return { entries, errors };
+}
+
+/**
+ * Gazetteer entries for an address, best first: the same house, then the same district
+ * Streets match by their key, falling back to entries whose key contains the longest word
+ * of the street; with a city, only entries in that city are returned
+ */
+export async function lookupAddress(address: { city?: string | null; district?: string | null; street?: string | null }) {
+  const key = streetKey(address.street ?? '');
+  if (!key) return [];
+
+  const select = {
+    id: true,
+    city: true,
+    district: true,
+    street: true,
+    houseNumber: true,
+    latitude: true,
+    longitude: true,
+  } as const;
+
+  let candidates = await prisma.gazetteerEntry.findMany({
+    where: { streetKey: key },
+    select,
+    take: LOOKUP_CANDIDATE_LIMIT,
+  });
+  if (candidates.length === 0) {
+    const longestWord = key.split(' ').reduce((longest, word) => (word.length > longest.length ? word : longest), '');
+    candidates = await prisma.gazetteerEntry.findMany({
+      where: { streetKey: { contains: longestWord } },
+      select,
+      take: LOOKUP_CANDIDATE_LIMIT,
+    });
+  }
+
+  const city = address.city ? placeKey(address.city) : null;
+  const district = address.district ? placeKey(address.district) : null;
+  const houseNumber = houseNumberOf(address.street ?? '');
+
+  return candidates
+    .filter((entry) => !city || placeKey(entry.city) === city)
+    .map((entry) => ({
+      ...entry,
+      match: houseNumber !== null && entry.houseNumber === houseNumber ? 'house' as const : 'street' as const,
+      sameDistrict: district !== null && entry.district !== null && placeKey(entry.district) === district,
+    }))
+    .sort((a, b) =>
+      Number(b.match === 'house') - Number(a.match === 'house')
+      || Number(b.sameDistrict) - Number(a.sameDistrict)
+    )
+    .slice(0, MAX_LOOKUP_RESULTS)
+    .map(({ sameDistrict: _sameDistrict, ...entry }) => entry);
+}
@@ -0,0 +1,41 @@
+/**
+ * Distances between coordinates (WGS 84 latitude/longitude in degrees)
+ * The haversine formula on a spherical earth is well within a few meters at city scale
+ */
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const KM_PER_DEGREE_LATITUDE = (Math.PI * EARTH_RADIUS_KM) / 180;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance in kilometers
+ */
+export function distanceKm(a: Coordinates, b: Coordinates): number {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Latitude/longitude ranges around a point that contain every point within the radius
+ * Cheap to filter on with the address index, distanceKm then drops the corners
+ */
+export function boundingBox(center: Coordinates, radiusKm: number) {
+  const latDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+  // Degrees of longitude shrink towards the poles
+  const lngDelta = Math.min(180, radiusKm / (KM_PER_DEGREE_LATITUDE * Math.max(Math.cos(toRadians(center.latitude)), 0.01)));
+  return {
+    latitude: { gte: center.latitude - latDelta, lte: center.latitude + latDelta },
+    longitude: { gte: center.longitude - lngDelta, lte: center.longitude + lngDelta },
+  };
+}
@@ -0,0 +1,74 @@
+import { FeeItemInput } from '../schemas/school.schema';
+
+/**
+ * Fee schedules of school levels
+ *
+ * A level's fees are FeeItem rows (tuition, registration, textbooks, ...), each with an
+ * amount, a currency and a period. The level's price column stays for filters, sorting
+ * and older clients: it is the annual tuition in GEL, derived whenever the fees change.
+ */
+
+// Tuition is charged September to June
+export const MONTHS_PER_SCHOOL_YEAR = 9;
+
+// Currency of the derived price, tuition in other currencies is not converted
+export const PRICE_CURRENCY = 'GEL';
+
+// Columns returned for a fee, the same shape the API accepts
+export const feeSelect = {
+  type: true,
+  amount: true,
+  currency: true,
+  period: true,
+  installments: true,
+  siblingDiscountPercent: true,
+  siblingDiscountFrom: true,
+  earlyPaymentDiscountPercent: true,
+  earlyPaymentDeadline: true,
+  description: true,
+} as const;
+
+export const levelFeesArgs = { select: feeSelect, orderBy: { position: 'asc' } } as const;
+
+// A fee as sent by clients or read back from the database
+interface Fee {
+  type: string;
+  amount: number;
+  currency?: string | null;
+  period: string;
+}
+
+/**
+ * What a fee costs over one school year, one-off fees count in full
+ */
+export function annualAmount(fee: Fee): number {
+  return fee.period === 'monthly' ? fee.amount * MONTHS_PER_SCHOOL_YEAR : fee.amount;
+}
+
+/**
+ * Annual tuition in GEL, null when the schedule has no tuition in GEL
+ */
+export function derivedPrice(fees: Fee[]): number | null {
+  const tuition = fees.filter((fee) => fee.type === 'tuition' && (fee.currency ?? PRICE_CURRENCY) === PRICE_CURRENCY);
+  return tuition.length ? tuition.reduce((sum, fee) => sum + annualAmount(fee), 0) : null;
+}
+
+/**
+ * Cost of all fees over one school year, per currency
+ */
+export function annualTotals(fees: Fee[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  fees.forEach((fee) => {
+    const currency = fee.currency ?? PRICE_CURRENCY;
+    totals[currency] = (totals[currency] ?? 0) + annualAmount(fee);
+  });
+  return totals;
+}
+
+/**
+ * Fees of validated update data or a stored snapshot, null clears the schedule
+ * Snapshots from before fee schedules existed have none
+ */
+export function parseFees(value: unknown): FeeItemInput[] {
+  return Array.isArray(value) ? (value as FeeItemInput[]) : [];
+}
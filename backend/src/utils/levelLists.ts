@@ -0,0 +1,177 @@
+import { LevelName, Prisma } from '@prisma/client';
+import { SCHOOL_LEVELS, SchoolLevel } from '../constants';
+import { FeeItemInput } from '../schemas/school.schema';
+import { derivedPrice, levelFeesArgs, parseFees } from './levelFees';
+
+/**
+ * Mandatory sports clubs and foreign languages of a school level
+ *
+ * Both are stored one row per value (LevelMandatorySport, LevelForeignLanguage) so
+ * filters run in the database. The API reads and writes them as string arrays on the
+ * level ("primary.foreignLanguages": ["German", "French"]), the same shape snapshots,
+ * change sets and exports use.
+ * Fee schedules (see levelFees) are level rows too and are written alongside.
+ */
+
+// List field on the level -> column holding one value
+export const LEVEL_LISTS = {
+  mandatorySportsClubs: 'sport',
+  foreignLanguages: 'language',
+} as const;
+
+export type LevelList = keyof typeof LEVEL_LISTS;
+
+export const LEVEL_LIST_FIELDS = Object.keys(LEVEL_LISTS) as LevelList[];
+
+// Foreign key of each level on Media, LevelMandatorySport and LevelForeignLanguage
+export const LEVEL_KEYS = { primary: 'primaryId', basic: 'basicId', secondary: 'secondaryId' } as const;
+
+export const LEVEL_NAMES: Record<SchoolLevel, LevelName> = { primary: 'Primary', basic: 'Basic', secondary: 'Secondary' };
+
+// Level rows with their lists and fees, for includes that return a school
+export const levelWithListsInclude = {
+  include: {
+    mandatorySportsClubs: { select: { sport: true } },
+    foreignLanguages: { select: { language: true } },
+    fees: levelFeesArgs,
+  },
+} as const;
+
+type LevelRows = Partial<Record<LevelList, string[]>> & { fees?: FeeItemInput[] };
+
+export type LevelListUpdates = Partial<Record<SchoolLevel, LevelRows>>;
+
+type FlatLevel<T> = T extends object ? Omit<T, LevelList> & { [K in LevelList & keyof T]: string[] } : T;
+
+// A school whose level lists are plain string arrays
+export type WithLevelLists<T> = { [K in keyof T]: K extends SchoolLevel ? FlatLevel<T[K]> : T[K] };
+
+/**
+ * Values of a list as stored in the database: trimmed, without blanks and repeats
+ * Comma-joined strings from snapshots and change sets made before the lists were relations are split
+ */
+export function parseLevelList(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return [...new Set(values.map((item) => String(item).trim()).filter(Boolean))];
+}
+
+/**
+ * Replaces the rows of each level's lists by their values, for a school read with levelWithListsInclude
+ * Works on any selection of the school, levels or lists that were not selected are left alone
+ */
+export function flattenLevelLists<T extends object>(school: T): WithLevelLists<T> {
+  const flat = { ...school } as Record<string, unknown>;
+
+  SCHOOL_LEVELS.forEach((level) => {
+    const section = flat[level];
+    if (!section || typeof section !== 'object') return;
+
+    const copy: Record<string, unknown> = { ...section };
+    LEVEL_LIST_FIELDS.forEach((list) => {
+      const rows = copy[list];
+      if (!Array.isArray(rows)) return;
+      const column = LEVEL_LISTS[list];
+      copy[list] = rows
+        .map((row: Record<string, unknown>) => row[column])
+        .filter((value): value is string => typeof value === 'string' && value !== '')
+        .sort((a, b) => a.localeCompare(b));
+    });
+    flat[level] = copy;
+  });
+
+  return flat as WithLevelLists<T>;
+}
+
+/**
+ * Splits a level section of update data into its columns and its lists
+ * Lists are null-safe: null clears a list like an empty array
+ * New fees with tuition in GEL set the price to the derived annual tuition
+ */
+export function splitLevelLists(section: Record<string, unknown>) {
+  const columns: Record<string, unknown> = {};
+  const lists: LevelRows = {};
+
+  Object.entries(section).forEach(([key, value]) => {
+    if (key in LEVEL_LISTS) {
+      if (value !== undefined) lists[key as LevelList] = parseLevelList(value);
+    } else if (key === 'fees') {
+      if (value !== undefined) lists.fees = parseFees(value);
+    } else {
+      columns[key] = value;
+    }
+  });
+
+  const price = lists.fees && derivedPrice(lists.fees);
+  if (price !== undefined && price !== null) columns.price = price;
+
+  return { columns, lists };
+}
+
+async function findLevelId(tx: Prisma.TransactionClient, level: SchoolLevel, schoolId: string): Promise<string | null> {
+  const args = { where: { schoolId }, select: { id: true } };
+  const record =
+    level === 'primary' ? await tx.primary.findUnique(args)
+    : level === 'basic' ? await tx.basic.findUnique(args)
+    : await tx.secondary.findUnique(args);
+  return record?.id ?? null;
+}
+
+/**
+ * Replaces the given lists and fees of a school's levels, call inside the transaction that wrote the levels
+ * Lists of a level the school does not have are ignored, they go with the level
+ */
+export async function writeLevelLists(
+  tx: Prisma.TransactionClient,
+  school: { id: string; name: string },
+  updates: LevelListUpdates
+): Promise<void> {
+  for (const level of SCHOOL_LEVELS) {
+    const lists = updates[level];
+    if (!lists || !Object.keys(lists).length) continue;
+
+    const levelId = await findLevelId(tx, level, school.id);
+    if (!levelId) continue;
+
+    const key = LEVEL_KEYS[level];
+    const levelName = LEVEL_NAMES[level];
+
+    if (lists.mandatorySportsClubs) {
+      await tx.levelMandatorySport.deleteMany({ where: { [key]: levelId } });
+      await tx.levelMandatorySport.createMany({
+        data: lists.mandatorySportsClubs.map((sport) => ({
+          sport,
+          [key]: levelId,
+          level_id: levelId,
+          level_name: levelName,
+          school_id: school.id,
+          school_name: school.name,
+        })),
+      });
+    }
+
+    if (lists.foreignLanguages) {
+      await tx.levelForeignLanguage.deleteMany({ where: { [key]: levelId } });
+      await tx.levelForeignLanguage.createMany({
+        data: lists.foreignLanguages.map((language) => ({
+          language,
+          [key]: levelId,
+          levelName,
+          schoolId: school.id,
+        })),
+      });
+    }
+
+    if (lists.fees) {
+      await tx.feeItem.deleteMany({ where: { [key]: levelId } });
+      await tx.feeItem.createMany({
+        data: lists.fees.map((fee, position) => ({
+          ...fee,
+          position,
+          [key]: levelId,
+          levelName,
+          schoolId: school.id,
+        })),
+      });
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import { Prisma } from '@prisma/client';
+import { SCHOOL_LEVELS, SchoolLevel } from '../constants';
+import { LEVEL_NAMES } from './levelLists';
+
+/**
+ * Level prices per academic year
+ *
+ * Every write that changes a level's price records it for the current academic year
+ * (one LevelPrice row per school, level and year, a later change in the same year
+ * replaces it) and moves the level's priceAcademicYear along. A level whose
+ * priceAcademicYear is behind the current year still shows last year's price.
+ */
+
+// Academic years run September to June
+const ACADEMIC_YEAR_START_MONTH = 9;
+
+/**
+ * Academic year a day falls in, "2025/26" from September 2025 to August 2026
+ */
+export function academicYearOf(date: Date = new Date()): string {
+  const start = date.getMonth() + 1 >= ACADEMIC_YEAR_START_MONTH ? date.getFullYear() : date.getFullYear() - 1;
+  return `${start}/${String((start + 1) % 100).padStart(2, '0')}`;
+}
+
+async function setPriceAcademicYear(
+  tx: Prisma.TransactionClient,
+  level: SchoolLevel,
+  schoolId: string,
+  academicYear: string
+): Promise<void> {
+  const args = { where: { schoolId }, data: { priceAcademicYear: academicYear } };
+  if (level === 'primary') await tx.primary.updateMany(args);
+  else if (level === 'basic') await tx.basic.updateMany(args);
+  else await tx.secondary.updateMany(args);
+}
+
+/**
+ * Records a level's price for an academic year, replacing the one already recorded
+ * A price for the current year also marks the level's price as up to date
+ */
+export async function recordLevelPrice(
+  tx: Prisma.TransactionClient,
+  params: { schoolId: string; level: SchoolLevel; academicYear: string; price: number; userId?: string }
+): Promise<void> {
+  const { schoolId, level, academicYear, price, userId } = params;
+  const levelName = LEVEL_NAMES[level];
+
+  await tx.levelPrice.upsert({
+    where: { schoolId_levelName_academicYear: { schoolId, levelName, academicYear } },
+    create: { schoolId, levelName, academicYear, price, recordedBy: userId },
+    update: { price, recordedBy: userId },
+  });
+
+  if (academicYear === academicYearOf()) {
+    await setPriceAcademicYear(tx, level, schoolId, academicYear);
+  }
+}
+
+type LevelPrices = Partial<Record<SchoolLevel, { price?: number | null } | null>>;
+
+/**
+ * Records the prices a write changed for the current academic year, call inside the
+ * transaction after the levels were written; before is the school as it was (null for a new school)
+ * Levels without a price are skipped, their history stays as it was
+ */
+export async function recordLevelPriceChanges(
+  tx: Prisma.TransactionClient,
+  schoolId: string,
+  before: LevelPrices | null,
+  userId?: string
+): Promise<void> {
+  const price = { select: { price: true } };
+  const after = await tx.schoolData.findUnique({
+    where: { id: schoolId },
+    select: { primary: price, basic: price, secondary: price },
+  });
+  if (!after) return;
+
+  const academicYear = academicYearOf();
+  for (const level of SCHOOL_LEVELS) {
+    const current = after[level]?.price;
+    if (current === null || current === undefined || current <= 0) continue;
+    if (before?.[level]?.price === current) continue;
+    await recordLevelPrice(tx, { schoolId, level, academicYear, price: current, userId });
+  }
+}
+
+/**
+ * Price timeline of each level, oldest academic year first, null for levels the school does not have
+ * outdated: the level has a price that was not set or confirmed for the current academic year
+ */
+export async function loadPriceHistory(client: Prisma.TransactionClient, schoolId: string) {
+  const level = { select: { price: true, priceAcademicYear: true } };
+  const [school, rows] = await Promise.all([
+    client.schoolData.findUnique({
+      where: { id: schoolId },
+      select: { primary: level, basic: level, secondary: level },
+    }),
+    client.levelPrice.findMany({
+      where: { schoolId },
+      select: { levelName: true, academicYear: true, price: true, recordedAt: true },
+      orderBy: { academicYear: 'asc' },
+    }),
+  ]);
+
+  const currentAcademicYear = academicYearOf();
+  const timeline = (name: SchoolLevel) => {
+    const section = school?.[name];
+    if (!section) return null;
+    return {
+      price: section.price,
+      priceAcademicYear: section.priceAcademicYear,
+      outdated: (section.price ?? 0) > 0 && section.priceAcademicYear !== currentAcademicYear,
+      history: rows
+        .filter((row) => row.levelName === LEVEL_NAMES[name])
+        .map(({ levelName: _levelName, ...entry }) => entry),
+    };
+  };
+
+  return {
+    currentAcademicYear,
+    primary: timeline('primary'),
+    basic: timeline('basic'),
+    secondary: timeline('secondary'),
+  };
+}
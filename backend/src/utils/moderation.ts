@@ -0,0 +1,87 @@
+import { Request } from 'express';
+import { ChangeSetAction, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { diffSnapshots, FieldChange, SchoolSnapshot } from './schoolRevisions';
+import { NestedUpdateData, SCHOOL_SECTIONS } from './schoolWrites';
+
+/**
+ * Moderation of employee changes
+ * With SCHOOL_MODERATION=true, schools created, edited, published or deleted by employees
+ * are stored as change sets and only reach SchoolData once an admin approves them
+ */
+
+export function isModerationEnabled(): boolean {
+  return process.env.SCHOOL_MODERATION === 'true';
+}
+
+export function requiresModeration(req: Request): boolean {
+  return isModerationEnabled() && req.userRole === 'employee';
+}
+
+function isSection(key: string): boolean {
+  return (SCHOOL_SECTIONS as readonly string[]).includes(key);
+}
+
+/**
+ * Field-level changes an update body would make to the school
+ * Sections are merged into the existing ones, null removes a section
+ */
+export function changesForUpdate(before: SchoolSnapshot, data: NestedUpdateData): FieldChange[] {
+  const after: Record<string, unknown> = { ...before };
+
+  Object.entries(data).forEach(([key, value]) => {
+    const current = after[key];
+    after[key] = isSection(key) && value && current
+      ? { ...(current as Record<string, unknown>), ...(value as Record<string, unknown>) }
+      : value;
+  });
+
+  return diffSnapshots(before, after);
+}
+
+/**
+ * The part of a submitted body covered by the given change paths ("name", "address.city")
+ * Removing a section cannot be split, any of its paths removes it
+ */
+export function pickChangePaths(data: NestedUpdateData, paths: string[]): NestedUpdateData {
+  const picked: NestedUpdateData = {};
+
+  paths.forEach((path) => {
+    const [key, field] = path.split('.');
+    const value = data[key];
+
+    if (!field || value === null || typeof value !== 'object') {
+      picked[key] = value;
+      return;
+    }
+
+    const section = (picked[key] ?? {}) as Record<string, unknown>;
+    section[field] = (value as Record<string, unknown>)[field];
+    picked[key] = section;
+  });
+
+  return picked;
+}
+
+export async function submitChangeSet(params: {
+  action: ChangeSetAction;
+  schoolId?: string;
+  data: unknown;
+  changes: FieldChange[];
+  baseVersion?: number;
+  userId: string;
+}) {
+  const { action, schoolId, data, changes, baseVersion, userId } = params;
+
+  return prisma.schoolChangeSet.create({
+    data: {
+      action,
+      schoolId,
+      data: data as Prisma.InputJsonValue,
+      // Dates become ISO strings, the same shape revisions store
+      changes: JSON.parse(JSON.stringify(changes)) as Prisma.InputJsonValue,
+      baseVersion,
+      submittedBy: userId,
+    },
+  });
+}
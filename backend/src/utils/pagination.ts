@@ -0,0 +1,60 @@
+import { Prisma } from '@prisma/client';
+import { SchoolSortKey } from '../schemas/schoolQuery.schema';
+
+interface CursorPayload {
+  id: string;
+  sort: string;
+}
+
+/**
+ * Canonical string form of a sort, e.g. "-primary.price,name"
+ * Stored in cursors so a cursor cannot be replayed against a different ordering
+ */
+export function serializeSort(sort: SchoolSortKey[]): string {
+  return sort.map(({ field, direction }) => `${direction === 'desc' ? '-' : ''}${field}`).join(',');
+}
+
+/**
+ * Encodes an opaque cursor pointing at the last row of a page
+ */
+export function encodeCursor(id: string, sort: SchoolSortKey[]): string {
+  const payload: CursorPayload = { id, sort: serializeSort(sort) };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decodes a cursor, returns the row ID or null when the cursor is malformed
+ * or was issued for a different sort order
+ */
+export function decodeCursor(cursor: string, sort: SchoolSortKey[]): string | null {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as Partial<CursorPayload>;
+    if (typeof payload.id !== 'string' || payload.sort !== serializeSort(sort)) {
+      return null;
+    }
+    return payload.id;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Builds the Prisma orderBy for a sort, with id as the final tie-breaker
+ * so cursor pagination stays stable when sort values repeat
+ */
+export function buildOrderBy(sort: SchoolSortKey[]): Prisma.SchoolDataOrderByWithRelationInput[] {
+  const orderBy: Prisma.SchoolDataOrderByWithRelationInput[] = sort.map(({ field, direction }) => {
+    const [relation, column] = field.split('.');
+
+    if (!column) {
+      // Nullable scalars sort empty values last in both directions
+      return relation === 'establishedYear'
+        ? { establishedYear: { sort: direction, nulls: 'last' } }
+        : { [relation]: direction };
+    }
+
+    return { [relation]: { [column]: { sort: direction, nulls: 'last' } } };
+  });
+
+  return [...orderBy, { id: 'asc' }];
+}
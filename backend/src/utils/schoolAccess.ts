@@ -0,0 +1,46 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * What a non-admin user may do with a school
+ * Owners and edit collaborators can change it, view collaborators can only read it
+ */
+export type SchoolAccess = 'owner' | 'edit' | 'view';
+
+/**
+ * Schools a user owns or collaborates on, used for the employee listing
+ */
+export function accessibleSchoolsWhere(userId: string): Prisma.SchoolDataWhereInput {
+  return {
+    OR: [
+      { ownerId: userId },
+      { collaborators: { some: { userId } } },
+    ],
+  };
+}
+
+/**
+ * The user's access to a school, null when they have none
+ * Also works for schools in the trash, callers decide whether those count
+ */
+export async function findSchoolAccess(
+  client: Prisma.TransactionClient,
+  schoolId: string,
+  userId: string | undefined
+): Promise<SchoolAccess | null> {
+  if (!userId) return null;
+
+  const school = await client.schoolData.findUnique({
+    where: { id: schoolId },
+    select: {
+      ownerId: true,
+      collaborators: { where: { userId }, select: { access: true } },
+    },
+  });
+  if (!school) return null;
+  if (school.ownerId === userId) return 'owner';
+  return school.collaborators[0]?.access ?? null;
+}
+
+export function canEditSchool(access: SchoolAccess | null): boolean {
+  return access === 'owner' || access === 'edit';
+}
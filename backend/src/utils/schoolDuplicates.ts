@@ -0,0 +1,267 @@
+import { Prisma, SchoolStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { georgianToLatin } from './transliterate';
+import { formatGeorgianPhone } from './validators';
+
+/**
+ * Duplicate school detection
+ *
+ * Every school is reduced to a fingerprint: its name without the words most school
+ * names share, its phone numbers, its website and its street. Two schools are a
+ * probable duplicate when they share a phone number or website, when their names are
+ * nearly the same, or when their names are alike and they are at the same address.
+ * Names with different numbers ("School №5", "School №6") never match on the name.
+ */
+
+export type DuplicateReason = 'name' | 'phone' | 'website' | 'address';
+
+// The fields a fingerprint is built from, a POST /api/schools body or a stored school
+export interface DuplicateCandidate {
+  name?: string | null;
+  phoneNumber1?: string | null;
+  phoneNumber2?: string | null;
+  phoneNumber3?: string | null;
+  schoolsWebSite?: string | null;
+  address?: { city?: string | null; street?: string | null } | null;
+}
+
+export interface DuplicateEvidence {
+  reasons: DuplicateReason[];
+  similarity: number; // Name similarity from 0 to 1
+}
+
+export interface DuplicateSchool extends DuplicateEvidence {
+  schoolId: string;
+  name: string;
+  city: string | null;
+  status: SchoolStatus;
+}
+
+export interface DuplicateCluster {
+  schools: { id: string; name: string; city: string | null; status: SchoolStatus }[];
+  // Every matching pair within the cluster
+  matches: ({ schoolIds: [string, string] } & DuplicateEvidence)[];
+}
+
+export interface SchoolFingerprint {
+  name: string;
+  numbers: string; // Digits in the name, "51" for "№51 public school"
+  trigrams: Set<string>;
+  phones: string[];
+  website: string | null;
+  address: string | null;
+}
+
+// Nearly the same name on its own
+const NAME_THRESHOLD = 0.85;
+// Alike names at the same address
+const NAME_AT_ADDRESS_THRESHOLD = 0.6;
+// Duplicates returned for one school, the closest first
+const MAX_DUPLICATES = 10;
+
+// Transliterated words that say what kind of school it is rather than which one
+const GENERIC_NAME_WORDS = new Set([
+  'skola', 'skolis', 'skolebi', 'school', 'schools', 'kerdzo', 'private', 'sajaro', 'public',
+  'saertashoriso', 'international', 'shps', 'ltd', 'llc', 'aaip', 'aip', 'ssip', 'the', 'of',
+]);
+
+const GENERIC_STREET_WORDS = new Set(['kucha', 'kuchis', 'gamziri', 'gamz', 'street', 'str', 'st', 'avenue', 'ave']);
+
+// Sites many schools have a page on, these compare by page rather than by domain
+const SHARED_HOSTS = new Set(['facebook.com', 'm.facebook.com', 'instagram.com', 'sites.google.com', 'linkedin.com']);
+
+function words(text: string, generic: Set<string>): string[] {
+  return georgianToLatin(text)
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .split(' ')
+    // Single letters are abbreviations, "ქ." for city
+    .filter((word) => word.length > 1 || /\d/.test(word))
+    .filter((word) => !generic.has(word));
+}
+
+/**
+ * Transliterated words of a street address without "street", "avenue" and the like
+ */
+export function streetWords(street: string): string[] {
+  return words(street, GENERIC_STREET_WORDS);
+}
+
+function trigrams(text: string): Set<string> {
+  const padded = `  ${text} `;
+  const result = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    result.add(padded.slice(i, i + 3));
+  }
+  return result;
+}
+
+// Dice coefficient of the two trigram sets
+function nameSimilarity(a: SchoolFingerprint, b: SchoolFingerprint): number {
+  if (!a.name || !b.name || a.numbers !== b.numbers) return 0;
+  if (a.name === b.name) return 1;
+  let shared = 0;
+  a.trigrams.forEach((trigram) => {
+    if (b.trigrams.has(trigram)) shared++;
+  });
+  return (2 * shared) / (a.trigrams.size + b.trigrams.size);
+}
+
+// "https://www.School.ge/about" -> "school.ge", a Facebook page keeps its path
+function websiteKey(url: string): string | null {
+  const site = url.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/[?#].*$/, '').replace(/\/+$/, '');
+  if (!site) return null;
+  const host = site.split('/')[0];
+  return SHARED_HOSTS.has(host) ? site : host;
+}
+
+export function fingerprint(school: DuplicateCandidate): SchoolFingerprint {
+  const nameWords = words(school.name ?? '', GENERIC_NAME_WORDS);
+  // A name made only of generic words is compared as it is
+  const name = (nameWords.length ? nameWords : words(school.name ?? '', new Set())).join(' ');
+
+  const phones = [school.phoneNumber1, school.phoneNumber2, school.phoneNumber3]
+    .map((phone) => (phone ? formatGeorgianPhone(phone) : ''))
+    .filter(Boolean);
+
+  const street = streetWords(school.address?.street ?? '').join(' ');
+  const city = words(school.address?.city ?? '', new Set()).join(' ');
+
+  return {
+    name,
+    numbers: name.replace(/\D+/g, ' ').trim(),
+    trigrams: trigrams(name),
+    phones: [...new Set(phones)],
+    website: school.schoolsWebSite ? websiteKey(school.schoolsWebSite) : null,
+    address: street ? `${city}|${street}` : null,
+  };
+}
+
+/**
+ * Why two schools look like the same school, null when they do not
+ */
+export function compareFingerprints(a: SchoolFingerprint, b: SchoolFingerprint): DuplicateEvidence | null {
+  const reasons: DuplicateReason[] = [];
+  const similarity = nameSimilarity(a, b);
+  const sameAddress = a.address !== null && a.address === b.address;
+
+  if (similarity >= NAME_THRESHOLD || (sameAddress && similarity >= NAME_AT_ADDRESS_THRESHOLD)) reasons.push('name');
+  if (a.phones.some((phone) => b.phones.includes(phone))) reasons.push('phone');
+  if (a.website && a.website === b.website) reasons.push('website');
+  // A shared building alone is not enough, several schools can rent rooms in one
+  if (!reasons.length) return null;
+  if (sameAddress) reasons.push('address');
+
+  return { reasons, similarity: Math.round(similarity * 100) / 100 };
+}
+
+export async function loadSchoolFingerprints() {
+  const schools = await prisma.schoolData.findMany({
+    where: { deletedAt: null },
+    select: {
+      id: true,
+      name: true,
+      status: true,
+      phoneNumber1: true,
+      phoneNumber2: true,
+      phoneNumber3: true,
+      schoolsWebSite: true,
+      address: { select: { city: true, street: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+  return schools.map((school) => ({
+    id: school.id,
+    name: school.name,
+    city: school.address?.city ?? null,
+    status: school.status,
+    fingerprint: fingerprint(school),
+  }));
+}
+
+export type StoredFingerprint = Awaited<ReturnType<typeof loadSchoolFingerprints>>[number];
+
+/**
+ * Schools that look like the fingerprinted school, the strongest matches first
+ */
+export function matchDuplicates(target: SchoolFingerprint, schools: StoredFingerprint[]): DuplicateSchool[] {
+  const matches = schools.flatMap((school): DuplicateSchool[] => {
+    const match = compareFingerprints(target, school.fingerprint);
+    return match ? [{ schoolId: school.id, name: school.name, city: school.city, status: school.status, ...match }] : [];
+  });
+
+  return matches
+    .sort((a, b) => b.reasons.length - a.reasons.length || b.similarity - a.similarity)
+    .slice(0, MAX_DUPLICATES);
+}
+
+/**
+ * Existing schools that look like the candidate
+ */
+export async function findDuplicateSchools(candidate: DuplicateCandidate): Promise<DuplicateSchool[]> {
+  return matchDuplicates(fingerprint(candidate), await loadSchoolFingerprints());
+}
+
+/**
+ * The duplicates a user may see (visibility from buildVisibilityWhere) and how many others there are
+ * Schools outside the user's reach are only counted, never named
+ */
+export async function visibleDuplicates(
+  duplicates: DuplicateSchool[],
+  visibility: Prisma.SchoolDataWhereInput
+): Promise<{ duplicates: DuplicateSchool[]; otherDuplicates: number }> {
+  const visible = await prisma.schoolData.findMany({
+    where: { AND: [visibility, { id: { in: duplicates.map((duplicate) => duplicate.schoolId) } }] },
+    select: { id: true },
+  });
+  const ids = new Set(visible.map((school) => school.id));
+  const shown = duplicates.filter((duplicate) => ids.has(duplicate.schoolId));
+  return { duplicates: shown, otherDuplicates: duplicates.length - shown.length };
+}
+
+/**
+ * Groups of schools that look like the same school, across the whole database
+ * Matching is transitive: A like B and B like C puts all three in one cluster
+ * Every pair is compared, fine for the few thousand schools the directory holds
+ */
+export async function findDuplicateClusters(): Promise<DuplicateCluster[]> {
+  const schools = await loadSchoolFingerprints();
+  const parent = schools.map((_, index) => index);
+  const root = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const pairs: { a: number; b: number; match: DuplicateEvidence }[] = [];
+  for (let a = 0; a < schools.length; a++) {
+    for (let b = a + 1; b < schools.length; b++) {
+      const match = compareFingerprints(schools[a].fingerprint, schools[b].fingerprint);
+      if (!match) continue;
+      pairs.push({ a, b, match });
+      parent[root(b)] = root(a);
+    }
+  }
+
+  const clusters = new Map<number, DuplicateCluster>();
+  const clusterOf = (index: number): DuplicateCluster => {
+    const key = root(index);
+    let cluster = clusters.get(key);
+    if (!cluster) {
+      cluster = { schools: [], matches: [] };
+      clusters.set(key, cluster);
+    }
+    return cluster;
+  };
+
+  [...new Set(pairs.flatMap(({ a, b }) => [a, b]))].sort((a, b) => a - b).forEach((index) => {
+    const { id, name, city, status } = schools[index];
+    clusterOf(index).schools.push({ id, name, city, status });
+  });
+  pairs.forEach(({ a, b, match }) => {
+    clusterOf(a).matches.push({ schoolIds: [schools[a].id, schools[b].id], ...match });
+  });
+
+  return Array.from(clusters.values()).sort((a, b) => b.schools.length - a.schools.length);
+}
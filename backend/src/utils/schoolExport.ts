@@ -0,0 +1,64 @@
+import ExcelJS from 'exceljs';
+import { ExportLanguage } from '../schemas/schoolQuery.schema';
+import { EXPORT_COLUMN_LABELS } from '../constants/exportLabels';
+import { IMPORT_FIELDS } from './schoolImport';
+
+/**
+ * Spreadsheet export of schools
+ *
+ * Address, infrastructure and the three levels are flattened into one column per field,
+ * the columns are the importable fields so an exported file can be imported again once
+ * its columns are mapped.
+ * Headers are the labels the dashboard shows, kept in constants/exportLabels.
+ */
+
+// Column paths in file order
+export const EXPORT_COLUMNS: readonly string[] = ['id', 'status', 'tags', ...IMPORT_FIELDS.keys(), 'createdAt', 'updatedAt'];
+
+/**
+ * Header for a column path, the same label the dashboard uses ("Address › City")
+ */
+export function columnLabel(path: string, lang: ExportLanguage): string {
+  return EXPORT_COLUMN_LABELS[lang][path] ?? path;
+}
+
+function cellValue(school: Record<string, unknown>, path: string): unknown {
+  const value = path.split('.').reduce<unknown>(
+    (current, key) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+    school
+  );
+  if (Array.isArray(value)) return value.join(', ');
+  return value ?? null;
+}
+
+/**
+ * One array of cell values per school, in EXPORT_COLUMNS order
+ */
+export function flattenSchools(schools: Record<string, unknown>[]): unknown[][] {
+  return schools.map((school) => EXPORT_COLUMNS.map((column) => cellValue(school, column)));
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * UTF-8 CSV with a byte order mark, without it Excel shows Georgian text garbled
+ */
+export function writeCsv(headers: string[], rows: unknown[][]): Buffer {
+  const lines = [headers, ...rows].map((row) => row.map(csvCell).join(','));
+  return Buffer.from(`\uFEFF${lines.join('\r\n')}\r\n`, 'utf8');
+}
+
+export async function writeXlsx(headers: string[], rows: unknown[][]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Schools', { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.addRow(headers).font = { bold: true };
+  sheet.addRows(rows);
+  sheet.columns.forEach((column) => {
+    column.width = 20;
+  });
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,364 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import {
+  ACCREDITATION_STATUS,
+  FOREIGN_LANGUAGES,
+  INFRASTRUCTURE_FLAGS,
+  MEAL_OPTIONS,
+  SCHOOL_LEVELS,
+  SPORTS_CLUBS,
+  TRANSPORTATION_OPTIONS,
+  SchoolLevel,
+} from '../constants';
+import { SchoolFilters } from '../schemas/schoolQuery.schema';
+import { accessibleSchoolsWhere } from './schoolAccess';
+import { LEVEL_LISTS, LEVEL_NAMES, LevelList } from './levelLists';
+
+type Where = Prisma.SchoolDataWhereInput;
+
+type FilterDimension =
+  | 'city'
+  | 'district'
+  | 'accreditationStatus'
+  | 'status'
+  | 'price'
+  | 'infrastructure'
+  | 'foreignLanguages'
+  | 'sportsClubs'
+  | 'meals'
+  | 'transportation'
+  | 'tags'
+  | 'location';
+
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+export type SchoolFacets = Record<
+  | 'city'
+  | 'district'
+  | 'accreditationStatus'
+  | 'infrastructure'
+  | 'foreignLanguages'
+  | 'sportsClubs'
+  | 'meals'
+  | 'transportation',
+  FacetBucket[]
+>;
+
+/**
+ * Role-based visibility
+ * Public users see published schools, admins see all, employees see the ones they own or collaborate on
+ * Schools in the trash are hidden from everyone, see the trash endpoints
+ */
+export function buildVisibilityWhere(
+  userId: string | undefined,
+  userRole: 'admin' | 'employee' | null | undefined
+): Where {
+  if (userId && userRole === 'employee') {
+    return { ...accessibleSchoolsWhere(userId), deletedAt: null };
+  }
+  if (userId && userRole === 'admin') {
+    return { deletedAt: null };
+  }
+  return { deletedAt: null, status: 'published' };
+}
+
+function levelsFor(filters: SchoolFilters): readonly SchoolLevel[] {
+  return filters.level ? [filters.level] : SCHOOL_LEVELS;
+}
+
+// Matches when any of the levels in scope satisfies the condition
+function onAnyLevel(levels: readonly SchoolLevel[], condition: Record<string, unknown>): Where {
+  return { OR: levels.map((level) => ({ [level]: condition })) };
+}
+
+// Levels with the value in one of their lists, one row per value (see levelLists)
+function hasListValue(list: LevelList, value: string) {
+  return { [list]: { some: { [LEVEL_LISTS[list]]: { equals: value, mode: 'insensitive' } } } };
+}
+
+/**
+ * Translates parsed query filters into one Prisma clause per filter dimension
+ * Clauses are kept apart so facets can leave their own dimension out
+ */
+function buildFilterClauses(filters: SchoolFilters): Partial<Record<FilterDimension, Where>> {
+  const clauses: Partial<Record<FilterDimension, Where>> = {};
+  const levels = levelsFor(filters);
+
+  if (filters.city?.length) {
+    clauses.city = { address: { city: { in: filters.city, mode: 'insensitive' } } };
+  }
+
+  if (filters.district?.length) {
+    clauses.district = { address: { district: { in: filters.district } } };
+  }
+
+  if (filters.accreditationStatus?.length) {
+    clauses.accreditationStatus = { accreditationStatus: { in: filters.accreditationStatus } };
+  }
+
+  if (filters.status?.length) {
+    clauses.status = { status: { in: filters.status } };
+  }
+
+  if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+    // Schools without a price for a level never match a price filter
+    clauses.price = onAnyLevel(levels, {
+      price: {
+        gt: 0,
+        ...(filters.minPrice !== undefined && { gte: filters.minPrice }),
+        ...(filters.maxPrice !== undefined && { lte: filters.maxPrice }),
+      },
+    });
+  }
+
+  if (filters.infrastructure?.length) {
+    clauses.infrastructure = {
+      AND: filters.infrastructure.map((flag) => ({ infrastructure: { [flag]: true } })),
+    };
+  }
+
+  if (filters.foreignLanguages?.length) {
+    clauses.foreignLanguages = {
+      AND: filters.foreignLanguages.map((language) =>
+        onAnyLevel(levels, hasListValue('foreignLanguages', language))
+      ),
+    };
+  }
+
+  if (filters.sportsClubs?.length) {
+    clauses.sportsClubs = {
+      AND: filters.sportsClubs.map((sport) =>
+        onAnyLevel(levels, hasListValue('mandatorySportsClubs', sport))
+      ),
+    };
+  }
+
+  if (filters.meals?.length) {
+    clauses.meals = onAnyLevel(levels, { meals: { in: filters.meals } });
+  }
+
+  if (filters.transportation?.length) {
+    clauses.transportation = onAnyLevel(levels, { transportation: { in: filters.transportation } });
+  }
+
+  if (filters.tags?.length) {
+    clauses.tags = { tags: { hasEvery: filters.tags } };
+  }
+
+  if (filters.hasLocation !== undefined) {
+    const located: Where = { address: { latitude: { not: null }, longitude: { not: null } } };
+    clauses.location = filters.hasLocation ? located : { NOT: located };
+  }
+
+  return clauses;
+}
+
+function combine(base: Where, clauses: Partial<Record<FilterDimension, Where>>, omit?: FilterDimension): Where {
+  const parts = Object.entries(clauses)
+    .filter(([dimension]) => dimension !== omit)
+    .map(([, clause]) => clause as Where);
+
+  return parts.length ? { AND: [base, ...parts] } : base;
+}
+
+/**
+ * Builds the where clause for a filtered school listing
+ */
+export function buildSchoolWhere(base: Where, filters: SchoolFilters): Where {
+  return combine(base, buildFilterClauses(filters));
+}
+
+// One bucket per value in the given order, counting each school once however many levels match
+function countSchools(
+  values: readonly string[],
+  pairs: { schoolId: string; value: string | null | undefined }[],
+  normalize: (value: string) => string = (value) => value
+): FacetBucket[] {
+  const schools = new Map(values.map((value) => [normalize(value), new Set<string>()]));
+  pairs.forEach(({ schoolId, value }) => {
+    if (value) schools.get(normalize(value))?.add(schoolId);
+  });
+  return values.map((value) => ({ value, count: schools.get(normalize(value))!.size }));
+}
+
+// List values compare case-insensitively, as in hasListValue
+const lowerCase = (value: string) => value.toLowerCase();
+
+// (school, value) pairs of a level field on the levels in scope, one query for all levels
+async function levelFieldPairs(where: Where, levels: readonly SchoolLevel[], field: 'meals' | 'transportation') {
+  const select = { meals: true, transportation: true };
+  const schools = await prisma.schoolData.findMany({
+    where,
+    select: { id: true, primary: { select }, basic: { select }, secondary: { select } },
+  });
+  return schools.flatMap((school) => levels.map((level) => ({ schoolId: school.id, value: school[level]?.[field] })));
+}
+
+function toBuckets(rows: { value: string | null; count: number }[]): FacetBucket[] {
+  return rows
+    .filter((row): row is FacetBucket => Boolean(row.value))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+/**
+ * Counts matching schools per filter value
+ * Single-choice dimensions (city, district, accreditation, meals, transportation)
+ * ignore their own selection so the other options keep meaningful counts.
+ * Additive dimensions (infrastructure, languages, sports) count within the current result.
+ */
+export async function computeSchoolFacets(base: Where, filters: SchoolFilters): Promise<SchoolFacets> {
+  const clauses = buildFilterClauses(filters);
+  const levels = levelsFor(filters);
+  const all = combine(base, clauses);
+
+  const [city, district, accreditationStatus, infrastructure, foreignLanguages, sportsClubs, meals, transportation] =
+    await Promise.all([
+      prisma.address
+        .groupBy({
+          by: ['city'],
+          where: { school: combine(base, clauses, 'city') },
+          _count: { _all: true },
+        })
+        .then((rows) => toBuckets(rows.map((row) => ({ value: row.city, count: row._count._all })))),
+      prisma.address
+        .groupBy({
+          by: ['district'],
+          where: { school: combine(base, clauses, 'district') },
+          _count: { _all: true },
+        })
+        .then((rows) => toBuckets(rows.map((row) => ({ value: row.district, count: row._count._all })))),
+      prisma.schoolData
+        .groupBy({
+          by: ['accreditationStatus'],
+          where: combine(base, clauses, 'accreditationStatus'),
+          _count: { _all: true },
+        })
+        .then((rows) =>
+          ACCREDITATION_STATUS.map((status) => ({
+            value: status,
+            count: rows.find((row) => row.accreditationStatus === status)?._count._all ?? 0,
+          }))
+        ),
+      // One group per combination of flags, at most 2^9 rows
+      prisma.infrastructure
+        .groupBy({
+          by: [...INFRASTRUCTURE_FLAGS],
+          where: { school: all },
+          _count: { _all: true },
+        })
+        .then((rows) =>
+          INFRASTRUCTURE_FLAGS.map((flag) => ({
+            value: flag,
+            count: rows.reduce((sum, row) => sum + (row[flag] ? row._count._all : 0), 0),
+          }))
+        ),
+      prisma.levelForeignLanguage
+        .groupBy({
+          by: ['schoolId', 'language'],
+          where: {
+            school: all,
+            levelName: { in: levels.map((level) => LEVEL_NAMES[level]) },
+            language: { in: [...FOREIGN_LANGUAGES], mode: 'insensitive' },
+          },
+        })
+        .then((rows) =>
+          countSchools(FOREIGN_LANGUAGES, rows.map((row) => ({ schoolId: row.schoolId, value: row.language })), lowerCase)
+        ),
+      prisma.levelMandatorySport
+        .groupBy({
+          by: ['school_id', 'sport'],
+          where: {
+            school: all,
+            level_name: { in: levels.map((level) => LEVEL_NAMES[level]) },
+            sport: { in: [...SPORTS_CLUBS], mode: 'insensitive' },
+          },
+        })
+        .then((rows) =>
+          countSchools(SPORTS_CLUBS, rows.map((row) => ({ schoolId: row.school_id, value: row.sport })), lowerCase)
+        ),
+      levelFieldPairs(
+        { AND: [combine(base, clauses, 'meals'), onAnyLevel(levels, { meals: { in: [...MEAL_OPTIONS] } })] },
+        levels,
+        'meals'
+      ).then((pairs) => countSchools(MEAL_OPTIONS, pairs)),
+      levelFieldPairs(
+        {
+          AND: [
+            combine(base, clauses, 'transportation'),
+            onAnyLevel(levels, { transportation: { in: [...TRANSPORTATION_OPTIONS] } }),
+          ],
+        },
+        levels,
+        'transportation'
+      ).then((pairs) => countSchools(TRANSPORTATION_OPTIONS, pairs)),
+    ]);
+
+  return {
+    city,
+    district,
+    accreditationStatus,
+    infrastructure,
+    foreignLanguages,
+    sportsClubs,
+    meals,
+    transportation,
+  };
+}
+
+export interface DistrictStats {
+  district: string;
+  count: number;
+  located: number; // Schools with coordinates
+  medianPrice: number | null;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * School count and median price per district, for the district map
+ * Like the district facet it ignores the district selection, so every district keeps its figures.
+ * A school's price is that of the filtered level, or its lowest level price without a level filter
+ */
+export async function computeDistrictStats(base: Where, filters: SchoolFilters): Promise<DistrictStats[]> {
+  const levels = levelsFor(filters);
+  const price = { select: { price: true } };
+  const schools = await prisma.schoolData.findMany({
+    where: combine(base, buildFilterClauses(filters), 'district'),
+    select: {
+      address: { select: { district: true, latitude: true, longitude: true } },
+      primary: price,
+      basic: price,
+      secondary: price,
+    },
+  });
+
+  const byDistrict = new Map<string, { count: number; located: number; prices: number[] }>();
+  schools.forEach((school) => {
+    const district = school.address?.district;
+    if (!district) return;
+
+    const stats = byDistrict.get(district) ?? { count: 0, located: 0, prices: [] };
+    stats.count += 1;
+    if (school.address?.latitude != null && school.address.longitude != null) stats.located += 1;
+
+    // Levels without a price (0 or empty) do not count
+    const prices = levels
+      .map((level) => school[level]?.price)
+      .filter((value): value is number => value !== null && value !== undefined && value > 0);
+    if (prices.length) stats.prices.push(Math.min(...prices));
+
+    byDistrict.set(district, stats);
+  });
+
+  return [...byDistrict.entries()]
+    .map(([district, { count, located, prices }]) => ({ district, count, located, medianPrice: median(prices) }))
+    .sort((a, b) => b.count - a.count || a.district.localeCompare(b.district));
+}
@@ -0,0 +1,348 @@
+import ExcelJS from 'exceljs';
+import { parse } from 'csv-parse/sync';
+import { z } from 'zod';
+import { importedSchoolSchema, MAX_IMPORT_ROWS } from '../schemas/import.schema';
+import { schoolSchema } from '../schemas/school.schema';
+import {
+  compareFingerprints,
+  DuplicateCandidate,
+  DuplicateReason,
+  fingerprint,
+  loadSchoolFingerprints,
+  matchDuplicates,
+  SchoolFingerprint,
+} from './schoolDuplicates';
+
+/**
+ * Spreadsheet import of schools
+ *
+ *   1. readSpreadsheet        CSV or XLSX file -> header row and data rows
+ *   2. suggestMapping         header -> school field path ("name", "address.city", "primary.price")
+ *   3. analyzeSpreadsheet     per row: the school body, cell errors and likely duplicates
+ *
+ * Nothing is written here, the import controller commits the valid rows.
+ */
+
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpreadsheetError';
+  }
+}
+
+export interface SpreadsheetRow {
+  number: number; // Row number in the file, the header is usually row 1
+  cells: string[]; // One cell per column
+}
+
+export interface Spreadsheet {
+  columns: string[];
+  // Data rows without the header and empty rows
+  rows: SpreadsheetRow[];
+}
+
+type FieldKind = 'string' | 'number' | 'boolean' | 'list';
+
+export interface CellError {
+  column: string | null; // null when the field is not mapped to any column
+  field: string;
+  message: string;
+}
+
+export interface DuplicateMatch {
+  reasons: DuplicateReason[];
+  schoolId?: string; // An existing school
+  row?: number; // An earlier row of the same file
+  name: string;
+}
+
+export interface ImportRowReport {
+  row: number; // Spreadsheet row number, the header is row 1
+  name: string | null;
+  valid: boolean;
+  errors: CellError[];
+  duplicates: DuplicateMatch[];
+}
+
+export interface AnalyzedRow extends ImportRowReport {
+  // Validated POST /api/schools body, null when the row has errors
+  school: z.infer<typeof importedSchoolSchema> | null;
+}
+
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable || schema instanceof z.ZodDefault) {
+    return unwrap(schema._def.innerType);
+  }
+  if (schema instanceof z.ZodEffects) return unwrap(schema._def.schema);
+  if (schema instanceof z.ZodUnion) return unwrap(schema._def.options[0]);
+  return schema;
+}
+
+function collectFields(shape: z.ZodRawShape, prefix = ''): [string, FieldKind][] {
+  return Object.entries(shape).flatMap(([key, field]): [string, FieldKind][] => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const inner = unwrap(field);
+    if (inner instanceof z.ZodObject) return collectFields(inner.shape, path);
+    if (inner instanceof z.ZodNumber) return [[path, 'number']];
+    if (inner instanceof z.ZodBoolean) return [[path, 'boolean']];
+    // Structured lists (fee schedules) have no single-cell form
+    if (inner instanceof z.ZodArray) return inner.element instanceof z.ZodObject ? [] : [[path, 'list']];
+    return [[path, 'string']];
+  });
+}
+
+// Fields a column can be mapped to, read from the school schema so new fields are importable too
+export const IMPORT_FIELDS: ReadonlyMap<string, FieldKind> = new Map(
+  collectFields(schoolSchema.omit({ id: true }).shape)
+);
+
+const XLSX_TYPES = ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'];
+const CSV_TYPES = ['text/csv', 'application/csv', 'application/vnd.ms-excel', 'text/plain'];
+
+function isBlank(cells: string[]): boolean {
+  return cells.every((cell) => cell === '');
+}
+
+async function readXlsx(buffer: Buffer): Promise<SpreadsheetRow[]> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+  } catch {
+    throw new SpreadsheetError('The file is not a valid XLSX workbook');
+  }
+
+  // Only the first sheet is imported
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: SpreadsheetRow[] = [];
+  sheet.eachRow((row) => {
+    const cells: string[] = [];
+    for (let column = 1; column <= sheet.columnCount; column++) {
+      cells.push(row.getCell(column).text);
+    }
+    rows.push({ number: row.number, cells });
+  });
+  return rows;
+}
+
+function readCsv(buffer: Buffer): SpreadsheetRow[] {
+  try {
+    // Spreadsheet programs in a Georgian locale export with semicolons
+    const records = parse(buffer, {
+      bom: true,
+      delimiter: [',', ';'],
+      relax_column_count: true,
+      info: true,
+    }) as unknown as { record: string[]; info: { lines: number } }[];
+    return records.map(({ record, info }) => ({ number: info.lines, cells: record }));
+  } catch (error) {
+    throw new SpreadsheetError(`The CSV file could not be read: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Reads the first sheet of an uploaded CSV or XLSX file
+ * The first non-empty row holds the column headers, empty rows are skipped
+ * Files with more than maxRows data rows are refused
+ */
+export async function readSpreadsheet(
+  file: { buffer: Buffer; originalname: string; mimetype: string },
+  maxRows = MAX_IMPORT_ROWS
+): Promise<Spreadsheet> {
+  const name = file.originalname.toLowerCase();
+  const isXlsx = name.endsWith('.xlsx') || XLSX_TYPES.includes(file.mimetype);
+  const isCsv = name.endsWith('.csv') || (!isXlsx && CSV_TYPES.includes(file.mimetype));
+
+  if (!isXlsx && !isCsv) {
+    throw new SpreadsheetError('Only CSV and XLSX files can be imported');
+  }
+
+  const rows = (isXlsx ? await readXlsx(file.buffer) : readCsv(file.buffer))
+    .map((row) => ({ ...row, cells: row.cells.map((cell) => String(cell ?? '').trim()) }))
+    .filter((row) => !isBlank(row.cells));
+  if (rows.length === 0) {
+    throw new SpreadsheetError('The file is empty');
+  }
+
+  const columns = rows[0].cells.map((header, index) => header || `Column ${index + 1}`);
+  const repeated = columns.filter((column, index) => columns.indexOf(column) !== index);
+  if (repeated.length) {
+    throw new SpreadsheetError(`Column names must be unique: ${[...new Set(repeated)].join(', ')}`);
+  }
+
+  const data = rows.slice(1);
+  if (data.length > maxRows) {
+    throw new SpreadsheetError(`At most ${maxRows} rows can be imported at once, the file has ${data.length}`);
+  }
+
+  return {
+    columns,
+    rows: data.map((row) => ({ ...row, cells: columns.map((_, index) => row.cells[index] ?? '') })),
+  };
+}
+
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+/**
+ * Guesses which field each column holds from its header
+ * "address.city", "Address City" and, when unambiguous, "City" all map to address.city
+ */
+export function suggestMapping(columns: string[]): Record<string, string> {
+  const byHeader = new Map<string, string | null>();
+  const candidate = (header: string, path: string) => {
+    const key = normalizeHeader(header);
+    // A short name shared by several fields (price on every level) is not suggested
+    byHeader.set(key, byHeader.has(key) && byHeader.get(key) !== path ? null : path);
+  };
+
+  IMPORT_FIELDS.forEach((_, path) => {
+    candidate(path, path);
+    const leaf = path.split('.').pop()!;
+    if (leaf !== path) candidate(leaf, path);
+  });
+  // Full paths always win over short names
+  IMPORT_FIELDS.forEach((_, path) => byHeader.set(normalizeHeader(path), path));
+
+  const mapping: Record<string, string> = {};
+  const used = new Set<string>();
+  columns.forEach((column) => {
+    const path = byHeader.get(normalizeHeader(column));
+    if (path && !used.has(path)) {
+      mapping[column] = path;
+      used.add(path);
+    }
+  });
+  return mapping;
+}
+
+/**
+ * Problems with a column mapping: unknown columns, unknown fields and fields mapped twice
+ */
+export function validateMapping(columns: string[], mapping: Record<string, string>): string[] {
+  const problems: string[] = [];
+  const targets = new Set<string>();
+
+  Object.entries(mapping).forEach(([column, path]) => {
+    if (!columns.includes(column)) problems.push(`Unknown column "${column}"`);
+    if (!IMPORT_FIELDS.has(path)) problems.push(`Unknown field "${path}" for column "${column}"`);
+    if (targets.has(path)) problems.push(`Field "${path}" is mapped more than once`);
+    targets.add(path);
+  });
+  return problems;
+}
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x', '✓', 'კი', 'დიახ'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', '-', '✗', 'არა'];
+
+function parseCell(kind: FieldKind, raw: string): { value: unknown } | { error: string } {
+  if (kind === 'number') {
+    const value = Number(raw.replace(/\s/g, '').replace(',', '.'));
+    return Number.isFinite(value) ? { value } : { error: 'Expected a number' };
+  }
+  if (kind === 'boolean') {
+    const normalized = raw.toLowerCase();
+    if (TRUE_VALUES.includes(normalized)) return { value: true };
+    if (FALSE_VALUES.includes(normalized)) return { value: false };
+    return { error: 'Expected yes or no' };
+  }
+  if (kind === 'list') {
+    // "chess, football" or one value per line
+    return { value: raw.split(/[,;\n]/).map((item) => item.trim()).filter(Boolean) };
+  }
+  return { value: raw };
+}
+
+type SchoolDraft = Record<string, unknown>;
+
+function setPath(target: SchoolDraft, path: string, value: unknown): void {
+  const keys = path.split('.');
+  const last = keys.pop()!;
+  const parent = keys.reduce<SchoolDraft>((node, key) => {
+    const child = node[key];
+    if (child && typeof child === 'object') return child as SchoolDraft;
+    return (node[key] = {});
+  }, target);
+  parent[last] = value;
+}
+
+// Every section exists and every yes/no field defaults to no, as in the create form
+function emptySchool(): SchoolDraft {
+  const school: SchoolDraft = {};
+  IMPORT_FIELDS.forEach((kind, path) => {
+    const section = path.split('.')[0];
+    if (path.includes('.')) school[section] ??= {};
+    if (kind === 'boolean') setPath(school, path, false);
+  });
+  return school;
+}
+
+function toSchool(cells: string[], columns: string[], mapping: Record<string, string>) {
+  const school = emptySchool();
+  const columnOf = new Map(Object.entries(mapping).map(([column, path]) => [path, column]));
+  const errors: CellError[] = [];
+
+  Object.entries(mapping).forEach(([column, path]) => {
+    const raw = cells[columns.indexOf(column)] ?? '';
+    if (raw === '') return;
+
+    const parsed = parseCell(IMPORT_FIELDS.get(path)!, raw);
+    if ('error' in parsed) {
+      errors.push({ column, field: path, message: parsed.error });
+    } else {
+      setPath(school, path, parsed.value);
+    }
+  });
+
+  // Cells that could not be converted are already reported, validate the rest
+  const result = importedSchoolSchema.safeParse(school);
+  if (!result.success) {
+    result.error.errors.forEach((issue) => {
+      const field = issue.path.join('.');
+      if (errors.some((error) => error.field === field)) return;
+      errors.push({ column: columnOf.get(field) ?? null, field, message: issue.message });
+    });
+  }
+
+  return {
+    school: result.success && errors.length === 0 ? result.data : null,
+    name: typeof school.name === 'string' ? school.name : null,
+    // Unvalidated, rows with errors are still checked for duplicates
+    candidate: school as DuplicateCandidate,
+    errors,
+  };
+}
+
+/**
+ * Validates every row and flags rows that look like a school that already
+ * exists or like an earlier row, see schoolDuplicates for what counts as alike
+ */
+export async function analyzeSpreadsheet(sheet: Spreadsheet, mapping: Record<string, string>): Promise<AnalyzedRow[]> {
+  const parsed = sheet.rows.map((row) => ({ number: row.number, ...toSchool(row.cells, sheet.columns, mapping) }));
+  const existing = await loadSchoolFingerprints();
+  const earlier: { row: number; name: string; fingerprint: SchoolFingerprint }[] = [];
+
+  return parsed.map((row) => {
+    const duplicates: DuplicateMatch[] = [];
+    if (row.name) {
+      const target = fingerprint(row.candidate);
+      matchDuplicates(target, existing).forEach(({ schoolId, name, reasons }) => duplicates.push({ reasons, schoolId, name }));
+      earlier.forEach((other) => {
+        const match = compareFingerprints(target, other.fingerprint);
+        if (match) duplicates.push({ reasons: match.reasons, row: other.row, name: other.name });
+      });
+      earlier.push({ row: row.number, name: row.name, fingerprint: target });
+    }
+
+    return {
+      row: row.number,
+      name: row.name,
+      valid: row.school !== null,
+      errors: row.errors,
+      duplicates,
+      school: row.school,
+    };
+  });
+}
@@ -0,0 +1,168 @@
+import { Prisma, RevisionAction } from '@prisma/client';
+import { flattenLevelLists, LEVEL_LIST_FIELDS, levelWithListsInclude, parseLevelList, WithLevelLists } from './levelLists';
+import { parseFees } from './levelFees';
+
+/**
+ * Revision history for schools
+ * Every create, update, delete and restore writes a SchoolRevision in the same transaction,
+ * holding the full snapshot and the field-level diff against the previous state.
+ */
+
+// Rows captured in a snapshot
+export const schoolSnapshotInclude = {
+  address: true,
+  infrastructure: true,
+  primary: levelWithListsInclude,
+  basic: levelWithListsInclude,
+  secondary: levelWithListsInclude,
+} satisfies Prisma.SchoolDataInclude;
+
+// Level lists are string arrays in snapshots, as in the API
+export type SchoolSnapshot = WithLevelLists<Prisma.SchoolDataGetPayload<{ include: typeof schoolSnapshotInclude }>>;
+
+export interface FieldChange {
+  path: string;
+  from: unknown;
+  to: unknown;
+}
+
+// Bookkeeping columns and foreign keys, not shown as changes and never restored
+const BOOKKEEPING_FIELDS = [
+  'id', 'schoolId', 'schoolDataId', 'createdAt', 'createdBy', 'updatedAt', 'updatedBy', 'version', 'deletedAt', 'deletedBy', 'importId', 'mergedIntoId',
+  'priceAcademicYear', // Follows the price history, a restored price counts as set now
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Flattens a snapshot to dotted paths ("name", "address.city", "primary.price")
+ */
+function flatten(snapshot: unknown, prefix = ''): Map<string, unknown> {
+  const values = new Map<string, unknown>();
+  if (!isRecord(snapshot)) return values;
+
+  Object.entries(snapshot).forEach(([key, value]) => {
+    if (BOOKKEEPING_FIELDS.includes(key)) return;
+    const path = prefix ? `${prefix}.${key}` : key;
+
+    if (isRecord(value)) {
+      flatten(value, path).forEach((nested, nestedPath) => values.set(nestedPath, nested));
+    } else {
+      values.set(path, value ?? null);
+    }
+  });
+
+  return values;
+}
+
+/**
+ * Field-level differences between two snapshots
+ * A missing snapshot (before a create, after a delete) counts as all fields null
+ */
+export function diffSnapshots(before: unknown, after: unknown): FieldChange[] {
+  const from = flatten(before);
+  const to = flatten(after);
+  const paths = Array.from(new Set([...from.keys(), ...to.keys()])).sort();
+
+  return paths
+    .map((path) => ({ path, from: from.get(path) ?? null, to: to.get(path) ?? null }))
+    .filter((change) => JSON.stringify(change.from) !== JSON.stringify(change.to));
+}
+
+export async function loadSchoolSnapshot(
+  tx: Prisma.TransactionClient,
+  schoolId: string
+): Promise<SchoolSnapshot | null> {
+  const school = await tx.schoolData.findUnique({
+    where: { id: schoolId },
+    include: schoolSnapshotInclude,
+  });
+  return school && flattenLevelLists(school);
+}
+
+/**
+ * Writes a revision for a change, call inside the transaction that made it
+ * before is null for a create, after is null for a delete
+ */
+export async function recordSchoolRevision(
+  tx: Prisma.TransactionClient,
+  params: {
+    action: RevisionAction;
+    before: SchoolSnapshot | null;
+    after: SchoolSnapshot | null;
+    userId?: string;
+    restoredFromId?: string;
+  }
+) {
+  const { action, before, after, userId, restoredFromId } = params;
+  const school = after ?? before;
+  if (!school) {
+    throw new Error('A revision needs a snapshot before or after the change');
+  }
+
+  // Dates become ISO strings, the same shape the API returns
+  const snapshot = JSON.parse(JSON.stringify(school)) as Prisma.InputJsonValue;
+  const diff = diffSnapshots(before && JSON.parse(JSON.stringify(before)), after && snapshot);
+
+  return tx.schoolRevision.create({
+    data: {
+      schoolId: school.id,
+      version: school.version,
+      action,
+      snapshot,
+      diff: diff as unknown as Prisma.InputJsonValue,
+      restoredFromId,
+      createdBy: userId,
+    },
+  });
+}
+
+// Shown as changes but left alone by restores, a restore should not unpublish a school,
+// hand it back to a previous owner or drop tags added since
+const WORKFLOW_FIELDS = ['status', 'ownerId', 'tags'];
+
+function pickColumns(source: unknown, columns: Record<string, string>): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  if (!isRecord(source)) return values;
+
+  Object.values(columns).forEach((column) => {
+    if (!BOOKKEEPING_FIELDS.includes(column) && !WORKFLOW_FIELDS.includes(column) && column in source) {
+      values[column] = source[column];
+    }
+  });
+  return values;
+}
+
+// Columns of a level plus its lists and fees, comma-joined lists of older snapshots become arrays
+function pickLevel(source: Record<string, unknown>, columns: Record<string, string>): Record<string, unknown> {
+  const values = pickColumns(source, columns);
+  LEVEL_LIST_FIELDS.forEach((list) => {
+    values[list] = parseLevelList(source[list]);
+  });
+  values.fees = parseFees(source.fees);
+  return values;
+}
+
+/**
+ * Turns a stored snapshot back into update data: top-level columns plus one
+ * entry per section, null for sections the school did not have at the time
+ * Only columns that still exist in the schema are kept, so old snapshots stay restorable
+ */
+export function snapshotToUpdateData(snapshot: unknown): Record<string, unknown> {
+  const source = isRecord(snapshot) ? snapshot : {};
+  const section = (key: string, columns: Record<string, string>) =>
+    isRecord(source[key]) ? pickColumns(source[key], columns) : null;
+  const level = (key: string, columns: Record<string, string>) =>
+    isRecord(source[key]) ? pickLevel(source[key], columns) : null;
+
+  return {
+    ...pickColumns(source, Prisma.SchoolDataScalarFieldEnum),
+    address: section('address', Prisma.AddressScalarFieldEnum),
+    infrastructure: section('infrastructure', Prisma.InfrastructureScalarFieldEnum),
+    primary: level('primary', Prisma.PrimaryScalarFieldEnum),
+    basic: level('basic', Prisma.BasicScalarFieldEnum),
+    secondary: level('secondary', Prisma.SecondaryScalarFieldEnum),
+  };
+}
@@ -0,0 +1,97 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { normalizeSearchQuery } from './transliterate';
+
+export interface RankedSchool {
+  id: string;
+  rank: number;
+}
+
+// Whose search it is, see buildVisibilityWhere
+export interface SearchViewer {
+  userId?: string;
+  userRole?: 'admin' | 'employee' | null;
+}
+
+// Phone numbers are only matched once the query has enough digits to be meaningful
+const MIN_PHONE_DIGITS = 3;
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * buildVisibilityWhere as SQL on "SchoolData" s, so ranking only sees the schools the viewer may
+ */
+function visibilityCondition({ userId, userRole }: SearchViewer): Prisma.Sql {
+  if (userId && userRole === 'employee') {
+    return Prisma.sql`(
+      s.owner_id = ${userId}
+      OR EXISTS (SELECT 1 FROM school_collaborators c WHERE c.school_id = s.id AND c.user_id = ${userId})
+    )`;
+  }
+  if (userId && userRole === 'admin') {
+    return Prisma.sql`TRUE`;
+  }
+  return Prisma.sql`s.status = 'published'`;
+}
+
+/**
+ * Ranks schools against a free-text query using PostgreSQL full-text and trigram search
+ * Both the query and the indexed columns are transliterated to Latin, so Georgian and
+ * Latin spellings of the same name match each other.
+ * Every match the viewer may see is returned, so filters applied afterwards and totals are exact
+ * Requires the functions and indexes from add-search-indexes.sql
+ */
+export async function rankSchools(query: string, viewer: SearchViewer): Promise<RankedSchool[]> {
+  const { phrase, words } = normalizeSearchQuery(query);
+  const digits = query.replace(/\D/g, '');
+
+  if (words.length === 0 && digits.length < MIN_PHONE_DIGITS) {
+    return [];
+  }
+
+  // Prefix match on every word: "sabav skola" -> "sabav:* & skola:*"
+  const tsQuery = words.length ? words.map((word) => `${word}:*`).join(' & ') : '';
+  const locationPattern = `%${escapeLike(phrase)}%`;
+  const phonePattern = `%${digits}%`;
+
+  const levelMatch = (alias: string) =>
+    Prisma.sql`to_tsvector('simple', georgian_to_latin(${Prisma.raw(alias)}."clubsAndCircles")) @@ q.tsq`;
+
+  const phoneMatch = digits.length >= MIN_PHONE_DIGITS
+    ? Prisma.sql`regexp_replace(concat_ws(' ', s."phoneNumber1", s."phoneNumber2", s."phoneNumber3"), '\\D', '', 'g') LIKE ${phonePattern}`
+    : Prisma.sql`FALSE`;
+
+  const rows = await prisma.$queryRaw<RankedSchool[]>`
+    SELECT
+      s.id,
+      (
+        ts_rank(school_search_document(s.name, s.description, s.director, s.founder, s."otherPrograms"), q.tsq)
+        + word_similarity(${phrase}, georgian_to_latin(s.name))
+        + CASE WHEN ${levelMatch('p')} OR ${levelMatch('b')} OR ${levelMatch('sec')} THEN 0.2 ELSE 0 END
+        + CASE WHEN georgian_to_latin(concat_ws(' ', a.city, a.district)) LIKE ${locationPattern} THEN 0.3 ELSE 0 END
+        + CASE WHEN ${phoneMatch} THEN 1 ELSE 0 END
+      )::float AS rank
+    FROM "SchoolData" s
+    CROSS JOIN (SELECT to_tsquery('simple', ${tsQuery}) AS tsq) q
+    LEFT JOIN "Address" a ON a."schoolDataId" = s.id
+    LEFT JOIN "Primary" p ON p."schoolId" = s.id
+    LEFT JOIN "Basic" b ON b."schoolId" = s.id
+    LEFT JOIN "Secondary" sec ON sec."schoolId" = s.id
+    WHERE s.deleted_at IS NULL
+      AND ${visibilityCondition(viewer)}
+      AND (
+        school_search_document(s.name, s.description, s.director, s.founder, s."otherPrograms") @@ q.tsq
+        OR ${phrase} <% georgian_to_latin(s.name)
+        OR ${levelMatch('p')}
+        OR ${levelMatch('b')}
+        OR ${levelMatch('sec')}
+        OR georgian_to_latin(concat_ws(' ', a.city, a.district)) LIKE ${locationPattern}
+        OR ${phoneMatch}
+      )
+    ORDER BY rank DESC, s.name ASC
+  `;
+
+  return rows;
+}
@@ -0,0 +1,336 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { INFRASTRUCTURE_FLAGS, SCHOOL_LEVELS, SchoolLevel } from '../constants';
+import { ActivityRange, StatsQuery } from '../schemas/stats.schema';
+
+/**
+ * Aggregates over the school directory for GET /api/stats
+ *
+ * Every figure is one SQL aggregate over the schools in scope (not in the trash, published
+ * unless an admin asks otherwise, optionally one city or district). Results are cached in
+ * memory for STATS_TTL_MS per section and scope, so edits show up within a few minutes.
+ */
+
+export const STATS_TTL_MS = 5 * 60 * 1000;
+
+// Distinct scopes kept in the cache, the oldest is dropped first
+const MAX_CACHED_SCOPES = 200;
+
+export type StatsSection = 'counts' | 'prices' | 'students' | 'infrastructure' | 'programs' | 'activity';
+
+// Schools the figures are computed over, see scopeFor
+export interface StatsScope {
+  statuses: string[] | null; // null: every status
+  city?: string;
+  district?: string;
+}
+
+export interface StatsBucket {
+  value: string | null; // null: not filled in
+  count: number;
+}
+
+export interface SharedBucket extends StatsBucket {
+  share: number; // Of all schools in scope, 0..1
+}
+
+export interface PriceStats {
+  schools: number;
+  min: number;
+  median: number;
+  max: number;
+  average: number;
+}
+
+/**
+ * Which schools a user's statistics cover
+ * Admins see every school outside the trash (status narrows it), everyone else the published ones
+ */
+export function scopeFor(query: StatsQuery, userRole: 'admin' | 'employee' | null | undefined): StatsScope {
+  const statuses = userRole === 'admin'
+    ? (query.status ? [query.status] : null)
+    : ['published'];
+  return { statuses, city: query.city, district: query.district };
+}
+
+// Condition on "SchoolData" s joined with "Address" a
+function scopeWhere(scope: StatsScope): Prisma.Sql {
+  const conditions = [Prisma.sql`s.deleted_at IS NULL`];
+  if (scope.statuses) conditions.push(Prisma.sql`s.status::text IN (${Prisma.join(scope.statuses)})`);
+  if (scope.city) conditions.push(Prisma.sql`lower(a.city) = lower(${scope.city})`);
+  if (scope.district) conditions.push(Prisma.sql`a.district = ${scope.district}`);
+  return Prisma.join(conditions, ' AND ');
+}
+
+const schoolsInScope = Prisma.sql`"SchoolData" s LEFT JOIN "Address" a ON a."schoolDataId" = s.id`;
+
+// One row per school level
+const levelRows = Prisma.sql`
+  SELECT 'primary' AS level, "schoolId" AS school_id, price, "numberOfStudents" AS students FROM "Primary"
+  UNION ALL
+  SELECT 'basic', "schoolId", price, "numberOfStudents" FROM "Basic"
+  UNION ALL
+  SELECT 'secondary', "schoolId", price, "numberOfStudents" FROM "Secondary"
+`;
+
+const cache = new Map<string, { expiresAt: number; value: Promise<unknown> }>();
+
+/**
+ * Computes a section once per scope (or date range) and TTL, concurrent requests share the same query
+ * A failed computation is not cached
+ */
+function cached<T>(section: StatsSection, params: StatsScope | ActivityRange, compute: () => Promise<T>): Promise<T> {
+  const key = `${section}:${JSON.stringify(params)}`;
+  const hit = cache.get(key);
+  if (hit && hit.expiresAt > Date.now()) return hit.value as Promise<T>;
+
+  cache.delete(key);
+  if (cache.size >= MAX_CACHED_SCOPES) cache.delete(cache.keys().next().value!);
+
+  const value = compute();
+  cache.set(key, { expiresAt: Date.now() + STATS_TTL_MS, value });
+  value.catch(() => cache.delete(key));
+  return value;
+}
+
+async function countSchools(scope: StatsScope): Promise<number> {
+  const [row] = await prisma.$queryRaw<{ total: number }[]>`
+    SELECT count(*)::int AS total FROM ${schoolsInScope} WHERE ${scopeWhere(scope)}
+  `;
+  return row.total;
+}
+
+const share = (count: number, total: number) => (total ? Math.round((count / total) * 1000) / 1000 : 0);
+
+/**
+ * Schools per district, city, accreditation status and status, most common first
+ */
+export function computeCounts(scope: StatsScope) {
+  return cached('counts', scope, async () => {
+    const rows = await prisma.$queryRaw<(StatsBucket & { dimension: string })[]>`
+      SELECT 'district' AS dimension, a.district AS value, count(*)::int AS count
+      FROM ${schoolsInScope} WHERE ${scopeWhere(scope)} GROUP BY a.district
+      UNION ALL
+      SELECT 'city', a.city, count(*)::int
+      FROM ${schoolsInScope} WHERE ${scopeWhere(scope)} GROUP BY a.city
+      UNION ALL
+      SELECT 'accreditationStatus', s."accreditationStatus", count(*)::int
+      FROM ${schoolsInScope} WHERE ${scopeWhere(scope)} GROUP BY s."accreditationStatus"
+      UNION ALL
+      SELECT 'status', s.status::text, count(*)::int
+      FROM ${schoolsInScope} WHERE ${scopeWhere(scope)} GROUP BY s.status
+      ORDER BY count DESC, value
+    `;
+    const buckets = (dimension: string) =>
+      rows.filter((row) => row.dimension === dimension).map(({ value, count }) => ({ value, count }));
+
+    return {
+      total: await countSchools(scope),
+      district: buckets('district'),
+      city: buckets('city'),
+      accreditationStatus: buckets('accreditationStatus'),
+      status: buckets('status'),
+    };
+  });
+}
+
+/**
+ * Min, median, max and average price of each level, over all districts and per district
+ * Levels without a price (empty or 0) are left out
+ */
+export function computePrices(scope: StatsScope) {
+  return cached('prices', scope, async () => {
+    const rows = await prisma.$queryRaw<(PriceStats & { level: SchoolLevel; district: string | null; allDistricts: boolean })[]>`
+      SELECT
+        l.level,
+        a.district,
+        GROUPING(a.district) = 1 AS "allDistricts",
+        count(*)::int AS schools,
+        min(l.price)::int AS min,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY l.price)::float AS median,
+        max(l.price)::int AS max,
+        round(avg(l.price))::int AS average
+      FROM (${levelRows}) l
+      JOIN "SchoolData" s ON s.id = l.school_id
+      LEFT JOIN "Address" a ON a."schoolDataId" = s.id
+      WHERE ${scopeWhere(scope)} AND l.price > 0
+      GROUP BY GROUPING SETS ((l.level, a.district), (l.level))
+      ORDER BY l.level, a.district
+    `;
+
+    return Object.fromEntries(
+      SCHOOL_LEVELS.map((level) => {
+        const levelStats = rows.filter((row) => row.level === level);
+        const toStats = ({ schools, min, median, max, average }: PriceStats) => ({ schools, min, median, max, average });
+        const all = levelStats.find((row) => row.allDistricts);
+        return [level, {
+          all: all ? toStats(all) : null,
+          districts: levelStats
+            .filter((row) => !row.allDistricts)
+            .map((row) => ({ district: row.district, ...toStats(row) })),
+        }];
+      })
+    ) as Record<SchoolLevel, { all: PriceStats | null; districts: (PriceStats & { district: string | null })[] }>;
+  });
+}
+
+/**
+ * Schools with a student count, their average and the total students of each level
+ */
+export function computeStudents(scope: StatsScope) {
+  return cached('students', scope, async () => {
+    const rows = await prisma.$queryRaw<{ level: SchoolLevel; schools: number; average: number | null; total: number }[]>`
+      SELECT
+        l.level,
+        count(*) FILTER (WHERE l.students > 0)::int AS schools,
+        round(avg(l.students) FILTER (WHERE l.students > 0), 1)::float AS average,
+        coalesce(sum(l.students) FILTER (WHERE l.students > 0), 0)::int AS total
+      FROM (${levelRows}) l
+      JOIN "SchoolData" s ON s.id = l.school_id
+      LEFT JOIN "Address" a ON a."schoolDataId" = s.id
+      WHERE ${scopeWhere(scope)}
+      GROUP BY l.level
+    `;
+
+    return Object.fromEntries(
+      SCHOOL_LEVELS.map((level) => {
+        const row = rows.find((entry) => entry.level === level);
+        return [level, { schools: row?.schools ?? 0, average: row?.average ?? null, total: row?.total ?? 0 }];
+      })
+    ) as Record<SchoolLevel, { schools: number; average: number | null; total: number }>;
+  });
+}
+
+/**
+ * How many schools have each facility, and their share of all schools in scope
+ */
+export function computeInfrastructure(scope: StatsScope) {
+  return cached('infrastructure', scope, async () => {
+    // Column names come from the constant list, never from the request
+    const counts = Prisma.join(
+      INFRASTRUCTURE_FLAGS.map((flag) => Prisma.sql`count(*) FILTER (WHERE i.${Prisma.raw(`"${flag}"`)})::int AS ${Prisma.raw(`"${flag}"`)}`)
+    );
+    const [row] = await prisma.$queryRaw<Record<string, number>[]>`
+      SELECT count(*)::int AS total, ${counts}
+      FROM ${schoolsInScope}
+      LEFT JOIN "Infrastructure" i ON i."schoolDataId" = s.id
+      WHERE ${scopeWhere(scope)}
+    `;
+
+    return {
+      total: row.total,
+      flags: INFRASTRUCTURE_FLAGS.map((flag) => ({ flag, count: row[flag], share: share(row[flag], row.total) })),
+    };
+  });
+}
+
+/**
+ * Schools teaching each foreign language and having each sports club, at any level
+ */
+export function computePrograms(scope: StatsScope) {
+  return cached('programs', scope, async () => {
+    const [rows, total] = await Promise.all([
+      prisma.$queryRaw<(StatsBucket & { dimension: string })[]>`
+        SELECT 'foreignLanguages' AS dimension, f.language AS value, count(DISTINCT f.school_id)::int AS count
+        FROM level_foreign_languages f
+        JOIN "SchoolData" s ON s.id = f.school_id
+        LEFT JOIN "Address" a ON a."schoolDataId" = s.id
+        WHERE ${scopeWhere(scope)}
+        GROUP BY f.language
+        UNION ALL
+        SELECT 'sportsClubs', m.sport, count(DISTINCT m.school_id)::int
+        FROM "LevelMandatorySport" m
+        JOIN "SchoolData" s ON s.id = m.school_id
+        LEFT JOIN "Address" a ON a."schoolDataId" = s.id
+        WHERE ${scopeWhere(scope)} AND m.sport IS NOT NULL
+        GROUP BY m.sport
+        ORDER BY count DESC, value
+      `,
+      countSchools(scope),
+    ]);
+    const buckets = (dimension: string): SharedBucket[] =>
+      rows
+        .filter((row) => row.dimension === dimension)
+        .map(({ value, count }) => ({ value, count, share: share(count, total) }));
+
+    return {
+      total,
+      foreignLanguages: buckets('foreignLanguages'),
+      sportsClubs: buckets('sportsClubs'),
+    };
+  });
+}
+
+export interface ActivityWeek {
+  week: string; // Monday the week starts on, YYYY-MM-DD
+  added: number; // Schools created
+  updated: number; // Schools edited, each counted once a week
+}
+
+export interface Contribution {
+  userId: string;
+  email: string;
+  role: 'admin' | 'employee' | null; // null: no longer staff
+  created: number;
+  updated: number;
+  deleted: number;
+  restored: number;
+  schools: number; // Distinct schools touched
+  lastActivityAt: Date;
+}
+
+/**
+ * Schools added and updated per week, and the revisions each staff member made, within a date range
+ * Both come from the revision history, so imports, bulk edits and restores count too
+ */
+export function computeActivity(range: ActivityRange) {
+  return cached('activity', range, async () => {
+    const [weeks, contributions] = await Promise.all([
+      prisma.$queryRaw<ActivityWeek[]>`
+        WITH weeks AS (
+          SELECT generate_series(
+            date_trunc('week', ${range.from}::date::timestamp),
+            date_trunc('week', ${range.to}::date::timestamp),
+            interval '1 week'
+          ) AS week
+        ),
+        activity AS (
+          SELECT
+            date_trunc('week', r.created_at) AS week,
+            count(*) FILTER (WHERE r.action = 'create')::int AS added,
+            count(DISTINCT r.school_id) FILTER (WHERE r.action = 'update')::int AS updated
+          FROM school_revisions r
+          WHERE r.created_at >= ${range.from}::date AND r.created_at < ${range.to}::date + 1
+          GROUP BY 1
+        )
+        SELECT
+          to_char(w.week, 'YYYY-MM-DD') AS week,
+          coalesce(a.added, 0)::int AS added,
+          coalesce(a.updated, 0)::int AS updated
+        FROM weeks w
+        LEFT JOIN activity a ON a.week = w.week
+        ORDER BY w.week
+      `,
+      prisma.$queryRaw<Contribution[]>`
+        SELECT
+          u.id AS "userId",
+          u.email,
+          ur.role::text AS role,
+          count(*) FILTER (WHERE r.action = 'create')::int AS created,
+          count(*) FILTER (WHERE r.action = 'update')::int AS updated,
+          count(*) FILTER (WHERE r.action = 'delete')::int AS deleted,
+          count(*) FILTER (WHERE r.action = 'restore')::int AS restored,
+          count(DISTINCT r.school_id)::int AS schools,
+          max(r.created_at) AS "lastActivityAt"
+        FROM school_revisions r
+        JOIN users u ON u.id = r.created_by
+        LEFT JOIN user_roles ur ON ur.user_id = u.id
+        WHERE r.created_at >= ${range.from}::date AND r.created_at < ${range.to}::date + 1
+        GROUP BY u.id, u.email, ur.role
+        ORDER BY count(*) DESC, u.email
+      `,
+    ]);
+
+    return { from: range.from, to: range.to, weeks, contributions };
+  });
+}
@@ -0,0 +1,404 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { sanitizeString, sanitizeUrl, sanitizePhone } from './sanitize';
+import { VersionConflictError } from './etag';
+import { loadSchoolSnapshot, recordSchoolRevision, SchoolSnapshot } from './schoolRevisions';
+import {
+  flattenLevelLists,
+  LevelListUpdates,
+  levelWithListsInclude,
+  parseLevelList,
+  splitLevelLists,
+  writeLevelLists,
+} from './levelLists';
+import { derivedPrice, parseFees } from './levelFees';
+import { recordLevelPriceChanges } from './levelPrices';
+import { SchoolFormData } from '../schemas/school.schema';
+
+/**
+ * Writes to SchoolData, shared by the school endpoints and the moderation queue
+ * Every write records its revision in the same transaction
+ */
+
+// One revision per school, a few hundred of them outlast the default 5s transaction timeout
+export const SCHOOL_BATCH_TIMEOUT_MS = 120_000;
+
+export const SCHOOL_SECTIONS = ['address', 'infrastructure', 'primary', 'basic', 'secondary'] as const;
+
+export type SchoolSection = (typeof SCHOOL_SECTIONS)[number];
+
+export interface NestedUpdateData {
+  address?: Record<string, unknown> | null;
+  infrastructure?: Record<string, unknown> | null;
+  primary?: Record<string, unknown> | null;
+  basic?: Record<string, unknown> | null;
+  secondary?: Record<string, unknown> | null;
+  [key: string]: unknown;
+}
+
+export function sanitizeSchoolData(data: NestedUpdateData): NestedUpdateData {
+  const sanitized: NestedUpdateData = {};
+
+  // Sanitize top-level string fields, null is kept so merge patches can clear a value
+  const sanitizeField = (key: string, sanitize: (value: string) => string) => {
+    if (data[key] === undefined) return;
+    sanitized[key] = data[key] === null ? null : sanitize(String(data[key]));
+  };
+  sanitizeField('name', sanitizeString);
+  sanitizeField('phoneNumber1', sanitizePhone);
+  sanitizeField('phoneNumber2', sanitizePhone);
+  sanitizeField('phoneNumber3', sanitizePhone);
+  sanitizeField('schoolsWebSite', sanitizeUrl);
+  sanitizeField('facebookProfileURL', sanitizeUrl);
+  sanitizeField('instagramProfileURL', sanitizeUrl);
+  sanitizeField('description', sanitizeString);
+
+  // Copy other fields as-is (numbers, booleans, etc.)
+  const fieldsToSkip = ['id', 'name', 'phoneNumber1', 'phoneNumber2', 'phoneNumber3', 'schoolsWebSite', 'facebookProfileURL', 'instagramProfileURL', 'description', ...SCHOOL_SECTIONS];
+  Object.keys(data).forEach(key => {
+    if (!fieldsToSkip.includes(key)) {
+      sanitized[key] = data[key];
+    }
+  });
+
+  // Copy nested objects (null removes the section)
+  SCHOOL_SECTIONS.forEach(section => {
+    if (data[section] !== undefined) sanitized[section] = data[section];
+  });
+
+  return sanitized;
+}
+
+function isLevel(section: SchoolSection): section is 'primary' | 'basic' | 'secondary' {
+  return section === 'primary' || section === 'basic' || section === 'secondary';
+}
+
+/**
+ * Turns nested sections into Prisma writes
+ * Sections are upserted so a missing record is created, null deletes an existing one
+ * Level lists (sports clubs, languages) are rows of their own, they are handed to
+ * saveSchoolUpdate under levelLists
+ */
+export function transformNestedUpdates(data: NestedUpdateData, existingSections: Set<SchoolSection>) {
+  const { address, infrastructure, primary, basic, secondary, ...rest } = data;
+  const sections = { address, infrastructure, primary, basic, secondary };
+  const nested: Record<string, unknown> = {};
+  const levelLists: LevelListUpdates = {};
+
+  SCHOOL_SECTIONS.forEach(section => {
+    const value = sections[section];
+    if (value === undefined) return;
+
+    if (value === null) {
+      if (existingSections.has(section)) nested[section] = { delete: true };
+      return;
+    }
+
+    if (!isLevel(section)) {
+      nested[section] = { upsert: { create: value, update: value } };
+      return;
+    }
+
+    const { columns, lists } = splitLevelLists(value);
+    nested[section] = { upsert: { create: columns, update: columns } };
+    if (Object.keys(lists).length) levelLists[section] = lists;
+  });
+
+  return { ...rest, ...nested, ...(Object.keys(levelLists).length && { levelLists }) };
+}
+
+// Relations returned by single-school reads and writes, pass the result through flattenLevelLists
+export const schoolDetailInclude = {
+  address: true,
+  infrastructure: true,
+  primary: levelWithListsInclude,
+  basic: levelWithListsInclude,
+  secondary: levelWithListsInclude,
+  creator: {
+    select: {
+      id: true,
+      email: true,
+    }
+  },
+  owner: {
+    select: {
+      id: true,
+      email: true,
+    }
+  }
+} satisfies Prisma.SchoolDataInclude;
+
+/**
+ * Sections and owner of a school that is not in the trash, null when there is none
+ */
+export async function findSchoolSections(
+  client: Prisma.TransactionClient,
+  id: string
+): Promise<{ ownerId: string | null; sections: Set<SchoolSection> } | null> {
+  const school = await client.schoolData.findFirst({
+    where: { id, deletedAt: null },
+    select: {
+      ownerId: true,
+      address: { select: { id: true } },
+      infrastructure: { select: { id: true } },
+      primary: { select: { id: true } },
+      basic: { select: { id: true } },
+      secondary: { select: { id: true } },
+    }
+  });
+  if (!school) return null;
+
+  return {
+    ownerId: school.ownerId,
+    sections: new Set(SCHOOL_SECTIONS.filter(section => school[section])),
+  };
+}
+
+/**
+ * Inserts a school from a validated POST /api/schools body, call inside a transaction
+ * importId links the school to the spreadsheet import that created it
+ */
+export async function insertSchool(
+  tx: Prisma.TransactionClient,
+  body: SchoolFormData,
+  userId: string,
+  importId?: string
+): Promise<SchoolSnapshot> {
+    const created = await tx.schoolData.create({
+      data: {
+        name: sanitizeString(body.name),
+        createdBy: userId, // Track creator
+        ownerId: userId, // The creator owns the school until an admin transfers it
+        importId,
+        phoneNumber1: sanitizePhone(body.phoneNumber1?.toString()),
+        phoneNumber2: sanitizePhone(body.phoneNumber2?.toString()),
+        phoneNumber3: sanitizePhone(body.phoneNumber3?.toString()),
+        schoolsWebSite: sanitizeUrl(body.schoolsWebSite),
+        facebookProfileURL: sanitizeUrl(body.facebookProfileURL),
+        instagramProfileURL: sanitizeUrl(body.instagramProfileURL),
+        founder: body.founder,
+        director: body.director,
+        publicRelationsManager: body.publicRelationsManager,
+        parentRelationshipManager: body.parentRelationshipManager,
+        establishedYear: body.establishedYear,
+        accreditationStatus: body.accreditationStatus,
+        accreditationComment: body.accreditationComment,
+        graduationRate: body.graduationRate,
+        averageNationalExamScore: body.averageNationalExamScore,
+        description: body.description,
+        hasTutor: body.hasTutor,
+        tutorDescription: body.tutorDescription,
+        hasScholarshipsGrants: body.hasScholarshipsGrants,
+        scholarshipsGrants: body.scholarshipsGrants,
+        hasExchangePrograms: body.hasExchangePrograms,
+        exchangePrograms: body.exchangePrograms,
+        hasOutdoorGarden: body.hasOutdoorGarden,
+        outdoorGarden: body.outdoorGarden,
+        otherPrograms: body.otherPrograms || "",
+        address: {
+          create: {
+            city: body.address.city,
+            street: body.address.street,
+            zipCode: body.address.zipCode?.toString() || "",
+            district: body.address.district,
+            latitude: body.address.latitude,
+            longitude: body.address.longitude,
+          },
+        },
+        infrastructure: {
+          create: {
+            buildings: body.infrastructure.buildings,
+            numberOfFloors: body.infrastructure.numberOfFloors,
+            squareness: body.infrastructure.squareness,
+            stadiums: body.infrastructure.stadiums,
+            pools: body.infrastructure.pools,
+            courtyard: body.infrastructure.courtyard,
+            laboratories: body.infrastructure.laboratories,
+            library: body.infrastructure.library,
+            cafe: body.infrastructure.cafe,
+          },
+        },
+        primary: {
+          create: {
+            price: levelPrice(body.primary),
+            duration: body.primary.duration,
+            discountAndPaymentTerms: body.primary.discountAndPaymentTerms,
+            numberOfStudents: body.primary.numberOfStudents,
+            meals: body.primary.meals,
+            mealsDescription: body.primary.mealsDescription,
+            transportation: body.primary.transportation,
+            schoolUniform: body.primary.schoolUniform,
+            teachingStyleBooks: body.primary.teachingStyleBooks,
+            textbooksPrice: body.primary.textbooksPrice || "",
+            clubsAndCircles: body.primary.clubsAndCircles,
+          },
+        },
+        basic: {
+          create: {
+            price: levelPrice(body.basic),
+            schoolUniform: body.basic.schoolUniform,
+            discountAndPaymentTerms: body.basic.discountAndPaymentTerms,
+            numberOfStudents: body.basic.numberOfStudents,
+            meals: body.basic.meals,
+            mealsDescription: body.basic.mealsDescription,
+            transportation: body.basic.transportation,
+            teachingStyleBooks: body.basic.teachingStyleBooks,
+            textbooksPrice: body.basic.textbooksPrice || "",
+            clubsAndCircles: body.basic.clubsAndCircles,
+            duration: body.basic.duration,
+          },
+        },
+        secondary: {
+          create: {
+            price: levelPrice(body.secondary),
+            schoolUniform: body.secondary.schoolUniform,
+            discountAndPaymentTerms: body.secondary.discountAndPaymentTerms,
+            numberOfStudents: body.secondary.numberOfStudents,
+            meals: body.secondary.meals,
+            mealsDescription: body.secondary.mealsDescription,
+            transportation: body.secondary.transportation,
+            teachingStyleBooks: body.secondary.teachingStyleBooks,
+            textbooksPrice: body.secondary.textbooksPrice || "",
+            clubsAndCircles: body.secondary.clubsAndCircles,
+            duration: body.secondary.duration,
+          },
+        },
+      },
+    select: { id: true, name: true },
+  });
+
+  await writeLevelLists(tx, created, {
+    primary: levelRowsOf(body.primary),
+    basic: levelRowsOf(body.basic),
+    secondary: levelRowsOf(body.secondary),
+  });
+  await recordLevelPriceChanges(tx, created.id, null, userId);
+
+  const after = (await loadSchoolSnapshot(tx, created.id))!;
+  await recordSchoolRevision(tx, { action: 'create', before: null, after, userId });
+  return after;
+}
+
+function levelRowsOf(level: Record<string, unknown>) {
+  return {
+    mandatorySportsClubs: parseLevelList(level.mandatorySportsClubs),
+    foreignLanguages: parseLevelList(level.foreignLanguages),
+    fees: parseFees(level.fees),
+  };
+}
+
+// The annual tuition of the level's fees, the given price when they have none
+function levelPrice(level: { price?: number; fees?: unknown }) {
+  return derivedPrice(parseFees(level.fees)) ?? level.price;
+}
+
+/**
+ * Applies Prisma update data to a school, call inside a transaction
+ * Throws VersionConflictError when the version no longer matches If-Match
+ */
+export async function saveSchoolUpdate(
+  tx: Prisma.TransactionClient,
+  params: {
+    id: string;
+    data: Record<string, unknown>;
+    ifMatch: '*' | number[];
+    userId?: string;
+    restoredFromId?: string;
+  }
+) {
+  const { id, data, ifMatch, userId, restoredFromId } = params;
+
+  // Claim the version first so two concurrent writers cannot both pass the check
+  const { count } = await tx.schoolData.updateMany({
+    where: { id, ...(ifMatch !== '*' && { version: { in: ifMatch } }) },
+    data: { version: { increment: 1 } },
+  });
+  if (count === 0) {
+    throw new VersionConflictError();
+  }
+
+  const { levelLists, ...columns } = data;
+  const before = await loadSchoolSnapshot(tx, id);
+  const updated = await tx.schoolData.update({
+    where: { id },
+    data: {
+      ...columns,
+      updatedBy: userId, // Track who updated
+    },
+    select: { id: true, name: true },
+  });
+
+  if (levelLists) await writeLevelLists(tx, updated, levelLists as LevelListUpdates);
+  // Sports rows carry the school name
+  if (before && before.name !== updated.name) {
+    await tx.levelMandatorySport.updateMany({ where: { school_id: id }, data: { school_name: updated.name } });
+  }
+  await recordLevelPriceChanges(tx, id, before, userId);
+
+  const result = flattenLevelLists(await tx.schoolData.findUniqueOrThrow({
+    where: { id },
+    include: schoolDetailInclude,
+  }));
+
+  const { creator: _creator, owner: _owner, ...after } = result;
+  await recordSchoolRevision(tx, {
+    action: restoredFromId ? 'restore' : 'update',
+    before,
+    after,
+    userId,
+    restoredFromId,
+  });
+  return result;
+}
+
+/**
+ * Moves a school to the trash and records the delete revision, call inside a transaction
+ * The last snapshot stays in the history, restoring from the trash starts from it
+ * The version moves on, so an ETag taken before the delete no longer matches after a restore
+ */
+export async function trashSchool(tx: Prisma.TransactionClient, id: string, userId?: string) {
+  const before = await loadSchoolSnapshot(tx, id);
+  const trashed = await tx.schoolData.update({
+    where: { id },
+    data: { deletedAt: new Date(), deletedBy: userId, version: { increment: 1 } },
+  });
+
+  await recordSchoolRevision(tx, {
+    action: 'delete',
+    before: before && { ...before, version: trashed.version },
+    after: null,
+    userId,
+  });
+  return trashed;
+}
+
+/**
+ * Runs writes to many schools in one transaction, with time for a revision per school
+ */
+export function inSchoolBatch<T>(write: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+  return prisma.$transaction(write, { timeout: SCHOOL_BATCH_TIMEOUT_MS });
+}
+
+/**
+ * Applies each update with its own revision, call inside inSchoolBatch
+ */
+export async function saveSchoolUpdates(
+  tx: Prisma.TransactionClient,
+  updates: { id: string; data: Record<string, unknown> }[],
+  userId?: string
+): Promise<void> {
+  for (const { id, data } of updates) {
+    await saveSchoolUpdate(tx, { id, data, ifMatch: '*', userId });
+  }
+}
+
+/**
+ * The employee or admin with this id, null for unknown users and the public
+ * Only staff can own schools, the public has no dashboard to manage them from
+ */
+export function findStaffOwner(ownerId: string) {
+  return prisma.user.findFirst({
+    where: { id: ownerId, userRole: { isNot: null } },
+    select: { id: true, email: true },
+  });
+}
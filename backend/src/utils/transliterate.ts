@@ -0,0 +1,36 @@
+/**
+ * Georgian (Mkhedruli) to Latin transliteration, national romanization system
+ * without apostrophes, matching how parents type school names on a Latin keyboard.
+ * Keep in sync with the georgian_to_latin() SQL function in add-search-indexes.sql
+ */
+const GEORGIAN_TO_LATIN: Record<string, string> = {
+  'ა': 'a', 'ბ': 'b', 'გ': 'g', 'დ': 'd', 'ე': 'e', 'ვ': 'v', 'ზ': 'z',
+  'თ': 't', 'ი': 'i', 'კ': 'k', 'ლ': 'l', 'მ': 'm', 'ნ': 'n', 'ო': 'o',
+  'პ': 'p', 'ჟ': 'zh', 'რ': 'r', 'ს': 's', 'ტ': 't', 'უ': 'u', 'ფ': 'p',
+  'ქ': 'k', 'ღ': 'gh', 'ყ': 'q', 'შ': 'sh', 'ჩ': 'ch', 'ც': 'ts', 'ძ': 'dz',
+  'წ': 'ts', 'ჭ': 'ch', 'ხ': 'kh', 'ჯ': 'j', 'ჰ': 'h',
+};
+
+/**
+ * Converts Georgian script to Latin and lowercases the result
+ * Latin input passes through unchanged, so both scripts normalize to the same text
+ */
+export function georgianToLatin(input: string): string {
+  return Array.from(input.toLowerCase())
+    .map((char) => GEORGIAN_TO_LATIN[char] ?? char)
+    .join('');
+}
+
+/**
+ * Normalizes a free-text search query for matching against transliterated columns
+ * Returns the normalized phrase and its individual words (letters and digits only)
+ */
+export function normalizeSearchQuery(query: string): { phrase: string; words: string[] } {
+  const phrase = georgianToLatin(query).replace(/\s+/g, ' ').trim();
+  const words = phrase
+    .split(' ')
+    .map((word) => word.replace(/[^\p{L}\p{N}]/gu, ''))
+    .filter(Boolean);
+
+  return { phrase, words };
+}
@@ -89,3 +89,13 @@ export function formatGeorgianPhone(phone: string | undefined | null): string {
   // Format: +995 XXX XX XX XX
   return `+995 ${digits.substring(0, 3)} ${digits.substring(3, 5)} ${digits.substring(5, 7)} ${digits.substring(7, 9)}`;
 }
+
+/**
+ * Zod issues as the { field, message } list sent in 400 responses
+ */
+export function formatZodError(error: z.ZodError) {
+  return error.errors.map(err => ({
+    field: err.path.join("."),
+    message: err.message
+  }));
+}
@@ -0,0 +1,43 @@
+-- Start the price history of school levels with the prices they have today
+-- Each price is recorded for the academic year (September to June) of the school's last
+-- update, the closest we know to when it was set; run after `npx prisma db push`
+-- Safe to run again: levels that already have a price for that year are left alone
+
+BEGIN;
+
+CREATE TEMP TABLE level_current_prices ON COMMIT DROP AS
+SELECT l.level_name, l.school_id, l.price,
+       start_year || '/' || lpad(((start_year + 1) % 100)::text, 2, '0') AS academic_year
+FROM (
+    SELECT 'Primary'::"LevelName" AS level_name, "schoolId" AS school_id, "price" FROM "Primary"
+    UNION ALL
+    SELECT 'Basic'::"LevelName", "schoolId", "price" FROM "Basic"
+    UNION ALL
+    SELECT 'Secondary'::"LevelName", "schoolId", "price" FROM "Secondary"
+) l
+JOIN "SchoolData" s ON s."id" = l.school_id
+CROSS JOIN LATERAL (
+    SELECT CASE WHEN extract(month FROM s."updatedAt") >= 9
+                THEN extract(year FROM s."updatedAt")::int
+                ELSE extract(year FROM s."updatedAt")::int - 1 END AS start_year
+) y
+WHERE l.price > 0;
+
+INSERT INTO "level_prices" ("id", "school_id", "level_name", "academic_year", "price", "recorded_at")
+SELECT gen_random_uuid()::text, p.school_id, p.level_name, p.academic_year, p.price, now()
+FROM level_current_prices p
+ON CONFLICT ("school_id", "level_name", "academic_year") DO NOTHING;
+
+UPDATE "Primary" l SET "priceAcademicYear" = p.academic_year
+FROM level_current_prices p
+WHERE p.level_name = 'Primary' AND p.school_id = l."schoolId" AND l."priceAcademicYear" IS NULL;
+
+UPDATE "Basic" l SET "priceAcademicYear" = p.academic_year
+FROM level_current_prices p
+WHERE p.level_name = 'Basic' AND p.school_id = l."schoolId" AND l."priceAcademicYear" IS NULL;
+
+UPDATE "Secondary" l SET "priceAcademicYear" = p.academic_year
+FROM level_current_prices p
+WHERE p.level_name = 'Secondary' AND p.school_id = l."schoolId" AND l."priceAcademicYear" IS NULL;
+
+COMMIT;
@@ -0,0 +1,6 @@
+-- Give schools that existed before ownership was introduced an owner
+-- Employees only see the schools they own, so without this script they lose
+-- access to every school they created after `npx prisma db push`
+-- Safe to run again: transferred schools already have an owner and are left alone
+
+UPDATE "SchoolData" SET "owner_id" = "created_by" WHERE "owner_id" IS NULL;
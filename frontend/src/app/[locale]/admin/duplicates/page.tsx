@@ -0,0 +1,177 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter, useParams } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+import { DuplicateCluster, DuplicateReason, schoolsApi } from "@/lib/api";
+import DeleteConfirmationModal from "@/components/DeleteConfirmationModal";
+import MergeSchoolsModal from "@/components/MergeSchoolsModal";
+
+type ClusterSchool = DuplicateCluster["schools"][number];
+
+export default function DuplicatesPage() {
+  const [clusters, setClusters] = useState<DuplicateCluster[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [schoolToTrash, setSchoolToTrash] = useState<ClusterSchool | null>(null);
+  const [isTrashing, setIsTrashing] = useState(false);
+  const [schoolsToMerge, setSchoolsToMerge] = useState<[string, string] | null>(null);
+  const router = useRouter();
+  const params = useParams();
+  const locale = params.locale as string || "ka";
+  const t = useTranslations("form");
+  const { role: currentUserRole, loading: authLoading } = useAuth();
+
+  // Redirect if not admin - use useEffect to avoid updating during render
+  useEffect(() => {
+    if (!authLoading && currentUserRole !== "admin") {
+      router.push(`/${locale}`);
+    }
+  }, [authLoading, currentUserRole, router, locale]);
+
+  const fetchDuplicates = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data } = await schoolsApi.getDuplicates();
+      setClusters(data);
+    } catch (error) {
+      console.error("Error fetching duplicates:", error);
+      toast.error(t("duplicates.fetchError"));
+    } finally {
+      setLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    if (currentUserRole === "admin") {
+      fetchDuplicates();
+    }
+  }, [currentUserRole, fetchDuplicates]);
+
+  const handleTrash = async () => {
+    if (!schoolToTrash) return;
+    setIsTrashing(true);
+    try {
+      await schoolsApi.delete(schoolToTrash.id);
+      toast.success(t("duplicates.trashed", { name: schoolToTrash.name }));
+      setSchoolToTrash(null);
+      // The remaining schools of the cluster may no longer match each other
+      fetchDuplicates();
+    } catch (error) {
+      console.error("Trash error:", error);
+      toast.error(t("duplicates.trashFailed"));
+    } finally {
+      setIsTrashing(false);
+    }
+  };
+
+  // Show loading while checking auth
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-cyan-50 via-blue-50 to-teal-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900"></div>
+      </div>
+    );
+  }
+
+  // Don't render the report if not admin
+  if (currentUserRole !== "admin") {
+    return null;
+  }
+
+  const reasonsLabel = (reasons: DuplicateReason[]) =>
+    reasons.map((reason) => t(`duplicates.reason.${reason}`)).join(", ");
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-cyan-50 via-blue-50 to-teal-50 px-4 py-10">
+      <div className="max-w-6xl mx-auto bg-white rounded-lg shadow-md p-8">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h2 className="text-3xl font-extrabold text-gray-900">{t("duplicates.pageTitle")}</h2>
+            <p className="mt-2 text-sm text-gray-600">{t("duplicates.pageDescription")}</p>
+          </div>
+          <button
+            onClick={fetchDuplicates}
+            disabled={loading}
+            className="px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t("duplicates.refresh")}
+          </button>
+        </div>
+
+        <div className="mt-8 space-y-6">
+          {loading ? (
+            <p className="text-sm text-gray-500">{t("duplicates.loading")}</p>
+          ) : clusters.length === 0 ? (
+            <p className="text-sm text-gray-500">{t("duplicates.noDuplicates")}</p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-700">{t("duplicates.clusterCount", { count: clusters.length })}</p>
+              {clusters.map((cluster) => {
+                const nameOf = new Map(cluster.schools.map((school) => [school.id, school.name]));
+                return (
+                  <div key={cluster.schools[0].id} className="rounded-lg border border-amber-200 p-4">
+                    <table className="w-full text-sm">
+                      <tbody>
+                        {cluster.schools.map((school) => (
+                          <tr key={school.id} className="border-b border-gray-100">
+                            <td className="py-2 pr-4 font-medium text-gray-900">{school.name}</td>
+                            <td className="py-2 pr-4 text-gray-600">{school.city ?? ""}</td>
+                            <td className="py-2 pr-4 text-gray-600">{t(`status.${school.status}`)}</td>
+                            <td className="py-2 text-right">
+                              <button
+                                onClick={() => setSchoolToTrash(school)}
+                                disabled={isTrashing}
+                                className="px-3 py-1.5 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                              >
+                                {t("deleteButton")}
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    <ul className="mt-3 space-y-1 text-xs text-amber-800">
+                      {cluster.matches.map((match) => (
+                        <li key={match.schoolIds.join("-")} className="flex flex-wrap items-center gap-x-3">
+                          <span>
+                            {nameOf.get(match.schoolIds[0])} ↔ {nameOf.get(match.schoolIds[1])}: {reasonsLabel(match.reasons)}
+                            {match.similarity > 0 &&
+                              ` · ${t("duplicates.similarity", { percent: Math.round(match.similarity * 100) })}`}
+                          </span>
+                          <button
+                            onClick={() => setSchoolsToMerge(match.schoolIds)}
+                            className="text-blue-600 hover:text-blue-800 underline"
+                          >
+                            {t("merge.action")}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                );
+              })}
+            </>
+          )}
+        </div>
+      </div>
+
+      <DeleteConfirmationModal
+        isOpen={schoolToTrash !== null}
+        schoolName={schoolToTrash?.name ?? ""}
+        onConfirm={handleTrash}
+        onCancel={() => setSchoolToTrash(null)}
+        isDeleting={isTrashing}
+      />
+
+      {schoolsToMerge && (
+        <MergeSchoolsModal
+          schoolIds={schoolsToMerge}
+          onClose={() => setSchoolsToMerge(null)}
+          onMerged={fetchDuplicates}
+        />
+      )}
+    </div>
+  );
+}
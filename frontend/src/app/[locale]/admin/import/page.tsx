@@ -0,0 +1,337 @@
+"use client";
+
+import { ChangeEvent, useCallback, useEffect, useState } from "react";
+import { useRouter, useParams } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+import { ApiError, ImportDuplicate, ImportOptions, ImportReport, importsApi, SchoolImport } from "@/lib/api";
+
+export default function ImportPage() {
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  // The report is stale once the mapping changed, it has to be checked again before committing
+  const [mappingChanged, setMappingChanged] = useState(false);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [imports, setImports] = useState<SchoolImport[]>([]);
+  const [rollbackId, setRollbackId] = useState<string | null>(null);
+  const [rollingBack, setRollingBack] = useState(false);
+  const router = useRouter();
+  const params = useParams();
+  const locale = params.locale as string || "ka";
+  const t = useTranslations("form");
+  const { role: currentUserRole, loading: authLoading } = useAuth();
+
+  // Redirect if not admin - use useEffect to avoid updating during render
+  useEffect(() => {
+    if (!authLoading && currentUserRole !== "admin") {
+      router.push(`/${locale}`);
+    }
+  }, [authLoading, currentUserRole, router, locale]);
+
+  const fetchImports = useCallback(async () => {
+    try {
+      const { data } = await importsApi.getAll();
+      setImports(data);
+    } catch (error) {
+      console.error("Error fetching imports:", error);
+      toast.error(t("import.historyFailed"));
+    }
+  }, [t]);
+
+  useEffect(() => {
+    if (currentUserRole === "admin") {
+      fetchImports();
+    }
+  }, [currentUserRole, fetchImports]);
+
+  const reasonsLabel = (duplicate: ImportDuplicate) =>
+    duplicate.reasons.map((reason) => t(`duplicates.reason.${reason}`)).join(", ");
+
+  // Validation errors of the file or the mapping come back as details with a message each
+  const showError = (error: unknown, fallback: string) => {
+    const details = error instanceof ApiError && error.status === 400
+      ? (error.data as { details?: { message: string }[] } | undefined)?.details
+      : undefined;
+    toast.error(details?.length ? details.map((detail) => detail.message).join("\n") : fallback);
+  };
+
+  const runImport = async (selected: File, options: ImportOptions) => {
+    setBusy(true);
+    try {
+      const result = await importsApi.run(selected, { skipDuplicates, ...options });
+      setReport(result);
+      setMapping(result.mapping);
+      setMappingChanged(false);
+      return result;
+    } catch (error) {
+      console.error("Import error:", error);
+      showError(error, t("import.failed"));
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] ?? null;
+    setFile(selected);
+    setReport(null);
+    setMapping({});
+    if (selected) runImport(selected, {});
+  };
+
+  const handleMappingChange = (column: string, field: string) => {
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (field) next[column] = field;
+      else delete next[column];
+      return next;
+    });
+    setMappingChanged(true);
+  };
+
+  const handleCommit = async () => {
+    if (!file) return;
+    const result = await runImport(file, { mapping, commit: true });
+    if (result?.import) {
+      toast.success(t("import.committed", { count: result.import.createdCount }));
+      setFile(null);
+      setReport(null);
+      setMapping({});
+      fetchImports();
+    }
+  };
+
+  const handleRollback = async (id: string) => {
+    setRollingBack(true);
+    try {
+      const { import: updated, trashed } = await importsApi.rollback(id);
+      setImports((prev) => prev.map((item) => (item.id === id ? updated : item)));
+      toast.success(t("import.rolledBack", { count: trashed }));
+    } catch (error) {
+      console.error("Rollback error:", error);
+      toast.error(
+        error instanceof ApiError && error.status === 409
+          ? t("import.alreadyRolledBack")
+          : t("import.rollbackFailed")
+      );
+      fetchImports();
+    } finally {
+      setRollingBack(false);
+      setRollbackId(null);
+    }
+  };
+
+  // Show loading while checking auth
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-cyan-50 via-blue-50 to-teal-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900"></div>
+      </div>
+    );
+  }
+
+  // Don't render the import if not admin
+  if (currentUserRole !== "admin") {
+    return null;
+  }
+
+  const formatDate = (value: string) => new Date(value).toLocaleString(locale);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-cyan-50 via-blue-50 to-teal-50 px-4 py-10">
+      <div className="max-w-6xl mx-auto space-y-8">
+        <div className="bg-white rounded-lg shadow-md p-8">
+          <h2 className="text-3xl font-extrabold text-gray-900">{t("import.title")}</h2>
+          <p className="mt-2 text-sm text-gray-600">{t("import.description")}</p>
+
+          <div className="mt-6">
+            <label htmlFor="import-file" className="block text-sm font-medium text-gray-700 mb-1">
+              {t("import.file")}
+            </label>
+            <input
+              id="import-file"
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={handleFileChange}
+              disabled={busy}
+              className="block text-sm text-gray-700 file:mr-4 file:px-4 file:py-2 file:rounded-lg file:border-0 file:bg-blue-600 file:text-white hover:file:bg-blue-700"
+            />
+            {busy && <p className="mt-2 text-sm text-gray-500">{t("import.checking")}</p>}
+          </div>
+
+          {report && (
+            <>
+              <h3 className="mt-8 text-lg font-semibold text-gray-900">{t("import.mapping")}</h3>
+              <p className="mt-1 text-sm text-gray-600">{t("import.mappingDescription")}</p>
+              <div className="mt-4 grid gap-3 sm:grid-cols-2">
+                {report.columns.map((column) => (
+                  <label key={column} className="flex items-center gap-3 text-sm">
+                    <span className="w-40 shrink-0 truncate font-medium text-gray-700" title={column}>
+                      {column}
+                    </span>
+                    <select
+                      value={mapping[column] ?? ""}
+                      onChange={(e) => handleMappingChange(column, e.target.value)}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">{t("import.ignoreColumn")}</option>
+                      {report.fields.map((field) => (
+                        <option key={field} value={field}>
+                          {field}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+              <button
+                onClick={() => file && runImport(file, { mapping })}
+                disabled={busy || !mappingChanged}
+                className="mt-4 px-4 py-2 bg-gray-100 text-gray-800 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+              >
+                {t("import.recheck")}
+              </button>
+
+              <h3 className="mt-8 text-lg font-semibold text-gray-900">{t("import.report")}</h3>
+              <div className="mt-2 flex flex-wrap gap-4 text-sm text-gray-700">
+                <span>{t("import.total", { count: report.summary.total })}</span>
+                <span className="text-green-700">{t("import.valid", { count: report.summary.valid })}</span>
+                <span className="text-red-700">{t("import.invalid", { count: report.summary.invalid })}</span>
+                <span className="text-amber-700">{t("import.duplicates", { count: report.summary.duplicates })}</span>
+              </div>
+
+              <div className="mt-4 max-h-[480px] overflow-auto border border-gray-200 rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="sticky top-0 bg-gray-50 text-left text-gray-700 border-b border-gray-200">
+                    <tr>
+                      <th className="py-2 px-3 font-medium">{t("import.row")}</th>
+                      <th className="py-2 px-3 font-medium">{t("import.school")}</th>
+                      <th className="py-2 px-3 font-medium">{t("import.problems")}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.rows.map((row) => (
+                      <tr
+                        key={row.row}
+                        className={`border-b border-gray-100 align-top ${
+                          !row.valid ? "bg-red-50" : row.duplicates.length ? "bg-amber-50" : ""
+                        }`}
+                      >
+                        <td className="py-2 px-3 text-gray-500">{row.row}</td>
+                        <td className="py-2 px-3 font-medium text-gray-900">{row.name ?? "—"}</td>
+                        <td className="py-2 px-3">
+                          {row.errors.map((error, i) => (
+                            <div key={`e${i}`} className="text-red-700">
+                              <span className="font-medium">{error.column ?? error.field}:</span> {error.message}
+                            </div>
+                          ))}
+                          {row.duplicates.map((duplicate, i) => (
+                            <div key={`d${i}`} className="text-amber-700">
+                              {duplicate.row !== undefined
+                                ? t("import.duplicateOfRow", { reasons: reasonsLabel(duplicate), row: duplicate.row })
+                                : t("import.duplicateOfSchool", { reasons: reasonsLabel(duplicate), name: duplicate.name })}
+                            </div>
+                          ))}
+                          {row.valid && row.duplicates.length === 0 && (
+                            <span className="text-green-700">{t("import.ok")}</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="mt-6 flex flex-wrap items-center justify-between gap-4">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={skipDuplicates}
+                    onChange={(e) => setSkipDuplicates(e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  {t("import.skipDuplicates")}
+                </label>
+                <button
+                  onClick={handleCommit}
+                  disabled={busy || mappingChanged || report.summary.valid === 0}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+                >
+                  {t("import.commit")}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md p-8">
+          <h3 className="text-lg font-semibold text-gray-900">{t("import.history")}</h3>
+          {imports.length === 0 ? (
+            <p className="mt-4 text-sm text-gray-500">{t("import.noHistory")}</p>
+          ) : (
+            <table className="mt-4 w-full text-sm">
+              <thead className="text-left text-gray-700 border-b border-gray-200">
+                <tr>
+                  <th className="py-2 pr-4 font-medium">{t("import.file")}</th>
+                  <th className="py-2 pr-4 font-medium">{t("import.importedBy")}</th>
+                  <th className="py-2 pr-4 font-medium">{t("import.importedAt")}</th>
+                  <th className="py-2 pr-4 font-medium">{t("import.created")}</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {imports.map((item) => (
+                  <tr key={item.id} className="border-b border-gray-100 align-top">
+                    <td className="py-3 pr-4 font-medium text-gray-900">{item.fileName}</td>
+                    <td className="py-3 pr-4 text-gray-700">{item.creator?.email ?? t("history.unknownAuthor")}</td>
+                    <td className="py-3 pr-4 text-gray-700">{formatDate(item.createdAt)}</td>
+                    <td className="py-3 pr-4 text-gray-700">
+                      {item.createdCount} / {item.createdCount + item.skippedCount}
+                    </td>
+                    <td className="py-3">
+                      <div className="flex gap-2 justify-end">
+                        {item.status === "rolled_back" ? (
+                          <span className="text-gray-500">
+                            {t("import.rolledBackAt", { date: item.rolledBackAt ? formatDate(item.rolledBackAt) : "—" })}
+                          </span>
+                        ) : rollbackId === item.id ? (
+                          <>
+                            <button
+                              onClick={() => handleRollback(item.id)}
+                              disabled={rollingBack}
+                              className="px-3 py-1.5 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              {t("import.confirmRollback")}
+                            </button>
+                            <button
+                              onClick={() => setRollbackId(null)}
+                              disabled={rollingBack}
+                              className="px-3 py-1.5 bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50"
+                            >
+                              {t("cancel")}
+                            </button>
+                          </>
+                        ) : (
+                          <button
+                            onClick={() => setRollbackId(item.id)}
+                            className="px-3 py-1.5 bg-amber-600 text-white rounded-md hover:bg-amber-700 transition-colors"
+                          >
+                            {t("import.rollback")}
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,333 @@
+"use client";
+
+import { ChangeEvent, useCallback, useEffect, useState } from "react";
+import { useRouter, useParams } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+import {
+  ApiError,
+  GazetteerEntry,
+  GazetteerImportReport,
+  GazetteerSummary,
+  geoApi,
+  schoolsApi,
+} from "@/lib/api";
+import { SchoolDataWithCreator } from "@/schemas/schema";
+
+const SCHOOL_FIELDS = ["name", "address.city", "address.district", "address.street"];
+
+// Skipped rows listed under the import result, the rest are only counted
+const MAX_SHOWN_ERRORS = 20;
+
+function mapLink(latitude: number, longitude: number): string {
+  return `https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=17/${latitude}/${longitude}`;
+}
+
+// "41.7151, 44.8271" as copied from a map, null when it is not a valid pair
+function parseCoordinates(value: string): { latitude: number; longitude: number } | null {
+  const parts = value.trim().split(/[\s,;]+/).filter(Boolean);
+  if (parts.length !== 2) return null;
+  const [latitude, longitude] = parts.map(Number);
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+}
+
+type RowProps = {
+  school: SchoolDataWithCreator;
+  onPlaced: (id: string) => void;
+};
+
+// One school without coordinates: look it up in the gazetteer or paste a pin
+function SchoolLocationRow({ school, onPlaced }: RowProps) {
+  const t = useTranslations("form");
+  const [candidates, setCandidates] = useState<GazetteerEntry[] | null>(null);
+  const [manual, setManual] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const address = [school.address?.street, school.address?.district, school.address?.city]
+    .filter(Boolean)
+    .join(", ");
+  const pin = parseCoordinates(manual);
+
+  const handleLookup = async () => {
+    setBusy(true);
+    try {
+      const { data } = await geoApi.lookupSchool(school.id!);
+      setCandidates(data);
+    } catch (error) {
+      console.error("Lookup error:", error);
+      toast.error(t("locations.lookupFailed"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const save = async (latitude: number, longitude: number) => {
+    setBusy(true);
+    try {
+      await schoolsApi.setLocation(school.id!, latitude, longitude);
+      toast.success(t("locations.saved", { name: school.name ?? "" }));
+      onPlaced(school.id!);
+    } catch (error) {
+      console.error("Save location error:", error);
+      toast.error(t("locations.saveFailed"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <li className="py-4">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <p className="font-medium text-gray-900">{school.name}</p>
+          <p className="text-sm text-gray-600">{address || t("locations.noAddress")}</p>
+        </div>
+        <button
+          type="button"
+          onClick={handleLookup}
+          disabled={busy || !school.address?.street}
+          className="px-3 py-1.5 text-sm bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t("locations.lookup")}
+        </button>
+      </div>
+
+      {candidates && (
+        candidates.length === 0 ? (
+          <p className="mt-2 text-sm text-gray-500">{t("locations.noMatches")}</p>
+        ) : (
+          <table className="mt-3 w-full text-sm">
+            <tbody>
+              {candidates.map((entry) => (
+                <tr key={entry.id} className="border-b border-gray-100">
+                  <td className="py-2 pr-4 text-gray-900">
+                    {[entry.street, entry.houseNumber].filter(Boolean).join(" ")}
+                  </td>
+                  <td className="py-2 pr-4 text-gray-600">
+                    {[entry.district, entry.city].filter(Boolean).join(", ")}
+                  </td>
+                  <td className="py-2 pr-4 text-gray-600">{t(`locations.match.${entry.match}`)}</td>
+                  <td className="py-2 pr-4">
+                    <a
+                      href={mapLink(entry.latitude, entry.longitude)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-600 hover:underline"
+                    >
+                      {entry.latitude.toFixed(5)}, {entry.longitude.toFixed(5)}
+                    </a>
+                  </td>
+                  <td className="py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => save(entry.latitude, entry.longitude)}
+                      disabled={busy}
+                      className="px-3 py-1 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      {t("locations.use")}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )
+      )}
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <input
+          value={manual}
+          onChange={(e) => setManual(e.target.value)}
+          placeholder="41.7151, 44.8271"
+          aria-label={t("locations.manual")}
+          className="w-64 border border-gray-300 rounded-md px-3 py-1.5 text-sm"
+          disabled={busy}
+        />
+        {pin && (
+          <a
+            href={mapLink(pin.latitude, pin.longitude)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm text-blue-600 hover:underline"
+          >
+            {t("locations.preview")}
+          </a>
+        )}
+        <button
+          type="button"
+          onClick={() => pin && save(pin.latitude, pin.longitude)}
+          disabled={busy || !pin}
+          className="px-3 py-1.5 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t("locations.savePin")}
+        </button>
+        {manual && !pin && <span className="text-sm text-red-600">{t("locations.invalidPin")}</span>}
+      </div>
+    </li>
+  );
+}
+
+export default function LocationsPage() {
+  const [gazetteer, setGazetteer] = useState<GazetteerSummary | null>(null);
+  const [importReport, setImportReport] = useState<GazetteerImportReport | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [schools, setSchools] = useState<SchoolDataWithCreator[]>([]);
+  const [loading, setLoading] = useState(true);
+  const router = useRouter();
+  const params = useParams();
+  const locale = params.locale as string || "ka";
+  const t = useTranslations("form");
+  const { role: currentUserRole, loading: authLoading } = useAuth();
+
+  // Redirect if not admin - use useEffect to avoid updating during render
+  useEffect(() => {
+    if (!authLoading && currentUserRole !== "admin") {
+      router.push(`/${locale}`);
+    }
+  }, [authLoading, currentUserRole, router, locale]);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [summary, unplaced] = await Promise.all([
+        geoApi.getGazetteer(),
+        schoolsApi.getAllPages({ filters: { hasLocation: false }, fields: SCHOOL_FIELDS, sort: "name" }),
+      ]);
+      setGazetteer(summary);
+      setSchools(unplaced);
+    } catch (error) {
+      console.error("Error fetching locations:", error);
+      toast.error(t("locations.fetchError"));
+    } finally {
+      setLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    if (currentUserRole === "admin") {
+      fetchData();
+    }
+  }, [currentUserRole, fetchData]);
+
+  const handleGazetteerFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const report = await geoApi.importGazetteer(file);
+      setImportReport(report);
+      setGazetteer(report.gazetteer);
+      toast.success(t("locations.imported", { count: report.imported }));
+    } catch (error) {
+      const details = error instanceof ApiError && error.status === 400
+        ? (error.data as { details?: { message: string }[] } | undefined)?.details
+        : undefined;
+      console.error("Gazetteer import error:", error);
+      toast.error(details?.length ? details.map((detail) => detail.message).join("\n") : t("locations.importFailed"));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handlePlaced = (id: string) => {
+    setSchools((current) => current.filter((school) => school.id !== id));
+  };
+
+  // Show loading while checking auth
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-cyan-50 via-blue-50 to-teal-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900"></div>
+      </div>
+    );
+  }
+
+  // Don't render the tool if not admin
+  if (currentUserRole !== "admin") {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-cyan-50 via-blue-50 to-teal-50 px-4 py-10">
+      <div className="max-w-6xl mx-auto bg-white rounded-lg shadow-md p-8">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h2 className="text-3xl font-extrabold text-gray-900">{t("locations.pageTitle")}</h2>
+            <p className="mt-2 text-sm text-gray-600">{t("locations.pageDescription")}</p>
+          </div>
+          <button
+            onClick={fetchData}
+            disabled={loading}
+            className="px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t("locations.refresh")}
+          </button>
+        </div>
+
+        <section className="mt-8">
+          <h3 className="text-lg font-semibold text-gray-900">{t("locations.gazetteer")}</h3>
+          <p className="mt-1 text-sm text-gray-600">{t("locations.gazetteerDescription")}</p>
+          {gazetteer && (
+            <p className="mt-2 text-sm text-gray-700">
+              {gazetteer.total === 0
+                ? t("locations.gazetteerEmpty")
+                : t("locations.gazetteerSize", {
+                    count: gazetteer.total,
+                    cities: gazetteer.cities.map(({ city, count }) => `${city} (${count})`).join(", "),
+                  })}
+              {gazetteer.importedAt &&
+                ` · ${t("locations.importedAt", { date: new Date(gazetteer.importedAt).toLocaleString() })}`}
+            </p>
+          )}
+          <div className="mt-3">
+            <label htmlFor="gazetteer-file" className="block text-sm font-medium text-gray-700 mb-1">
+              {t("locations.replaceGazetteer")}
+            </label>
+            <input
+              id="gazetteer-file"
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={handleGazetteerFile}
+              disabled={importing}
+              className="block text-sm text-gray-700 file:mr-4 file:px-4 file:py-2 file:rounded-lg file:border-0 file:bg-blue-600 file:text-white hover:file:bg-blue-700"
+            />
+            {importing && <p className="mt-2 text-sm text-gray-500">{t("locations.importing")}</p>}
+          </div>
+          {importReport && importReport.errors.length > 0 && (
+            <div className="mt-3 rounded-lg border border-amber-200 p-3 text-sm text-amber-800">
+              <p>{t("locations.skipped", { count: importReport.skipped })}</p>
+              <ul className="mt-1 list-disc pl-5">
+                {importReport.errors.slice(0, MAX_SHOWN_ERRORS).map((error) => (
+                  <li key={error.row}>{t("locations.rowError", { row: error.row, message: error.message })}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </section>
+
+        <section className="mt-10">
+          <h3 className="text-lg font-semibold text-gray-900">{t("locations.unplaced")}</h3>
+          {loading ? (
+            <p className="mt-2 text-sm text-gray-500">{t("locations.loading")}</p>
+          ) : schools.length === 0 ? (
+            <p className="mt-2 text-sm text-gray-500">{t("locations.allPlaced")}</p>
+          ) : (
+            <>
+              <p className="mt-1 text-sm text-gray-700">{t("locations.unplacedCount", { count: schools.length })}</p>
+              <ul className="divide-y divide-gray-100">
+                {schools.map((school) => (
+                  <SchoolLocationRow key={school.id} school={school} onPlaced={handlePlaced} />
+                ))}
+              </ul>
+            </>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter, useParams } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+import { changeSetsApi, SchoolChangeSet } from "@/lib/api";
+import ChangeSetChanges from "@/components/ChangeSetChanges";
+
+type ReviewCardProps = {
+  changeSet: SchoolChangeSet;
+  onReviewed: (id: string) => void;
+};
+
+function ReviewCard({ changeSet, onReviewed }: ReviewCardProps) {
+  const t = useTranslations("form");
+  const params = useParams();
+  const locale = params.locale as string || "ka";
+  const [selected, setSelected] = useState(() => new Set(changeSet.changes.map((change) => change.path)));
+  const [rejecting, setRejecting] = useState(false);
+  const [comment, setComment] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  // A new school is approved as a whole, edits can be applied in part
+  const canSelect = changeSet.action === "update";
+  const partial = selected.size < changeSet.changes.length;
+
+  const toggle = (path: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const approve = async () => {
+    setBusy(true);
+    try {
+      await changeSetsApi.approve(changeSet.id, partial ? Array.from(selected) : undefined);
+      toast.success(t("moderation.approved"));
+      onReviewed(changeSet.id);
+    } catch (error) {
+      console.error("Approve error:", error);
+      toast.error(error instanceof Error ? error.message : t("moderation.approveFailed"));
+      setBusy(false);
+    }
+  };
+
+  const reject = async () => {
+    setBusy(true);
+    try {
+      await changeSetsApi.reject(changeSet.id, comment.trim());
+      toast.success(t("moderation.rejected"));
+      onReviewed(changeSet.id);
+    } catch (error) {
+      console.error("Reject error:", error);
+      toast.error(error instanceof Error ? error.message : t("moderation.rejectFailed"));
+      setBusy(false);
+    }
+  };
+
+  return (
+    <li className="border border-gray-200 rounded-lg p-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm mb-3">
+        <span
+          className={`px-2 py-0.5 rounded text-xs font-medium ${
+            changeSet.action === "create"
+              ? "bg-green-100 text-green-800"
+              : changeSet.action === "delete"
+                ? "bg-red-100 text-red-800"
+                : "bg-blue-100 text-blue-800"
+          }`}
+        >
+          {t(`moderation.actions.${changeSet.action}`)}
+        </span>
+        <span className="text-gray-900 font-semibold">{changeSet.schoolName ?? "—"}</span>
+        <span className="text-gray-600">{changeSet.submitter.email}</span>
+        <span className="text-gray-500">{new Date(changeSet.createdAt).toLocaleString(locale)}</span>
+      </div>
+
+      {changeSet.stale && (
+        <p className="text-sm text-amber-700 bg-amber-50 rounded px-3 py-2 mb-3">{t("moderation.stale")}</p>
+      )}
+
+      <ChangeSetChanges
+        changes={changeSet.changes}
+        selected={canSelect ? selected : undefined}
+        onToggle={toggle}
+      />
+
+      {rejecting ? (
+        <div className="mt-4 space-y-2">
+          <label htmlFor={`reject-${changeSet.id}`} className="block text-sm font-medium text-gray-700">
+            {t("moderation.rejectComment")}
+          </label>
+          <textarea
+            id={`reject-${changeSet.id}`}
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={3}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+          />
+          <div className="flex gap-2 justify-end">
+            <button
+              onClick={() => setRejecting(false)}
+              disabled={busy}
+              className="px-4 py-2 text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-50 text-sm font-medium"
+            >
+              {t("cancel")}
+            </button>
+            <button
+              onClick={reject}
+              disabled={busy || !comment.trim()}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+            >
+              {t("moderation.reject")}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-2 justify-end mt-4">
+          <button
+            onClick={() => setRejecting(true)}
+            disabled={busy}
+            className="px-4 py-2 text-red-700 bg-red-50 rounded-lg hover:bg-red-100 transition-colors disabled:opacity-50 text-sm font-medium"
+          >
+            {t("moderation.reject")}
+          </button>
+          <button
+            onClick={approve}
+            disabled={busy || (changeSet.changes.length > 0 && selected.size === 0)}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+          >
+            {partial ? t("moderation.approveSelected", { count: selected.size }) : t("moderation.approve")}
+          </button>
+        </div>
+      )}
+    </li>
+  );
+}
+
+export default function ReviewQueuePage() {
+  const [changeSets, setChangeSets] = useState<SchoolChangeSet[]>([]);
+  const [loading, setLoading] = useState(true);
+  const router = useRouter();
+  const params = useParams();
+  const locale = params.locale as string || "ka";
+  const t = useTranslations("form");
+  const { role: currentUserRole, loading: authLoading } = useAuth();
+
+  // Redirect if not admin - use useEffect to avoid updating during render
+  useEffect(() => {
+    if (!authLoading && currentUserRole !== "admin") {
+      router.push(`/${locale}`);
+    }
+  }, [authLoading, currentUserRole, router, locale]);
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data } = await changeSetsApi.getAll(["pending"]);
+      setChangeSets(data);
+    } catch (error) {
+      console.error("Error fetching review queue:", error);
+      toast.error(t("moderation.loadFailed"));
+    } finally {
+      setLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    if (currentUserRole === "admin") {
+      fetchQueue();
+    }
+  }, [currentUserRole, fetchQueue]);
+
+  // Show loading while checking auth
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-cyan-50 via-blue-50 to-teal-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900"></div>
+      </div>
+    );
+  }
+
+  // Don't render the queue if not admin
+  if (currentUserRole !== "admin") {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-cyan-50 via-blue-50 to-teal-50 px-4 py-10">
+      <div className="max-w-5xl mx-auto bg-white rounded-lg shadow-md p-8">
+        <h2 className="text-3xl font-extrabold text-gray-900">{t("moderation.queueTitle")}</h2>
+        <p className="mt-2 text-sm text-gray-600">{t("moderation.queueDescription")}</p>
+
+        <div className="mt-8">
+          {loading ? (
+            <p className="text-sm text-gray-500">{t("moderation.loading")}</p>
+          ) : changeSets.length === 0 ? (
+            <p className="text-sm text-gray-500">{t("moderation.empty")}</p>
+          ) : (
+            <ul className="space-y-4">
+              {changeSets.map((changeSet) => (
+                <ReviewCard
+                  key={changeSet.id}
+                  changeSet={changeSet}
+                  onReviewed={(id) => setChangeSets((prev) => prev.filter((c) => c.id !== id))}
+                />
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter, useParams } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+import { schoolsApi, TrashedSchool } from "@/lib/api";
+import DeleteConfirmationModal from "@/components/DeleteConfirmationModal";
+
+export default function TrashPage() {
+  const [schools, setSchools] = useState<TrashedSchool[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [schoolToPurge, setSchoolToPurge] = useState<TrashedSchool | null>(null);
+  const router = useRouter();
+  const params = useParams();
+  const locale = params.locale as string || "ka";
+  const t = useTranslations("form");
+  const { role: currentUserRole, loading: authLoading } = useAuth();
+
+  // Redirect if not admin - use useEffect to avoid updating during render
+  useEffect(() => {
+    if (!authLoading && currentUserRole !== "admin") {
+      router.push(`/${locale}`);
+    }
+  }, [authLoading, currentUserRole, router, locale]);
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data } = await schoolsApi.getTrash();
+      setSchools(data);
+    } catch (error) {
+      console.error("Error fetching trash:", error);
+      toast.error(t("trash.loadFailed"));
+    } finally {
+      setLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    if (currentUserRole === "admin") {
+      fetchTrash();
+    }
+  }, [currentUserRole, fetchTrash]);
+
+  const handleRestore = async (school: TrashedSchool) => {
+    setBusyId(school.id);
+    try {
+      await schoolsApi.restoreFromTrash(school.id);
+      setSchools((prev) => prev.filter((s) => s.id !== school.id));
+      toast.success(t("trash.restoreSuccess"));
+    } catch (error) {
+      console.error("Restore error:", error);
+      toast.error(t("trash.restoreFailed"));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!schoolToPurge) return;
+    setBusyId(schoolToPurge.id);
+    try {
+      await schoolsApi.purge(schoolToPurge.id);
+      setSchools((prev) => prev.filter((s) => s.id !== schoolToPurge.id));
+      toast.success(t("trash.purgeSuccess"));
+      setSchoolToPurge(null);
+    } catch (error) {
+      console.error("Purge error:", error);
+      toast.error(t("trash.purgeFailed"));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Show loading while checking auth
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-cyan-50 via-blue-50 to-teal-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900"></div>
+      </div>
+    );
+  }
+
+  // Don't render the trash if not admin
+  if (currentUserRole !== "admin") {
+    return null;
+  }
+
+  const formatDate = (value: string) => new Date(value).toLocaleDateString(locale);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-cyan-50 via-blue-50 to-teal-50 px-4 py-10">
+      <div className="max-w-6xl mx-auto bg-white rounded-lg shadow-md p-8">
+        <h2 className="text-3xl font-extrabold text-gray-900">{t("trash.title")}</h2>
+        <p className="mt-2 text-sm text-gray-600">{t("trash.description")}</p>
+
+        <div className="mt-8 overflow-x-auto">
+          {loading ? (
+            <p className="text-sm text-gray-500">{t("trash.loading")}</p>
+          ) : schools.length === 0 ? (
+            <p className="text-sm text-gray-500">{t("trash.empty")}</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-left text-gray-700 border-b border-gray-200">
+                <tr>
+                  <th className="py-2 pr-4 font-medium">{t("trash.school")}</th>
+                  <th className="py-2 pr-4 font-medium">{t("trash.deletedBy")}</th>
+                  <th className="py-2 pr-4 font-medium">{t("trash.deletedAt")}</th>
+                  <th className="py-2 pr-4 font-medium">{t("trash.purgeAt")}</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {schools.map((school) => (
+                  <tr key={school.id} className="border-b border-gray-100 align-top">
+                    <td className="py-3 pr-4">
+                      <div className="font-medium text-gray-900">{school.name}</div>
+                      {school.address && (
+                        <div className="text-gray-500">
+                          {[school.address.city, school.address.district].filter(Boolean).join(", ")}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-3 pr-4 text-gray-700">
+                      {school.deleter?.email ?? t("history.unknownAuthor")}
+                    </td>
+                    <td className="py-3 pr-4 text-gray-700">{formatDate(school.deletedAt)}</td>
+                    <td className="py-3 pr-4 text-gray-700">
+                      {school.purgeAt ? formatDate(school.purgeAt) : t("trash.neverPurged")}
+                    </td>
+                    <td className="py-3">
+                      <div className="flex gap-2 justify-end">
+                        <button
+                          onClick={() => handleRestore(school)}
+                          disabled={busyId === school.id}
+                          className="px-3 py-1.5 bg-amber-600 text-white rounded-md hover:bg-amber-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {t("trash.restore")}
+                        </button>
+                        <button
+                          onClick={() => setSchoolToPurge(school)}
+                          disabled={busyId === school.id}
+                          className="px-3 py-1.5 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {t("trash.purge")}
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      <DeleteConfirmationModal
+        isOpen={schoolToPurge !== null}
+        schoolName={schoolToPurge?.name ?? ""}
+        onConfirm={handlePurge}
+        onCancel={() => setSchoolToPurge(null)}
+        isDeleting={busyId !== null && busyId === schoolToPurge?.id}
+        warning={t("trash.purgeWarning")}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import SchoolsMapView from "@/components/SchoolsMapView";
+import { SCHOOL_LIST_FIELDS } from "@/constants";
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000';
+const FIRST_PAGE_SIZE = 50;
+
+export default async function MapPage() {
+  // First page of the list below the map, the map loads its own data
+  let schools = [];
+  let pagination = null;
+  try {
+    const response = await fetch(`${API_URL}/api/schools?pageSize=${FIRST_PAGE_SIZE}&fields=${SCHOOL_LIST_FIELDS.join(',')}`, {
+      cache: 'no-store',
+    });
+
+    if (response.ok) {
+      const result = await response.json();
+      schools = result.data;
+      pagination = result.pagination;
+    }
+  } catch (error) {
+    console.error('Failed to fetch schools:', error);
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-cyan-50 via-blue-50 to-teal-50">
+      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-8 max-w-4xl">
+        <SchoolsMapView schools={schools} pagination={pagination} />
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 import { getTranslations } from "next-intl/server";
 import SchoolsList from "@/components/SchoolsList";
+import { SCHOOL_LIST_FIELDS } from "@/constants";
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000';
+const FIRST_PAGE_SIZE = 50;
 
 export default async function HomePage({
   params,
@@ -11,15 +13,18 @@ export default async function HomePage({
   const { locale } = await params;
   const tGeneral = await getTranslations({ locale, namespace: "General" });
 
-  // Fetch schools from the API
+  // Fetch the first page of schools from the API, SchoolsList loads the rest on demand
   let schools = [];
+  let pagination = null;
   try {
-    const response = await fetch(`${API_URL}/api/schools`, {
+    const response = await fetch(`${API_URL}/api/schools?pageSize=${FIRST_PAGE_SIZE}&fields=${SCHOOL_LIST_FIELDS.join(',')}`, {
       cache: 'no-store', // Don't cache for now, fetch fresh data each time
     });
 
     if (response.ok) {
-      schools = await response.json();
+      const result = await response.json();
+      schools = result.data;
+      pagination = result.pagination;
     }
   } catch (error) {
     console.error('Failed to fetch schools:', error);
@@ -39,7 +44,7 @@ export default async function HomePage({
       </div>
 
         {/* Schools List with Filters */}
-        <SchoolsList schools={schools} />
+        <SchoolsList schools={schools} pagination={pagination} />
       </div>
     </div>
   );
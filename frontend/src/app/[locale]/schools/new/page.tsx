@@ -12,8 +12,9 @@ import AddressSection from "@/components/forms/AddressSection";
 import InfrastructureSection from "@/components/forms/InfrastructureSection";
 import SchoolLevelSection from "@/components/forms/SchoolLevelSection";
 import FormErrorSummary from "@/components/forms/FormErrorSummary";
+import DuplicateSchoolsWarning from "@/components/DuplicateSchoolsWarning";
 import { schoolSchema, SchoolFormData } from "@/schemas/schema";
-import { schoolsApi } from "@/lib/api";
+import { ApiError, DuplicateConflict, DuplicateSchool, isPendingReview, schoolsApi } from "@/lib/api";
 
 const defaultschoolLevel = {
   price: 0,
@@ -24,11 +25,12 @@ const defaultschoolLevel = {
   mealsDescription: "",
   transportation: "",
   schoolUniform: false,
-  mandatorySportsClubs: "",
+  mandatorySportsClubs: [],
   teachingStyleBooks: "",
   textbooksPrice: "",
   clubsAndCircles: "",
-  foreignLanguages: "",
+  foreignLanguages: [],
+  fees: [],
 };
 
 const defaultschoolValues = {
@@ -58,7 +60,7 @@ const defaultschoolValues = {
   exchangePrograms: "",
   hasOutdoorGarden: false,
   outdoorGarden: "",
-  address: { city: "", street: "", zipCode: "", district: "" },
+  address: { city: "", street: "", zipCode: "", district: "", latitude: null, longitude: null },
   infrastructure: {
     buildings: false,
     numberOfFloors: 0,
@@ -79,6 +81,8 @@ const defaultschoolValues = {
 export default function NewSchoolPage() {
   const tForm = useTranslations("form");
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Set when the school looks like an existing one, creating it then needs a confirmation
+  const [duplicates, setDuplicates] = useState<{ data: SchoolFormData; schools: DuplicateSchool[]; others: number } | null>(null);
 
   const {
     register,
@@ -91,13 +95,19 @@ export default function NewSchoolPage() {
     defaultValues: defaultschoolValues,
   });
 
-  const onSubmit = async (data: SchoolFormData) => {
+  const createSchool = async (data: SchoolFormData, allowDuplicates: boolean) => {
     setIsSubmitting(true);
     try {
-      await schoolsApi.create(data);
-      toast.success(tForm("schoolCreated"));
+      const result = await schoolsApi.create(data, allowDuplicates);
+      toast.success(tForm(isPendingReview(result) ? "moderation.submitted" : "schoolCreated"));
+      setDuplicates(null);
       reset(); // <-- reset the form to default values
     } catch (error) {
+      const conflict = error instanceof ApiError && error.status === 409 ? (error.data as Partial<DuplicateConflict>) : undefined;
+      if (conflict?.duplicates?.length || conflict?.otherDuplicates) {
+        setDuplicates({ data, schools: conflict.duplicates ?? [], others: conflict.otherDuplicates ?? 0 });
+        return;
+      }
       console.error("Error creating school:", error);
       toast.error(tForm("errorCreatingSchool"));
     } finally {
@@ -105,6 +115,8 @@ export default function NewSchoolPage() {
     }
   };
 
+  const onSubmit = (data: SchoolFormData) => createSchool(data, false);
+
   const onInvalid = () => {
     const errorCount = Object.keys(errors).length;
     toast.error(`${tForm("validationErrorsToast")}: ${errorCount}`);
@@ -153,6 +165,16 @@ export default function NewSchoolPage() {
           </TabsContent>
         </Tabs>
 
+        {duplicates && (
+          <DuplicateSchoolsWarning
+            duplicates={duplicates.schools}
+            others={duplicates.others}
+            isSubmitting={isSubmitting}
+            onCreateAnyway={() => createSchool(duplicates.data, true)}
+            onCancel={() => setDuplicates(null)}
+          />
+        )}
+
         <button
           type="submit"
           disabled={isSubmitting}
@@ -0,0 +1,301 @@
+"use client";
+
+import { ReactNode, useEffect, useState } from "react";
+import { useLocale, useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { ActivityStatsResponse, SchoolStatsResponse, statsApi } from "../lib/api";
+import { useAuth } from "../contexts/AuthContext";
+import { DISTRICTS } from "../constants";
+import { BarList, PriceRanges, WeeklyActivityChart } from "./StatsCharts";
+
+const LEVELS = ["primary", "basic", "secondary"] as const;
+
+// Quick ranges of the activity section, in days ending today
+const RANGE_PRESETS = [
+  { key: "last4Weeks", days: 28 },
+  { key: "last12Weeks", days: 84 },
+  { key: "lastYear", days: 365 },
+] as const;
+
+const DEFAULT_RANGE_DAYS = 84;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// YYYY-MM-DD of the day `days` before today, as the API takes it
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function rangeOf(days: number) {
+  return { from: daysAgo(days - 1), to: daysAgo(0) };
+}
+
+function KpiTile({ label, value }: { label: string; value: number }) {
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <p className="text-xs uppercase tracking-wide text-gray-500">{label}</p>
+      <p className="mt-1 text-2xl font-semibold text-gray-900 tabular-nums">{value.toLocaleString()}</p>
+    </div>
+  );
+}
+
+function Panel({ title, hint, children }: { title: string; hint?: string; children: ReactNode }) {
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <h3 className="text-sm font-semibold text-gray-900">{title}</h3>
+      {hint && <p className="mt-0.5 text-xs text-gray-500">{hint}</p>}
+      <div className="mt-3">{children}</div>
+    </div>
+  );
+}
+
+// Shown on the dashboard above the grid so admins get an overview of the directory
+export default function AdminAnalytics() {
+  const t = useTranslations("form");
+  const tAddress = useTranslations("address");
+  const tAuth = useTranslations("auth");
+  const tInfrastructure = useTranslations("infrastructure");
+  const locale = useLocale();
+  const { role } = useAuth();
+  const [stats, setStats] = useState<SchoolStatsResponse | null>(null);
+  const [activity, setActivity] = useState<ActivityStatsResponse | null>(null);
+  const [range, setRange] = useState(() => rangeOf(DEFAULT_RANGE_DAYS));
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const rangeValid = Boolean(range.from && range.to && range.from <= range.to);
+
+  useEffect(() => {
+    if (role !== "admin") return;
+    let cancelled = false;
+
+    statsApi
+      .getAll()
+      .then((response) => {
+        if (!cancelled) setStats(response);
+      })
+      .catch((err) => {
+        console.error("Error fetching statistics:", err);
+        if (!cancelled) toast.error(t("analytics.loadFailed"));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [role, refreshKey, t]);
+
+  useEffect(() => {
+    if (role !== "admin" || !rangeValid) return;
+    let cancelled = false;
+
+    statsApi
+      .getActivity(range)
+      .then((response) => {
+        if (!cancelled) setActivity(response);
+      })
+      .catch((err) => {
+        console.error("Error fetching activity:", err);
+        if (!cancelled) toast.error(t("analytics.activityFailed"));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [role, range, rangeValid, refreshKey, t]);
+
+  if (role !== "admin") return null;
+
+  // Free-text districts are shown as entered
+  const districtLabel = (district: string | null) =>
+    district === null
+      ? t("analytics.notSpecified")
+      : (DISTRICTS as readonly string[]).includes(district)
+        ? tAddress(district)
+        : district;
+
+  const formatDay = (day: string) =>
+    new Date(`${day}T00:00:00`).toLocaleDateString(locale, { day: "numeric", month: "short" });
+
+  const statusCount = (status: string) => stats?.counts.status.find((bucket) => bucket.value === status)?.count ?? 0;
+  const added = activity?.weeks.reduce((sum, week) => sum + week.added, 0) ?? 0;
+  const updated = activity?.weeks.reduce((sum, week) => sum + week.updated, 0) ?? 0;
+
+  return (
+    <section className="w-full max-w-7xl mx-auto px-4 pt-8">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">{t("analytics.title")}</h2>
+          <p className="text-sm text-gray-600">{t("analytics.description")}</p>
+        </div>
+        <div className="flex flex-wrap items-end gap-2 text-sm">
+          {RANGE_PRESETS.map((preset) => (
+            <button
+              key={preset.key}
+              type="button"
+              onClick={() => setRange(rangeOf(preset.days))}
+              className="px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+            >
+              {t(`analytics.range.${preset.key}`)}
+            </button>
+          ))}
+          <label className="flex flex-col text-xs text-gray-600">
+            {t("analytics.range.from")}
+            <input
+              type="date"
+              value={range.from}
+              max={range.to}
+              onChange={(e) => setRange((current) => ({ ...current, from: e.target.value }))}
+              className="mt-0.5 border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900"
+            />
+          </label>
+          <label className="flex flex-col text-xs text-gray-600">
+            {t("analytics.range.to")}
+            <input
+              type="date"
+              value={range.to}
+              min={range.from}
+              onChange={(e) => setRange((current) => ({ ...current, to: e.target.value }))}
+              className="mt-0.5 border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900"
+            />
+          </label>
+          <button
+            type="button"
+            onClick={() => setRefreshKey((key) => key + 1)}
+            className="px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+          >
+            {t("analytics.refresh")}
+          </button>
+        </div>
+      </div>
+      {!rangeValid && <p className="mt-2 text-sm text-red-600">{t("analytics.range.invalid")}</p>}
+
+      {!stats ? (
+        <p className="mt-4 text-sm text-gray-500">{t("analytics.loading")}</p>
+      ) : (
+        <>
+          <div className="mt-4 grid grid-cols-2 gap-3 md:grid-cols-3 lg:grid-cols-6">
+            <KpiTile label={t("analytics.kpi.total")} value={stats.counts.total} />
+            <KpiTile label={t("analytics.kpi.published")} value={statusCount("published")} />
+            <KpiTile label={t("analytics.kpi.drafts")} value={statusCount("draft")} />
+            <KpiTile label={t("analytics.kpi.added")} value={added} />
+            <KpiTile label={t("analytics.kpi.updated")} value={updated} />
+            <KpiTile label={t("analytics.kpi.contributors")} value={activity?.contributions.length ?? 0} />
+          </div>
+
+          <div className="mt-4 grid gap-4 lg:grid-cols-2">
+            <Panel title={t("analytics.perDistrict")}>
+              <BarList
+                items={stats.counts.district.map((bucket) => ({
+                  key: bucket.value ?? "",
+                  label: districtLabel(bucket.value),
+                  value: bucket.count,
+                }))}
+              />
+            </Panel>
+
+            <Panel title={t("analytics.infrastructure")}>
+              <BarList
+                max={1}
+                items={stats.infrastructure.flags.map((flag) => ({
+                  key: flag.flag,
+                  label: tInfrastructure(flag.flag),
+                  value: flag.share,
+                  display: `${Math.round(flag.share * 100)}% (${flag.count})`,
+                }))}
+              />
+            </Panel>
+          </div>
+
+          <div className="mt-4">
+            <Panel title={t("analytics.prices")} hint={t("analytics.pricesHint")}>
+              <div className="space-y-5">
+                {LEVELS.map((level) => {
+                  const prices = stats.prices[level];
+                  return (
+                    <div key={level}>
+                      <p className="mb-2 text-sm font-medium text-gray-900">{t(level)}</p>
+                      {prices.all ? (
+                        <PriceRanges
+                          currency={t("currency")}
+                          ranges={[
+                            { key: "all", label: t("analytics.allDistricts"), ...prices.all },
+                            ...prices.districts.map((entry) => ({
+                              ...entry,
+                              key: entry.district ?? "",
+                              label: districtLabel(entry.district),
+                            })),
+                          ]}
+                        />
+                      ) : (
+                        <p className="text-sm text-gray-500">{t("analytics.noPrices")}</p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </Panel>
+          </div>
+        </>
+      )}
+
+      {activity && (
+        <div className="mt-4 grid gap-4">
+          <Panel
+            title={t("analytics.activity")}
+            hint={t("analytics.activityRange", { from: formatDay(activity.from), to: formatDay(activity.to) })}
+          >
+            <WeeklyActivityChart
+              weeks={activity.weeks}
+              label={t("analytics.activity")}
+              addedLabel={t("analytics.added")}
+              updatedLabel={t("analytics.updated")}
+              formatWeek={formatDay}
+            />
+          </Panel>
+
+          <Panel title={t("analytics.contributions")}>
+            {activity.contributions.length === 0 ? (
+              <p className="text-sm text-gray-500">{t("analytics.noActivity")}</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200 text-left text-xs uppercase tracking-wide text-gray-500">
+                      <th className="py-2 pr-4">{t("analytics.columns.email")}</th>
+                      <th className="py-2 pr-4">{t("analytics.columns.role")}</th>
+                      <th className="py-2 pr-4 text-right">{t("analytics.columns.created")}</th>
+                      <th className="py-2 pr-4 text-right">{t("analytics.columns.updated")}</th>
+                      <th className="py-2 pr-4 text-right">{t("analytics.columns.deleted")}</th>
+                      <th className="py-2 pr-4 text-right">{t("analytics.columns.restored")}</th>
+                      <th className="py-2 pr-4 text-right">{t("analytics.columns.schools")}</th>
+                      <th className="py-2">{t("analytics.columns.lastActivity")}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {activity.contributions.map((entry) => (
+                      <tr key={entry.userId} className="border-b border-gray-100">
+                        <td className="py-2 pr-4 text-gray-900">{entry.email}</td>
+                        <td className="py-2 pr-4 text-gray-600">{entry.role ? tAuth(entry.role) : "—"}</td>
+                        <td className="py-2 pr-4 text-right tabular-nums">{entry.created}</td>
+                        <td className="py-2 pr-4 text-right tabular-nums">{entry.updated}</td>
+                        <td className="py-2 pr-4 text-right tabular-nums">{entry.deleted}</td>
+                        <td className="py-2 pr-4 text-right tabular-nums">{entry.restored}</td>
+                        <td className="py-2 pr-4 text-right tabular-nums">{entry.schools}</td>
+                        <td className="py-2 text-gray-600">{new Date(entry.lastActivityAt).toLocaleString(locale)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </Panel>
+        </div>
+      )}
+
+      {stats && (
+        <p className="mt-2 text-xs text-gray-500">
+          {t("analytics.generatedAt", { date: new Date(stats.generatedAt).toLocaleString(locale) })}
+        </p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,208 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { ApiError, BulkActionResponse, BulkOperation, schoolsApi } from "../lib/api";
+import { ACCREDITATION_STATUS, DISTRICTS, INFRASTRUCTURE_FLAGS } from "../constants";
+import { useSchoolFieldLabel } from "../lib/schoolFields";
+import DeleteConfirmationModal from "./DeleteConfirmationModal";
+
+type FieldInput =
+  | { type: "text" | "number" | "boolean" }
+  | { type: "select"; options: readonly string[]; namespace: "form" | "address" };
+
+// Fields that are commonly the same for a group of schools
+const BULK_FIELDS: Record<string, FieldInput> = {
+  accreditationStatus: { type: "select", options: ACCREDITATION_STATUS, namespace: "form" },
+  "address.city": { type: "text" },
+  "address.district": { type: "select", options: DISTRICTS, namespace: "address" },
+  establishedYear: { type: "number" },
+  hasTutor: { type: "boolean" },
+  hasScholarshipsGrants: { type: "boolean" },
+  hasExchangePrograms: { type: "boolean" },
+  hasOutdoorGarden: { type: "boolean" },
+  ...Object.fromEntries(INFRASTRUCTURE_FLAGS.map((flag) => [`infrastructure.${flag}`, { type: "boolean" }])),
+};
+
+type ExtraAction = "addTag" | "removeTag" | "setField";
+
+interface BulkActionToolbarProps {
+  schoolIds: string[];
+  onApplied: (operation: BulkOperation, result: BulkActionResponse) => void;
+  onTransfer: () => void;
+  onClear: () => void;
+}
+
+export default function BulkActionToolbar({ schoolIds, onApplied, onTransfer, onClear }: BulkActionToolbarProps) {
+  const t = useTranslations("form");
+  const tAddress = useTranslations("address");
+  const fieldLabel = useSchoolFieldLabel();
+  const [isApplying, setIsApplying] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [action, setAction] = useState<ExtraAction>("addTag");
+  const [tag, setTag] = useState("");
+  const [field, setField] = useState(Object.keys(BULK_FIELDS)[0]);
+  const [value, setValue] = useState("");
+
+  const input = BULK_FIELDS[field];
+
+  const apply = async (operation: BulkOperation) => {
+    setIsApplying(true);
+    try {
+      const result = await schoolsApi.bulk({ ids: schoolIds }, operation);
+      toast.success(t("bulk.done", { changed: result.changed, total: result.total }));
+      const notFound = result.results.filter((item) => item.result === "not_found").length;
+      if (notFound) {
+        toast.warning(t("bulk.notFound", { count: notFound }));
+      }
+      onApplied(operation, result);
+      setTag("");
+      setValue("");
+    } catch (error) {
+      console.error("Bulk action error:", error);
+      // 400: the value does not fit the field
+      toast.error(
+        error instanceof ApiError && error.status === 400 ? t("bulk.invalidValue") : t("bulk.failed")
+      );
+    } finally {
+      setIsApplying(false);
+      setConfirmDelete(false);
+    }
+  };
+
+  const handleExtraAction = (e: FormEvent) => {
+    e.preventDefault();
+    if (action !== "setField") {
+      apply({ type: action, tag: tag.trim() });
+      return;
+    }
+
+    // An empty text or number clears the field
+    const fieldValue =
+      input.type === "boolean"
+        ? value === "true"
+        : input.type === "number"
+          ? value === "" ? null : Number(value)
+          : value === "" ? null : value;
+    apply({ type: "setField", field, value: fieldValue });
+  };
+
+  const buttonClass =
+    "px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+  const controlClass =
+    "px-2 py-1.5 border border-gray-300 rounded-md bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-2 rounded-lg border border-blue-200 bg-blue-50 px-4 py-3 text-sm">
+      <span className="font-medium text-gray-900 mr-2">{t("bulk.selected", { count: schoolIds.length })}</span>
+      <button onClick={() => apply({ type: "setStatus", status: "published" })} disabled={isApplying} className={buttonClass}>
+        {t("status.publish")}
+      </button>
+      <button onClick={() => apply({ type: "setStatus", status: "draft" })} disabled={isApplying} className={buttonClass}>
+        {t("status.unpublish")}
+      </button>
+      <button onClick={() => apply({ type: "setStatus", status: "archived" })} disabled={isApplying} className={buttonClass}>
+        {t("status.archive")}
+      </button>
+      <button onClick={onTransfer} disabled={isApplying} className={buttonClass}>
+        {t("transfer.action")}
+      </button>
+      <button
+        onClick={() => setConfirmDelete(true)}
+        disabled={isApplying}
+        className="px-3 py-1.5 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {t("deleteButton")}
+      </button>
+
+      <form onSubmit={handleExtraAction} className="flex flex-wrap items-center gap-2 sm:ml-4">
+        <select
+          aria-label={t("bulk.moreActions")}
+          value={action}
+          onChange={(e) => setAction(e.target.value as ExtraAction)}
+          className={controlClass}
+        >
+          <option value="addTag">{t("bulk.addTag")}</option>
+          <option value="removeTag">{t("bulk.removeTag")}</option>
+          <option value="setField">{t("bulk.setField")}</option>
+        </select>
+
+        {action === "setField" ? (
+          <>
+            <select
+              aria-label={t("bulk.field")}
+              value={field}
+              onChange={(e) => {
+                setField(e.target.value);
+                setValue("");
+              }}
+              className={controlClass}
+            >
+              {Object.keys(BULK_FIELDS).map((path) => (
+                <option key={path} value={path}>
+                  {fieldLabel(path)}
+                </option>
+              ))}
+            </select>
+            {input.type === "boolean" ? (
+              <select aria-label={t("bulk.value")} value={value} onChange={(e) => setValue(e.target.value)} className={controlClass}>
+                <option value="false">{t("bulk.no")}</option>
+                <option value="true">{t("bulk.yes")}</option>
+              </select>
+            ) : input.type === "select" ? (
+              <select aria-label={t("bulk.value")} value={value} onChange={(e) => setValue(e.target.value)} className={controlClass}>
+                <option value="">—</option>
+                {input.options.map((option) => (
+                  <option key={option} value={option}>
+                    {input.namespace === "address" ? tAddress(option) : t(option)}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                aria-label={t("bulk.value")}
+                type={input.type}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                placeholder={t("bulk.value")}
+                className={controlClass}
+              />
+            )}
+          </>
+        ) : (
+          <input
+            aria-label={t("bulk.tag")}
+            type="text"
+            required
+            maxLength={50}
+            value={tag}
+            onChange={(e) => setTag(e.target.value)}
+            placeholder={t("bulk.tag")}
+            className={controlClass}
+          />
+        )}
+
+        <button
+          type="submit"
+          disabled={isApplying || (action !== "setField" && !tag.trim())}
+          className="px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isApplying ? t("bulk.applying") : t("bulk.apply")}
+        </button>
+      </form>
+
+      <button onClick={onClear} disabled={isApplying} className="ml-auto text-gray-600 hover:text-gray-900 underline">
+        {t("bulk.clear")}
+      </button>
+
+      <DeleteConfirmationModal
+        isOpen={confirmDelete}
+        schoolName={t("bulk.schoolsCount", { count: schoolIds.length })}
+        onConfirm={() => apply({ type: "delete" })}
+        onCancel={() => setConfirmDelete(false)}
+        isDeleting={isApplying}
+      />
+    </div>
+  );
+}
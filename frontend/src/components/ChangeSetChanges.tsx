@@ -0,0 +1,57 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { FieldChange } from "../lib/api";
+import { formatFieldValue, useSchoolFieldLabel } from "../lib/schoolFields";
+
+type Props = {
+  changes: FieldChange[];
+  // With selection, each change gets a checkbox (partial approval)
+  selected?: Set<string>;
+  onToggle?: (path: string) => void;
+  // Changes an admin left out are shown struck through
+  appliedPaths?: string[] | null;
+};
+
+export default function ChangeSetChanges({ changes, selected, onToggle, appliedPaths }: Props) {
+  const tForm = useTranslations("form");
+  const fieldLabel = useSchoolFieldLabel();
+
+  return (
+    <table className="w-full text-sm">
+      <thead className="text-left text-gray-700">
+        <tr>
+          {selected && <th className="py-1 pr-2 w-6" />}
+          <th className="py-1 pr-3 font-medium">{tForm("conflict.field")}</th>
+          <th className="py-1 pr-3 font-medium">{tForm("moderation.before")}</th>
+          <th className="py-1 font-medium">{tForm("moderation.after")}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {changes.map((change) => {
+          const notApplied = appliedPaths ? !appliedPaths.includes(change.path) : false;
+          return (
+            <tr
+              key={change.path}
+              className={`border-t border-gray-100 align-top ${notApplied ? "line-through text-gray-400" : ""}`}
+            >
+              {selected && (
+                <td className="py-1 pr-2">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(change.path)}
+                    onChange={() => onToggle?.(change.path)}
+                    aria-label={fieldLabel(change.path)}
+                  />
+                </td>
+              )}
+              <td className="py-1 pr-3 text-gray-700">{fieldLabel(change.path)}</td>
+              <td className="py-1 pr-3 text-gray-500 break-words">{formatFieldValue(change.from)}</td>
+              <td className="py-1 text-gray-900 break-words">{formatFieldValue(change.to)}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
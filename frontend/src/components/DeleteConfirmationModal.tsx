@@ -9,6 +9,8 @@ interface DeleteConfirmationModalProps {
   onConfirm: () => void;
   onCancel: () => void;
   isDeleting?: boolean;
+  // Replaces the default "moved to trash" warning
+  warning?: string;
 }
 
 export default function DeleteConfirmationModal({
@@ -17,6 +19,7 @@ export default function DeleteConfirmationModal({
   onConfirm,
   onCancel,
   isDeleting = false,
+  warning,
 }: DeleteConfirmationModalProps) {
   const t = useTranslations("form");
   const cancelButtonRef = useRef<HTMLButtonElement>(null);
@@ -64,7 +67,7 @@ export default function DeleteConfirmationModal({
           <p id="delete-modal-description" className="text-gray-700 text-base mb-3">
             {t("deleteConfirmMessage")} <strong className="text-gray-900">{schoolName}</strong>?
           </p>
-          <p className="text-sm text-red-600 font-medium">{t("deleteWarning")}</p>
+          <p className="text-sm text-red-600 font-medium">{warning ?? t("deleteWarning")}</p>
         </div>
 
         <div className="flex gap-3 justify-end flex-wrap sm:flex-nowrap">
@@ -0,0 +1,142 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { DistrictStats } from "../lib/api";
+import {
+  DISTRICT_SHAPES,
+  MAP_HEIGHT,
+  MAP_WIDTH,
+  NO_DATA_SHADE,
+  SHADES,
+  districtPath,
+  labelPoint,
+  project,
+  shadeOf,
+} from "../lib/districtMap";
+
+export type DistrictMetric = "count" | "medianPrice";
+
+export type SchoolMarker = {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+};
+
+type Props = {
+  stats: DistrictStats[];
+  metric: DistrictMetric;
+  // The district the school list is filtered by, "" for none
+  selected: string;
+  onSelect: (district: string) => void;
+  markers?: SchoolMarker[];
+};
+
+export default function DistrictMap({ stats, metric, selected, onSelect, markers = [] }: Props) {
+  const tAddress = useTranslations("address");
+  const tForm = useTranslations("form");
+
+  const statsByDistrict = new Map(stats.map((entry) => [entry.district, entry]));
+  const values = DISTRICT_SHAPES
+    .map((shape) => statsByDistrict.get(shape.district)?.[metric])
+    .filter((value): value is number => value !== null && value !== undefined);
+  const min = values.length ? Math.min(...values) : 0;
+  const max = values.length ? Math.max(...values) : 0;
+
+  const formatValue = (value: number) =>
+    metric === "count" ? String(value) : `${Math.round(value).toLocaleString()} ${tForm("currency")}`;
+
+  const describe = (district: string) => {
+    const entry = statsByDistrict.get(district);
+    if (!entry) return tForm("districtMap.noSchools");
+    const count = tForm("districtMap.schoolCount", { count: entry.count });
+    return entry.medianPrice === null
+      ? count
+      : `${count} · ${tForm("districtMap.medianPrice", { price: formatValue(entry.medianPrice) })}`;
+  };
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label={tForm("districtMap.title")}
+      >
+        {DISTRICT_SHAPES.map((shape) => {
+          const entry = statsByDistrict.get(shape.district);
+          const isSelected = selected === shape.district;
+          return (
+            <path
+              key={shape.district}
+              d={districtPath(shape)}
+              fill={shadeOf(entry?.[metric], min, max)}
+              fillRule="evenodd"
+              stroke={isSelected ? "#1e3a8a" : "#ffffff"}
+              strokeWidth={isSelected ? 4 : 2}
+              className="cursor-pointer hover:opacity-80 transition-opacity"
+              onClick={() => onSelect(isSelected ? "" : shape.district)}
+            >
+              <title>{`${tAddress(shape.district)}: ${describe(shape.district)}`}</title>
+            </path>
+          );
+        })}
+
+        {markers.map((marker) => {
+          const point = project(marker.longitude, marker.latitude);
+          if (!point) return null;
+          return (
+            <circle
+              key={marker.id}
+              cx={point.x}
+              cy={point.y}
+              r={4}
+              className="fill-rose-600 stroke-white"
+              strokeWidth={1}
+            >
+              <title>{marker.name}</title>
+            </circle>
+          );
+        })}
+
+        {DISTRICT_SHAPES.map((shape) => {
+          const { x, y } = labelPoint(shape);
+          return (
+            <text
+              key={shape.district}
+              x={x}
+              y={y}
+              textAnchor="middle"
+              className="fill-gray-900 text-[14px] font-medium pointer-events-none"
+            >
+              {tAddress(shape.district)}
+            </text>
+          );
+        })}
+      </svg>
+
+      {/* Legend: lightest to darkest shade */}
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-gray-600">
+        {values.length > 0 && (
+          <>
+            <span>{formatValue(min)}</span>
+            <span className="flex">
+              {SHADES.map((shade) => (
+                <span key={shade} className="w-6 h-3" style={{ backgroundColor: shade }} />
+              ))}
+            </span>
+            <span>{formatValue(max)}</span>
+          </>
+        )}
+        <span className="ml-2 inline-block w-3 h-3 border border-gray-300" style={{ backgroundColor: NO_DATA_SHADE }} />
+        <span>{tForm("districtMap.noData")}</span>
+        {markers.length > 0 && (
+          <>
+            <span className="ml-2 inline-block w-3 h-3 rounded-full bg-rose-600" />
+            <span>{tForm("districtMap.schoolMarker")}</span>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
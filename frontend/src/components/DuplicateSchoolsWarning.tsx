@@ -0,0 +1,64 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { DuplicateSchool } from "../lib/api";
+
+type Props = {
+  duplicates: DuplicateSchool[];
+  // Duplicates among schools the user cannot see, only counted
+  others?: number;
+  isSubmitting: boolean;
+  onCreateAnyway: () => void;
+  onCancel: () => void;
+};
+
+export default function DuplicateSchoolsWarning({ duplicates, others = 0, isSubmitting, onCreateAnyway, onCancel }: Props) {
+  const tForm = useTranslations("form");
+
+  return (
+    <div className="rounded-lg border border-amber-300 bg-amber-50 p-4 space-y-3">
+      <div>
+        <h3 className="text-sm font-semibold text-amber-900">{tForm("duplicates.title")}</h3>
+        <p className="text-sm text-amber-800 mt-1">{tForm("duplicates.message")}</p>
+      </div>
+
+      <ul className="divide-y divide-amber-200 text-sm">
+        {duplicates.map((duplicate) => (
+          <li key={duplicate.schoolId} className="py-2 flex flex-wrap items-center gap-x-3 gap-y-1">
+            <span className="font-medium text-gray-900">{duplicate.name}</span>
+            {duplicate.city && <span className="text-gray-600">{duplicate.city}</span>}
+            <span className="text-gray-600">{tForm(`status.${duplicate.status}`)}</span>
+            <span className="flex flex-wrap gap-1">
+              {duplicate.reasons.map((reason) => (
+                <span key={reason} className="rounded-full bg-amber-100 px-2 py-0.5 text-xs text-amber-900">
+                  {tForm(`duplicates.reason.${reason}`)}
+                </span>
+              ))}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      {others > 0 && <p className="text-sm text-amber-800">{tForm("duplicates.others", { count: others })}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={onCreateAnyway}
+          disabled={isSubmitting}
+          className="px-4 py-2 bg-amber-600 text-white rounded hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {tForm("duplicates.createAnyway")}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isSubmitting}
+          className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {tForm("duplicates.keepEditing")}
+        </button>
+      </div>
+    </div>
+  );
+}
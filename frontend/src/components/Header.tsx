@@ -50,6 +50,12 @@ export default function Header() {
           >
             {tAuth("viewTable")}
           </Link>
+          <Link
+            href={`/${locale}/map`}
+            className="hover:text-blue-400 hover:cursor-pointer transition-colors"
+          >
+            {tG("Map")}
+          </Link>
 
           {!user && (
             <Link
@@ -70,12 +76,44 @@ export default function Header() {
               </Link>
 
               {role === "admin" && (
-                <Link
-                  href={`/${locale}/admin/employees`}
-                  className="hover:text-blue-400 hover:cursor-pointer transition-colors"
-                >
-                  {tAuth("employeeManagement")}
-                </Link>
+                <>
+                  <Link
+                    href={`/${locale}/admin/employees`}
+                    className="hover:text-blue-400 hover:cursor-pointer transition-colors"
+                  >
+                    {tAuth("employeeManagement")}
+                  </Link>
+                  <Link
+                    href={`/${locale}/admin/reviews`}
+                    className="hover:text-blue-400 hover:cursor-pointer transition-colors"
+                  >
+                    {tAuth("reviewQueue")}
+                  </Link>
+                  <Link
+                    href={`/${locale}/admin/trash`}
+                    className="hover:text-blue-400 hover:cursor-pointer transition-colors"
+                  >
+                    {tAuth("trash")}
+                  </Link>
+                  <Link
+                    href={`/${locale}/admin/import`}
+                    className="hover:text-blue-400 hover:cursor-pointer transition-colors"
+                  >
+                    {tAuth("import")}
+                  </Link>
+                  <Link
+                    href={`/${locale}/admin/duplicates`}
+                    className="hover:text-blue-400 hover:cursor-pointer transition-colors"
+                  >
+                    {tAuth("duplicates")}
+                  </Link>
+                  <Link
+                    href={`/${locale}/admin/locations`}
+                    className="hover:text-blue-400 hover:cursor-pointer transition-colors"
+                  >
+                    {tAuth("locations")}
+                  </Link>
+                </>
               )}
 
               <button
@@ -169,6 +207,13 @@ export default function Header() {
             >
               {tAuth("viewTable")}
             </Link>
+            <Link
+              href={`/${locale}/map`}
+              onClick={() => setMobileMenuOpen(false)}
+              className="py-2 hover:text-blue-400 transition-colors"
+            >
+              {tG("Map")}
+            </Link>
 
             {!user && (
               <Link
@@ -191,13 +236,50 @@ export default function Header() {
                 </Link>
 
                 {role === "admin" && (
-                  <Link
-                    href={`/${locale}/admin/employees`}
-                    onClick={() => setMobileMenuOpen(false)}
-                    className="py-2 hover:text-blue-400 transition-colors"
-                  >
-                    {tAuth("employeeManagement")}
-                  </Link>
+                  <>
+                    <Link
+                      href={`/${locale}/admin/employees`}
+                      onClick={() => setMobileMenuOpen(false)}
+                      className="py-2 hover:text-blue-400 transition-colors"
+                    >
+                      {tAuth("employeeManagement")}
+                    </Link>
+                    <Link
+                      href={`/${locale}/admin/reviews`}
+                      onClick={() => setMobileMenuOpen(false)}
+                      className="py-2 hover:text-blue-400 transition-colors"
+                    >
+                      {tAuth("reviewQueue")}
+                    </Link>
+                    <Link
+                      href={`/${locale}/admin/trash`}
+                      onClick={() => setMobileMenuOpen(false)}
+                      className="py-2 hover:text-blue-400 transition-colors"
+                    >
+                      {tAuth("trash")}
+                    </Link>
+                    <Link
+                      href={`/${locale}/admin/import`}
+                      onClick={() => setMobileMenuOpen(false)}
+                      className="py-2 hover:text-blue-400 transition-colors"
+                    >
+                      {tAuth("import")}
+                    </Link>
+                    <Link
+                      href={`/${locale}/admin/duplicates`}
+                      onClick={() => setMobileMenuOpen(false)}
+                      className="py-2 hover:text-blue-400 transition-colors"
+                    >
+                      {tAuth("duplicates")}
+                    </Link>
+                    <Link
+                      href={`/${locale}/admin/locations`}
+                      onClick={() => setMobileMenuOpen(false)}
+                      className="py-2 hover:text-blue-400 transition-colors"
+                    >
+                      {tAuth("locations")}
+                    </Link>
+                  </>
                 )}
 
                 <button
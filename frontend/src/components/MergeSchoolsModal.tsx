@@ -0,0 +1,271 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { ApiError, MergeSide, schoolsApi } from "../lib/api";
+import { formatFieldValue, useSchoolFieldLabel } from "../lib/schoolFields";
+import { schoolSchema, SchoolDataWithCreator, SchoolFormData } from "../schemas/schema";
+
+interface MergeSchoolsModalProps {
+  // The two schools to compare, the first one stays unless the admin swaps them
+  schoolIds: [string, string];
+  onClose: () => void;
+  onMerged: () => void;
+}
+
+const SECTIONS = ["address", "infrastructure", "primary", "basic", "secondary"] as const;
+
+type Section = (typeof SECTIONS)[number];
+
+function isSection(key: string): key is Section {
+  return (SECTIONS as readonly string[]).includes(key);
+}
+
+// Every field of the school form as a dotted path, grouped by section ("" for the top level)
+const FIELD_GROUPS: [string, string[]][] = [
+  ["", Object.keys(schoolSchema.shape).filter((key) => key !== "id" && !isSection(key))],
+  ...SECTIONS.map((section): [string, string[]] => [
+    section,
+    Object.keys(schoolSchema.shape[section].shape).map((field) => `${section}.${field}`),
+  ]),
+];
+
+// Level lists: without a choice the merged school keeps the values of both
+const UNITED_LISTS = ["mandatorySportsClubs", "foreignLanguages"];
+
+function isUnitedList(path: string): boolean {
+  const [section, field] = path.split(".");
+  return section !== "address" && section !== "infrastructure" && UNITED_LISTS.includes(field);
+}
+
+function valueAt(school: SchoolFormData, path: string): unknown {
+  const [section, field] = path.split(".");
+  const value = (school as Record<string, unknown>)[section];
+  return field ? (value as Record<string, unknown> | null | undefined)?.[field] : value;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+export default function MergeSchoolsModal({ schoolIds, onClose, onMerged }: MergeSchoolsModalProps) {
+  const t = useTranslations("form");
+  const fieldLabel = useSchoolFieldLabel();
+  const cancelButtonRef = useRef<HTMLButtonElement>(null);
+  const [schools, setSchools] = useState<[SchoolDataWithCreator, SchoolDataWithCreator] | null>(null);
+  // Index of the school that stays
+  const [keep, setKeep] = useState<0 | 1>(0);
+  // Field path -> index of the school whose value is kept
+  const [choices, setChoices] = useState<Record<string, 0 | 1>>({});
+  const [isMerging, setIsMerging] = useState(false);
+
+  const [firstId, secondId] = schoolIds;
+
+  const loadSchools = useCallback(async () => {
+    try {
+      const loaded = await Promise.all([schoolsApi.getById(firstId), schoolsApi.getById(secondId)]);
+      setSchools(loaded);
+    } catch (error) {
+      console.error("Error loading schools to merge:", error);
+      toast.error(t("merge.loadFailed"));
+    }
+  }, [firstId, secondId, t]);
+
+  useEffect(() => {
+    loadSchools();
+  }, [loadSchools]);
+
+  // Handle Esc key to close modal
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && !isMerging) {
+        onClose();
+      }
+    };
+
+    document.addEventListener("keydown", handleEscape);
+    return () => document.removeEventListener("keydown", handleEscape);
+  }, [isMerging, onClose]);
+
+  // Focus management: focus cancel button when modal opens
+  useEffect(() => {
+    cancelButtonRef.current?.focus();
+  }, []);
+
+  // Only fields where the two schools differ need a decision
+  const groups = schools
+    ? FIELD_GROUPS.map(([section, paths]): [string, string[]] => [
+        section,
+        paths.filter(
+          (path) => formatFieldValue(valueAt(schools[0], path)) !== formatFieldValue(valueAt(schools[1], path))
+        ),
+      ]).filter(([, paths]) => paths.length > 0)
+    : [];
+
+  // Without a choice the staying school keeps its value, unless it has none; null keeps both lists
+  const chosen = (path: string): 0 | 1 | null => {
+    if (choices[path] !== undefined) return choices[path];
+    if (isUnitedList(path)) return null;
+    const other = keep === 0 ? 1 : 0;
+    return schools && isEmpty(valueAt(schools[keep], path)) && !isEmpty(valueAt(schools[other], path)) ? other : keep;
+  };
+
+  const handleMerge = async () => {
+    if (!schools) return;
+    const target = schools[keep];
+    const source = schools[keep === 0 ? 1 : 0];
+
+    const fields: Record<string, MergeSide> = {};
+    groups.forEach(([, paths]) =>
+      paths.forEach((path) => {
+        const side = chosen(path);
+        if (side !== null) fields[path] = side === keep ? "target" : "source";
+      })
+    );
+
+    setIsMerging(true);
+    try {
+      await schoolsApi.merge({
+        targetId: target.id!,
+        sourceId: source.id!,
+        fields,
+        targetVersion: target.version,
+        sourceVersion: source.version,
+      });
+      toast.success(t("merge.success", { name: source.name ?? "" }));
+      onMerged();
+      onClose();
+    } catch (error) {
+      console.error("Merge error:", error);
+      if (error instanceof ApiError && error.status === 412) {
+        // Compare again with the latest versions
+        toast.error(t("merge.changed"));
+        setChoices({});
+        loadSchools();
+      } else {
+        toast.error(t("merge.failed"));
+      }
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const columnHeader = (index: 0 | 1) => (
+    <th className="py-2 pr-3 font-medium align-top">
+      <label className="flex items-start gap-2 cursor-pointer">
+        <input
+          type="radio"
+          name="keep"
+          checked={keep === index}
+          onChange={() => {
+            setKeep(index);
+            setChoices({});
+          }}
+          className="mt-1"
+        />
+        <span>
+          <span className="block text-gray-900">{schools![index].name}</span>
+          <span className="block text-xs font-normal text-gray-500">
+            {keep === index ? t("merge.keeps") : t("merge.mergedAway")}
+          </span>
+        </span>
+      </label>
+    </th>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-[1001] flex items-center justify-center p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="merge-modal-title"
+    >
+      <div
+        className="bg-white rounded-lg p-6 w-full max-w-4xl max-h-[90vh] flex flex-col shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-4">
+          <h3 id="merge-modal-title" className="text-xl font-semibold text-gray-900">
+            {t("merge.title")}
+          </h3>
+          <p className="text-sm text-gray-500 mt-1">{t("merge.description")}</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {!schools ? (
+            <p className="text-sm text-gray-500">{t("loadingSchool")}</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-left text-gray-700 border-b border-gray-200">
+                <tr>
+                  <th className="py-2 pr-3 font-medium align-top">{t("conflict.field")}</th>
+                  {columnHeader(0)}
+                  {columnHeader(1)}
+                </tr>
+              </thead>
+              <tbody>
+                {groups.length === 0 && (
+                  <tr>
+                    <td colSpan={3} className="py-3 text-gray-500">
+                      {t("merge.identical")}
+                    </td>
+                  </tr>
+                )}
+                {groups.map(([section, paths]) => [
+                  <tr key={`section-${section}`} className="bg-gray-50">
+                    <td colSpan={3} className="py-1.5 px-2 text-xs font-semibold uppercase text-gray-600">
+                      {section ? fieldLabel(section) : t("merge.general")}
+                    </td>
+                  </tr>,
+                  ...paths.map((path) => (
+                    <tr key={path} className="border-t border-gray-100 align-top">
+                      <td className="py-1.5 pr-3 text-gray-700">{fieldLabel(path)}</td>
+                      {([0, 1] as const).map((index) => (
+                        <td key={index} className="py-1.5 pr-3">
+                          <label className="flex items-start gap-2 cursor-pointer">
+                            <input
+                              type="radio"
+                              name={path}
+                              checked={chosen(path) === index}
+                              onChange={() => setChoices((prev) => ({ ...prev, [path]: index }))}
+                              className="mt-1"
+                            />
+                            <span className="text-gray-900 break-words">
+                              {formatFieldValue(valueAt(schools[index], path))}
+                            </span>
+                          </label>
+                        </td>
+                      ))}
+                    </tr>
+                  )),
+                ])}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <p className="text-xs text-gray-500 mt-4">{t("merge.moveNote")}</p>
+
+        <div className="flex gap-3 justify-end mt-4">
+          <button
+            ref={cancelButtonRef}
+            onClick={onClose}
+            disabled={isMerging}
+            className="px-6 py-2.5 text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+          >
+            {t("cancel")}
+          </button>
+          <button
+            onClick={handleMerge}
+            disabled={!schools || isMerging}
+            className="px-6 py-2.5 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+          >
+            {isMerging ? t("merge.merging") : t("merge.confirm")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
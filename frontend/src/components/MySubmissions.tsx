@@ -0,0 +1,71 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useLocale, useTranslations } from "next-intl";
+import { changeSetsApi, ChangeSetStatus, SchoolChangeSet } from "../lib/api";
+import { useAuth } from "../contexts/AuthContext";
+import ChangeSetChanges from "./ChangeSetChanges";
+
+const STATUS_STYLES: Record<ChangeSetStatus, string> = {
+  pending: "bg-gray-100 text-gray-700",
+  approved: "bg-green-100 text-green-800",
+  partially_approved: "bg-amber-100 text-amber-800",
+  rejected: "bg-red-100 text-red-800",
+};
+
+// Shown on the dashboard so employees can follow their submissions in moderation mode
+export default function MySubmissions() {
+  const tForm = useTranslations("form");
+  const locale = useLocale();
+  const { role } = useAuth();
+  const [changeSets, setChangeSets] = useState<SchoolChangeSet[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (role !== "employee") return;
+
+    changeSetsApi
+      .getAll()
+      .then(({ data }) => setChangeSets(data))
+      .catch((err) => console.error("Error fetching submissions:", err));
+  }, [role]);
+
+  // Nothing to show without moderation
+  if (changeSets.length === 0) return null;
+
+  return (
+    <section className="w-full max-w-7xl mx-auto px-4 pt-8">
+      <h2 className="text-lg font-semibold text-gray-900 mb-3">{tForm("moderation.mySubmissions")}</h2>
+      <ul className="space-y-2">
+        {changeSets.map((changeSet) => (
+          <li key={changeSet.id} className="bg-white border border-gray-200 rounded-lg p-3">
+            <button
+              onClick={() => setExpandedId(expandedId === changeSet.id ? null : changeSet.id)}
+              className="w-full flex flex-wrap items-center gap-2 text-sm text-left"
+              aria-expanded={expandedId === changeSet.id}
+            >
+              <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[changeSet.status]}`}>
+                {tForm(`moderation.statuses.${changeSet.status}`)}
+              </span>
+              <span className="text-gray-500 text-xs">{tForm(`moderation.actions.${changeSet.action}`)}</span>
+              <span className="text-gray-900 font-medium">{changeSet.schoolName ?? "—"}</span>
+              <span className="text-gray-500">{new Date(changeSet.createdAt).toLocaleString(locale)}</span>
+            </button>
+
+            {changeSet.reviewComment && (
+              <p className="mt-2 text-sm text-gray-700">
+                <span className="font-medium">{tForm("moderation.reviewComment")}:</span> {changeSet.reviewComment}
+              </p>
+            )}
+
+            {expandedId === changeSet.id && (
+              <div className="mt-3">
+                <ChangeSetChanges changes={changeSet.changes} appliedPaths={changeSet.appliedPaths} />
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -13,12 +13,17 @@ import {
 import { useTranslations } from "next-intl";
 import { toast } from "sonner";
 import SchoolModal from "./SchoolModal";
-import { SchoolFormData } from "../schemas/schema";
+import { SchoolDataWithCreator } from "../schemas/schema";
 import { schoolsApi } from "../lib/api";
+import { SCHOOL_GRID_FIELDS } from "../constants";
 import { useAuth } from "../contexts/AuthContext";
 
 ModuleRegistry.registerModules([AllCommunityModule]);
 
+// Delay before the search box query is sent to the API
+const SEARCH_DEBOUNCE_MS = 300;
+const SEARCH_LIMIT = 200;
+
 interface SchoolGridRow {
   id: string;
   name?: string;
@@ -46,7 +51,7 @@ export default function ReadOnlySchoolsGrid() {
   const [filteredRowData, setFilteredRowData] = useState<SchoolGridRow[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
   const [gridApi, setGridApi] = useState<GridApi | null>(null);
-  const [selectedSchool, setSelectedSchool] = useState<SchoolFormData | null>(
+  const [selectedSchool, setSelectedSchool] = useState<SchoolDataWithCreator | null>(
     null
   );
   const [modalOpen, setModalOpen] = useState(false);
@@ -61,8 +66,8 @@ export default function ReadOnlySchoolsGrid() {
       setError(null);
 
       // Use public API to always show all schools (no authentication)
-      // Use lightweight mode for faster loading (only grid fields, not full school data)
-      const fullData = await schoolsApi.getAllPublic({ lightweight: true });
+      // Request only the columns the grid renders
+      const fullData = await schoolsApi.getAllPagesPublic({ fields: SCHOOL_GRID_FIELDS });
 
       const gridData: SchoolGridRow[] = fullData.map((school) => ({
         id: school.id!,
@@ -95,45 +100,38 @@ export default function ReadOnlySchoolsGrid() {
     fetchSchools();
   }, [fetchSchools]);
 
-  // Filter schools based on search query
+  // Search schools on the server (ranked, Georgian/Latin transliteration aware)
   useEffect(() => {
-    if (!searchQuery.trim()) {
+    const query = searchQuery.trim();
+    if (!query) {
       setFilteredRowData(rowData);
       return;
     }
 
-    const query = searchQuery.toLowerCase();
-    const digitsOnly = query.replace(/\D/g, "");
-
-    const filtered = rowData.filter((school) => {
-      const nameMatch = school.name?.toLowerCase().includes(query);
-      const cityMatch = school.address.city.toLowerCase().includes(query);
-
-      const districtKey = school.address.district.toLowerCase();
-      let districtTranslated = "";
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
       try {
-        districtTranslated = school.address.district
-          ? tAddress(school.address.district).toLowerCase()
-          : "";
-      } catch {
-        districtTranslated = "";
+        const { data } = await schoolsApi.searchPublic(query, {}, { limit: SEARCH_LIMIT, fields: ["id"] });
+        if (cancelled) return;
+
+        // Keep the server's ranking, reuse already loaded grid rows
+        const rowsById = new Map(rowData.map((row) => [row.id, row]));
+        setFilteredRowData(
+          data
+            .map((result) => rowsById.get(result.id!))
+            .filter((row): row is SchoolGridRow => Boolean(row))
+        );
+      } catch (err) {
+        console.error("Error searching schools:", err);
+        toast.error("Search failed. Please try again.");
       }
-      const districtMatch = districtKey.includes(query) || districtTranslated.includes(query);
+    }, SEARCH_DEBOUNCE_MS);
 
-      const phone1Digits = school.phoneNumber1 ? school.phoneNumber1.replace(/\D/g, "") : "";
-      const phone2Digits = school.phoneNumber2 ? school.phoneNumber2.replace(/\D/g, "") : "";
-      const phone3Digits = school.phoneNumber3 ? school.phoneNumber3.replace(/\D/g, "") : "";
-
-      const phoneMatch =
-        (digitsOnly && phone1Digits.includes(digitsOnly)) ||
-        (digitsOnly && phone2Digits.includes(digitsOnly)) ||
-        (digitsOnly && phone3Digits.includes(digitsOnly));
-
-      return nameMatch || cityMatch || districtMatch || phoneMatch;
-    });
-
-    setFilteredRowData(filtered);
-  }, [searchQuery, rowData, tAddress]);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [searchQuery, rowData]);
 
   // Keyboard navigation for grid - only view mode
   useEffect(() => {
@@ -483,7 +481,7 @@ export default function ReadOnlySchoolsGrid() {
   );
 }
 
-async function fetchFullSchoolById(id: string): Promise<SchoolFormData> {
+async function fetchFullSchoolById(id: string): Promise<SchoolDataWithCreator> {
   // Use public API to allow all users (including employees) to view school details
-  return await schoolsApi.getByIdPublic(id) as SchoolFormData;
+  return await schoolsApi.getByIdPublic(id);
 }
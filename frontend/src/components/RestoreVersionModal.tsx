@@ -0,0 +1,203 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useLocale, useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { FieldChange, isPendingReview, schoolsApi, SchoolRevision } from "../lib/api";
+import { formatFieldValue, useSchoolFieldLabel } from "../lib/schoolFields";
+import { SchoolDataWithCreator } from "../schemas/schema";
+
+interface RestoreVersionModalProps {
+  schoolId: string;
+  schoolName: string;
+  onClose: () => void;
+  onRestored: (school: SchoolDataWithCreator) => void;
+}
+
+export default function RestoreVersionModal({
+  schoolId,
+  schoolName,
+  onClose,
+  onRestored,
+}: RestoreVersionModalProps) {
+  const t = useTranslations("form");
+  const locale = useLocale();
+  const fieldLabel = useSchoolFieldLabel();
+  const cancelButtonRef = useRef<HTMLButtonElement>(null);
+  const [revisions, setRevisions] = useState<SchoolRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<FieldChange[] | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // The newest revision is the current state, so it is not offered
+  const current = revisions[0];
+  const candidates = revisions.slice(1);
+
+  useEffect(() => {
+    schoolsApi
+      .getRevisions(schoolId)
+      .then(({ data }) => setRevisions(data))
+      .catch((err) => {
+        console.error("Error fetching revisions:", err);
+        toast.error(t("restore.loadFailed"));
+      })
+      .finally(() => setLoading(false));
+  }, [schoolId, t]);
+
+  // Preview what restoring the selected revision would change
+  useEffect(() => {
+    if (!selectedId || !current) return;
+
+    let cancelled = false;
+    setPreview(null);
+    schoolsApi
+      .getRevisionDiff(schoolId, selectedId, current.id)
+      .then(({ changes }) => {
+        if (!cancelled) setPreview(changes);
+      })
+      .catch((err) => console.error("Error fetching revision diff:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [schoolId, selectedId, current]);
+
+  // Handle Esc key to close modal
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && !isRestoring) {
+        onClose();
+      }
+    };
+
+    document.addEventListener("keydown", handleEscape);
+    return () => document.removeEventListener("keydown", handleEscape);
+  }, [isRestoring, onClose]);
+
+  // Focus management: focus cancel button when modal opens
+  useEffect(() => {
+    cancelButtonRef.current?.focus();
+  }, []);
+
+  const handleRestore = async () => {
+    if (!selectedId) return;
+    setIsRestoring(true);
+    try {
+      const restored = await schoolsApi.restoreRevision(schoolId, selectedId);
+      if (isPendingReview(restored)) {
+        toast.success(t("moderation.submitted"));
+      } else {
+        toast.success(t("restore.success"));
+        onRestored(restored);
+      }
+      onClose();
+    } catch (error) {
+      console.error("Restore error:", error);
+      toast.error(t("restore.failed"));
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-[1001] flex items-center justify-center p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="restore-modal-title"
+    >
+      <div
+        className="bg-white rounded-lg p-6 w-full max-w-3xl max-h-[90vh] flex flex-col shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-4">
+          <h3 id="restore-modal-title" className="text-xl font-semibold text-gray-900">
+            {t("restore.title")}
+          </h3>
+          <p className="text-sm text-gray-500 mt-1">{schoolName}</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4">
+          {loading ? (
+            <p className="text-sm text-gray-500">{t("history.loading")}</p>
+          ) : candidates.length === 0 ? (
+            <p className="text-sm text-gray-500">{t("restore.noVersions")}</p>
+          ) : (
+            <ul className="space-y-2">
+              {candidates.map((revision) => (
+                <li key={revision.id}>
+                  <label className="flex items-center gap-3 border border-gray-200 rounded-lg px-3 py-2 cursor-pointer hover:bg-gray-50">
+                    <input
+                      type="radio"
+                      name="revision"
+                      checked={selectedId === revision.id}
+                      onChange={() => setSelectedId(revision.id)}
+                    />
+                    <span className="text-sm text-gray-900 font-medium">v{revision.version}</span>
+                    <span className="text-sm text-gray-600">
+                      {new Date(revision.createdAt).toLocaleString(locale)}
+                    </span>
+                    <span className="text-sm text-gray-600">
+                      {revision.author?.email ?? t("history.unknownAuthor")}
+                    </span>
+                    <span className="text-xs text-gray-500">{t(`history.actions.${revision.action}`)}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {selectedId && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-900 mb-2">{t("restore.preview")}</h4>
+              {preview === null ? (
+                <p className="text-sm text-gray-500">{t("history.loading")}</p>
+              ) : preview.length === 0 ? (
+                <p className="text-sm text-gray-500">{t("restore.noChanges")}</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="text-left text-gray-700">
+                    <tr>
+                      <th className="py-1 pr-3 font-medium">{t("conflict.field")}</th>
+                      <th className="py-1 pr-3 font-medium">{t("restore.current")}</th>
+                      <th className="py-1 font-medium">{t("restore.restored")}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.map((change) => (
+                      <tr key={change.path} className="border-t border-gray-100 align-top">
+                        <td className="py-1 pr-3 text-gray-700">{fieldLabel(change.path)}</td>
+                        <td className="py-1 pr-3 text-gray-500 break-words">{formatFieldValue(change.from)}</td>
+                        <td className="py-1 text-gray-900 break-words">{formatFieldValue(change.to)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3 justify-end mt-6">
+          <button
+            ref={cancelButtonRef}
+            onClick={onClose}
+            disabled={isRestoring}
+            className="px-6 py-2.5 text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+          >
+            {t("cancel")}
+          </button>
+          <button
+            onClick={handleRestore}
+            disabled={!selectedId || isRestoring}
+            className="px-6 py-2.5 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+          >
+            {isRestoring ? t("restore.restoring") : t("restore.confirm")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
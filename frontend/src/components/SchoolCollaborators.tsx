@@ -0,0 +1,171 @@
+"use client";
+
+import { FormEvent, useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { ApiError, CollaboratorAccess, SchoolCollaboratorsResponse, schoolsApi } from "../lib/api";
+import { useAuth } from "../contexts/AuthContext";
+
+type Props = {
+  schoolId: string;
+};
+
+const ACCESS_LEVELS: CollaboratorAccess[] = ["view", "edit"];
+
+export default function SchoolCollaborators({ schoolId }: Props) {
+  const tForm = useTranslations("form");
+  const { user, role } = useAuth();
+  const [collaborators, setCollaborators] = useState<SchoolCollaboratorsResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [email, setEmail] = useState("");
+  const [access, setAccess] = useState<CollaboratorAccess>("view");
+  const [isSaving, setIsSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    schoolsApi
+      .getCollaborators(schoolId)
+      .then((response) => {
+        if (!cancelled) setCollaborators(response);
+      })
+      .catch((err) => {
+        console.error("Error fetching collaborators:", err);
+        if (!cancelled) setError(tForm("collaborators.loadFailed"));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [schoolId, tForm]);
+
+  if (error) {
+    return <p className="text-sm text-red-600 py-4">{error}</p>;
+  }
+
+  if (!collaborators) {
+    return <p className="text-sm text-gray-500 py-4">{tForm("collaborators.loading")}</p>;
+  }
+
+  const canManage = role === "admin" || (!!user && user.id === collaborators.owner?.id);
+
+  // Adding an existing collaborator again changes their access
+  const handleAdd = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const saved = await schoolsApi.addCollaborator(schoolId, email.trim(), access);
+      setCollaborators((prev) =>
+        prev && {
+          ...prev,
+          data: [...prev.data.filter((item) => item.userId !== saved.userId), saved],
+        }
+      );
+      setEmail("");
+      toast.success(tForm("collaborators.added"));
+    } catch (err) {
+      console.error("Error adding collaborator:", err);
+      // 400: the email does not belong to staff, or it is the owner's
+      toast.error(
+        err instanceof ApiError && err.status === 400
+          ? tForm("collaborators.invalidUser")
+          : tForm("collaborators.addFailed")
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (userId: string) => {
+    setRemovingId(userId);
+    try {
+      await schoolsApi.removeCollaborator(schoolId, userId);
+      setCollaborators((prev) => prev && { ...prev, data: prev.data.filter((item) => item.userId !== userId) });
+      toast.success(tForm("collaborators.removed"));
+    } catch (err) {
+      console.error("Error removing collaborator:", err);
+      toast.error(tForm("collaborators.removeFailed"));
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4 py-2">
+      <p className="text-sm text-gray-600">{tForm("collaborators.description")}</p>
+
+      <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+        <li className="flex items-center justify-between px-3 py-2 text-sm">
+          <span className="text-gray-900">{collaborators.owner?.email ?? "—"}</span>
+          <span className="text-xs font-medium text-gray-500">{tForm("collaborators.owner")}</span>
+        </li>
+        {collaborators.data.map((collaborator) => (
+          <li key={collaborator.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+            <span className="text-gray-900">{collaborator.user.email}</span>
+            <div className="flex items-center gap-3">
+              <span className="text-xs text-gray-500">{tForm(`collaborators.${collaborator.access}`)}</span>
+              {canManage && (
+                <button
+                  type="button"
+                  onClick={() => handleRemove(collaborator.userId)}
+                  disabled={removingId === collaborator.userId}
+                  className="text-red-400 hover:text-red-800 transition-colors focus:outline-none disabled:opacity-50"
+                >
+                  {tForm("collaborators.remove")}
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+      {collaborators.data.length === 0 && (
+        <p className="text-sm text-gray-500">{tForm("collaborators.empty")}</p>
+      )}
+
+      {canManage ? (
+        <form onSubmit={handleAdd} className="flex flex-wrap gap-2 items-end">
+          <div className="flex-1 min-w-[200px]">
+            <label htmlFor="collaborator-email" className="block text-sm font-medium text-gray-700 mb-1">
+              {tForm("collaborators.email")}
+            </label>
+            <input
+              id="collaborator-email"
+              type="email"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label htmlFor="collaborator-access" className="block text-sm font-medium text-gray-700 mb-1">
+              {tForm("collaborators.access")}
+            </label>
+            <select
+              id="collaborator-access"
+              value={access}
+              onChange={(e) => setAccess(e.target.value as CollaboratorAccess)}
+              className="px-3 py-2 border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {ACCESS_LEVELS.map((level) => (
+                <option key={level} value={level}>
+                  {tForm(`collaborators.${level}`)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="submit"
+            disabled={isSaving || !email.trim()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+          >
+            {isSaving ? tForm("collaborators.adding") : tForm("collaborators.add")}
+          </button>
+        </form>
+      ) : (
+        <p className="text-xs text-gray-500 italic">{tForm("collaborators.onlyOwner")}</p>
+      )}
+    </div>
+  );
+}
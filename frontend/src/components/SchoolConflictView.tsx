@@ -0,0 +1,112 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { SchoolDataWithCreator, SchoolFormData } from "../schemas/schema";
+import { formatFieldValue, useSchoolFieldLabel } from "../lib/schoolFields";
+
+type Props = {
+  mine: SchoolFormData;
+  latest: SchoolDataWithCreator;
+  isSubmitting: boolean;
+  onKeepMine: () => void;
+  onUseLatest: () => void;
+};
+
+const SECTIONS = ["address", "infrastructure", "primary", "basic", "secondary"] as const;
+
+type FlatValues = Record<string, unknown>;
+
+/**
+ * Flattens the form shape to dotted paths ("address.city", "primary.price")
+ * Only keys present in the form are compared, server-only fields are ignored
+ */
+function flatten(school: SchoolFormData, form: SchoolFormData): FlatValues {
+  const source = school as Record<string, unknown>;
+  const values: FlatValues = {};
+
+  Object.keys(form).forEach((key) => {
+    if (key === "id") return;
+
+    if ((SECTIONS as readonly string[]).includes(key)) {
+      const section = (source[key] ?? {}) as Record<string, unknown>;
+      Object.keys((form[key as keyof SchoolFormData] ?? {}) as object).forEach((field) => {
+        values[`${key}.${field}`] = section[field];
+      });
+      return;
+    }
+
+    values[key] = source[key];
+  });
+
+  return values;
+}
+
+// null, undefined and "" all mean "empty" in the form
+function normalize(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  return String(value);
+}
+
+export default function SchoolConflictView({ mine, latest, isSubmitting, onKeepMine, onUseLatest }: Props) {
+  const tForm = useTranslations("form");
+  const fieldLabel = useSchoolFieldLabel();
+
+  const myValues = flatten(mine, mine);
+  const latestValues = flatten(latest, mine);
+  const differences = Object.keys(myValues).filter(
+    (path) => normalize(myValues[path]) !== normalize(latestValues[path])
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-lg border border-amber-300 bg-amber-50 p-4">
+        <h3 className="text-sm font-semibold text-amber-900">{tForm("conflict.title")}</h3>
+        <p className="text-sm text-amber-800 mt-1">{tForm("conflict.message")}</p>
+      </div>
+
+      {differences.length === 0 ? (
+        <p className="text-sm text-gray-600">{tForm("conflict.noDifferences")}</p>
+      ) : (
+        <div className="overflow-x-auto border border-gray-200 rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-700">
+              <tr>
+                <th className="px-3 py-2 font-medium">{tForm("conflict.field")}</th>
+                <th className="px-3 py-2 font-medium">{tForm("conflict.yours")}</th>
+                <th className="px-3 py-2 font-medium">{tForm("conflict.latest")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {differences.map((path) => (
+                <tr key={path} className="border-t border-gray-200 align-top">
+                  <td className="px-3 py-2 text-gray-700">{fieldLabel(path)}</td>
+                  <td className="px-3 py-2 text-blue-700 break-words">{formatFieldValue(myValues[path])}</td>
+                  <td className="px-3 py-2 text-gray-900 break-words">{formatFieldValue(latestValues[path])}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex gap-2 justify-end flex-wrap">
+        <button
+          type="button"
+          onClick={onUseLatest}
+          disabled={isSubmitting}
+          className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+        >
+          {tForm("conflict.useLatest")}
+        </button>
+        <button
+          type="button"
+          onClick={onKeepMine}
+          disabled={isSubmitting}
+          className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+        >
+          {isSubmitting ? tForm("submitting") : tForm("conflict.keepMine")}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import {
   GridApi,
   GridReadyEvent,
   ModuleRegistry,
+  SelectionChangedEvent,
   AllCommunityModule,
   ValueFormatterParams,
 } from "ag-grid-community";
@@ -15,13 +16,27 @@ import { useRouter, useParams } from "next/navigation";
 import { toast } from "sonner";
 import SchoolModal from "./SchoolModal";
 import DeleteConfirmationModal from "./DeleteConfirmationModal";
-import { SchoolFormData } from "../schemas/schema";
-import { schoolsApi } from "../lib/api";
+import RestoreVersionModal from "./RestoreVersionModal";
+import TransferOwnershipModal from "./TransferOwnershipModal";
+import BulkActionToolbar from "./BulkActionToolbar";
+import { SchoolDataWithCreator, SchoolFormData } from "../schemas/schema";
+import { BulkActionResponse, BulkOperation, isPendingReview, schoolsApi, SchoolTransferResponse } from "../lib/api";
+import { EXPORT_FORMATS, ExportFormat, SCHOOL_GRID_FIELDS, SCHOOL_STATUSES, SchoolStatus } from "../constants";
 import { useAuth } from "../contexts/AuthContext";
 
 ModuleRegistry.registerModules([AllCommunityModule]);
 
-// ✅ Only lightweight fields for grid
+const STATUS_STYLES: Record<SchoolStatus, string> = {
+  draft: "bg-gray-100 text-gray-700",
+  published: "bg-green-100 text-green-800",
+  archived: "bg-amber-100 text-amber-800",
+};
+
+// Delay before the search box query is sent to the API
+const SEARCH_DEBOUNCE_MS = 300;
+const SEARCH_LIMIT = 200;
+
+// ✅ Only the fields the grid renders
 interface SchoolGridRow {
   id: string;
   name?: string;
@@ -30,9 +45,14 @@ interface SchoolGridRow {
   phoneNumber3?: string;
   schoolsWebSite?: string;
   establishedYear?: number;
+  status?: SchoolStatus;
   creator?: {
     email: string;
   };
+  owner?: {
+    email: string;
+  };
+  tags: string[];
   address: {
     city: string;
     street: string;
@@ -51,8 +71,9 @@ export default function SchoolsGrid() {
   const [rowData, setRowData] = useState<SchoolGridRow[]>([]);
   const [filteredRowData, setFilteredRowData] = useState<SchoolGridRow[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState<SchoolStatus | "">("");
   const [gridApi, setGridApi] = useState<GridApi | null>(null);
-  const [selectedSchool, setSelectedSchool] = useState<SchoolFormData | null>(
+  const [selectedSchool, setSelectedSchool] = useState<SchoolDataWithCreator | null>(
     null
   );
   const [modalOpen, setModalOpen] = useState(false);
@@ -63,15 +84,22 @@ export default function SchoolsGrid() {
   const [schoolToDelete, setSchoolToDelete] = useState<SchoolGridRow | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [isFetchingSchool, setIsFetchingSchool] = useState(false);
+  const [schoolToRestore, setSchoolToRestore] = useState<SchoolGridRow | null>(null);
+  const [statusUpdatingId, setStatusUpdatingId] = useState<string | null>(null);
   const [selectedRowIndex, setSelectedRowIndex] = useState<number>(0);
+  // Rows ticked for bulk actions and ownership transfers (admins only)
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [transferOpen, setTransferOpen] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("xlsx");
+  const [isExporting, setIsExporting] = useState(false);
 
   const fetchSchools = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
 
-      // Use lightweight mode for faster loading (only grid fields, not full school data)
-      const fullData = await schoolsApi.getAll({ lightweight: true });
+      // Request only the columns the grid renders
+      const fullData = await schoolsApi.getAllPages({ fields: SCHOOL_GRID_FIELDS });
 
       const gridData: SchoolGridRow[] = fullData.map((school) => ({
         id: school.id!,
@@ -81,7 +109,10 @@ export default function SchoolsGrid() {
         phoneNumber3: school.phoneNumber3,
         schoolsWebSite: school.schoolsWebSite,
         establishedYear: school.establishedYear,
+        status: school.status,
         creator: school.creator ? { email: school.creator.email } : undefined,
+        owner: school.owner ? { email: school.owner.email } : undefined,
+        tags: school.tags ?? [],
         address: {
           city: school.address?.city ?? "",
           district: school.address?.district ?? "",
@@ -104,48 +135,39 @@ export default function SchoolsGrid() {
     fetchSchools();
   }, [fetchSchools]);
 
-  // Filter schools based on search query
+  // Search schools on the server (ranked, Georgian/Latin transliteration aware)
   useEffect(() => {
-    if (!searchQuery.trim()) {
-      setFilteredRowData(rowData);
+    const query = searchQuery.trim();
+    const matchesStatus = (row: SchoolGridRow) => !statusFilter || row.status === statusFilter;
+    if (!query) {
+      setFilteredRowData(rowData.filter(matchesStatus));
       return;
     }
 
-    const query = searchQuery.toLowerCase();
-    // Remove all non-digit characters from search query for phone number matching
-    const digitsOnly = query.replace(/\D/g, "");
-
-    const filtered = rowData.filter((school) => {
-      const nameMatch = school.name?.toLowerCase().includes(query);
-      const cityMatch = school.address.city.toLowerCase().includes(query);
-
-      // Match against both the district key AND the translated district name
-      const districtKey = school.address.district.toLowerCase();
-      let districtTranslated = "";
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
       try {
-        districtTranslated = school.address.district
-          ? tAddress(school.address.district).toLowerCase()
-          : "";
-      } catch {
-        districtTranslated = "";
+        const { data } = await schoolsApi.search(query, { limit: SEARCH_LIMIT, fields: ["id"] });
+        if (cancelled) return;
+
+        // Keep the server's ranking, reuse already loaded grid rows
+        const rowsById = new Map(rowData.map((row) => [row.id, row]));
+        setFilteredRowData(
+          data
+            .map((result) => rowsById.get(result.id!))
+            .filter((row): row is SchoolGridRow => row !== undefined && matchesStatus(row))
+        );
+      } catch (err) {
+        console.error("Error searching schools:", err);
+        toast.error("Search failed. Please try again.");
       }
-      const districtMatch = districtKey.includes(query) || districtTranslated.includes(query);
-
-      // Phone number matching: compare digits only across all three phone numbers
-      const phone1Digits = school.phoneNumber1 ? school.phoneNumber1.replace(/\D/g, "") : "";
-      const phone2Digits = school.phoneNumber2 ? school.phoneNumber2.replace(/\D/g, "") : "";
-      const phone3Digits = school.phoneNumber3 ? school.phoneNumber3.replace(/\D/g, "") : "";
-
-      const phoneMatch =
-        (digitsOnly && phone1Digits.includes(digitsOnly)) ||
-        (digitsOnly && phone2Digits.includes(digitsOnly)) ||
-        (digitsOnly && phone3Digits.includes(digitsOnly));
+    }, SEARCH_DEBOUNCE_MS);
 
-      return nameMatch || cityMatch || districtMatch || phoneMatch;
-    });
-
-    setFilteredRowData(filtered);
-  }, [searchQuery, rowData, tAddress]);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [searchQuery, statusFilter, rowData]);
 
   // Keyboard navigation for grid
   useEffect(() => {
@@ -236,7 +258,13 @@ export default function SchoolsGrid() {
 
     try {
       setIsDeleting(true);
-      await schoolsApi.delete(schoolToDelete.id);
+      const result = await schoolsApi.delete(schoolToDelete.id);
+      if (isPendingReview(result)) {
+        // Moderation: the school stays until an admin approves the delete
+        toast.success(tForm("moderation.submitted"));
+        closeDeleteModal();
+        return;
+      }
 
       const nodeToDelete = gridApi?.getRowNode(schoolToDelete.id);
       if (nodeToDelete) {
@@ -252,7 +280,8 @@ export default function SchoolsGrid() {
     }
   };
 
-  const updateRowData = (updatedSchool: SchoolFormData) => {
+  const updateRowData = (updatedSchool: SchoolFormData & { status?: SchoolStatus }) => {
+    const node = gridApi?.getRowNode(updatedSchool.id!);
     const updatedGridRow: SchoolGridRow = {
       id: updatedSchool.id!,
       name: updatedSchool.name,
@@ -260,6 +289,10 @@ export default function SchoolsGrid() {
       phoneNumber2: updatedSchool.phoneNumber2,
       phoneNumber3: updatedSchool.phoneNumber3,
       schoolsWebSite: updatedSchool.schoolsWebSite,
+      status: updatedSchool.status ?? node?.data?.status,
+      creator: node?.data?.creator,
+      owner: node?.data?.owner,
+      tags: node?.data?.tags ?? [],
       address: {
         city: updatedSchool.address?.city ?? "",
         district: updatedSchool.address?.district ?? "",
@@ -268,12 +301,95 @@ export default function SchoolsGrid() {
       },
     };
 
-    const node = gridApi?.getRowNode(updatedGridRow.id);
     if (node) {
       node.setData(updatedGridRow);
     }
   };
 
+  // Publish or unpublish (back to draft), the status filter is re-applied afterwards
+  const changeStatus = async (school: SchoolGridRow, status: SchoolStatus) => {
+    try {
+      setStatusUpdatingId(school.id);
+      const result = await schoolsApi.setStatus(school.id, status);
+      if (isPendingReview(result)) {
+        toast.success(tForm("moderation.submitted"));
+        return;
+      }
+      setRowData((prev) => prev.map((row) => (row.id === school.id ? { ...row, status } : row)));
+      toast.success(tForm(status === "published" ? "status.publishedSuccess" : "status.unpublishedSuccess"));
+    } catch (error) {
+      console.error("Failed to change school status", error);
+      toast.error(tForm("status.failed"));
+    } finally {
+      setStatusUpdatingId(null);
+    }
+  };
+
+  const onSelectionChanged = (event: SelectionChangedEvent<SchoolGridRow>) => {
+    setSelectedIds(event.api.getSelectedRows().map((row) => row.id));
+  };
+
+  const handleTransferred = ({ owner, transferred }: SchoolTransferResponse) => {
+    const moved = new Set(transferred);
+    setRowData((prev) =>
+      prev.map((row) => (moved.has(row.id) ? { ...row, owner: { email: owner.email } } : row))
+    );
+    gridApi?.deselectAll();
+  };
+
+  // Exports what the grid shows: the server search and the status filter are applied on the server too
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const { blob, fileName } = await schoolsApi.export(exportFormat, {
+        filters: statusFilter ? { status: statusFilter } : undefined,
+        q: searchQuery.trim() || undefined,
+        lang: locale,
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName ?? `schools.${exportFormat}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting schools:", error);
+      toast.error(tForm("export.failed"));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Applies a bulk action to the loaded rows instead of reloading the grid
+  const handleBulkApplied = (operation: BulkOperation, { results }: BulkActionResponse) => {
+    const changed = new Set(results.filter((item) => item.result !== "unchanged").map((item) => item.id));
+    const applyTo = (row: SchoolGridRow): SchoolGridRow => {
+      switch (operation.type) {
+        case "setStatus":
+          return { ...row, status: operation.status };
+        case "addTag":
+          return { ...row, tags: [...row.tags, operation.tag.trim()] };
+        case "removeTag":
+          return { ...row, tags: row.tags.filter((tag) => tag !== operation.tag.trim()) };
+        case "setField": {
+          const [section, key] = operation.field.split(".");
+          const value = operation.value ?? undefined;
+          if (section === "address" && key) return { ...row, address: { ...row.address, [key]: value ?? "" } };
+          return key ? row : { ...row, [section]: value };
+        }
+        default:
+          return row;
+      }
+    };
+
+    setRowData((prev) =>
+      operation.type === "delete"
+        ? prev.filter((row) => !changed.has(row.id))
+        : prev.map((row) => (changed.has(row.id) ? applyTo(row) : row))
+    );
+    gridApi?.deselectAll();
+  };
+
   const openModal = async (school: SchoolGridRow, mode: "view" | "edit") => {
     try {
       setIsFetchingSchool(true);
@@ -299,7 +415,7 @@ export default function SchoolsGrid() {
     },
     {
       headerName: tForm("actions"),
-      width: 180,
+      width: 340,
       resizable: false,
       sortable: false,
       cellRenderer: (params: { data: SchoolGridRow }) => (
@@ -316,6 +432,29 @@ export default function SchoolsGrid() {
           >
             {tForm("edit")}
           </button>
+          {params.data.status === "published" ? (
+            <button
+              onClick={() => changeStatus(params.data, "draft")}
+              disabled={statusUpdatingId === params.data.id}
+              className="text-gray-500 hover:text-gray-800 transition-colors focus:outline-none disabled:opacity-50"
+            >
+              {tForm("status.unpublish")}
+            </button>
+          ) : (
+            <button
+              onClick={() => changeStatus(params.data, "published")}
+              disabled={statusUpdatingId === params.data.id}
+              className="text-green-600 hover:text-green-800 transition-colors focus:outline-none disabled:opacity-50"
+            >
+              {tForm("status.publish")}
+            </button>
+          )}
+          <button
+            onClick={() => setSchoolToRestore(params.data)}
+            className="text-amber-500 hover:text-amber-800 transition-colors focus:outline-none"
+          >
+            {tForm("restore.action")}
+          </button>
           <button
             onClick={() => openDeleteModal(params.data)}
             className="text-red-400 hover:text-red-800 transition-colors focus:outline-none"
@@ -335,6 +474,40 @@ export default function SchoolsGrid() {
       flex: 2,
       minWidth: 150,
     },
+    {
+      headerName: tForm("status.label"),
+      field: "status",
+      filter: true,
+      sortable: true,
+      resizable: true,
+      width: 140,
+      valueFormatter: ({ value }) => (value ? tForm(`status.${value}`) : ""),
+      cellRenderer: (params: { data: SchoolGridRow; valueFormatted: string | null }) =>
+        params.data?.status ? (
+          <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[params.data.status]}`}>
+            {params.valueFormatted}
+          </span>
+        ) : (
+          ""
+        ),
+    },
+    {
+      headerName: tForm("tags"),
+      field: "tags",
+      filter: true,
+      resizable: true,
+      width: 180,
+      valueFormatter: ({ value }) => (Array.isArray(value) ? value.join(", ") : ""),
+      cellRenderer: (params: { data: SchoolGridRow }) => (
+        <div className="flex flex-wrap gap-1">
+          {params.data?.tags.map((tag) => (
+            <span key={tag} className="px-2 py-0.5 rounded bg-blue-100 text-blue-800 text-xs">
+              {tag}
+            </span>
+          ))}
+        </div>
+      ),
+    },
     {
       headerName: tForm("establishedYear"),
       field: "establishedYear",
@@ -385,6 +558,15 @@ export default function SchoolsGrid() {
       width: 200,
       filter: true,
       valueFormatter: (params: ValueFormatterParams) => params.data?.creator?.email || "N/A",
+    }, {
+      headerName: tForm("transfer.owner"),
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      field: "owner.email" as any,
+      sortable: true,
+      resizable: true,
+      width: 200,
+      filter: true,
+      valueFormatter: (params: ValueFormatterParams) => params.data?.owner?.email || "N/A",
     }] : []),
     {
       headerName: tForm("address"),
@@ -482,8 +664,8 @@ export default function SchoolsGrid() {
     );
   }
 
-  // Empty state: Search returns no results
-  const showNoSearchResults = searchQuery && filteredRowData.length === 0;
+  // Empty state: Search or status filter returns no results
+  const showNoSearchResults = (searchQuery || statusFilter) && filteredRowData.length === 0;
 
   return (
     <div className="w-full max-w-7xl mx-auto px-4 pt-8">
@@ -512,6 +694,48 @@ export default function SchoolsGrid() {
             </p>
           )}
         </div>
+        <div>
+          <label htmlFor="school-status-filter" className="sr-only">
+            {tForm("status.label")}
+          </label>
+          <select
+            id="school-status-filter"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as SchoolStatus | "")}
+            className="px-4 py-2 border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">{tForm("status.all")}</option>
+            {SCHOOL_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {tForm(`status.${status}`)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex">
+          <label htmlFor="school-export-format" className="sr-only">
+            {tForm("export.format")}
+          </label>
+          <select
+            id="school-export-format"
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+            className="px-3 py-2 border border-gray-300 rounded-l-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {EXPORT_FORMATS.map((format) => (
+              <option key={format} value={format}>
+                {tForm(`export.${format}`)}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="px-4 py-2 bg-white border border-l-0 border-gray-300 text-gray-700 rounded-r-lg hover:bg-gray-50 transition-colors font-medium whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isExporting ? tForm("export.exporting") : tForm("export.action")}
+          </button>
+        </div>
         <button
           onClick={() => router.push(`/${locale}/schools/new`)}
           className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2 font-medium whitespace-nowrap"
@@ -533,6 +757,15 @@ export default function SchoolsGrid() {
         </button>
       </div>
 
+      {role === "admin" && selectedIds.length > 0 && (
+        <BulkActionToolbar
+          schoolIds={selectedIds}
+          onApplied={handleBulkApplied}
+          onTransfer={() => setTransferOpen(true)}
+          onClear={() => gridApi?.deselectAll()}
+        />
+      )}
+
       {showNoSearchResults ? (
         <div className="flex flex-col items-center justify-center min-h-[50vh] text-center">
           <svg
@@ -555,7 +788,10 @@ export default function SchoolsGrid() {
             {tForm("noSearchResultsMessage")}
           </p>
           <button
-            onClick={() => setSearchQuery("")}
+            onClick={() => {
+              setSearchQuery("");
+              setStatusFilter("");
+            }}
             className="px-6 py-2.5 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors font-medium text-base"
           >
             {tForm("clearSearch")}
@@ -568,6 +804,8 @@ export default function SchoolsGrid() {
           columnDefs={columnDefs}
           getRowId={(params) => params.data.id}
           onGridReady={onGridReady}
+          rowSelection={role === "admin" ? { mode: "multiRow" } : undefined}
+          onSelectionChanged={onSelectionChanged}
           pagination={true}
           paginationPageSize={20}
           paginationPageSizeSelector={[20, 50, 100]}
@@ -619,6 +857,24 @@ export default function SchoolsGrid() {
           mode={mode}
           onClose={() => setModalOpen(false)}
           onSave={updateRowData}
+          showHistory
+        />
+      )}
+
+      {schoolToRestore && (
+        <RestoreVersionModal
+          schoolId={schoolToRestore.id}
+          schoolName={schoolToRestore.name ?? ""}
+          onClose={() => setSchoolToRestore(null)}
+          onRestored={updateRowData}
+        />
+      )}
+
+      {transferOpen && (
+        <TransferOwnershipModal
+          schoolIds={selectedIds}
+          onClose={() => setTransferOpen(false)}
+          onTransferred={handleTransferred}
         />
       )}
 
@@ -633,6 +889,6 @@ export default function SchoolsGrid() {
   );
 }
 
-async function fetchFullSchoolById(id: string): Promise<SchoolFormData> {
-  return await schoolsApi.getById(id) as SchoolFormData;
+async function fetchFullSchoolById(id: string): Promise<SchoolDataWithCreator> {
+  return await schoolsApi.getById(id);
 }
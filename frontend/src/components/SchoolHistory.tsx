@@ -0,0 +1,96 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useLocale, useTranslations } from "next-intl";
+import { schoolsApi, SchoolRevision } from "../lib/api";
+import { formatFieldValue, useSchoolFieldLabel } from "../lib/schoolFields";
+
+type Props = {
+  schoolId: string;
+};
+
+const ACTION_STYLES: Record<SchoolRevision["action"], string> = {
+  create: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  delete: "bg-red-100 text-red-800",
+  restore: "bg-amber-100 text-amber-800",
+};
+
+export default function SchoolHistory({ schoolId }: Props) {
+  const tForm = useTranslations("form");
+  const locale = useLocale();
+  const fieldLabel = useSchoolFieldLabel();
+  const [revisions, setRevisions] = useState<SchoolRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    schoolsApi
+      .getRevisions(schoolId)
+      .then(({ data }) => {
+        if (!cancelled) setRevisions(data);
+      })
+      .catch((err) => {
+        console.error("Error fetching revisions:", err);
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load history");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [schoolId]);
+
+  if (loading) {
+    return <p className="text-sm text-gray-500 py-4">{tForm("history.loading")}</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600 py-4">{error}</p>;
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-gray-500 py-4">{tForm("history.empty")}</p>;
+  }
+
+  return (
+    <ol className="space-y-3">
+      {revisions.map((revision) => (
+        <li key={revision.id} className="border border-gray-200 rounded-lg p-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className={`px-2 py-0.5 rounded text-xs font-medium ${ACTION_STYLES[revision.action]}`}>
+              {tForm(`history.actions.${revision.action}`)}
+            </span>
+            <span className="text-gray-900 font-medium">
+              {revision.author?.email ?? tForm("history.unknownAuthor")}
+            </span>
+            <span className="text-gray-500">
+              {new Date(revision.createdAt).toLocaleString(locale)}
+            </span>
+          </div>
+
+          {/* Creates and restores from the trash list every field, only edits are worth showing in detail */}
+          {(revision.action === "update" || revision.restoredFromId) && revision.changes.length > 0 && (
+            <table className="w-full text-sm mt-2">
+              <tbody>
+                {revision.changes.map((change) => (
+                  <tr key={change.path} className="border-t border-gray-100 align-top">
+                    <td className="py-1 pr-3 text-gray-700 w-1/3">{fieldLabel(change.path)}</td>
+                    <td className="py-1 pr-3 text-gray-500 line-through break-words">
+                      {formatFieldValue(change.from)}
+                    </td>
+                    <td className="py-1 text-gray-900 break-words">{formatFieldValue(change.to)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -8,24 +8,36 @@ import InfrastructureSection from "./forms/InfrastructureSection";
 import SchoolLevelSection from "./forms/SchoolLevelSection";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { SchoolFormData, schoolSchema } from "../schemas/schema";
+import { SchoolDataWithCreator, SchoolFormData, schoolSchema } from "../schemas/schema";
 import TopLevelFields from "./forms/TopLevelFields";
+import SchoolConflictView from "./SchoolConflictView";
+import SchoolHistory from "./SchoolHistory";
+import SchoolCollaborators from "./SchoolCollaborators";
+import SchoolPriceHistory from "./SchoolPriceHistory";
 import { toast } from "sonner";
-import { schoolsApi } from "../lib/api";
+import { ApiError, isPendingReview, SchoolConflictResponse, schoolsApi } from "../lib/api";
 
 type Props = {
-  school: SchoolFormData;
+  school: SchoolDataWithCreator;
   mode: "view" | "edit";
   onClose: () => void;
   onSave: (updated: SchoolFormData) => void;
+  // Adds history and collaborator tabs (requires authentication)
+  showHistory?: boolean;
 };
 
-export default function SchoolModal({ school, mode, onClose, onSave }: Props) {
+export default function SchoolModal({ school, mode, onClose, onSave, showHistory = false }: Props) {
   const modalRef = useRef<HTMLDivElement>(null);
   const closeButtonRef = useRef<HTMLButtonElement>(null);
   const tForm = useTranslations("form");
   const isEdit = mode === "edit";
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Version the edits are based on, sent as If-Match
+  const [version, setVersion] = useState(school.version);
+  // Set when someone else saved the school while it was being edited
+  const [conflict, setConflict] = useState<{ mine: SchoolFormData; latest: SchoolDataWithCreator } | null>(null);
+  const [view, setView] = useState<"details" | "history" | "collaborators">("details");
+  const showForm = !conflict && view === "details";
 
   const methods = useForm<SchoolFormData>({
     resolver: zodResolver(schoolSchema),
@@ -56,7 +68,7 @@ export default function SchoolModal({ school, mode, onClose, onSave }: Props) {
       exchangePrograms: "",
       hasOutdoorGarden: false,
       outdoorGarden: "",
-      address: { city: "", street: "", zipCode: "", district: "" },
+      address: { city: "", street: "", zipCode: "", district: "", latitude: null, longitude: null },
       infrastructure: {
         buildings: false,
         numberOfFloors: 0,
@@ -78,11 +90,12 @@ export default function SchoolModal({ school, mode, onClose, onSave }: Props) {
         mealsDescription: "",
         transportation: "",
         schoolUniform: false,
-        mandatorySportsClubs: "",
+        mandatorySportsClubs: [],
         teachingStyleBooks: "",
         textbooksPrice: "",
         clubsAndCircles: "",
-        foreignLanguages: "",
+        foreignLanguages: [],
+        fees: [],
       },
       basic: {
         price: 0,
@@ -93,11 +106,12 @@ export default function SchoolModal({ school, mode, onClose, onSave }: Props) {
         mealsDescription: "",
         transportation: "",
         schoolUniform: false,
-        mandatorySportsClubs: "",
+        mandatorySportsClubs: [],
         teachingStyleBooks: "",
         textbooksPrice: "",
         clubsAndCircles: "",
-        foreignLanguages: "",
+        foreignLanguages: [],
+        fees: [],
       },
       secondary: {
         price: 0,
@@ -108,11 +122,12 @@ export default function SchoolModal({ school, mode, onClose, onSave }: Props) {
         mealsDescription: "",
         transportation: "",
         schoolUniform: false,
-        mandatorySportsClubs: "",
+        mandatorySportsClubs: [],
         teachingStyleBooks: "",
         textbooksPrice: "",
         clubsAndCircles: "",
-        foreignLanguages: "",
+        foreignLanguages: [],
+        fees: [],
       },
     },
   });
@@ -129,24 +144,60 @@ export default function SchoolModal({ school, mode, onClose, onSave }: Props) {
     if (school) {
       console.log("Resetting with school:", school); // ✅ This helps you debug
       reset(school); // ✅ sets form values
+      setVersion(school.version);
     }
   }, [school, reset]);
 
-  const onSubmit = async (data: SchoolFormData) => {
+  const saveChanges = async (data: SchoolFormData, baseVersion?: number) => {
     setIsSubmitting(true);
     try {
-      const result = await schoolsApi.update(school.id!, data) as SchoolFormData;
+      const result = await schoolsApi.update(school.id!, data, baseVersion);
+      if (isPendingReview(result)) {
+        // Moderation: the grid keeps showing the school as it is until an admin approves
+        toast.success(tForm("moderation.submitted"));
+        onClose();
+        return;
+      }
       toast.success("School updated successfully!");
       onSave(result); // Update row in grid
       onClose();
     } catch (error) {
-      toast.error("Failed to update school");
+      const conflictData = error instanceof ApiError && error.status === 412
+        ? (error.data as SchoolConflictResponse)
+        : null;
+
+      if (conflictData?.current) {
+        // Let the user compare both versions before retrying
+        setConflict({ mine: data, latest: conflictData.current });
+        toast.warning(tForm("conflict.title"));
+      } else {
+        toast.error("Failed to update school");
+      }
       console.error("Update error:", error);
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const onSubmit = (data: SchoolFormData) => saveChanges(data, version);
+
+  // Overwrite the latest copy with the user's edits
+  const keepMyChanges = () => {
+    if (!conflict) return;
+    const { mine, latest } = conflict;
+    setVersion(latest.version);
+    setConflict(null);
+    saveChanges(mine, latest.version);
+  };
+
+  // Drop the user's edits and continue from the latest copy
+  const loadLatestVersion = () => {
+    if (!conflict) return;
+    reset(conflict.latest);
+    setVersion(conflict.latest.version);
+    setConflict(null);
+  };
+
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
       if (
@@ -231,8 +282,32 @@ export default function SchoolModal({ school, mode, onClose, onSave }: Props) {
 
         {/* Modal Body */}
         <div className="flex-1 overflow-y-auto px-6 py-4">
+          {showHistory && !conflict && (
+            <Tabs
+              value={view}
+              onValueChange={(value) => setView(value as "details" | "history" | "collaborators")}
+              className="mb-4"
+            >
+              <TabsList>
+                <TabsTrigger value="details">{tForm("history.details")}</TabsTrigger>
+                <TabsTrigger value="history">{tForm("history.title")}</TabsTrigger>
+                <TabsTrigger value="collaborators">{tForm("collaborators.title")}</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          )}
+          {view === "history" && !conflict && <SchoolHistory schoolId={school.id!} />}
+          {view === "collaborators" && !conflict && <SchoolCollaborators schoolId={school.id!} />}
+          {conflict && (
+            <SchoolConflictView
+              mine={conflict.mine}
+              latest={conflict.latest}
+              isSubmitting={isSubmitting}
+              onKeepMine={keepMyChanges}
+              onUseLatest={loadLatestVersion}
+            />
+          )}
           <FormProvider {...methods}>
-            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 [&_label]:text-sm [&_input]:text-sm [&_textarea]:text-sm [&_select]:text-sm">
+            <form onSubmit={handleSubmit(onSubmit)} hidden={!showForm} className="space-y-4 [&_label]:text-sm [&_input]:text-sm [&_textarea]:text-sm [&_select]:text-sm">
               <TopLevelFields
                 disabled={!isEdit}
                 register={register}
@@ -291,6 +366,7 @@ export default function SchoolModal({ school, mode, onClose, onSave }: Props) {
               </Tabs>
             </form>
           </FormProvider>
+          {showForm && school.id && <SchoolPriceHistory schoolId={school.id} canConfirm={isEdit} />}
         </div>
 
         {/* Modal Footer */}
@@ -302,7 +378,7 @@ export default function SchoolModal({ school, mode, onClose, onSave }: Props) {
           >
             {tForm("close")}
           </button>
-          {isEdit && (
+          {isEdit && showForm && (
             <button
               onClick={handleSubmit(onSubmit)}
               disabled={isSubmitting}
@@ -0,0 +1,176 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { LevelPriceEntry, SchoolPriceHistoryResponse, schoolsApi } from "../lib/api";
+
+type Props = {
+  schoolId: string;
+  // Lets editors confirm last year's prices for the current academic year
+  canConfirm?: boolean;
+};
+
+const LEVELS = ["primary", "basic", "secondary"] as const;
+
+type Level = (typeof LEVELS)[number];
+
+const CHART_WIDTH = 360;
+const CHART_HEIGHT = 140;
+const CHART_PADDING = 28;
+
+// Line chart of one level's price, one point per academic year
+function PriceChart({ history, label }: { history: LevelPriceEntry[]; label: string }) {
+  const prices = history.map((entry) => entry.price);
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+  const innerWidth = CHART_WIDTH - CHART_PADDING * 2;
+  const innerHeight = CHART_HEIGHT - CHART_PADDING * 2;
+
+  const points = history.map((entry, index) => ({
+    ...entry,
+    x: CHART_PADDING + (history.length > 1 ? (index / (history.length - 1)) * innerWidth : innerWidth / 2),
+    // Flat history sits in the middle
+    y: CHART_PADDING + (max === min ? innerHeight / 2 : ((max - entry.price) / (max - min)) * innerHeight),
+  }));
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      className="w-full max-w-md h-auto"
+      role="img"
+      aria-label={label}
+    >
+      <line
+        x1={CHART_PADDING}
+        x2={CHART_WIDTH - CHART_PADDING}
+        y1={CHART_HEIGHT - CHART_PADDING / 2}
+        y2={CHART_HEIGHT - CHART_PADDING / 2}
+        className="stroke-gray-200"
+      />
+      {points.length > 1 && (
+        <polyline
+          points={points.map((point) => `${point.x},${point.y}`).join(" ")}
+          fill="none"
+          className="stroke-blue-600"
+          strokeWidth={2}
+        />
+      )}
+      {points.map((point) => (
+        <g key={point.academicYear}>
+          <circle cx={point.x} cy={point.y} r={4} className="fill-blue-600" />
+          <text x={point.x} y={point.y - 8} textAnchor="middle" className="fill-gray-700 text-[10px]">
+            {point.price.toLocaleString()}
+          </text>
+          <text x={point.x} y={CHART_HEIGHT - 4} textAnchor="middle" className="fill-gray-500 text-[10px]">
+            {point.academicYear}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+export default function SchoolPriceHistory({ schoolId, canConfirm = false }: Props) {
+  const tForm = useTranslations("form");
+  const [prices, setPrices] = useState<SchoolPriceHistoryResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [confirming, setConfirming] = useState<Level | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    schoolsApi
+      .getPriceHistory(schoolId)
+      .then((response) => {
+        if (!cancelled) setPrices(response);
+      })
+      .catch((err) => {
+        console.error("Error fetching price history:", err);
+        if (!cancelled) setError(tForm("priceHistory.loadFailed"));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [schoolId, tForm]);
+
+  if (error) {
+    return <p className="text-sm text-red-600 py-4">{error}</p>;
+  }
+
+  if (!prices) {
+    return <p className="text-sm text-gray-500 py-4">{tForm("priceHistory.loading")}</p>;
+  }
+
+  const { currentAcademicYear } = prices;
+
+  // Last year's price stays, it is only recorded for the current year
+  const handleConfirm = async (level: Level, price: number) => {
+    setConfirming(level);
+    try {
+      await schoolsApi.recordPrice(schoolId, level, currentAcademicYear, price);
+      setPrices(await schoolsApi.getPriceHistory(schoolId));
+      toast.success(tForm("priceHistory.confirmed"));
+    } catch (err) {
+      console.error("Error confirming price:", err);
+      toast.error(tForm("priceHistory.confirmFailed"));
+    } finally {
+      setConfirming(null);
+    }
+  };
+
+  const levels = LEVELS.filter((level) => prices[level]);
+
+  return (
+    <div className="mt-6">
+      <h2 className="text-sm font-semibold text-gray-900 mb-3">{tForm("priceHistory.title")}</h2>
+      {levels.length === 0 && <p className="text-sm text-gray-500">{tForm("priceHistory.empty")}</p>}
+      <div className="grid gap-4 md:grid-cols-2">
+        {levels.map((level) => {
+          const timeline = prices[level]!;
+          return (
+            <div key={level} className="border border-gray-200 rounded-lg p-3">
+              <div className="flex flex-wrap items-baseline justify-between gap-2 mb-2">
+                <span className="text-sm font-medium text-gray-900">{tForm(level)}</span>
+                {timeline.price !== null && timeline.price > 0 && (
+                  <span className="text-sm text-gray-700">
+                    {timeline.price.toLocaleString()} {tForm("currency")}
+                    {timeline.priceAcademicYear && ` · ${timeline.priceAcademicYear}`}
+                  </span>
+                )}
+              </div>
+
+              {timeline.history.length > 0 ? (
+                <PriceChart
+                  history={timeline.history}
+                  label={tForm("priceHistory.chartLabel", { level: tForm(level) })}
+                />
+              ) : (
+                <p className="text-sm text-gray-500">{tForm("priceHistory.empty")}</p>
+              )}
+
+              {timeline.outdated && (
+                <div className="mt-2 flex flex-wrap items-center gap-2">
+                  <span className="text-xs text-amber-700">
+                    {tForm("priceOutdatedHint", { year: currentAcademicYear })}
+                  </span>
+                  {canConfirm && timeline.price !== null && (
+                    <button
+                      type="button"
+                      onClick={() => handleConfirm(level, timeline.price!)}
+                      disabled={confirming !== null}
+                      className="px-2 py-1 text-xs text-amber-800 border border-amber-300 rounded hover:bg-amber-50 disabled:opacity-50"
+                    >
+                      {tForm("priceHistory.confirm", { year: currentAcademicYear })}
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
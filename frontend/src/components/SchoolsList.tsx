@@ -1,137 +1,255 @@
 "use client";
 
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect } from "react";
 import { useTranslations } from "next-intl";
-
-interface School {
-  id: string;
-  name: string;
-  phoneNumber1: string | null;
-  schoolsWebSite: string | null;
-  address: {
-    city: string | null;
-    district: string | null;
-  } | null;
-  primary: {
-    price: number | null;
-  } | null;
-  basic: {
-    price: number | null;
-  } | null;
-  secondary: {
-    price: number | null;
-  } | null;
-}
+import { toast } from "sonner";
+import {
+  schoolsApi,
+  SchoolFacets,
+  SchoolFilterParams,
+  FacetBucket,
+  SchoolListItem,
+  SchoolPagination,
+  SchoolSort,
+} from "@/lib/api";
+import {
+  ACCREDITATION_STATUS,
+  FOREIGN_LANGUAGES,
+  INFRASTRUCTURE_FLAGS,
+  SCHOOL_LIST_FIELDS,
+  SPORTS_CLUBS,
+} from "@/constants";
+import { academicYearOf, isPriceOutdated } from "@/lib/academicYear";
+
+// Only "near me" results carry distanceKm
+type School = SchoolListItem & { distanceKm?: number };
 
 interface SchoolsListProps {
   schools: School[];
+  pagination?: SchoolPagination | null;
+  // Lets a parent (the district map) own the district filter
+  district?: string;
+  onDistrictChange?: (district: string) => void;
+}
+
+// Delay before filter and search changes are sent to the API (typing in inputs)
+const FILTER_DEBOUNCE_MS = 300;
+const SEARCH_LIMIT = 200;
+const SCHOOLS_PAGE_SIZE = 50;
+const NEARBY_RADIUS_KM = 10;
+const NEARBY_LIMIT = 100;
+
+const SORT_OPTIONS = ["newest", "name", "priceAsc", "priceDesc", "establishedYear", "recentlyUpdated"] as const;
+type SortOption = (typeof SORT_OPTIONS)[number];
+
+// Price sorting follows the selected education level (primary when "any")
+function toApiSort(option: SortOption, level: string): SchoolSort {
+  const priceField = `${level === "any" ? "primary" : level}.price` as SchoolSort;
+  switch (option) {
+    case "name":
+      return "name";
+    case "priceAsc":
+      return priceField;
+    case "priceDesc":
+      return `-${priceField}` as SchoolSort;
+    case "establishedYear":
+      return "establishedYear";
+    case "recentlyUpdated":
+      return "-updatedAt";
+    default:
+      return "-createdAt";
+  }
+}
+
+function facetCount(buckets: FacetBucket[] | undefined, value: string): number | undefined {
+  if (!buckets) return undefined;
+  return buckets.find((bucket) => bucket.value === value)?.count ?? 0;
 }
 
-export default function SchoolsList({ schools }: SchoolsListProps) {
+function withCount(label: string, count: number | undefined): string {
+  return count === undefined ? label : `${label} (${count})`;
+}
+
+// Shown next to a price that was not updated for the current academic year
+function OutdatedPrice({ year }: { year?: string | null }) {
+  const tForm = useTranslations("form");
+  return (
+    <span
+      className="ml-1 text-xs text-amber-700"
+      title={tForm("priceOutdatedHint", { year: academicYearOf() })}
+    >
+      ({year ? tForm("priceOutdated", { year }) : tForm("priceNotUpdated")})
+    </span>
+  );
+}
+
+export default function SchoolsList({ schools, pagination = null, district, onDistrictChange }: SchoolsListProps) {
   const tForm = useTranslations("form");
   const tAddress = useTranslations("address");
+  const tLevel = useTranslations("level");
+  const tInfrastructure = useTranslations("infrastructure");
 
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedCity, setSelectedCity] = useState("");
-  const [selectedDistrict, setSelectedDistrict] = useState("");
+  const [ownDistrict, setOwnDistrict] = useState("");
+  const selectedDistrict = district ?? ownDistrict;
+  const setSelectedDistrict = onDistrictChange ?? setOwnDistrict;
   const [selectedLevel, setSelectedLevel] = useState<string>("any");
   const [minPrice, setMinPrice] = useState<string>("");
   const [maxPrice, setMaxPrice] = useState<string>("");
+  const [selectedAccreditation, setSelectedAccreditation] = useState("");
+  const [selectedLanguage, setSelectedLanguage] = useState("");
+  const [selectedSport, setSelectedSport] = useState("");
+  const [selectedInfrastructure, setSelectedInfrastructure] = useState<string[]>([]);
+  const [sortOption, setSortOption] = useState<SortOption>("newest");
+
+  // Schools matching the server-side filters, starts with the server-rendered first page
+  const [matchingSchools, setMatchingSchools] = useState<School[]>(schools);
+  const [nextCursor, setNextCursor] = useState<string | null>(pagination?.nextCursor ?? null);
+  const [totalCount, setTotalCount] = useState<number>(pagination?.totalCount ?? schools.length);
+  const [facets, setFacets] = useState<SchoolFacets | null>(null);
+  const [isFiltering, setIsFiltering] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // The visitor's position while "near me" is on
+  const [position, setPosition] = useState<{ lat: number; lng: number } | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+
+  const sort = toApiSort(sortOption, selectedLevel);
+
+  const filters = useMemo<SchoolFilterParams>(() => ({
+    city: selectedCity || undefined,
+    district: selectedDistrict || undefined,
+    accreditationStatus: selectedAccreditation || undefined,
+    level: selectedLevel === "any" ? undefined : (selectedLevel as SchoolFilterParams["level"]),
+    minPrice: minPrice ? parseInt(minPrice, 10) : undefined,
+    maxPrice: maxPrice ? parseInt(maxPrice, 10) : undefined,
+    foreignLanguages: selectedLanguage ? [selectedLanguage] : undefined,
+    sportsClubs: selectedSport ? [selectedSport] : undefined,
+    infrastructure: selectedInfrastructure,
+  }), [selectedCity, selectedDistrict, selectedAccreditation, selectedLevel, minPrice, maxPrice, selectedLanguage, selectedSport, selectedInfrastructure]);
+
+  // Filtering, search ranking and facet counts are evaluated by the API
+  useEffect(() => {
+    let cancelled = false;
+    const query = searchQuery.trim();
+    const timeout = setTimeout(async () => {
+      try {
+        setIsFiltering(true);
+        if (query) {
+          // Search results come back ranked in one batch
+          const result = await schoolsApi.searchPublic<SchoolListItem>(query, filters, { limit: SEARCH_LIMIT, facets: true, fields: SCHOOL_LIST_FIELDS });
+          if (cancelled) return;
+          setMatchingSchools(result.data);
+          setNextCursor(null);
+          setTotalCount(result.total);
+          if (result.facets) setFacets(result.facets);
+          return;
+        }
+
+        if (position) {
+          // Nearest first, schools without coordinates are left out
+          const result = await schoolsApi.getNearbyPublic<SchoolListItem>({
+            ...position,
+            radiusKm: NEARBY_RADIUS_KM,
+            limit: NEARBY_LIMIT,
+            filters,
+            fields: SCHOOL_LIST_FIELDS,
+          });
+          if (cancelled) return;
+          setMatchingSchools(result.data);
+          setNextCursor(null);
+          setTotalCount(result.total);
+          return;
+        }
+
+        const result = await schoolsApi.getAllPublic<SchoolListItem>({ filters, sort, pageSize: SCHOOLS_PAGE_SIZE, facets: true, fields: SCHOOL_LIST_FIELDS });
+        if (cancelled) return;
+        setMatchingSchools(result.data);
+        setNextCursor(result.pagination.nextCursor);
+        setTotalCount(result.pagination.totalCount);
+        if (result.facets) setFacets(result.facets);
+      } catch (error) {
+        console.error("Failed to filter schools:", error);
+      } finally {
+        if (!cancelled) setIsFiltering(false);
+      }
+    }, FILTER_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [filters, searchQuery, sort, position]);
+
+  const toggleNearMe = () => {
+    if (position) {
+      setPosition(null);
+      return;
+    }
+    if (!navigator.geolocation) {
+      toast.error(tForm("nearMe.unavailable"));
+      return;
+    }
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        setPosition({ lat: coords.latitude, lng: coords.longitude });
+        setIsLocating(false);
+      },
+      (error) => {
+        console.error("Failed to get position:", error);
+        toast.error(tForm("nearMe.denied"));
+        setIsLocating(false);
+      }
+    );
+  };
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    try {
+      setIsLoadingMore(true);
+      const result = await schoolsApi.getAllPublic<SchoolListItem>({ filters, sort, pageSize: SCHOOLS_PAGE_SIZE, cursor: nextCursor, fields: SCHOOL_LIST_FIELDS });
+      setMatchingSchools((current) => [...current, ...result.data]);
+      setNextCursor(result.pagination.nextCursor);
+      setTotalCount(result.pagination.totalCount);
+    } catch (error) {
+      console.error("Failed to load more schools:", error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
 
   // Get unique cities and districts for filters
   const cities = useMemo(() => {
+    if (facets) return facets.city.map((bucket) => bucket.value);
     const citySet = new Set(schools.map(s => s.address?.city).filter((city): city is string => Boolean(city)));
     return Array.from(citySet).sort();
-  }, [schools]);
+  }, [schools, facets]);
 
   const districts = useMemo(() => {
+    if (facets) return facets.district.map((bucket) => bucket.value);
     const districtSet = new Set(schools.map(s => s.address?.district).filter((district): district is string => Boolean(district)));
     return Array.from(districtSet).sort();
-  }, [schools]);
-
-  // Filter schools based on search and filters
-  const filteredSchools = useMemo(() => {
-    return schools.filter((school) => {
-      const query = searchQuery.toLowerCase();
+  }, [schools, facets]);
 
-      // Search filter
-      const nameMatch = school.name?.toLowerCase().includes(query);
-      const cityMatch = school.address?.city?.toLowerCase().includes(query);
-
-      const districtKey = school.address?.district?.toLowerCase() || "";
-      let districtTranslated = "";
-      try {
-        districtTranslated = school.address?.district
-          ? tAddress(school.address.district).toLowerCase()
-          : "";
-      } catch {
-        districtTranslated = "";
-      }
-      const districtMatch = districtKey.includes(query) || districtTranslated.includes(query);
-
-      const searchMatch = !searchQuery || nameMatch || cityMatch || districtMatch;
-
-      // City filter
-      const cityFilterMatch = !selectedCity || school.address?.city === selectedCity;
-
-      // District filter
-      const districtFilterMatch = !selectedDistrict || school.address?.district === selectedDistrict;
-
-      // Education Level & Price filter
-      let levelAndPriceMatch = true;
-
-      const min = minPrice ? parseFloat(minPrice) : null;
-      const max = maxPrice ? parseFloat(maxPrice) : null;
-
-      // Only apply price filtering if at least one price filter is set
-      const hasPriceFilter = min !== null || max !== null;
-
-      if (selectedLevel === "any") {
-        // For "any level", check if ANY level has a price in range
-        const primaryPrice = school.primary?.price ?? 0;
-        const basicPrice = school.basic?.price ?? 0;
-        const secondaryPrice = school.secondary?.price ?? 0;
-
-        const prices = [primaryPrice, basicPrice, secondaryPrice].filter(p => p > 0);
-
-        if (hasPriceFilter) {
-          // If price filters are set, at least one price must match
-          if (prices.length === 0) {
-            // School has no prices, exclude it
-            levelAndPriceMatch = false;
-          } else {
-            // Check if ANY price is in range
-            levelAndPriceMatch = prices.some(price => {
-              const minMatch = min === null || price >= min;
-              const maxMatch = max === null || price <= max;
-              return minMatch && maxMatch;
-            });
-          }
-        }
-        // If no price filters, levelAndPriceMatch stays true
-      } else {
-        // For specific level, check only that level's price
-        let levelPrice = 0;
-        if (selectedLevel === "primary") levelPrice = school.primary?.price ?? 0;
-        else if (selectedLevel === "basic") levelPrice = school.basic?.price ?? 0;
-        else if (selectedLevel === "secondary") levelPrice = school.secondary?.price ?? 0;
-
-        if (hasPriceFilter) {
-          if (levelPrice === 0) {
-            // School doesn't have this level or price is 0, exclude it
-            levelAndPriceMatch = false;
-          } else {
-            const minMatch = min === null || levelPrice >= min;
-            const maxMatch = max === null || levelPrice <= max;
-            levelAndPriceMatch = minMatch && maxMatch;
-          }
-        }
-        // If no price filters, levelAndPriceMatch stays true
-      }
+  const toggleInfrastructure = (flag: string) => {
+    setSelectedInfrastructure((current) =>
+      current.includes(flag) ? current.filter((item) => item !== flag) : [...current, flag]
+    );
+  };
 
-      return searchMatch && cityFilterMatch && districtFilterMatch && levelAndPriceMatch;
-    });
-  }, [schools, searchQuery, selectedCity, selectedDistrict, selectedLevel, minPrice, maxPrice, tAddress]);
+  const hasActiveFilters =
+    searchQuery ||
+    selectedCity ||
+    selectedDistrict ||
+    selectedLevel !== "any" ||
+    minPrice ||
+    maxPrice ||
+    selectedAccreditation ||
+    selectedLanguage ||
+    selectedSport ||
+    selectedInfrastructure.length > 0 ||
+    position;
 
   const clearFilters = () => {
     setSearchQuery("");
@@ -140,6 +258,12 @@ export default function SchoolsList({ schools }: SchoolsListProps) {
     setSelectedLevel("any");
     setMinPrice("");
     setMaxPrice("");
+    setSelectedAccreditation("");
+    setSelectedLanguage("");
+    setSelectedSport("");
+    setSelectedInfrastructure([]);
+    setSortOption("newest");
+    setPosition(null);
   };
 
   return (
@@ -178,10 +302,10 @@ export default function SchoolsList({ schools }: SchoolsListProps) {
               onChange={(e) => setSelectedCity(e.target.value)}
               className="w-full px-4 py-2.5 border-2 border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
             >
-              <option value="">{tAddress("city")} - All</option>
+              <option value="">{tAddress("city")} - {tForm("all")}</option>
               {cities.map((city) => (
                 <option key={city} value={city}>
-                  {city}
+                  {withCount(city, facetCount(facets?.city, city))}
                 </option>
               ))}
             </select>
@@ -201,7 +325,7 @@ export default function SchoolsList({ schools }: SchoolsListProps) {
               <option value="">{tAddress("selectDistrict")}</option>
               {districts.map((district) => (
                 <option key={district} value={district}>
-                  {tAddress(district)}
+                  {withCount(tAddress(district), facetCount(facets?.district, district))}
                 </option>
               ))}
             </select>
@@ -261,12 +385,135 @@ export default function SchoolsList({ schools }: SchoolsListProps) {
           </div>
         </div>
 
-        {/* Filter status and clear button */}
-        <div className="mt-4 flex justify-between items-center">
+        {/* Row 3: Accreditation, Foreign Language, Sports Club */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+          {/* Accreditation Filter */}
+          <div>
+            <label htmlFor="accreditationStatus" className="block text-sm font-medium text-gray-700 mb-2">
+              📜 {tForm("accreditationStatus")}
+            </label>
+            <select
+              id="accreditationStatus"
+              value={selectedAccreditation}
+              onChange={(e) => setSelectedAccreditation(e.target.value)}
+              className="w-full px-4 py-2.5 border-2 border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+            >
+              <option value="">{tForm("all")}</option>
+              {ACCREDITATION_STATUS.map((status) => (
+                <option key={status} value={status}>
+                  {withCount(tForm(status), facetCount(facets?.accreditationStatus, status))}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Foreign Language Filter */}
+          <div>
+            <label htmlFor="foreignLanguage" className="block text-sm font-medium text-gray-700 mb-2">
+              🗣️ {tLevel("foreignLanguages")}
+            </label>
+            <select
+              id="foreignLanguage"
+              value={selectedLanguage}
+              onChange={(e) => setSelectedLanguage(e.target.value)}
+              className="w-full px-4 py-2.5 border-2 border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+            >
+              <option value="">{tForm("all")}</option>
+              {FOREIGN_LANGUAGES.map((language) => (
+                <option key={language} value={language}>
+                  {withCount(tLevel(language), facetCount(facets?.foreignLanguages, language))}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Sports Club Filter */}
+          <div>
+            <label htmlFor="sportsClub" className="block text-sm font-medium text-gray-700 mb-2">
+              ⚽ {tLevel("mandatorySportsClubs")}
+            </label>
+            <select
+              id="sportsClub"
+              value={selectedSport}
+              onChange={(e) => setSelectedSport(e.target.value)}
+              className="w-full px-4 py-2.5 border-2 border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+            >
+              <option value="">{tForm("all")}</option>
+              {SPORTS_CLUBS.map((sport) => (
+                <option key={sport} value={sport}>
+                  {withCount(tLevel(sport), facetCount(facets?.sportsClubs, sport))}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Row 4: Infrastructure */}
+        <div className="mt-4">
+          <span className="block text-sm font-medium text-gray-700 mb-2">
+            🏫 {tInfrastructure("title")}
+          </span>
+          <div className="flex flex-wrap gap-2">
+            {INFRASTRUCTURE_FLAGS.map((flag) => {
+              const isSelected = selectedInfrastructure.includes(flag);
+              return (
+                <button
+                  key={flag}
+                  type="button"
+                  onClick={() => toggleInfrastructure(flag)}
+                  aria-pressed={isSelected}
+                  className={`px-3 py-1.5 text-sm rounded-full border-2 transition-colors ${
+                    isSelected
+                      ? "bg-blue-600 border-blue-600 text-white"
+                      : "bg-white border-gray-300 text-gray-700 hover:border-blue-400"
+                  }`}
+                >
+                  {withCount(tInfrastructure(flag), facetCount(facets?.infrastructure, flag))}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Filter status, sorting and clear button */}
+        <div className="mt-4 flex flex-wrap gap-4 justify-between items-center">
           <p className="text-sm text-gray-600">
-            {tForm("searchResults")}: <span className="font-semibold">{filteredSchools.length}</span> / {schools.length}
+            {tForm("searchResults")}: <span className="font-semibold">{totalCount}</span>
+            {isFiltering && <span className="ml-2 text-gray-400">…</span>}
           </p>
-          {(searchQuery || selectedCity || selectedDistrict || selectedLevel !== "any" || minPrice || maxPrice) && (
+          <button
+            type="button"
+            onClick={toggleNearMe}
+            disabled={isLocating}
+            aria-pressed={Boolean(position)}
+            title={tForm("nearMe.hint", { radius: NEARBY_RADIUS_KM })}
+            className={`px-3 py-1.5 text-sm rounded-full border-2 transition-colors disabled:opacity-50 ${
+              position
+                ? "bg-blue-600 border-blue-600 text-white"
+                : "bg-white border-gray-300 text-gray-700 hover:border-blue-400"
+            }`}
+          >
+            🧭 {isLocating ? tForm("nearMe.locating") : tForm("nearMe.button")}
+          </button>
+          <div className="flex items-center gap-2">
+            <label htmlFor="sort" className="text-sm font-medium text-gray-700">
+              {tForm("sortBy")}
+            </label>
+            <select
+              id="sort"
+              value={sortOption}
+              onChange={(e) => setSortOption(e.target.value as SortOption)}
+              disabled={Boolean(searchQuery.trim()) || Boolean(position)}
+              className="px-3 py-1.5 text-sm border-2 border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white disabled:opacity-50"
+            >
+              {SORT_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {tForm(`sort.${option}`)}
+                </option>
+              ))}
+            </select>
+          </div>
+          {hasActiveFilters && (
             <button
               onClick={clearFilters}
               className="text-sm text-blue-600 hover:text-blue-800 font-medium"
@@ -278,7 +525,7 @@ export default function SchoolsList({ schools }: SchoolsListProps) {
       </div>
 
       {/* Schools List */}
-      {filteredSchools.length === 0 ? (
+      {matchingSchools.length === 0 ? (
         <div className="text-center py-12">
           <p className="text-gray-500 text-lg">{tForm("noSearchResults")}</p>
           <button
@@ -290,7 +537,7 @@ export default function SchoolsList({ schools }: SchoolsListProps) {
         </div>
       ) : (
         <div className="space-y-4">
-          {filteredSchools.map((school) => (
+          {matchingSchools.map((school) => (
             <div
               key={school.id}
               className="bg-white rounded-lg shadow-md hover:shadow-lg transition-shadow duration-200 p-4 md:p-6 border border-gray-200"
@@ -310,6 +557,14 @@ export default function SchoolsList({ schools }: SchoolsListProps) {
                   </span>
                 </div>
 
+                {/* Distance, "near me" only */}
+                {school.distanceKm !== undefined && (
+                  <div className="flex items-center">
+                    <span className="mr-2">🧭</span>
+                    <span className="text-sm">{tForm("nearMe.distance", { distance: school.distanceKm.toFixed(1) })}</span>
+                  </div>
+                )}
+
                 {/* Phone */}
                 {school.phoneNumber1 && (
                   <div className="flex items-center">
@@ -349,6 +604,7 @@ export default function SchoolsList({ schools }: SchoolsListProps) {
                     <span className="text-blue-700 font-semibold">
                       {school.primary.price.toLocaleString()} {tForm("currency")}
                     </span>
+                    {isPriceOutdated(school.primary) && <OutdatedPrice year={school.primary.priceAcademicYear} />}
                   </span>
                 )}
 
@@ -358,6 +614,7 @@ export default function SchoolsList({ schools }: SchoolsListProps) {
                     <span className="text-blue-700 font-semibold">
                       {school.basic.price.toLocaleString()} {tForm("currency")}
                     </span>
+                    {isPriceOutdated(school.basic) && <OutdatedPrice year={school.basic.priceAcademicYear} />}
                   </span>
                 )}
 
@@ -367,11 +624,24 @@ export default function SchoolsList({ schools }: SchoolsListProps) {
                     <span className="text-blue-700 font-semibold">
                       {school.secondary.price.toLocaleString()} {tForm("currency")}
                     </span>
+                    {isPriceOutdated(school.secondary) && <OutdatedPrice year={school.secondary.priceAcademicYear} />}
                   </span>
                 )}
               </div>
             </div>
           ))}
+
+          {nextCursor && (
+            <div className="text-center pt-2">
+              <button
+                onClick={loadMore}
+                disabled={isLoadingMore}
+                className="px-6 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-medium text-base"
+              >
+                {isLoadingMore ? tForm("loadingMore") : tForm("loadMore")}
+              </button>
+            </div>
+          )}
         </div>
       )}
     </>
@@ -0,0 +1,103 @@
+"use client";
+
+import { ComponentProps, useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { DistrictStats, SchoolPagination, schoolsApi } from "../lib/api";
+import DistrictMap, { DistrictMetric, SchoolMarker } from "./DistrictMap";
+import SchoolsList from "./SchoolsList";
+
+type Props = {
+  // First page for the list below the map, fetched by the page
+  schools: ComponentProps<typeof SchoolsList>["schools"];
+  pagination: SchoolPagination | null;
+};
+
+const MARKER_FIELDS = ["name", "address.latitude", "address.longitude"];
+
+const METRICS: DistrictMetric[] = ["count", "medianPrice"];
+
+// District map above the school list, clicking a district filters the list by it
+export default function SchoolsMapView({ schools, pagination }: Props) {
+  const tForm = useTranslations("form");
+  const [district, setDistrict] = useState("");
+  const [metric, setMetric] = useState<DistrictMetric>("count");
+  const [stats, setStats] = useState<DistrictStats[]>([]);
+  const [markers, setMarkers] = useState<SchoolMarker[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([
+      schoolsApi.getDistrictStatsPublic(),
+      schoolsApi.getAllPagesPublic({ filters: { hasLocation: true }, fields: MARKER_FIELDS }),
+    ])
+      .then(([districtStats, located]) => {
+        if (cancelled) return;
+        setStats(districtStats.data);
+        setMarkers(
+          located.flatMap((school) =>
+            school.id && school.address?.latitude != null && school.address.longitude != null
+              ? [{
+                  id: school.id,
+                  name: school.name ?? "",
+                  latitude: school.address.latitude,
+                  longitude: school.address.longitude,
+                }]
+              : []
+          )
+        );
+      })
+      .catch((error) => {
+        console.error("Failed to load the district map:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <>
+      <div className="bg-white rounded-xl p-4 sm:p-6 mb-6 shadow-md border border-gray-200">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">{tForm("districtMap.title")}</h2>
+            <p className="text-sm text-gray-600">{tForm("districtMap.description")}</p>
+          </div>
+          <div className="flex gap-2" role="group" aria-label={tForm("districtMap.colorBy")}>
+            {METRICS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setMetric(option)}
+                aria-pressed={metric === option}
+                className={`px-3 py-1.5 text-sm rounded-full border-2 transition-colors ${
+                  metric === option
+                    ? "bg-blue-600 border-blue-600 text-white"
+                    : "bg-white border-gray-300 text-gray-700 hover:border-blue-400"
+                }`}
+              >
+                {tForm(`districtMap.metric.${option}`)}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <DistrictMap
+          stats={stats}
+          metric={metric}
+          selected={district}
+          onSelect={setDistrict}
+          markers={markers}
+        />
+      </div>
+
+      <SchoolsList
+        schools={schools}
+        pagination={pagination}
+        district={district}
+        onDistrictChange={setDistrict}
+      />
+    </>
+  );
+}
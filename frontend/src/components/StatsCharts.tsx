@@ -0,0 +1,142 @@
+"use client";
+
+import { ActivityWeek, PriceStats } from "../lib/api";
+
+// Charts of the admin analytics, plain HTML and SVG like the price history chart
+
+export type BarItem = {
+  key: string;
+  label: string;
+  value: number;
+  // Shown next to the bar instead of the value
+  display?: string;
+};
+
+/**
+ * Horizontal bars, longest first as given; max defaults to the largest value
+ */
+export function BarList({ items, max }: { items: BarItem[]; max?: number }) {
+  const scale = max ?? Math.max(0, ...items.map((item) => item.value));
+
+  return (
+    <ul className="space-y-2">
+      {items.map((item) => (
+        <li key={item.key} className="grid grid-cols-[10rem_1fr_auto] items-center gap-3 text-sm">
+          <span className="truncate text-gray-700" title={item.label}>{item.label}</span>
+          <span className="h-3 rounded bg-gray-100">
+            <span
+              className="block h-3 rounded bg-blue-500"
+              style={{ width: `${scale ? (item.value / scale) * 100 : 0}%` }}
+            />
+          </span>
+          <span className="text-right tabular-nums text-gray-900">{item.display ?? item.value.toLocaleString()}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export type PriceRange = PriceStats & { key: string; label: string };
+
+/**
+ * One row per price range: a bar from min to max with a dot on the median
+ * All rows share one scale so they can be compared
+ */
+export function PriceRanges({ ranges, currency }: { ranges: PriceRange[]; currency: string }) {
+  const low = Math.min(...ranges.map((range) => range.min));
+  const high = Math.max(...ranges.map((range) => range.max));
+  const position = (price: number) => (high === low ? 50 : ((price - low) / (high - low)) * 100);
+
+  return (
+    <ul className="space-y-2">
+      {ranges.map((range) => (
+        <li key={range.key} className="grid grid-cols-[10rem_1fr_auto] items-center gap-3 text-sm">
+          <span className="truncate text-gray-700" title={range.label}>{range.label}</span>
+          <span className="relative h-3 rounded bg-gray-100">
+            <span
+              className="absolute h-3 rounded bg-teal-300"
+              style={{ left: `${position(range.min)}%`, width: `${Math.max(position(range.max) - position(range.min), 1)}%` }}
+            />
+            <span
+              className="absolute top-[-2px] h-4 w-1.5 -translate-x-1/2 rounded bg-teal-800"
+              style={{ left: `${position(range.median)}%` }}
+            />
+          </span>
+          <span className="text-right tabular-nums text-gray-900">
+            {range.min.toLocaleString()}–{range.max.toLocaleString()} {currency}
+            <span className="ml-2 text-gray-500">({Math.round(range.median).toLocaleString()})</span>
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+const CHART_WIDTH = 720;
+const CHART_HEIGHT = 200;
+const CHART_PADDING = 28;
+
+// Week labels under the chart, at most this many
+const MAX_WEEK_LABELS = 12;
+
+type WeeklyChartProps = {
+  weeks: ActivityWeek[];
+  label: string;
+  addedLabel: string;
+  updatedLabel: string;
+  formatWeek: (week: string) => string;
+};
+
+/**
+ * Schools added and updated per week as pairs of columns
+ */
+export function WeeklyActivityChart({ weeks, label, addedLabel, updatedLabel, formatWeek }: WeeklyChartProps) {
+  const max = Math.max(1, ...weeks.flatMap((week) => [week.added, week.updated]));
+  const innerWidth = CHART_WIDTH - CHART_PADDING * 2;
+  const innerHeight = CHART_HEIGHT - CHART_PADDING * 2;
+  const slot = innerWidth / Math.max(weeks.length, 1);
+  const barWidth = Math.max(Math.min(slot / 2 - 2, 24), 1);
+  const labelEvery = Math.ceil(weeks.length / MAX_WEEK_LABELS);
+  const baseline = CHART_PADDING + innerHeight;
+
+  const column = (value: number, x: number, className: string) => {
+    const height = (value / max) * innerHeight;
+    return <rect x={x} y={baseline - height} width={barWidth} height={height} className={className} />;
+  };
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label={label}>
+        <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={baseline} y2={baseline} className="stroke-gray-200" />
+        <text x={CHART_PADDING - 6} y={CHART_PADDING + 4} textAnchor="end" className="fill-gray-500 text-[10px]">
+          {max}
+        </text>
+        {weeks.map((week, index) => {
+          const x = CHART_PADDING + index * slot + slot / 2;
+          return (
+            <g key={week.week}>
+              <title>{`${formatWeek(week.week)}: ${addedLabel} ${week.added}, ${updatedLabel} ${week.updated}`}</title>
+              {column(week.added, x - barWidth - 1, "fill-blue-600")}
+              {column(week.updated, x + 1, "fill-teal-400")}
+              {index % labelEvery === 0 && (
+                <text x={x} y={CHART_HEIGHT - 6} textAnchor="middle" className="fill-gray-500 text-[10px]">
+                  {formatWeek(week.week)}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+      <div className="mt-2 flex items-center gap-4 text-xs text-gray-600">
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 bg-blue-600" />
+          {addedLabel}
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 bg-teal-400" />
+          {updatedLabel}
+        </span>
+      </div>
+    </div>
+  );
+}
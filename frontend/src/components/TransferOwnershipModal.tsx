@@ -0,0 +1,133 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { SchoolTransferResponse, schoolsApi, StaffUser, usersApi } from "../lib/api";
+
+interface TransferOwnershipModalProps {
+  schoolIds: string[];
+  onClose: () => void;
+  onTransferred: (result: SchoolTransferResponse) => void;
+}
+
+export default function TransferOwnershipModal({
+  schoolIds,
+  onClose,
+  onTransferred,
+}: TransferOwnershipModalProps) {
+  const t = useTranslations("form");
+  const cancelButtonRef = useRef<HTMLButtonElement>(null);
+  const [users, setUsers] = useState<StaffUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [ownerId, setOwnerId] = useState("");
+  const [isTransferring, setIsTransferring] = useState(false);
+
+  useEffect(() => {
+    usersApi
+      .getAll()
+      .then(({ data }) => setUsers(data))
+      .catch((err) => {
+        console.error("Error fetching users:", err);
+        toast.error(t("transfer.loadUsersFailed"));
+      })
+      .finally(() => setLoading(false));
+  }, [t]);
+
+  // Handle Esc key to close modal
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && !isTransferring) {
+        onClose();
+      }
+    };
+
+    document.addEventListener("keydown", handleEscape);
+    return () => document.removeEventListener("keydown", handleEscape);
+  }, [isTransferring, onClose]);
+
+  // Focus management: focus cancel button when modal opens
+  useEffect(() => {
+    cancelButtonRef.current?.focus();
+  }, []);
+
+  const handleTransfer = async () => {
+    if (!ownerId) return;
+    setIsTransferring(true);
+    try {
+      const result = await schoolsApi.transfer(schoolIds, ownerId);
+      toast.success(t("transfer.success", { count: result.transferred.length, email: result.owner.email }));
+      if (result.notFound.length) {
+        toast.warning(t("transfer.notFound", { count: result.notFound.length }));
+      }
+      onTransferred(result);
+      onClose();
+    } catch (error) {
+      console.error("Transfer error:", error);
+      toast.error(t("transfer.failed"));
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-[1001] flex items-center justify-center p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="transfer-modal-title"
+    >
+      <div
+        className="bg-white rounded-lg p-6 w-full max-w-lg shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 id="transfer-modal-title" className="text-xl font-semibold text-gray-900">
+          {t("transfer.title")}
+        </h3>
+        <p className="text-sm text-gray-500 mt-1 mb-4">
+          {t("transfer.description", { count: schoolIds.length })}
+        </p>
+
+        <label htmlFor="transfer-owner" className="block text-sm font-medium text-gray-700 mb-1">
+          {t("transfer.newOwner")}
+        </label>
+        {loading ? (
+          <p className="text-sm text-gray-500">{t("transfer.loadingUsers")}</p>
+        ) : (
+          <select
+            id="transfer-owner"
+            value={ownerId}
+            onChange={(e) => setOwnerId(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">{t("transfer.chooseOwner")}</option>
+            {users.map((user) => (
+              <option key={user.id} value={user.id}>
+                {user.email} ({user.role})
+              </option>
+            ))}
+          </select>
+        )}
+
+        <div className="flex gap-3 justify-end mt-6">
+          <button
+            ref={cancelButtonRef}
+            onClick={onClose}
+            disabled={isTransferring}
+            className="px-6 py-2.5 text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+          >
+            {t("cancel")}
+          </button>
+          <button
+            onClick={handleTransfer}
+            disabled={!ownerId || isTransferring}
+            className="px-6 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+          >
+            {isTransferring ? t("transfer.transferring") : t("transfer.confirm")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -11,6 +11,10 @@ import { DISTRICTS } from "@/constants";
 
 const districtOptions = DISTRICTS;
 
+// Empty coordinates are sent as null
+const optionalNumber = (value: unknown) =>
+  value === "" || value === null || value === undefined ? null : Number(value);
+
 type Props = {
   register: UseFormRegister<SchoolFormData>;
   errors: FieldErrors<SchoolFormData>;
@@ -95,6 +99,40 @@ export default function AddressSection({ register, errors, disabled }: Props) {
             </p>
           )}
         </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="address.latitude">{t("latitude")}</Label>
+            <input
+              id="address.latitude"
+              type="number"
+              step="any"
+              placeholder="41.7151"
+              {...register("address.latitude", { setValueAs: optionalNumber })}
+              className="w-full border p-2"
+              disabled={disabled}
+            />
+            {errors.address?.latitude && (
+              <p className="text-red-500 text-sm mt-1">{t("invalidLatitude")}</p>
+            )}
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="address.longitude">{t("longitude")}</Label>
+            <input
+              id="address.longitude"
+              type="number"
+              step="any"
+              placeholder="44.8271"
+              {...register("address.longitude", { setValueAs: optionalNumber })}
+              className="w-full border p-2"
+              disabled={disabled}
+            />
+            {errors.address?.longitude && (
+              <p className="text-red-500 text-sm mt-1">{t("invalidLongitude")}</p>
+            )}
+          </div>
+        </div>
       </CardContent>
     </Card>
   );
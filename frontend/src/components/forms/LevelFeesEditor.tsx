@@ -0,0 +1,246 @@
+//app/components/forms/LevelFeesEditor
+"use client";
+
+import React from "react";
+import { useTranslations } from "next-intl";
+import {
+  UseFormRegister,
+  FieldErrors,
+  Path,
+  Control,
+  useFieldArray,
+} from "react-hook-form";
+import { SchoolLevelKey } from "@/types/formData";
+import { FeeItem, SchoolFormData } from "@/schemas/schema";
+import { Label } from "../ui/Label";
+import { FEE_CURRENCIES, FEE_PERIODS, FEE_TYPES } from "@/constants";
+
+type Props = {
+  level: SchoolLevelKey;
+  register: UseFormRegister<SchoolFormData>;
+  errors: FieldErrors<SchoolFormData>;
+  control: Control<SchoolFormData>;
+  disabled?: boolean;
+};
+
+const NEW_FEE: FeeItem = {
+  type: "tuition",
+  amount: 0,
+  currency: "GEL",
+  period: "annual",
+};
+
+// Optional fields are sent as null when left empty
+const optionalNumber = (value: unknown) =>
+  value === "" || value === null || value === undefined ? null : Number(value);
+const optionalText = (value: unknown) =>
+  typeof value === "string" && value.trim() !== "" ? value.trim() : null;
+
+export default function LevelFeesEditor({
+  level,
+  register,
+  errors,
+  control,
+  disabled,
+}: Props) {
+  const t = useTranslations("level");
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: `${level}.fees`,
+  });
+
+  // Helper to build safe paths inside one fee
+  const feeField = (index: number, key: keyof FeeItem): Path<SchoolFormData> =>
+    `${level}.fees.${index}.${key}` as Path<SchoolFormData>;
+  const feeErrors = errors?.[level]?.fees;
+  const invalid = (index: number, key: keyof FeeItem) =>
+    feeErrors?.[index]?.[key] && (
+      <p className="text-red-500 text-sm">{t("fee.invalid")}</p>
+    );
+
+  return (
+    <div>
+      <Label>{t("fees")}</Label>
+      <p className="text-xs text-gray-500 mb-2">{t("fee.priceDerived")}</p>
+
+      {fields.length === 0 && (
+        <p className="text-sm text-gray-500 mb-2">{t("fee.empty")}</p>
+      )}
+
+      {fields.map((fee, index) => (
+        <div key={fee.id} className="border rounded p-3 mb-3 grid gap-3 md:grid-cols-4">
+          <label className="block">
+            {t("fee.type")}
+            <select
+              {...register(feeField(index, "type"))}
+              className="w-full border p-2"
+              disabled={disabled}
+            >
+              {FEE_TYPES.map((option) => (
+                <option key={option} value={option}>
+                  {t(`fee.types.${option}`)}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div>
+            <Label htmlFor={`levels.${level}.fees.${index}.amount`}>{t("fee.amount")}</Label>
+            <input
+              id={`levels.${level}.fees.${index}.amount`}
+              type="number"
+              min={0}
+              {...register(feeField(index, "amount"), { valueAsNumber: true })}
+              className="w-full border p-2"
+              disabled={disabled}
+            />
+            {invalid(index, "amount")}
+          </div>
+
+          <label className="block">
+            {t("fee.currency")}
+            <select
+              {...register(feeField(index, "currency"))}
+              className="w-full border p-2"
+              disabled={disabled}
+            >
+              {FEE_CURRENCIES.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block">
+            {t("fee.period")}
+            <select
+              {...register(feeField(index, "period"))}
+              className="w-full border p-2"
+              disabled={disabled}
+            >
+              {FEE_PERIODS.map((option) => (
+                <option key={option} value={option}>
+                  {t(`fee.periods.${option}`)}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div>
+            <Label htmlFor={`levels.${level}.fees.${index}.installments`}>
+              {t("fee.installments")}
+            </Label>
+            <input
+              id={`levels.${level}.fees.${index}.installments`}
+              type="number"
+              min={1}
+              max={12}
+              {...register(feeField(index, "installments"), { setValueAs: optionalNumber })}
+              className="w-full border p-2"
+              disabled={disabled}
+            />
+            {invalid(index, "installments")}
+          </div>
+
+          <div>
+            <Label htmlFor={`levels.${level}.fees.${index}.siblingDiscountPercent`}>
+              {t("fee.siblingDiscountPercent")}
+            </Label>
+            <input
+              id={`levels.${level}.fees.${index}.siblingDiscountPercent`}
+              type="number"
+              min={1}
+              max={100}
+              {...register(feeField(index, "siblingDiscountPercent"), { setValueAs: optionalNumber })}
+              className="w-full border p-2"
+              disabled={disabled}
+            />
+            {invalid(index, "siblingDiscountPercent")}
+          </div>
+
+          <div>
+            <Label htmlFor={`levels.${level}.fees.${index}.siblingDiscountFrom`}>
+              {t("fee.siblingDiscountFrom")}
+            </Label>
+            <input
+              id={`levels.${level}.fees.${index}.siblingDiscountFrom`}
+              type="number"
+              min={2}
+              max={10}
+              {...register(feeField(index, "siblingDiscountFrom"), { setValueAs: optionalNumber })}
+              className="w-full border p-2"
+              disabled={disabled}
+            />
+            {invalid(index, "siblingDiscountFrom")}
+          </div>
+
+          <div>
+            <Label htmlFor={`levels.${level}.fees.${index}.earlyPaymentDiscountPercent`}>
+              {t("fee.earlyPaymentDiscountPercent")}
+            </Label>
+            <input
+              id={`levels.${level}.fees.${index}.earlyPaymentDiscountPercent`}
+              type="number"
+              min={1}
+              max={100}
+              {...register(feeField(index, "earlyPaymentDiscountPercent"), { setValueAs: optionalNumber })}
+              className="w-full border p-2"
+              disabled={disabled}
+            />
+            {invalid(index, "earlyPaymentDiscountPercent")}
+          </div>
+
+          <div>
+            <Label htmlFor={`levels.${level}.fees.${index}.earlyPaymentDeadline`}>
+              {t("fee.earlyPaymentDeadline")}
+            </Label>
+            <input
+              id={`levels.${level}.fees.${index}.earlyPaymentDeadline`}
+              placeholder="08-31"
+              {...register(feeField(index, "earlyPaymentDeadline"), { setValueAs: optionalText })}
+              className="w-full border p-2"
+              disabled={disabled}
+            />
+            {invalid(index, "earlyPaymentDeadline")}
+          </div>
+
+          <div className="md:col-span-3">
+            <Label htmlFor={`levels.${level}.fees.${index}.description`}>
+              {t("fee.description")}
+            </Label>
+            <input
+              id={`levels.${level}.fees.${index}.description`}
+              {...register(feeField(index, "description"), { setValueAs: optionalText })}
+              className="w-full border p-2"
+              disabled={disabled}
+            />
+            {invalid(index, "description")}
+          </div>
+
+          {!disabled && (
+            <div className="flex items-end">
+              <button
+                type="button"
+                onClick={() => remove(index)}
+                className="px-3 py-2 text-sm text-red-600 border border-red-200 rounded hover:bg-red-50"
+              >
+                {t("fee.remove")}
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+
+      {!disabled && (
+        <button
+          type="button"
+          onClick={() => append(NEW_FEE)}
+          className="px-3 py-2 text-sm text-blue-600 border border-blue-200 rounded hover:bg-blue-50"
+        >
+          {t("fee.add")}
+        </button>
+      )}
+    </div>
+  );
+}
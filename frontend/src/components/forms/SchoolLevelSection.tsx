@@ -14,6 +14,7 @@ import { SchoolLevelKey, SchoolLevelFields } from "@/types/formData";
 import { SchoolFormData } from "@/schemas/schema";
 import { Card, CardContent } from "../ui/Card";
 import { Label } from "../ui/Label";
+import LevelFeesEditor from "./LevelFeesEditor";
 import {
   MEAL_OPTIONS,
   TRANSPORTATION_OPTIONS,
@@ -40,7 +41,7 @@ const transportationOptions = TRANSPORTATION_OPTIONS;
 const sportsClubsOptions = SPORTS_CLUBS;
 const foreignLanguagesOptions = FOREIGN_LANGUAGES;
 
-// multiple choice for mandatorySportsClubs and then combine as onre text.
+// mandatorySportsClubs and foreignLanguages are multiple choice, kept as arrays
 const textbooksPriceOptions = ["includedInThePrice", "notIncludedInThePrice"];
 
 export default function SchoolLevelSection({
@@ -107,6 +108,14 @@ export default function SchoolLevelSection({
           )}
         </div>
 
+        <LevelFeesEditor
+          level={level}
+          register={register}
+          errors={errors}
+          control={control}
+          disabled={disabled}
+        />
+
         <div>
           <Label htmlFor={`levels.${level}.discountAndPaymentTerms`}>
             {t("discountAndPaymentTerms")}
@@ -242,19 +251,19 @@ export default function SchoolLevelSection({
 
         <div>
           <Controller
-            name={field(level, "foreignLanguages")}
+            name={`${level}.foreignLanguages`}
             control={control}
-            defaultValue=""
+            defaultValue={[]}
             render={({ field }) => {
-              const selectedValues = field.value
-                ? field.value.toString().split(",")
+              const selectedValues: string[] = Array.isArray(field.value)
+                ? field.value
                 : [];
 
               const toggleValue = (value: string) => {
                 const newValues = selectedValues.includes(value)
                   ? selectedValues.filter((v: string) => v !== value)
                   : [...selectedValues, value];
-                field.onChange(newValues.join(","));
+                field.onChange(newValues);
               };
 
               return (
@@ -311,19 +320,19 @@ export default function SchoolLevelSection({
         </div>
         <div>
           <Controller
-            name={field(level, "mandatorySportsClubs")}
+            name={`${level}.mandatorySportsClubs`}
             control={control}
-            defaultValue=""
+            defaultValue={[]}
             render={({ field }) => {
-              const selectedValues = field.value
-                ? field.value.toString().split(",")
+              const selectedValues: string[] = Array.isArray(field.value)
+                ? field.value
                 : [];
 
               const toggleValue = (value: string) => {
                 const newValues = selectedValues.includes(value)
                   ? selectedValues.filter((v: string) => v !== value)
                   : [...selectedValues, value];
-                field.onChange(newValues.join(","));
+                field.onChange(newValues);
               };
 
               return (
@@ -43,6 +43,30 @@ export const ACCREDITATION_STATUS = [
   "inProgress",
 ] as const;
 
+// Only published schools are shown to the public
+export const SCHOOL_STATUSES = [
+  "draft",
+  "published",
+  "archived",
+] as const;
+
+export type SchoolStatus = (typeof SCHOOL_STATUSES)[number];
+
+// Files GET /api/schools/export can produce
+export const EXPORT_FORMATS = ["csv", "xlsx", "json"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const INFRASTRUCTURE_FLAGS = [
+  "buildings",
+  "stadiums",
+  "pools",
+  "courtyard",
+  "laboratories",
+  "library",
+  "cafe",
+] as const;
+
 export const DISTRICTS = [
   "vake-saburtalo",
   "isani-samgori",
@@ -57,3 +81,50 @@ export const MEDIA_TYPES = ["photo", "video"] as const;
 export const MEDIA_ATTACHMENTS = ["school", "primary", "basic", "secondary"] as const;
 
 export const LEVEL_NAMES = ["Primary", "Basic", "Secondary"] as const;
+
+// Fee schedule of a level, same values as the backend
+export const FEE_TYPES = [
+  "tuition",
+  "registration",
+  "textbooks",
+  "meals",
+  "transport",
+  "uniform",
+] as const;
+
+export const FEE_PERIODS = ["annual", "monthly", "one_off"] as const;
+
+export const FEE_CURRENCIES = ["GEL", "USD", "EUR"] as const;
+
+// Columns requested from the API (fields= query parameter), id is always returned
+export const SCHOOL_GRID_FIELDS = [
+  "name",
+  "phoneNumber1",
+  "phoneNumber2",
+  "phoneNumber3",
+  "schoolsWebSite",
+  "establishedYear",
+  "status",
+  "address.city",
+  "address.district",
+  "address.street",
+  "address.zipCode",
+  "creator.email",
+  "owner.email",
+  "tags",
+];
+
+// Fields of the public school list, SchoolListItem (lib/api) is their shape
+export const SCHOOL_LIST_FIELDS = [
+  "name",
+  "phoneNumber1",
+  "schoolsWebSite",
+  "address.city",
+  "address.district",
+  "primary.price",
+  "primary.priceAcademicYear",
+  "basic.price",
+  "basic.priceAcademicYear",
+  "secondary.price",
+  "secondary.priceAcademicYear",
+];
@@ -0,0 +1,17 @@
+// Academic years run September to June, same rule as the backend
+const ACADEMIC_YEAR_START_MONTH = 9;
+
+/**
+ * Academic year a day falls in, "2025/26" from September 2025 to August 2026
+ */
+export function academicYearOf(date: Date = new Date()): string {
+  const start = date.getMonth() + 1 >= ACADEMIC_YEAR_START_MONTH ? date.getFullYear() : date.getFullYear() - 1;
+  return `${start}/${String((start + 1) % 100).padStart(2, "0")}`;
+}
+
+/**
+ * Whether a level shows a price that was not set or confirmed for the current academic year
+ */
+export function isPriceOutdated(level: { price?: number | null; priceAcademicYear?: string | null } | null | undefined): boolean {
+  return !!level?.price && level.price > 0 && level.priceAcademicYear !== academicYearOf();
+}
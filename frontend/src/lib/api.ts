@@ -3,7 +3,8 @@
  */
 
 import { createClient } from './supabase/client';
-import { SchoolFormData, SchoolDataWithCreator } from '../schemas/schema';
+import { FeeItem, SchoolFormData, SchoolDataWithCreator } from '../schemas/schema';
+import { ExportFormat, SchoolStatus } from '../constants';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000';
 
@@ -11,6 +12,16 @@ interface RequestConfig extends RequestInit {
   params?: Record<string, string | number>;
 }
 
+/**
+ * Error thrown for non-2xx responses, keeps the status and the parsed error body
+ */
+export class ApiError<T = Record<string, unknown>> extends Error {
+  constructor(message: string, public readonly status: number, public readonly data: T) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
 class ApiClient {
   private baseURL: string;
 
@@ -49,18 +60,22 @@ class ApiClient {
   }
 
   private async request<T>(endpoint: string, config: RequestConfig = {}): Promise<T> {
-    const { params, ...fetchConfig } = config;
+    const { params, headers, ...fetchConfig } = config;
     const url = this.buildURL(endpoint, params);
 
     // Get auth headers
     const authHeaders = await this.getAuthHeaders();
+    // The browser sets the multipart boundary itself
+    if (fetchConfig.body instanceof FormData) {
+      delete authHeaders['Content-Type'];
+    }
 
     const defaultConfig: RequestInit = {
+      ...fetchConfig,
       headers: {
         ...authHeaders,
-        ...fetchConfig.headers,
+        ...headers,
       },
-      ...fetchConfig,
     };
 
     try {
@@ -68,7 +83,7 @@ class ApiClient {
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({ error: 'Request failed' }));
-        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+        throw new ApiError(errorData.error || `HTTP error! status: ${response.status}`, response.status, errorData);
       }
 
       return await response.json();
@@ -102,7 +117,7 @@ class ApiClient {
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({ error: 'Request failed' }));
-        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+        throw new ApiError(errorData.error || `HTTP error! status: ${response.status}`, response.status, errorData);
       }
 
       return await response.json();
@@ -112,60 +127,925 @@ class ApiClient {
     }
   }
 
-  async post<T>(endpoint: string, data?: unknown): Promise<T> {
+  async post<T>(endpoint: string, data?: unknown, params?: Record<string, string | number>): Promise<T> {
     return this.request<T>(endpoint, {
       method: 'POST',
+      params,
       body: JSON.stringify(data),
     });
   }
 
-  async put<T>(endpoint: string, data?: unknown): Promise<T> {
+  async put<T>(endpoint: string, data?: unknown, headers?: Record<string, string>): Promise<T> {
     return this.request<T>(endpoint, {
       method: 'PUT',
+      headers,
       body: JSON.stringify(data),
     });
   }
 
+  /**
+   * PATCH with JSON Merge Patch semantics (RFC 7396)
+   */
+  async patch<T>(endpoint: string, data?: unknown, headers?: Record<string, string>): Promise<T> {
+    return this.request<T>(endpoint, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/merge-patch+json', ...headers },
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * GET a file, resolves with its contents and the file name from Content-Disposition
+   */
+  async download(endpoint: string, params?: Record<string, string | number>): Promise<{ blob: Blob; fileName: string | null }> {
+    const url = this.buildURL(endpoint, params);
+    const authHeaders = await this.getAuthHeaders();
+
+    try {
+      const response = await fetch(url, { method: 'GET', headers: authHeaders });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Request failed' }));
+        throw new ApiError(errorData.error || `HTTP error! status: ${response.status}`, response.status, errorData);
+      }
+
+      const disposition = response.headers.get('Content-Disposition') ?? '';
+      return {
+        blob: await response.blob(),
+        fileName: /filename="([^"]+)"/.exec(disposition)?.[1] ?? null,
+      };
+    } catch (error) {
+      console.error('API request failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * POST a multipart form, e.g. a file upload
+   */
+  async upload<T>(endpoint: string, form: FormData): Promise<T> {
+    return this.request<T>(endpoint, { method: 'POST', body: form });
+  }
+
   async delete<T>(endpoint: string): Promise<T> {
     return this.request<T>(endpoint, { method: 'DELETE' });
   }
 }
 
+// Merge patch body: omitted keys are unchanged, null clears a field or removes a nested section
+type MergePatch<T> = {
+  [K in keyof T]?: (T[K] extends object ? MergePatch<T[K]> : T[K]) | null;
+};
+
+export type SchoolMergePatch = MergePatch<SchoolFormData>;
+
+export interface SchoolFilterParams {
+  city?: string;
+  district?: string;
+  accreditationStatus?: string;
+  status?: SchoolStatus;
+  level?: "primary" | "basic" | "secondary";
+  minPrice?: number;
+  maxPrice?: number;
+  infrastructure?: string[];
+  foreignLanguages?: string[];
+  sportsClubs?: string[];
+  meals?: string[];
+  transportation?: string[];
+  tags?: string[];
+  // Only schools with (true) or without (false) coordinates
+  hasLocation?: boolean;
+}
+
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+export type SchoolFacets = Record<
+  | "city"
+  | "district"
+  | "accreditationStatus"
+  | "infrastructure"
+  | "foreignLanguages"
+  | "sportsClubs"
+  | "meals"
+  | "transportation",
+  FacetBucket[]
+>;
+
+// Hard upper bound the API enforces for pageSize
+export const MAX_PAGE_SIZE = 100;
+
+// "-name" sorts descending, "name" ascending, several keys are comma-separated
+export type SchoolSortField =
+  | "name"
+  | "establishedYear"
+  | "createdAt"
+  | "updatedAt"
+  | "primary.price"
+  | "basic.price"
+  | "secondary.price"
+  | "primary.numberOfStudents"
+  | "basic.numberOfStudents"
+  | "secondary.numberOfStudents";
+
+export type SchoolSort = SchoolSortField | `-${SchoolSortField}`;
+
+// Sparse fieldsets: fields=name,address.city and include=media,primary.media
+// Without either the API returns full school records
+export interface SchoolSelection {
+  fields?: string[];
+  include?: string[];
+}
+
+export interface SchoolListParams extends SchoolSelection {
+  pageSize?: number;
+  cursor?: string;
+  sort?: SchoolSort | SchoolSort[];
+  filters?: SchoolFilterParams;
+  facets?: boolean;
+}
+
+export interface SchoolPagination {
+  pageSize: number;
+  sort: string;
+  nextCursor: string | null;
+  hasMore: boolean;
+  totalCount: number;
+}
+
+// Level of a school in the public list, see SchoolListItem
+export interface SchoolListLevel {
+  price: number | null;
+  priceAcademicYear: string | null;
+}
+
+// A school as the list endpoints return it for fields=SCHOOL_LIST_FIELDS, keep the two in sync
+export interface SchoolListItem {
+  id: string;
+  name: string;
+  phoneNumber1: string | null;
+  schoolsWebSite: string | null;
+  address: { city: string | null; district: string | null } | null;
+  primary: SchoolListLevel | null;
+  basic: SchoolListLevel | null;
+  secondary: SchoolListLevel | null;
+}
+
+// T is the shape of the selected fields, the full school without fields=
+export interface PaginatedSchoolsResponse<T = SchoolDataWithCreator> {
+  data: T[];
+  pagination: SchoolPagination;
+  facets?: SchoolFacets;
+}
+
+export type SchoolSearchResult<T = SchoolDataWithCreator> = T & {
+  rank: number;
+};
+
+export interface SchoolSearchResponse<T = SchoolDataWithCreator> {
+  data: SchoolSearchResult<T>[];
+  total: number;
+  facets?: SchoolFacets;
+}
+
+function toFilterQuery(filters: SchoolFilterParams): Record<string, string | number> {
+  const queryParams: Record<string, string | number> = {};
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value === undefined || value === "") return;
+    if (typeof value === "boolean") {
+      queryParams[key] = String(value);
+      return;
+    }
+    if (Array.isArray(value)) {
+      if (value.length) queryParams[key] = value.join(",");
+      return;
+    }
+    queryParams[key] = value;
+  });
+  return queryParams;
+}
+
+function toSelectionQuery(selection: SchoolSelection = {}): Record<string, string> {
+  const queryParams: Record<string, string> = {};
+  if (selection.fields?.length) queryParams.fields = selection.fields.join(",");
+  if (selection.include?.length) queryParams.include = selection.include.join(",");
+  return queryParams;
+}
+
+function toListQuery(params: SchoolListParams = {}): Record<string, string | number> {
+  const queryParams: Record<string, string | number> = {
+    ...toFilterQuery(params.filters ?? {}),
+    ...toSelectionQuery(params),
+  };
+  if (params.pageSize !== undefined) queryParams.pageSize = params.pageSize;
+  if (params.cursor) queryParams.cursor = params.cursor;
+  if (params.sort) queryParams.sort = Array.isArray(params.sort) ? params.sort.join(",") : params.sort;
+  if (params.facets) queryParams.facets = 'true';
+  return queryParams;
+}
+
+/**
+ * Follows nextCursor until the last page, for views that need every row (AG Grid)
+ */
+async function collectAllPages(
+  fetchPage: (cursor?: string) => Promise<PaginatedSchoolsResponse>
+): Promise<SchoolDataWithCreator[]> {
+  const schools: SchoolDataWithCreator[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await fetchPage(cursor);
+    schools.push(...page.data);
+    cursor = page.pagination.nextCursor ?? undefined;
+  } while (cursor);
+
+  return schools;
+}
+
+// Body of a 412 response: the school was saved by someone else in the meantime
+export interface SchoolConflictResponse {
+  error: string;
+  message: string;
+  current: SchoolDataWithCreator | null;
+}
+
+export type SchoolRevisionAction = 'create' | 'update' | 'delete' | 'restore';
+
+export interface FieldChange {
+  path: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface SchoolRevision {
+  id: string;
+  schoolId: string;
+  version: number;
+  action: SchoolRevisionAction;
+  restoredFromId: string | null;
+  createdAt: string;
+  author: { id: string; email: string } | null;
+  changes: FieldChange[];
+}
+
+export interface SchoolRevisionsResponse {
+  data: SchoolRevision[];
+  total: number;
+}
+
+export interface SchoolRevisionDiff {
+  revision: Omit<SchoolRevision, 'changes'> & { snapshot: SchoolDataWithCreator };
+  baseRevisionId: string | null;
+  changes: FieldChange[];
+}
+
+// A school in the trash, purgeAt is null when automatic purging is off
+export interface TrashedSchool {
+  id: string;
+  name: string;
+  deletedAt: string;
+  purgeAt: string | null;
+  address: { city: string | null; district: string | null } | null;
+  creator: { id: string; email: string } | null;
+  deleter: { id: string; email: string } | null;
+}
+
+export interface TrashedSchoolsResponse {
+  data: TrashedSchool[];
+  total: number;
+}
+
+export type ChangeSetStatus = 'pending' | 'approved' | 'partially_approved' | 'rejected';
+
+// An employee's creation, edit or delete waiting for review (moderation mode)
+export interface SchoolChangeSet {
+  id: string;
+  schoolId: string | null;
+  schoolName: string | null;
+  action: 'create' | 'update' | 'delete';
+  status: ChangeSetStatus;
+  changes: FieldChange[];
+  baseVersion: number | null;
+  appliedPaths: string[] | null;
+  reviewComment: string | null;
+  stale: boolean;
+  createdAt: string;
+  reviewedAt: string | null;
+  submitter: { id: string; email: string };
+  reviewer: { id: string; email: string } | null;
+}
+
+export interface SchoolChangeSetsResponse {
+  data: SchoolChangeSet[];
+  total: number;
+}
+
+// Returned with 202 instead of the school when an employee's change needs approval
+export interface PendingReviewResponse {
+  pendingReview: true;
+  changeSet: SchoolChangeSet;
+}
+
+export type DuplicateReason = 'name' | 'phone' | 'website' | 'address';
+
+// An existing school that looks like the one being created
+export interface DuplicateSchool {
+  schoolId: string;
+  name: string;
+  city: string | null;
+  status: SchoolStatus;
+  reasons: DuplicateReason[];
+  // Name similarity from 0 to 1
+  similarity: number;
+}
+
+// Body of the 409 create returns for a probable duplicate
+export interface DuplicateConflict {
+  error: 'Conflict';
+  message: string;
+  // Only the duplicates the user can see, the rest are counted
+  duplicates: DuplicateSchool[];
+  otherDuplicates: number;
+}
+
+// Schools that look like the same school, with every matching pair
+export interface DuplicateCluster {
+  schools: { id: string; name: string; city: string | null; status: SchoolStatus }[];
+  matches: { schoolIds: [string, string]; reasons: DuplicateReason[]; similarity: number }[];
+}
+
+export type MergeSide = 'target' | 'source';
+
+export interface SchoolMergeRequest {
+  // The school that stays
+  targetId: string;
+  // The duplicate, moved to the trash and redirected to the target
+  sourceId: string;
+  // Field path -> the school whose value is kept, the target's when not listed
+  fields: Record<string, MergeSide>;
+  targetVersion?: number;
+  sourceVersion?: number;
+}
+
+export interface SchoolMergeResponse {
+  school: SchoolDataWithCreator;
+  mergedId: string;
+  // Rows moved from the source to the target
+  moved: { media: number };
+}
+
+// An employee or admin who can own schools
+export interface StaffUser {
+  id: string;
+  email: string;
+  role: 'admin' | 'employee';
+}
+
+export interface SchoolTransferResponse {
+  owner: { id: string; email: string };
+  // Schools the owner already had are not listed
+  transferred: string[];
+  // Unknown ids and schools in the trash
+  notFound: string[];
+}
+
+export type CollaboratorAccess = 'view' | 'edit';
+
+// A user other than the owner with access to a school
+export interface SchoolCollaborator {
+  id: string;
+  userId: string;
+  access: CollaboratorAccess;
+  createdAt: string;
+  user: { id: string; email: string };
+  adder: { id: string; email: string } | null;
+}
+
+export interface SchoolCollaboratorsResponse {
+  owner: { id: string; email: string } | null;
+  data: SchoolCollaborator[];
+}
+
+// A cell that failed validation, column is null when the field has no mapped column
+export interface ImportCellError {
+  column: string | null;
+  field: string;
+  message: string;
+}
+
+// Either an existing school (schoolId) or an earlier row of the same file (row)
+export interface ImportDuplicate {
+  reasons: DuplicateReason[];
+  schoolId?: string;
+  row?: number;
+  name: string;
+}
+
+export interface ImportRowReport {
+  // Line or row number in the file
+  row: number;
+  name: string | null;
+  valid: boolean;
+  errors: ImportCellError[];
+  duplicates: ImportDuplicate[];
+}
+
+export type ImportStatus = 'committed' | 'rolled_back';
+
+export interface SchoolImport {
+  id: string;
+  fileName: string;
+  status: ImportStatus;
+  mapping: Record<string, string>;
+  createdCount: number;
+  skippedCount: number;
+  createdAt: string;
+  rolledBackAt: string | null;
+  creator: { id: string; email: string } | null;
+  rollbacker: { id: string; email: string } | null;
+}
+
+export interface SchoolImportDetail extends SchoolImport {
+  results: { row: number; status: 'created' | 'invalid' | 'duplicate'; schoolId?: string }[];
+}
+
+export interface ImportReport {
+  fileName: string;
+  columns: string[];
+  // Column header -> field path
+  mapping: Record<string, string>;
+  // Every field path a column can be mapped to
+  fields: string[];
+  summary: { total: number; valid: number; invalid: number; duplicates: number; importable: number };
+  rows: ImportRowReport[];
+  // Only after a commit
+  import?: SchoolImportDetail;
+}
+
+export interface ImportOptions {
+  mapping?: Record<string, string>;
+  commit?: boolean;
+  skipDuplicates?: boolean;
+}
+
+// One operation of POST /api/schools/bulk, applied to every targeted school
+export type BulkOperation =
+  | { type: 'setField'; field: string; value: string | number | boolean | string[] | null }
+  | { type: 'setStatus'; status: SchoolStatus }
+  | { type: 'delete' }
+  | { type: 'reassignOwner'; ownerId: string }
+  | { type: 'addTag'; tag: string }
+  | { type: 'removeTag'; tag: string };
+
+// Schools by id, or the GET /api/schools filters plus q
+export type BulkTarget = { ids: string[] } | { filter: Record<string, string | string[]> };
+
+export interface BulkActionResponse {
+  operation: BulkOperation['type'];
+  total: number;
+  // Updated plus deleted
+  changed: number;
+  results: { id: string; name: string | null; result: 'updated' | 'deleted' | 'unchanged' | 'not_found' }[];
+}
+
+// A level's fees from GET /api/schools/:id/fees, price is the annual tuition in GEL
+export interface LevelFeeSchedule {
+  price: number | null;
+  fees: FeeItem[];
+  // Cost of all fees over one school year, per currency
+  annualTotals: Record<string, number>;
+}
+
+export interface SchoolFeesResponse {
+  schoolId: string;
+  primary: LevelFeeSchedule | null;
+  basic: LevelFeeSchedule | null;
+  secondary: LevelFeeSchedule | null;
+}
+
+// Price of a level for one academic year ("2025/26", September to June)
+export interface LevelPriceEntry {
+  academicYear: string;
+  price: number;
+  recordedAt: string;
+}
+
+export interface LevelPriceTimeline {
+  price: number | null;
+  // Academic year the price was last set or confirmed for
+  priceAcademicYear: string | null;
+  outdated: boolean;
+  history: LevelPriceEntry[];
+}
+
+export interface SchoolPriceHistoryResponse {
+  schoolId: string;
+  currentAcademicYear: string;
+  primary: LevelPriceTimeline | null;
+  basic: LevelPriceTimeline | null;
+  secondary: LevelPriceTimeline | null;
+}
+
+// Schools per district for the district map, medianPrice is null without priced schools
+export interface DistrictStats {
+  district: string;
+  count: number;
+  located: number;
+  medianPrice: number | null;
+}
+
+export interface DistrictStatsResponse {
+  data: DistrictStats[];
+  priceLevel: 'primary' | 'basic' | 'secondary' | null;
+}
+
+export type NearbySchool<T = SchoolDataWithCreator> = T & {
+  distanceKm: number;
+};
+
+// Schools around a point, nearest first; total counts every school within the radius
+export interface NearbySchoolsResponse<T = SchoolDataWithCreator> {
+  data: NearbySchool<T>[];
+  total: number;
+  center: { lat: number; lng: number };
+  radiusKm: number;
+}
+
+export interface NearbyParams extends SchoolSelection {
+  lat: number;
+  lng: number;
+  radiusKm?: number;
+  limit?: number;
+  filters?: SchoolFilterParams;
+}
+
+// A street or house of the imported gazetteer, match says whether the house number matched too
+export interface GazetteerEntry {
+  id: string;
+  city: string;
+  district: string | null;
+  street: string;
+  houseNumber: string | null;
+  latitude: number;
+  longitude: number;
+  match: 'house' | 'street';
+}
+
+export interface GazetteerSummary {
+  total: number;
+  cities: { city: string; count: number }[];
+  importedAt: string | null;
+}
+
+export interface GazetteerImportReport {
+  fileName: string;
+  imported: number;
+  skipped: number;
+  errors: { row: number; message: string }[];
+  gazetteer: GazetteerSummary;
+}
+
+export interface GazetteerLookupResponse {
+  address: { city?: string | null; district?: string | null; street?: string | null };
+  data: GazetteerEntry[];
+}
+
+// GET /api/stats, value null is a school without the field filled in
+export interface StatsBucket {
+  value: string | null;
+  count: number;
+}
+
+export interface SharedStatsBucket extends StatsBucket {
+  share: number; // Of all schools counted, 0..1
+}
+
+export interface PriceStats {
+  schools: number;
+  min: number;
+  median: number;
+  max: number;
+  average: number;
+}
+
+type StatsLevels<T> = Record<'primary' | 'basic' | 'secondary', T>;
+
+export interface SchoolStatsResponse {
+  counts: {
+    total: number;
+    district: StatsBucket[];
+    city: StatsBucket[];
+    accreditationStatus: StatsBucket[];
+    status: StatsBucket[];
+  };
+  prices: StatsLevels<{ all: PriceStats | null; districts: (PriceStats & { district: string | null })[] }>;
+  students: StatsLevels<{ schools: number; average: number | null; total: number }>;
+  infrastructure: {
+    total: number;
+    flags: { flag: string; count: number; share: number }[];
+  };
+  programs: {
+    total: number;
+    foreignLanguages: SharedStatsBucket[];
+    sportsClubs: SharedStatsBucket[];
+  };
+  generatedAt: string;
+}
+
+// A week starts on Monday, its date is YYYY-MM-DD
+export interface ActivityWeek {
+  week: string;
+  added: number;
+  updated: number; // Schools edited, each counted once a week
+}
+
+export interface StaffContribution {
+  userId: string;
+  email: string;
+  role: 'admin' | 'employee' | null;
+  created: number;
+  updated: number;
+  deleted: number;
+  restored: number;
+  schools: number;
+  lastActivityAt: string;
+}
+
+export interface ActivityStatsResponse {
+  from: string;
+  to: string;
+  weeks: ActivityWeek[];
+  contributions: StaffContribution[];
+  generatedAt: string;
+}
+
+export function isPendingReview(value: unknown): value is PendingReviewResponse {
+  return typeof value === 'object' && value !== null && 'pendingReview' in value;
+}
+
+/**
+ * If-Match header for a school loaded at the given version
+ * Updates are rejected with 412 once the school has moved on
+ */
+function ifMatch(version?: number): Record<string, string> {
+  return version === undefined ? {} : { 'If-Match': `"v${version}"` };
+}
+
 // Create and export a singleton instance
 export const api = new ApiClient(API_BASE_URL);
 
 // Export typed API methods for schools
 export const schoolsApi = {
   // Authenticated requests (applies RBAC)
-  getAll: (params?: { page?: number; pageSize?: number; lightweight?: boolean }): Promise<SchoolDataWithCreator[]> => {
-    const queryParams: Record<string, string | number> = {};
-    if (params?.page !== undefined) queryParams.page = params.page;
-    if (params?.pageSize !== undefined) queryParams.pageSize = params.pageSize;
-    queryParams.lightweight = params?.lightweight ? 'true' : 'false';
-    return api.get<SchoolDataWithCreator[]>('/api/schools', queryParams);
-  },
+  // One page of schools, pass pagination.nextCursor back as cursor for the next page
+  getAll: (params?: SchoolListParams): Promise<PaginatedSchoolsResponse> =>
+    api.get<PaginatedSchoolsResponse>('/api/schools', toListQuery(params)),
+
+  getAllPages: (params?: Omit<SchoolListParams, 'cursor' | 'pageSize'>): Promise<SchoolDataWithCreator[]> =>
+    collectAllPages((cursor) =>
+      api.get<PaginatedSchoolsResponse>('/api/schools', toListQuery({ ...params, cursor, pageSize: MAX_PAGE_SIZE }))
+    ),
 
   getById: (id: string): Promise<SchoolDataWithCreator> =>
     api.get<SchoolDataWithCreator>(`/api/schools/${id}`),
 
+  // Ranked full-text search, Georgian and Latin spellings match each other
+  search: (q: string, params?: SchoolSelection & { limit?: number }): Promise<SchoolSearchResponse> => {
+    const queryParams: Record<string, string | number> = { ...toSelectionQuery(params), q };
+    if (params?.limit !== undefined) queryParams.limit = params.limit;
+    return api.get<SchoolSearchResponse>('/api/schools/search', queryParams);
+  },
+
+  // One operation on many schools in a single transaction (admin only)
+  bulk: (target: BulkTarget, operation: BulkOperation): Promise<BulkActionResponse> =>
+    api.post<BulkActionResponse>('/api/schools/bulk', { ...target, operation }),
+
+  // Every school matching the filters as a file; q narrows it to the search results
+  export: (
+    format: ExportFormat,
+    params: { filters?: SchoolFilterParams; q?: string; lang: string }
+  ): Promise<{ blob: Blob; fileName: string | null }> => {
+    const queryParams: Record<string, string | number> = {
+      ...toFilterQuery(params.filters ?? {}),
+      format,
+      lang: params.lang,
+    };
+    if (params.q) queryParams.q = params.q;
+    return api.download('/api/schools/export', queryParams);
+  },
+
   // Public requests (no authentication, always shows all schools)
-  getAllPublic: (params?: { page?: number; pageSize?: number; lightweight?: boolean }): Promise<SchoolDataWithCreator[]> => {
-    const queryParams: Record<string, string | number> = {};
-    if (params?.page !== undefined) queryParams.page = params.page;
-    if (params?.pageSize !== undefined) queryParams.pageSize = params.pageSize;
-    queryParams.lightweight = params?.lightweight ? 'true' : 'false';
-    return api.publicGet<SchoolDataWithCreator[]>('/api/schools', queryParams);
+  getAllPublic: <T = SchoolDataWithCreator>(params?: SchoolListParams): Promise<PaginatedSchoolsResponse<T>> =>
+    api.publicGet<PaginatedSchoolsResponse<T>>('/api/schools', toListQuery(params)),
+
+  getAllPagesPublic: (params?: Omit<SchoolListParams, 'cursor' | 'pageSize'>): Promise<SchoolDataWithCreator[]> =>
+    collectAllPages((cursor) =>
+      api.publicGet<PaginatedSchoolsResponse>('/api/schools', toListQuery({ ...params, cursor, pageSize: MAX_PAGE_SIZE }))
+    ),
+
+  searchPublic: <T = SchoolDataWithCreator>(
+    q: string,
+    filters: SchoolFilterParams = {},
+    params?: SchoolSelection & { limit?: number; facets?: boolean }
+  ): Promise<SchoolSearchResponse<T>> => {
+    const queryParams: Record<string, string | number> = { ...toFilterQuery(filters), ...toSelectionQuery(params), q };
+    if (params?.limit !== undefined) queryParams.limit = params.limit;
+    if (params?.facets) queryParams.facets = 'true';
+    return api.publicGet<SchoolSearchResponse<T>>('/api/schools/search', queryParams);
   },
 
   getByIdPublic: (id: string): Promise<SchoolDataWithCreator> =>
     api.publicGet<SchoolDataWithCreator>(`/api/schools/${id}`),
 
-  create: (data: SchoolFormData): Promise<SchoolDataWithCreator> =>
-    api.post<SchoolDataWithCreator>('/api/schools', data),
+  // Published schools per district, the district filter itself is ignored
+  getDistrictStatsPublic: (filters: SchoolFilterParams = {}): Promise<DistrictStatsResponse> =>
+    api.publicGet<DistrictStatsResponse>('/api/schools/districts', toFilterQuery(filters)),
+
+  // Published schools within radiusKm of a point, nearest first
+  getNearbyPublic: <T = SchoolDataWithCreator>(params: NearbyParams): Promise<NearbySchoolsResponse<T>> => {
+    const queryParams: Record<string, string | number> = {
+      ...toFilterQuery(params.filters ?? {}),
+      ...toSelectionQuery(params),
+      lat: params.lat,
+      lng: params.lng,
+    };
+    if (params.radiusKm !== undefined) queryParams.radiusKm = params.radiusKm;
+    if (params.limit !== undefined) queryParams.limit = params.limit;
+    return api.publicGet<NearbySchoolsResponse<T>>('/api/schools/nearby', queryParams);
+  },
+
+  // Writes return PendingReviewResponse instead when moderation is on for the user
+  // A probable duplicate fails with ApiError 409 carrying DuplicateConflict, allowDuplicates creates it anyway
+  create: (data: SchoolFormData, allowDuplicates = false): Promise<SchoolDataWithCreator | PendingReviewResponse> =>
+    api.post<SchoolDataWithCreator | PendingReviewResponse>(
+      '/api/schools',
+      data,
+      allowDuplicates ? { allowDuplicates: 'true' } : undefined
+    ),
+
+  // version is the one returned by getById, a stale version fails with ApiError 412
+  update: (id: string, data: SchoolFormData, version?: number): Promise<SchoolDataWithCreator | PendingReviewResponse> =>
+    api.put<SchoolDataWithCreator | PendingReviewResponse>(`/api/schools/${id}`, data, ifMatch(version)),
+
+  patch: (id: string, data: SchoolMergePatch, version?: number): Promise<SchoolDataWithCreator | PendingReviewResponse> =>
+    api.patch<SchoolDataWithCreator | PendingReviewResponse>(`/api/schools/${id}`, data, ifMatch(version)),
+
+  // Fee schedules of the school's levels, works without authentication for published schools
+  getFees: (id: string): Promise<SchoolFeesResponse> =>
+    api.get<SchoolFeesResponse>(`/api/schools/${id}/fees`),
+
+  // Replaces one level's fees, the level price follows the tuition in GEL
+  updateFees: (
+    id: string,
+    level: 'primary' | 'basic' | 'secondary',
+    fees: FeeItem[],
+    version?: number
+  ): Promise<SchoolDataWithCreator | PendingReviewResponse> =>
+    api.put<SchoolDataWithCreator | PendingReviewResponse>(`/api/schools/${id}/fees/${level}`, { fees }, ifMatch(version)),
+
+  // Price of each level per academic year, works without authentication for published schools
+  getPriceHistory: (id: string): Promise<SchoolPriceHistoryResponse> =>
+    api.get<SchoolPriceHistoryResponse>(`/api/schools/${id}/prices`),
+
+  // Confirms or corrects a level's price for an academic year; a new price for the current year
+  // is saved like update and answered with the school instead
+  recordPrice: (
+    id: string,
+    level: 'primary' | 'basic' | 'secondary',
+    academicYear: string,
+    price: number
+  ): Promise<SchoolPriceHistoryResponse | SchoolDataWithCreator | PendingReviewResponse> =>
+    api.put<SchoolPriceHistoryResponse | SchoolDataWithCreator | PendingReviewResponse>(
+      `/api/schools/${id}/prices/${level}`,
+      { academicYear, price }
+    ),
+
+  // Only published schools are shown to the public, new schools start as drafts
+  setStatus: (id: string, status: SchoolStatus): Promise<SchoolDataWithCreator | PendingReviewResponse> =>
+    api.put<SchoolDataWithCreator | PendingReviewResponse>(`/api/schools/${id}/status`, { status }),
+
+  // Coordinates of the school's address (admin only), null for both clears them
+  setLocation: (id: string, latitude: number | null, longitude: number | null): Promise<SchoolDataWithCreator> =>
+    api.put<SchoolDataWithCreator>(`/api/schools/${id}/location`, { latitude, longitude }),
+
+  // Hands schools to another employee or admin (admin only), recorded in each school's history
+  transfer: (schoolIds: string[], ownerId: string): Promise<SchoolTransferResponse> =>
+    api.post<SchoolTransferResponse>('/api/schools/transfer', { schoolIds, ownerId }),
 
-  update: (id: string, data: SchoolFormData): Promise<SchoolDataWithCreator> =>
-    api.put<SchoolDataWithCreator>(`/api/schools/${id}`, data),
+  // Collaborators can view or edit a school they do not own, managed by the owner and admins
+  getCollaborators: (id: string): Promise<SchoolCollaboratorsResponse> =>
+    api.get<SchoolCollaboratorsResponse>(`/api/schools/${id}/collaborators`),
+
+  // Adds the user, or changes their access when they already collaborate
+  addCollaborator: (id: string, email: string, access: CollaboratorAccess): Promise<SchoolCollaborator> =>
+    api.post<SchoolCollaborator>(`/api/schools/${id}/collaborators`, { email, access }),
+
+  removeCollaborator: (id: string, userId: string): Promise<{ message: string }> =>
+    api.delete<{ message: string }>(`/api/schools/${id}/collaborators/${userId}`),
+
+  // Moves the school to the trash, admins can restore it until it is purged
+  delete: (id: string): Promise<{ message: string } | PendingReviewResponse> =>
+    api.delete<{ message: string } | PendingReviewResponse>(`/api/schools/${id}`),
+
+  // Groups of schools that look like the same school (admin only)
+  getDuplicates: (): Promise<{ data: DuplicateCluster[]; total: number }> =>
+    api.get<{ data: DuplicateCluster[]; total: number }>('/api/schools/duplicates'),
+
+  // Merges a duplicate into another school (admin only), a school changed since it was loaded fails with ApiError 412
+  merge: (request: SchoolMergeRequest): Promise<SchoolMergeResponse> =>
+    api.post<SchoolMergeResponse>('/api/schools/merge', request),
+
+  // Trash (admin only)
+  getTrash: (limit?: number): Promise<TrashedSchoolsResponse> =>
+    api.get<TrashedSchoolsResponse>('/api/schools/trash', limit ? { limit } : undefined),
+
+  restoreFromTrash: (id: string): Promise<SchoolDataWithCreator> =>
+    api.post<SchoolDataWithCreator>(`/api/schools/${id}/restore`),
+
+  purge: (id: string): Promise<{ message: string }> =>
+    api.delete<{ message: string }>(`/api/schools/${id}/purge`),
+
+  // Revision history, newest first
+  getRevisions: (id: string, limit?: number): Promise<SchoolRevisionsResponse> =>
+    api.get<SchoolRevisionsResponse>(`/api/schools/${id}/revisions`, limit ? { limit } : undefined),
+
+  // Diff of a revision against the previous one, or against another revision
+  getRevisionDiff: (id: string, revisionId: string, against?: string): Promise<SchoolRevisionDiff> =>
+    api.get<SchoolRevisionDiff>(
+      `/api/schools/${id}/revisions/${revisionId}/diff`,
+      against ? { against } : undefined
+    ),
+
+  // Re-applies a past revision, recorded as a new "restore" revision
+  restoreRevision: (id: string, revisionId: string): Promise<SchoolDataWithCreator | PendingReviewResponse> =>
+    api.post<SchoolDataWithCreator | PendingReviewResponse>(`/api/schools/${id}/snapshots/${revisionId}/restore`),
+};
+
+// Moderation queue: admins review all submissions, employees follow their own
+export const changeSetsApi = {
+  getAll: (status?: ChangeSetStatus[]): Promise<SchoolChangeSetsResponse> =>
+    api.get<SchoolChangeSetsResponse>('/api/change-sets', status?.length ? { status: status.join(',') } : undefined),
+
+  getById: (id: string): Promise<SchoolChangeSet> =>
+    api.get<SchoolChangeSet>(`/api/change-sets/${id}`),
+
+  // Without paths every change is applied
+  approve: (id: string, paths?: string[]): Promise<SchoolChangeSet> =>
+    api.post<SchoolChangeSet>(`/api/change-sets/${id}/approve`, paths ? { paths } : {}),
+
+  reject: (id: string, comment: string): Promise<SchoolChangeSet> =>
+    api.post<SchoolChangeSet>(`/api/change-sets/${id}/reject`, { comment }),
+};
+
+// Spreadsheet imports (admin only), a dry run unless commit is set
+export const importsApi = {
+  run: (file: File, options: ImportOptions = {}): Promise<ImportReport> => {
+    const form = new FormData();
+    form.append('file', file);
+    if (options.mapping) form.append('mapping', JSON.stringify(options.mapping));
+    if (options.commit) form.append('commit', 'true');
+    if (options.skipDuplicates !== undefined) form.append('skipDuplicates', String(options.skipDuplicates));
+    return api.upload<ImportReport>('/api/schools/import', form);
+  },
+
+  getAll: (): Promise<{ data: SchoolImport[]; total: number }> =>
+    api.get<{ data: SchoolImport[]; total: number }>('/api/schools/imports'),
+
+  rollback: (id: string): Promise<{ import: SchoolImport; trashed: number }> =>
+    api.post<{ import: SchoolImport; trashed: number }>(`/api/schools/imports/${id}/rollback`),
+};
+
+// Street/house gazetteer for placing schools on the map (admin only)
+export const geoApi = {
+  // Replaces the whole gazetteer
+  importGazetteer: (file: File): Promise<GazetteerImportReport> => {
+    const form = new FormData();
+    form.append('file', file);
+    return api.upload<GazetteerImportReport>('/api/geo/gazetteer', form);
+  },
+
+  getGazetteer: (): Promise<GazetteerSummary> =>
+    api.get<GazetteerSummary>('/api/geo/gazetteer'),
+
+  // Entries for a school's address, best match first
+  lookupSchool: (schoolId: string): Promise<GazetteerLookupResponse> =>
+    api.get<GazetteerLookupResponse>('/api/geo/lookup', { schoolId }),
+};
+
+// Directory statistics, admins also count drafts and archived schools
+export const statsApi = {
+  getAll: (): Promise<SchoolStatsResponse> =>
+    api.get<SchoolStatsResponse>('/api/stats'),
+
+  // Admin only; from and to are YYYY-MM-DD, both included
+  getActivity: ({ from, to }: { from?: string; to?: string } = {}): Promise<ActivityStatsResponse> =>
+    api.get<ActivityStatsResponse>('/api/stats/activity', { ...(from && { from }), ...(to && { to }) }),
+};
 
-  delete: (id: string): Promise<{ message: string }> =>
-    api.delete<{ message: string }>(`/api/schools/${id}`),
+// Staff accounts (admin only)
+export const usersApi = {
+  getAll: (): Promise<{ data: StaffUser[] }> =>
+    api.get<{ data: StaffUser[] }>('/api/auth/users'),
 };
@@ -0,0 +1,95 @@
+import { DISTRICTS } from "@/constants";
+import districtsGeoJson from "@/constants/tbilisiDistricts.json";
+
+// Tbilisi district outlines (GeoJSON, bundled) drawn as SVG, no tile service involved.
+// The outlines are simplified by hand and only good for a district overview;
+// the outskirts have the city as a hole, fill them with fill-rule evenodd.
+
+export type District = (typeof DISTRICTS)[number];
+
+// [longitude, latitude]
+type Position = [number, number];
+
+type DistrictFeature = {
+  properties: { district: string; labelAt?: number[] };
+  geometry: { coordinates: number[][][] };
+};
+
+export interface DistrictShape {
+  district: District;
+  rings: Position[][];
+  labelAt?: Position;
+}
+
+export const DISTRICT_SHAPES: DistrictShape[] = (districtsGeoJson.features as DistrictFeature[]).map(
+  ({ properties, geometry }) => ({
+    district: properties.district as District,
+    rings: geometry.coordinates as Position[][],
+    labelAt: properties.labelAt as Position | undefined,
+  })
+);
+
+const positions = DISTRICT_SHAPES.flatMap((shape) => shape.rings.flat());
+const minLng = Math.min(...positions.map(([lng]) => lng));
+const maxLng = Math.max(...positions.map(([lng]) => lng));
+const minLat = Math.min(...positions.map(([, lat]) => lat));
+const maxLat = Math.max(...positions.map(([, lat]) => lat));
+
+// A degree of longitude is shorter than one of latitude this far north
+const LNG_SCALE = Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180);
+
+export const MAP_WIDTH = 800;
+export const MAP_HEIGHT = Math.round((MAP_WIDTH * (maxLat - minLat)) / ((maxLng - minLng) * LNG_SCALE));
+
+/**
+ * SVG point of a coordinate, null when it is outside the mapped area
+ */
+export function project(longitude: number, latitude: number): { x: number; y: number } | null {
+  if (longitude < minLng || longitude > maxLng || latitude < minLat || latitude > maxLat) return null;
+  return {
+    x: ((longitude - minLng) / (maxLng - minLng)) * MAP_WIDTH,
+    y: ((maxLat - latitude) / (maxLat - minLat)) * MAP_HEIGHT,
+  };
+}
+
+/**
+ * SVG path of a district, one closed subpath per ring
+ */
+export function districtPath(shape: DistrictShape): string {
+  return shape.rings
+    .map((ring) =>
+      ring
+        .map(([lng, lat], index) => {
+          const { x, y } = project(lng, lat)!;
+          return `${index === 0 ? "M" : "L"}${x.toFixed(1)} ${y.toFixed(1)}`;
+        })
+        .join(" ") + " Z"
+    )
+    .join(" ");
+}
+
+/**
+ * Where a district's name goes: its labelAt or the middle of its outline
+ */
+export function labelPoint(shape: DistrictShape): { x: number; y: number } {
+  if (shape.labelAt) return project(...shape.labelAt)!;
+  // The closing position repeats the first one
+  const outline = shape.rings[0].slice(0, -1);
+  const lng = outline.reduce((sum, [x]) => sum + x, 0) / outline.length;
+  const lat = outline.reduce((sum, [, y]) => sum + y, 0) / outline.length;
+  return project(lng, lat)!;
+}
+
+// Light to dark, for districts with fewer to more schools or cheaper to pricier ones
+export const SHADES = ["#dbeafe", "#bfdbfe", "#93c5fd", "#60a5fa", "#3b82f6", "#1d4ed8"];
+export const NO_DATA_SHADE = "#f3f4f6";
+
+/**
+ * Shade of a value within the range of all districts
+ */
+export function shadeOf(value: number | null | undefined, min: number, max: number): string {
+  if (value === null || value === undefined) return NO_DATA_SHADE;
+  if (max === min) return SHADES[SHADES.length - 1];
+  const index = Math.floor(((value - min) / (max - min)) * (SHADES.length - 1));
+  return SHADES[Math.min(SHADES.length - 1, Math.max(0, index))];
+}
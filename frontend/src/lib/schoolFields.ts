@@ -0,0 +1,49 @@
+import { useCallback } from "react";
+import { useTranslations } from "next-intl";
+
+/**
+ * Translated label for a dotted school field path ("name", "address.city", "primary.price")
+ * Falls back to the raw path for fields without a translation
+ */
+export function useSchoolFieldLabel() {
+  const tForm = useTranslations("form");
+  const tAddress = useTranslations("address");
+  const tInfrastructure = useTranslations("infrastructure");
+  const tLevel = useTranslations("level");
+
+  return useCallback(
+    (path: string) => {
+      const [section, field] = path.split(".");
+      // Fields with their own namespace (status) keep the label under "label"
+      const sectionLabel = tForm.has(`${section}.label`)
+        ? tForm(`${section}.label`)
+        : tForm.has(section)
+          ? tForm(section)
+          : section;
+      if (!field) return sectionLabel;
+
+      const t = section === "address" ? tAddress : section === "infrastructure" ? tInfrastructure : tLevel;
+      return `${sectionLabel} › ${t.has(field) ? t(field) : field}`;
+    },
+    [tForm, tAddress, tInfrastructure, tLevel]
+  );
+}
+
+/**
+ * Display value for a field in diffs and comparisons
+ */
+export function formatFieldValue(value: unknown): string {
+  if (typeof value === "boolean") return value ? "✓" : "✗";
+  if (value === null || value === undefined || value === "") return "—";
+  // Sports clubs and languages of a level, or its fees
+  if (Array.isArray(value)) return value.length ? value.map(formatListItem).join(", ") : "—";
+  return String(value);
+}
+
+// A fee reads as its filled-in values ("tuition 500 GEL monthly")
+function formatListItem(item: unknown): string {
+  if (item === null || typeof item !== "object") return String(item);
+  return Object.values(item)
+    .filter((value) => value !== null && value !== undefined && value !== "")
+    .join(" ");
+}
@@ -2,6 +2,31 @@
 
 import { z } from "zod";
 import { georgianPhoneSchema } from "@/lib/validators";
+import { FEE_CURRENCIES, FEE_PERIODS, FEE_TYPES, SchoolStatus } from "@/constants";
+
+const percentSchema = z.number().int().min(1).max(100);
+
+// One item of a level's fee schedule, amounts in whole units of the currency
+export const feeItemSchema = z.object({
+  type: z.enum(FEE_TYPES),
+  amount: z.number().int().min(0),
+  currency: z.enum(FEE_CURRENCIES),
+  period: z.enum(FEE_PERIODS),
+  installments: z.number().int().min(1).max(12).nullable().optional(),
+  siblingDiscountPercent: percentSchema.nullable().optional(),
+  // The discount applies from this child on, 2 = the second child
+  siblingDiscountFrom: z.number().int().min(2).max(10).nullable().optional(),
+  earlyPaymentDiscountPercent: percentSchema.nullable().optional(),
+  // MM-DD, paid in full before this day of the school year
+  earlyPaymentDeadline: z
+    .string()
+    .regex(/^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/)
+    .nullable()
+    .optional(),
+  description: z.string().max(500).nullable().optional(),
+});
+
+export type FeeItem = z.infer<typeof feeItemSchema>;
 
 // Define school level section schema
 const schoolLevelSchema = z.object({
@@ -13,11 +38,12 @@ const schoolLevelSchema = z.object({
   mealsDescription: z.string().optional(),
   transportation: z.string().optional(),
   schoolUniform: z.boolean(),
-  mandatorySportsClubs: z.string().optional(),
-  foreignLanguages: z.string().optional(),
+  mandatorySportsClubs: z.array(z.string()).optional(),
+  foreignLanguages: z.array(z.string()).optional(),
   teachingStyleBooks: z.string().optional(),
   clubsAndCircles: z.string().optional(),
   textbooksPrice: z.string().optional(),
+  fees: z.array(feeItemSchema).optional(),
 });
 
 // Main schema
@@ -70,6 +96,8 @@ export const schoolSchema = z.object({
     street: z.string().optional(),
     zipCode: z.string().optional(),
     district: z.string().optional(),
+    latitude: z.number().min(-90).max(90).nullable().optional(),
+    longitude: z.number().min(-180).max(180).nullable().optional(),
   }),
 
   infrastructure: z.object({
@@ -97,6 +125,15 @@ export interface SchoolDataWithCreator extends SchoolFormData {
     email: string;
     id: string;
   };
+  // Who can see and edit the school, starts as the creator
+  owner?: {
+    email: string;
+    id: string;
+  };
   createdAt?: string;
   updatedAt?: string;
+  version?: number;
+  status?: SchoolStatus;
+  // Set by admins through bulk actions
+  tags?: string[];
 }
@@ -4,7 +4,7 @@
 //import { FieldErrors, UseFormRegister } from "react-hook-form";
 
 import { z } from "zod";
-import { schoolSchema } from "@/schemas/schema";
+import { FeeItem, schoolSchema } from "@/schemas/schema";
 
 export type SchoolFormData = z.infer<typeof schoolSchema>;
 
@@ -27,12 +27,13 @@ export type SchoolLevelFields = {
   mealsDescription: string;
   transportation: string;
   schoolUniform: boolean;
-  mandatorySportsClubs: string;
+  mandatorySportsClubs: string[];
   teachingStyleBooks: string;
   textbooksPrice: string;
   clubsAndCircles: string;
   duration: string;
-  foreignLanguages: string;
+  foreignLanguages: string[];
+  fees: FeeItem[];
 };
 
 export type SchoolLevelKey = "primary" | "basic" | "secondary";
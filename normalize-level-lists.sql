@@ -0,0 +1,85 @@
+-- Move mandatory sports clubs and foreign languages of school levels to rows
+-- Primary, Basic and Secondary kept them as comma-joined strings ("chess,football"),
+-- they now live in LevelMandatorySport and level_foreign_languages, one row per value
+-- RUN ONCE, BEFORE `npx prisma db push --accept-data-loss`: the push drops the old columns
+-- Safe to re-run before the push, values that already have a row are skipped
+
+BEGIN;
+
+-- Same table `prisma db push` creates, the push then only adds the indexes
+CREATE TABLE IF NOT EXISTS "level_foreign_languages" (
+    "id" TEXT NOT NULL,
+    "school_id" TEXT NOT NULL,
+    "level_name" "LevelName" NOT NULL,
+    "language" TEXT NOT NULL,
+    "primary_id" TEXT,
+    "basic_id" TEXT,
+    "secondary_id" TEXT,
+    CONSTRAINT "level_foreign_languages_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "level_foreign_languages_school_id_fkey" FOREIGN KEY ("school_id") REFERENCES "SchoolData"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "level_foreign_languages_primary_id_fkey" FOREIGN KEY ("primary_id") REFERENCES "Primary"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "level_foreign_languages_basic_id_fkey" FOREIGN KEY ("basic_id") REFERENCES "Basic"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "level_foreign_languages_secondary_id_fkey" FOREIGN KEY ("secondary_id") REFERENCES "Secondary"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- Every level record with its two lists
+CREATE TEMP TABLE level_lists ON COMMIT DROP AS
+SELECT 'Primary'::"LevelName" AS level_name, "id" AS level_id, "schoolId" AS school_id,
+       "mandatorySportsClubs" AS sports, "foreignLanguages" AS languages
+FROM "Primary"
+UNION ALL
+SELECT 'Basic'::"LevelName", "id", "schoolId", "mandatorySportsClubs", "foreignLanguages"
+FROM "Basic"
+UNION ALL
+SELECT 'Secondary'::"LevelName", "id", "schoolId", "mandatorySportsClubs", "foreignLanguages"
+FROM "Secondary";
+
+-- One row per trimmed, non-empty value of each list
+INSERT INTO "LevelMandatorySport"
+    ("id", "school_id", "school_name", "level_name", "level_id", "sport", "primaryId", "basicId", "secondaryId")
+SELECT
+    gen_random_uuid()::text,
+    l.school_id,
+    s."name",
+    l.level_name,
+    l.level_id,
+    v.sport,
+    CASE WHEN l.level_name = 'Primary' THEN l.level_id END,
+    CASE WHEN l.level_name = 'Basic' THEN l.level_id END,
+    CASE WHEN l.level_name = 'Secondary' THEN l.level_id END
+FROM level_lists l
+JOIN "SchoolData" s ON s."id" = l.school_id
+CROSS JOIN LATERAL (
+    SELECT DISTINCT btrim(value) AS sport FROM regexp_split_to_table(coalesce(l.sports, ''), ',') AS value
+) v
+WHERE v.sport <> ''
+  AND NOT EXISTS (
+      SELECT 1 FROM "LevelMandatorySport" m WHERE m."level_id" = l.level_id AND m."sport" = v.sport
+  );
+
+INSERT INTO "level_foreign_languages"
+    ("id", "school_id", "level_name", "language", "primary_id", "basic_id", "secondary_id")
+SELECT
+    gen_random_uuid()::text,
+    l.school_id,
+    l.level_name,
+    v.language,
+    CASE WHEN l.level_name = 'Primary' THEN l.level_id END,
+    CASE WHEN l.level_name = 'Basic' THEN l.level_id END,
+    CASE WHEN l.level_name = 'Secondary' THEN l.level_id END
+FROM level_lists l
+CROSS JOIN LATERAL (
+    SELECT DISTINCT btrim(value) AS language FROM regexp_split_to_table(coalesce(l.languages, ''), ',') AS value
+) v
+WHERE v.language <> ''
+  AND NOT EXISTS (
+      SELECT 1 FROM "level_foreign_languages" f
+      WHERE coalesce(f."primary_id", f."basic_id", f."secondary_id") = l.level_id AND f."language" = v.language
+  );
+
+COMMIT;
+
+-- Compare with the old columns before pushing the schema
+SELECT
+    (SELECT count(*) FROM "LevelMandatorySport") AS sport_rows,
+    (SELECT count(*) FROM "level_foreign_languages") AS language_rows;
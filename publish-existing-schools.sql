@@ -0,0 +1,6 @@
+-- Publish schools that existed before draft/published statuses were introduced
+-- New schools start as drafts, so without this script every existing school
+-- disappears from the public site after `npx prisma db push`
+-- RUN ONCE, right after pushing the schema: later drafts would be published too
+
+UPDATE "SchoolData" SET "status" = 'published' WHERE "status" = 'draft';